@@ -20,6 +20,17 @@
  * - Financial goal integration
  */
 
+import {
+  type ValidationIssue,
+  addIssue,
+  checkNumber,
+  checkOneOf,
+  checkCondition,
+  enforceValidation,
+  withValidationIssues
+} from '../utils/validation.js';
+import { type CalculatorOptions, type TraceStep, createTrace, withTrace, traceRound } from '../utils/trace.js';
+
 /**
  * Budget category types
  */
@@ -326,6 +337,10 @@ export interface BudgetResult {
     percent: number;
     color: string;
   }[];
+  /** Input validation issues (present only when issues were found) */
+  validationIssues?: ValidationIssue[];
+  /** Calculation steps (present only with { trace: true }) */
+  trace?: TraceStep[];
 }
 
 /**
@@ -778,6 +793,76 @@ function generateWarnings(
   return warnings;
 }
 
+/**
+ * Validate budget inputs
+ * 
+ * Allocation percentages that do not total 100% are reported as a warning,
+ * since the calculator normalizes them rather than failing.
+ * 
+ * @param inputs - Calculation parameters
+ * @returns Validation issues (empty when inputs are valid)
+ */
+export function validateBudgetInputs(inputs: BudgetInputs): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  
+  checkNumber(issues, 'monthlyIncome', inputs.monthlyIncome, { min: 0, exclusiveMin: true });
+  
+  let baseRule: BudgetRule | undefined;
+  if (typeof inputs.budgetRule === 'string') {
+    if (checkOneOf(issues, 'budgetRule', inputs.budgetRule, Object.keys(BUDGET_RULES))) {
+      baseRule = BUDGET_RULES[inputs.budgetRule];
+    }
+  } else if (inputs.budgetRule) {
+    const ruleValid = [
+      checkNumber(issues, 'budgetRule.needsPercent', inputs.budgetRule.needsPercent, { min: 0, max: 100 }),
+      checkNumber(issues, 'budgetRule.wantsPercent', inputs.budgetRule.wantsPercent, { min: 0, max: 100 }),
+      checkNumber(issues, 'budgetRule.savingsPercent', inputs.budgetRule.savingsPercent, { min: 0, max: 100 }),
+    ].every(Boolean);
+    if (ruleValid) {
+      baseRule = inputs.budgetRule;
+    }
+  } else {
+    baseRule = BUDGET_RULES['standard'];
+  }
+  
+  let customValid = true;
+  for (const field of ['customNeedsPercent', 'customWantsPercent', 'customSavingsPercent'] as const) {
+    if (inputs[field] !== undefined) {
+      customValid = checkNumber(issues, field, inputs[field], { min: 0, max: 100 }) && customValid;
+    }
+  }
+  if (baseRule && customValid) {
+    const totalPercent =
+      (inputs.customNeedsPercent ?? baseRule.needsPercent) +
+      (inputs.customWantsPercent ?? baseRule.wantsPercent) +
+      (inputs.customSavingsPercent ?? baseRule.savingsPercent);
+    if (totalPercent <= 0) {
+      addIssue(issues, 'budgetRule', 'invalid_sum', 'Budget percentages must total more than 0%');
+    } else {
+      checkCondition(
+        issues,
+        Math.abs(totalPercent - 100) <= 0.01,
+        'budgetRule',
+        'invalid_sum',
+        `Budget percentages total ${totalPercent.toFixed(1)}% and will be scaled to 100%`,
+        'warning'
+      );
+    }
+  }
+  
+  inputs.expenses?.forEach((expense, i) => {
+    checkNumber(issues, `expenses[${i}].amount`, expense.amount, { min: 0, label: 'Amount' });
+    checkOneOf(issues, `expenses[${i}].category`, expense.category, ['needs', 'wants', 'savings'] as const);
+  });
+  
+  checkNumber(issues, 'savingsGoalTarget', inputs.savingsGoalTarget, { min: 0, required: false });
+  checkNumber(issues, 'currentEmergencyFund', inputs.currentEmergencyFund, { min: 0, required: false });
+  checkNumber(issues, 'emergencyFundMonths', inputs.emergencyFundMonths, { min: 0, max: 60, required: false });
+  checkNumber(issues, 'annualIncome', inputs.annualIncome, { min: 0, required: false });
+  
+  return issues;
+}
+
 /**
  * Calculate budget allocation based on 50/30/20 rule or custom percentages
  * 
@@ -786,6 +871,8 @@ function generateWarnings(
  * actual expenses against those targets.
  * 
  * @param inputs - Calculation parameters
+ * @param options - Validation options (strict mode throws on invalid inputs)
+ *   and `trace` to return the calculation steps
  * @returns Complete calculation results with recommendations
  * 
  * @example
@@ -815,7 +902,13 @@ function generateWarnings(
  * console.log(result.needs.status); // 'under' if under budget
  * ```
  */
-export function calculateBudget(inputs: BudgetInputs): BudgetResult {
+export function calculateBudget(
+  inputs: BudgetInputs,
+  options: CalculatorOptions = {}
+): BudgetResult {
+  const validationIssues = enforceValidation(validateBudgetInputs(inputs), options);
+  const trace = createTrace(options);
+  
   const {
     monthlyIncome,
     budgetRule = 'standard',
@@ -859,6 +952,31 @@ export function calculateBudget(inputs: BudgetInputs): BudgetResult {
   const wantsTarget = monthlyIncome * (appliedRule.wantsPercent / 100);
   const savingsTarget = monthlyIncome * (appliedRule.savingsPercent / 100);
   
+  trace.add({
+    name: 'budgetRule',
+    description: totalPercent !== 100
+      ? `Split percentages rescaled to total 100% (they totalled ${totalPercent}%)`
+      : 'Needs / wants / savings split',
+    inputs: {
+      needsPercent: customNeedsPercent ?? baseRule.needsPercent,
+      wantsPercent: customWantsPercent ?? baseRule.wantsPercent,
+      savingsPercent: customSavingsPercent ?? baseRule.savingsPercent,
+    },
+    result: `${traceRound(appliedRule.needsPercent, 1)}/${traceRound(appliedRule.wantsPercent, 1)}/${traceRound(appliedRule.savingsPercent, 1)}`,
+    source: typeof budgetRule === 'string' ? `BUDGET_RULES['${budgetRule}']` : undefined,
+  });
+  trace.add({
+    name: 'savingsTarget',
+    description: 'Monthly savings target, with the needs and wants targets alongside',
+    formula: 'monthly income × category percent ÷ 100',
+    inputs: { monthlyIncome },
+    intermediates: {
+      needsTarget: traceRound(needsTarget),
+      wantsTarget: traceRound(wantsTarget),
+    },
+    result: traceRound(savingsTarget),
+  });
+  
   // Calculate category breakdowns
   const hasExpenses = expenses.length > 0;
   
@@ -913,6 +1031,19 @@ export function calculateBudget(inputs: BudgetInputs): BudgetResult {
     monthlyExpenses > 0 ? monthlyExpenses : monthlyIncome * 0.8
   );
   
+  trace.add({
+    name: 'healthScore',
+    description: 'Budget health from savings rate, essential spending and emergency fund',
+    formula: 'savings rate = savings ÷ income; essential ratio = needs ÷ income',
+    inputs: { needs: needs.total, wants: wants.total, savings: savings.total, monthlyIncome },
+    intermediates: {
+      savingsRate: traceRound(healthMetrics.savingsRate, 1),
+      essentialRatio: traceRound(healthMetrics.essentialRatio, 1),
+      emergencyFundMonths: traceRound(healthMetrics.emergencyFundMonths, 1),
+    },
+    result: healthMetrics.healthScore,
+  });
+  
   // Generate optimizations
   const optimizations = hasExpenses
     ? generateOptimizations(needs, wants, savings, monthlyIncome)
@@ -958,7 +1089,7 @@ export function calculateBudget(inputs: BudgetInputs): BudgetResult {
     },
   ];
   
-  return {
+  return withTrace(withValidationIssues({
     monthlyIncome,
     annualIncome: annualIncome ?? monthlyIncome * 12,
     appliedRule,
@@ -974,7 +1105,7 @@ export function calculateBudget(inputs: BudgetInputs): BudgetResult {
     recommendations,
     warnings,
     chartData,
-  };
+  }, validationIssues), trace);
 }
 
 /**
@@ -0,0 +1,438 @@
+/**
+ * Discount Points Calculator
+ *
+ * Helps buyers decide whether to buy down their mortgage rate. A lender's
+ * rate sheet pairs each rate with a price: discount points paid at closing
+ * for a lower rate, or a lender credit toward closing costs for a higher
+ * one. For each option this compares the upfront cost, monthly payment,
+ * break-even month and total cost at several holding horizons against a
+ * baseline (usually the par rate, with no points).
+ *
+ * Features:
+ * - Points as a percentage of the loan (1 point = 1%), negative for credits
+ * - Break-even counting interest, not just payment savings
+ * - Total cost (upfront cost + interest paid) at 5, 7, 10 and 30 years
+ * - Cheapest option for each horizon
+ *
+ * @module budget/discountPoints
+ */
+
+import {
+  type ValidationIssue,
+  checkNumber,
+  checkDecimalRate,
+  checkCondition,
+  enforceValidation,
+  withValidationIssues,
+} from '../utils/validation.js';
+import { type Rate } from '../utils/rates.js';
+import { type CalculatorOptions, type TraceStep, createTrace, withTrace, traceRound } from '../utils/trace.js';
+import { calculateMonthlyMortgagePayment } from './homeAffordability.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * One line of a lender's rate sheet
+ */
+export interface RateSheetOption {
+  /** Label for the option (default: e.g. "6.25% / 1 point") */
+  label?: string;
+
+  /** Annual interest rate as decimal (e.g., 0.0625 for 6.25%) */
+  interestRate: Rate;
+
+  /** Points as % of the loan amount (1 = 1%); negative for a lender credit */
+  points: number;
+}
+
+/**
+ * Input parameters for the discount points comparison
+ */
+export interface DiscountPointsInputs {
+  /** Mortgage amount */
+  loanAmount: number;
+
+  /** Loan term in years (default: 30) */
+  loanTermYears?: number;
+
+  /** Rate sheet options to compare */
+  rateSheet: RateSheetOption[];
+
+  /** Index of the option to compare against (default: the one with points closest to zero) */
+  baselineIndex?: number;
+
+  /** Years the buyer might keep the loan (default: 5, 7, 10 and 30) */
+  horizonsYears?: number[];
+}
+
+/**
+ * Cost of an option if the loan is kept for a given time
+ */
+export interface PointsHorizonCost {
+  /** Years the loan is kept */
+  years: number;
+
+  /** Upfront cost + interest paid over the horizon */
+  totalCost: number;
+
+  /** Interest paid over the horizon */
+  interestPaid: number;
+
+  /** Balance left at the end of the horizon */
+  remainingBalance: number;
+
+  /** This option's total cost − the baseline's (negative = cheaper) */
+  vsBaseline: number;
+}
+
+/**
+ * Analysis of one rate sheet option
+ */
+export interface PointsOptionAnalysis {
+  /** Option label */
+  label: string;
+
+  /** Annual interest rate (decimal) */
+  interestRate: number;
+
+  /** Points (negative for a lender credit) */
+  points: number;
+
+  /** Cost at closing (negative for a lender credit) */
+  upfrontCost: number;
+
+  /** Principal and interest payment */
+  monthlyPayment: number;
+
+  /** Baseline payment − this payment (positive when the payment is lower) */
+  monthlySavings: number;
+
+  /** Extra upfront cost ÷ monthly savings (null when not comparable) */
+  simpleBreakEvenMonths: number | null;
+
+  /**
+   * First month from which the costlier-upfront choice of the two (this
+   * option or the baseline) has the lower total cost (null if never within the term)
+   */
+  breakEvenMonth: number | null;
+
+  /** Total cost at each horizon */
+  horizons: PointsHorizonCost[];
+
+  /** Whether this is the baseline option */
+  isBaseline: boolean;
+}
+
+/**
+ * Cheapest option for a holding horizon
+ */
+export interface PointsRecommendation {
+  /** Years the loan is kept */
+  years: number;
+
+  /** Label of the cheapest option */
+  label: string;
+
+  /** Its total cost */
+  totalCost: number;
+
+  /** Savings against the baseline */
+  savingsVsBaseline: number;
+}
+
+/**
+ * Complete discount points comparison result
+ */
+export interface DiscountPointsResult {
+  /** Mortgage amount */
+  loanAmount: number;
+
+  /** Loan term in years */
+  loanTermYears: number;
+
+  /** Label of the baseline option ('' when there is no option to compare) */
+  baseline: string;
+
+  /** Every rate sheet option, in the order given */
+  options: PointsOptionAnalysis[];
+
+  /** Cheapest option for each horizon */
+  bestByHorizon: PointsRecommendation[];
+
+  /** Input validation issues (present only when issues were found) */
+  validationIssues?: ValidationIssue[];
+  /** Calculation steps (present only with { trace: true }) */
+  trace?: TraceStep[];
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/**
+ * Default holding horizons in years
+ */
+export const DEFAULT_POINTS_HORIZONS = [5, 7, 10, 30];
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Default label for a rate sheet option
+ */
+function optionLabel(option: RateSheetOption): string {
+  const rate = `${Math.round(option.interestRate * 100000) / 1000}%`;
+  if (option.points === 0) return `${rate} / no points`;
+  if (option.points < 0) return `${rate} / ${-option.points} point credit`;
+  return `${rate} / ${option.points} point${option.points === 1 ? '' : 's'}`;
+}
+
+/**
+ * Cumulative interest paid after each month of a fixed-rate loan
+ *
+ * @returns Interest paid through month m at index m - 1
+ */
+function cumulativeInterest(
+  loanAmount: number,
+  annualInterestRate: number,
+  monthlyPayment: number,
+  months: number
+): { interest: number[]; balance: number[] } {
+  const monthlyRate = annualInterestRate / 12;
+  const interest: number[] = [];
+  const balance: number[] = [];
+  let remaining = loanAmount;
+  let paid = 0;
+
+  for (let month = 1; month <= months; month++) {
+    const interestPayment = remaining * monthlyRate;
+    remaining = Math.max(0, remaining - Math.min(monthlyPayment - interestPayment, remaining));
+    paid += interestPayment;
+    interest.push(paid);
+    balance.push(remaining);
+  }
+
+  return { interest, balance };
+}
+
+// ============================================================================
+// Input Validation
+// ============================================================================
+
+/**
+ * Validate discount points inputs
+ *
+ * @param inputs - Discount points input parameters
+ * @returns Validation issues (empty when inputs are valid)
+ */
+export function validateDiscountPointsInputs(inputs: DiscountPointsInputs): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+
+  checkNumber(issues, 'loanAmount', inputs.loanAmount, { min: 0, exclusiveMin: true });
+  checkNumber(issues, 'loanTermYears', inputs.loanTermYears, { min: 1, max: 50, integer: true, required: false });
+
+  const sheetValid = checkCondition(
+    issues,
+    Array.isArray(inputs.rateSheet) && inputs.rateSheet.length > 0,
+    'rateSheet',
+    'empty',
+    'Add at least one rate sheet option'
+  );
+  if (sheetValid) {
+    inputs.rateSheet.forEach((option, i) => {
+      checkDecimalRate(issues, `rateSheet[${i}].interestRate`, option.interestRate, { min: 0, max: 0.3 });
+      checkNumber(issues, `rateSheet[${i}].points`, option.points, { min: -10, max: 10 });
+    });
+    checkNumber(issues, 'baselineIndex', inputs.baselineIndex, {
+      min: 0,
+      max: inputs.rateSheet.length - 1,
+      integer: true,
+      required: false,
+    });
+  }
+
+  (inputs.horizonsYears ?? []).forEach((years, i) => {
+    checkNumber(issues, `horizonsYears[${i}]`, years, { min: 0, exclusiveMin: true, max: 50 });
+  });
+
+  return issues;
+}
+
+// ============================================================================
+// Main Calculation Functions
+// ============================================================================
+
+/**
+ * Compare rate sheet options: pay points, take a lender credit, or neither
+ *
+ * An option's total cost at a horizon is its upfront cost plus the
+ * interest paid by then; principal repaid is the same for every option
+ * and left out. The break-even month is when the option that costs more
+ * at closing catches up through lower interest.
+ *
+ * @param inputs - Loan amount, term and rate sheet
+ * @param options - Validation options (strict mode throws on invalid inputs)
+ *   and `trace` to return the calculation steps
+ * @returns Analysis of each option and the cheapest option per horizon
+ *
+ * @example
+ * ```typescript
+ * const result = calculateDiscountPoints({
+ *   loanAmount: 400000,
+ *   rateSheet: [
+ *     { interestRate: 0.07, points: -1 },    // Lender credit
+ *     { interestRate: 0.0675, points: 0 },   // Par rate
+ *     { interestRate: 0.065, points: 1 },
+ *     { interestRate: 0.0625, points: 2 },
+ *   ],
+ * });
+ *
+ * console.log(result.options[2].breakEvenMonth); // Months to recoup 1 point
+ * console.log(result.bestByHorizon); // Cheapest option at 5, 7, 10, 30 years
+ * ```
+ */
+export function calculateDiscountPoints(
+  inputs: DiscountPointsInputs,
+  options: CalculatorOptions = {}
+): DiscountPointsResult {
+  const validationIssues = enforceValidation(validateDiscountPointsInputs(inputs), options);
+  const trace = createTrace(options);
+
+  const { loanAmount, loanTermYears = 30 } = inputs;
+  const rateSheet = Array.isArray(inputs.rateSheet) ? inputs.rateSheet : [];
+  const termMonths = loanTermYears * 12;
+  const horizonsYears = inputs.horizonsYears ?? DEFAULT_POINTS_HORIZONS;
+
+  // Baseline: the given option, or the one closest to zero points (par)
+  const baselineIndex = inputs.baselineIndex ?? rateSheet.reduce(
+    (best, option, i) => (Math.abs(option.points) < Math.abs(rateSheet[best].points) ? i : best),
+    0
+  );
+
+  const priced = rateSheet.map((option) => {
+    const monthlyPayment = calculateMonthlyMortgagePayment(loanAmount, option.interestRate, loanTermYears);
+    return {
+      option,
+      label: option.label ?? optionLabel(option),
+      upfrontCost: (loanAmount * option.points) / 100,
+      monthlyPayment,
+      ...cumulativeInterest(loanAmount, option.interestRate, monthlyPayment, termMonths),
+    };
+  });
+  const base = priced[baselineIndex];
+
+  // No option to compare against (empty rate sheet or baseline out of range)
+  if (!base) {
+    return withTrace(withValidationIssues({
+      loanAmount,
+      loanTermYears,
+      baseline: '',
+      options: [],
+      bestByHorizon: [],
+    }, validationIssues), trace);
+  }
+
+  trace.add({
+    name: 'baseline',
+    description: 'Option the others are compared against',
+    formula: inputs.baselineIndex === undefined ? 'option with points closest to zero' : undefined,
+    inputs: { options: rateSheet.length, baselineIndex },
+    intermediates: { interestRate: base.option.interestRate, points: base.option.points },
+    result: base.label,
+  });
+
+  const costAt = (entry: typeof base, months: number): number =>
+    entry.upfrontCost + (months > 0 ? entry.interest[Math.min(months, termMonths) - 1] : 0);
+
+  const analyses: PointsOptionAnalysis[] = priced.map((entry, i) => {
+    const extraUpfront = entry.upfrontCost - base.upfrontCost;
+    const monthlySavings = base.monthlyPayment - entry.monthlyPayment;
+
+    // Simple break-even: extra cost ÷ monthly savings, when one pays for the other
+    const simpleBreakEvenMonths =
+      i !== baselineIndex && extraUpfront !== 0 && monthlySavings !== 0 && Math.sign(extraUpfront) === Math.sign(monthlySavings)
+        ? Math.ceil(extraUpfront / monthlySavings)
+        : null;
+
+    // Break-even: first month the costlier-upfront option is cheaper overall
+    let breakEvenMonth: number | null = null;
+    if (i !== baselineIndex && extraUpfront !== 0) {
+      const [costly, cheap] = extraUpfront > 0 ? [entry, base] : [base, entry];
+      for (let month = 1; month <= termMonths; month++) {
+        if (costAt(costly, month) <= costAt(cheap, month)) {
+          breakEvenMonth = month;
+          break;
+        }
+      }
+    }
+
+    const horizons: PointsHorizonCost[] = horizonsYears.map((years) => {
+      const months = Math.min(Math.round(years * 12), termMonths);
+      const totalCost = costAt(entry, months);
+      return {
+        years,
+        totalCost: Math.round(totalCost),
+        interestPaid: Math.round(months > 0 ? entry.interest[months - 1] : 0),
+        remainingBalance: Math.round(months > 0 ? entry.balance[months - 1] : loanAmount),
+        vsBaseline: Math.round(totalCost - costAt(base, months)),
+      };
+    });
+
+    trace.add({
+      name: `option${i + 1}`,
+      description: `${entry.label}: cost at closing, payment and break-even against the baseline`,
+      formula: 'upfront = loan × points ÷ 100; break-even = first month upfront + interest paid ≤ baseline',
+      inputs: { interestRate: entry.option.interestRate, points: entry.option.points, loanAmount },
+      intermediates: {
+        upfrontCost: traceRound(entry.upfrontCost),
+        monthlyPayment: traceRound(entry.monthlyPayment),
+        monthlySavings: traceRound(monthlySavings),
+        simpleBreakEvenMonths,
+      },
+      result: breakEvenMonth,
+    });
+
+    return {
+      label: entry.label,
+      interestRate: entry.option.interestRate,
+      points: entry.option.points,
+      upfrontCost: Math.round(entry.upfrontCost * 100) / 100,
+      monthlyPayment: Math.round(entry.monthlyPayment * 100) / 100,
+      monthlySavings: Math.round(monthlySavings * 100) / 100,
+      simpleBreakEvenMonths,
+      breakEvenMonth,
+      horizons,
+      isBaseline: i === baselineIndex,
+    };
+  });
+
+  const bestByHorizon: PointsRecommendation[] = horizonsYears.map((years, h) => {
+    const best = analyses.reduce((min, analysis) =>
+      analysis.horizons[h].totalCost < min.horizons[h].totalCost ? analysis : min
+    );
+    return {
+      years,
+      label: best.label,
+      totalCost: best.horizons[h].totalCost,
+      savingsVsBaseline: -best.horizons[h].vsBaseline,
+    };
+  });
+
+  trace.add({
+    name: 'bestByHorizon',
+    description: 'Option with the lowest upfront cost + interest for each holding horizon',
+    inputs: { horizons: horizonsYears.join(', ') },
+    result: bestByHorizon.map((best) => `${best.years}y: ${best.label}`).join('; '),
+  });
+
+  return withTrace(withValidationIssues({
+    loanAmount,
+    loanTermYears,
+    baseline: base.label,
+    options: analyses,
+    bestByHorizon,
+  }, validationIssues), trace);
+}
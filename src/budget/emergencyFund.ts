@@ -23,6 +23,15 @@
  */
 
 import { getContributionPeriodsPerYear, type ContributionFrequency } from './savingsGoal.js';
+import {
+  type ValidationIssue,
+  addIssue,
+  checkNumber,
+  checkOneOf,
+  enforceValidation,
+  withValidationIssues
+} from '../utils/validation.js';
+import { type CalculatorOptions, type TraceStep, createTrace, withTrace, traceRound } from '../utils/trace.js';
 
 /**
  * Employment stability types that affect recommended emergency fund size
@@ -235,6 +244,10 @@ export interface EmergencyFundResult {
   recommendations: string[];
   /** Warning messages */
   warnings: string[];
+  /** Input validation issues (present only when issues were found) */
+  validationIssues?: ValidationIssue[];
+  /** Calculation steps (present only with { trace: true }) */
+  trace?: TraceStep[];
 }
 
 /**
@@ -661,6 +674,62 @@ function generateWarnings(
   return warnings;
 }
 
+/**
+ * Validate emergency fund inputs
+ * 
+ * Expenses may be a monthly total or an itemized list; itemized entries
+ * are reported by index (e.g. 'expenses[1].amount').
+ * 
+ * @param inputs - Calculation parameters
+ * @returns Validation issues (empty when inputs are valid)
+ */
+export function validateEmergencyFundInputs(inputs: EmergencyFundInputs): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  
+  if (Array.isArray(inputs.expenses)) {
+    if (inputs.expenses.length === 0) {
+      addIssue(issues, 'expenses', 'empty', 'Add at least one monthly expense');
+    }
+    let total = 0;
+    let allValid = true;
+    inputs.expenses.forEach((entry, i) => {
+      checkOneOf(
+        issues,
+        `expenses[${i}].category`,
+        entry.category,
+        Object.keys(EXPENSE_CATEGORY_NAMES) as ExpenseCategory[]
+      );
+      if (checkNumber(issues, `expenses[${i}].amount`, entry.amount, { min: 0, label: 'Amount' })) {
+        total += entry.amount;
+      } else {
+        allValid = false;
+      }
+    });
+    if (inputs.expenses.length > 0 && allValid && total <= 0) {
+      addIssue(issues, 'expenses', 'not_positive', 'Monthly expenses must be greater than zero');
+    }
+  } else {
+    checkNumber(issues, 'expenses', inputs.expenses, { min: 0, exclusiveMin: true, label: 'Monthly expenses' });
+  }
+  
+  checkNumber(issues, 'currentSavings', inputs.currentSavings, { min: 0, required: false });
+  checkNumber(issues, 'monthlyIncome', inputs.monthlyIncome, { min: 0, required: false });
+  checkOneOf(
+    issues,
+    'employmentType',
+    inputs.employmentType,
+    ['stable-employed', 'variable-income', 'self-employed', 'government', 'high-risk-industry', 'retired'] as const,
+    false
+  );
+  checkNumber(issues, 'incomeSources', inputs.incomeSources, { min: 0, integer: true, required: false });
+  checkNumber(issues, 'dependents', inputs.dependents, { min: 0, integer: true, required: false });
+  checkNumber(issues, 'expectedJobSearchMonths', inputs.expectedJobSearchMonths, { min: 0, required: false });
+  checkNumber(issues, 'monthlySavingsCapacity', inputs.monthlySavingsCapacity, { min: 0, required: false });
+  checkNumber(issues, 'targetMonths', inputs.targetMonths, { min: 0, exclusiveMin: true, max: 60, required: false });
+  
+  return issues;
+}
+
 /**
  * Calculate emergency fund recommendation and savings plan
  * 
@@ -669,6 +738,8 @@ function generateWarnings(
  * to recommend an appropriate emergency fund size.
  * 
  * @param inputs - Calculation parameters
+ * @param options - Validation options (strict mode throws on invalid inputs)
+ *   and `trace` to return the calculation steps
  * @returns Complete calculation results with recommendations
  * 
  * @example
@@ -685,7 +756,13 @@ function generateWarnings(
  * console.log(result.monthsToGoal); // ~38 months
  * ```
  */
-export function calculateEmergencyFund(inputs: EmergencyFundInputs): EmergencyFundResult {
+export function calculateEmergencyFund(
+  inputs: EmergencyFundInputs,
+  options: CalculatorOptions = {}
+): EmergencyFundResult {
+  const validationIssues = enforceValidation(validateEmergencyFundInputs(inputs), options);
+  const trace = createTrace(options);
+  
   const {
     expenses,
     currentSavings = 0,
@@ -715,6 +792,45 @@ export function calculateEmergencyFund(inputs: EmergencyFundInputs): EmergencyFu
   const fundingGap = Math.max(0, recommendedTarget - currentSavings);
   const percentComplete = Math.min((currentSavings / recommendedTarget) * 100, 100);
   
+  trace.add({
+    name: 'monthlyExpenses',
+    description: 'Essential monthly expenses to cover',
+    formula: 'Σ expense amounts',
+    inputs: { ...expenseBreakdown },
+    result: monthlyExpenses,
+  });
+  trace.add({
+    name: 'riskAssessment',
+    description: 'Months of coverage recommended for this household\'s risk',
+    formula: 'risk score 5, adjusted for employment, income sources, dependents and protections',
+    inputs: {
+      employmentType: inputs.employmentType ?? 'stable-employed',
+      incomeSources: inputs.incomeSources ?? 1,
+      dependents: inputs.dependents ?? 0,
+    },
+    intermediates: {
+      riskScore: riskAssessment.riskScore,
+      riskFactors: riskAssessment.riskFactors.join('; '),
+      protectiveFactors: riskAssessment.protectiveFactors.join('; '),
+    },
+    result: recommendedMonths,
+  });
+  trace.add({
+    name: 'recommendedTarget',
+    description: 'Recommended emergency fund',
+    formula: 'monthly expenses × recommended months',
+    inputs: { monthlyExpenses, recommendedMonths },
+    result: traceRound(recommendedTarget),
+  });
+  trace.add({
+    name: 'fundingGap',
+    description: 'Amount still to save',
+    formula: 'max(0, target − current savings)',
+    inputs: { recommendedTarget: traceRound(recommendedTarget), currentSavings },
+    intermediates: { currentCoverageMonths: traceRound(currentCoverage, 1) },
+    result: traceRound(fundingGap),
+  });
+  
   // Milestones
   const milestones = generateMilestones(monthlyExpenses, currentSavings, monthlySavingsCapacity);
   
@@ -755,7 +871,7 @@ export function calculateEmergencyFund(inputs: EmergencyFundInputs): EmergencyFu
   
   const warnings = generateWarnings(currentCoverage, percentComplete, monthsToGoal);
   
-  return {
+  return withTrace(withValidationIssues({
     monthlyExpenses,
     expenseBreakdown,
     currentSavings,
@@ -774,7 +890,7 @@ export function calculateEmergencyFund(inputs: EmergencyFundInputs): EmergencyFu
     monthlySavingsFor12Months,
     recommendations,
     warnings,
-  };
+  }, validationIssues), trace);
 }
 
 /**
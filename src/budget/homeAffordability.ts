@@ -24,6 +24,20 @@
  * @module budget/homeAffordability
  */
 
+import {
+  type ValidationIssue,
+  checkNumber,
+  checkDecimalRate,
+  checkOneOf,
+  checkCondition,
+  enforceValidation,
+  withValidationIssues,
+} from '../utils/validation.js';
+import { type Percent, type Rate, type WithExplicitRates, normalizeRateFields } from '../utils/rates.js';
+import { type CalculatorOptions, type TraceStep, createTrace, withTrace, traceRound } from '../utils/trace.js';
+import { rateFromPaymentStream } from '../debt/apr.js';
+import { PMI_AUTOMATIC_LTV } from '../debt/pmi.js';
+
 // ============================================================================
 // Types
 // ============================================================================
@@ -57,7 +71,7 @@ export interface HomeAffordabilityInputs {
   downPayment: number;
 
   /** Annual interest rate as decimal (e.g., 0.065 for 6.5%) */
-  interestRate: number;
+  interestRate: Rate;
 
   /** Loan term in years */
   loanTermYears?: LoanTermYears;
@@ -66,10 +80,10 @@ export interface HomeAffordabilityInputs {
   loanType?: LoanType;
 
   /** Annual property tax rate as decimal (e.g., 0.0125 for 1.25%) */
-  propertyTaxRate?: number;
+  propertyTaxRate?: Rate;
 
   /** Annual homeowners insurance rate as decimal of home value */
-  homeInsuranceRate?: number;
+  homeInsuranceRate?: Rate;
 
   /** Monthly HOA dues (if applicable) */
   monthlyHOA?: number;
@@ -80,11 +94,11 @@ export interface HomeAffordabilityInputs {
   /** Include PMI in calculations when applicable */
   includePMI?: boolean;
 
-  /** Custom front-end DTI limit (default based on loan type) */
-  customFrontEndDTI?: number;
+  /** Custom front-end DTI limit as decimal (default based on loan type) */
+  customFrontEndDTI?: Rate;
 
-  /** Custom back-end DTI limit (default based on loan type) */
-  customBackEndDTI?: number;
+  /** Custom back-end DTI limit as decimal (default based on loan type) */
+  customBackEndDTI?: Rate;
 
   /**
    * Internal flag - skip nested calculations (loan comparisons, stress tests)
@@ -93,6 +107,25 @@ export interface HomeAffordabilityInputs {
   _skipNestedCalculations?: boolean;
 }
 
+/**
+ * Rate fields of HomeAffordabilityInputs and the convention they use
+ */
+export const HOME_AFFORDABILITY_RATE_FIELDS = {
+  interestRate: 'rate',
+  propertyTaxRate: 'rate',
+  homeInsuranceRate: 'rate',
+  customFrontEndDTI: 'rate',
+  customBackEndDTI: 'rate',
+} as const;
+
+/**
+ * Home affordability inputs with rates as { percent: 6.5 } or { rate: 0.065 }
+ */
+export type HomeAffordabilityRateInputs = WithExplicitRates<
+  HomeAffordabilityInputs,
+  typeof HOME_AFFORDABILITY_RATE_FIELDS
+>;
+
 /**
  * Monthly payment breakdown
  */
@@ -167,6 +200,12 @@ export interface LoanComparison {
   /** Monthly payment */
   monthlyPayment: number;
 
+  /**
+   * Annual percentage rate (percent, Regulation Z actuarial method):
+   * the interest rate plus upfront and monthly mortgage insurance
+   */
+  apr: Percent;
+
   /** Whether user qualifies based on DTI */
   qualifies: boolean;
 
@@ -286,6 +325,11 @@ export interface HomeAffordabilityResult {
 
   /** Warning messages */
   warnings: string[];
+
+  /** Input validation issues (present only when issues were found) */
+  validationIssues?: ValidationIssue[];
+  /** Calculation steps (present only with { trace: true }) */
+  trace?: TraceStep[];
 }
 
 // ============================================================================
@@ -464,6 +508,56 @@ export function calculateFHAMIP(
   return { upfront, monthly };
 }
 
+/**
+ * APR of a loan type at the maximum home price
+ *
+ * Counts the FHA upfront MIP or VA funding fee as a prepaid finance
+ * charge, and monthly PMI/MIP as part of each payment. Conventional PMI
+ * runs until the balance is scheduled to reach 78% of the home price
+ * (or the midpoint of the term);
+ * FHA MIP runs for the life of the loan. The APR is a percentage, like
+ * APRResult.apr, although the interest rate passed in is a decimal.
+ */
+function calculateLoanTypeAPR(
+  loanType: LoanType,
+  loanAmount: number,
+  homePrice: number,
+  annualInterestRate: number,
+  loanTermYears: LoanTermYears,
+  monthlyMortgageInsurance: number
+): Percent {
+  if (loanAmount <= 0 || homePrice <= 0) return annualInterestRate * 100;
+
+  const downPaymentPercent = 1 - loanAmount / homePrice;
+  let upfrontCharges = 0;
+  if (loanType === 'fha') {
+    upfrontCharges = loanAmount * FHA_MIP.upfront;
+  } else if (loanType === 'va') {
+    const fee = VA_FUNDING_FEE.firstUse;
+    upfrontCharges = loanAmount * (
+      downPaymentPercent < 0.05
+        ? fee.downPaymentUnder5
+        : downPaymentPercent < 0.1
+          ? fee.downPayment5to10
+          : fee.downPaymentOver10
+    );
+  }
+
+  const monthlyPI = calculateMonthlyMortgagePayment(loanAmount, annualInterestRate, loanTermYears);
+  const monthlyRate = annualInterestRate / 12;
+  const pmiEndBalance = homePrice * PMI_AUTOMATIC_LTV / 100;
+  const payments: number[] = [];
+  let balance = loanAmount;
+  for (let month = 1; month <= loanTermYears * 12; month++) {
+    const insured = loanType === 'fha' || (loanType === 'conventional' && balance > pmiEndBalance && month <= loanTermYears * 6);
+    payments.push(monthlyPI + (insured ? monthlyMortgageInsurance : 0));
+    balance -= monthlyPI - balance * monthlyRate;
+  }
+
+  const apr = rateFromPaymentStream(loanAmount - upfrontCharges, payments);
+  return apr === null ? annualInterestRate * 100 : Math.round(apr * 1000) / 1000;
+}
+
 /**
  * Calculate monthly mortgage payment (principal and interest only)
  */
@@ -565,6 +659,56 @@ function getDTIStatus(
   };
 }
 
+// ============================================================================
+// Input Validation
+// ============================================================================
+
+/**
+ * Validate home affordability inputs
+ *
+ * @param rateInputs - Home affordability input parameters
+ * @returns Validation issues (empty when inputs are valid)
+ */
+export function validateHomeAffordabilityInputs(
+  rateInputs: HomeAffordabilityInputs | HomeAffordabilityRateInputs
+): ValidationIssue[] {
+  const inputs = normalizeRateFields(rateInputs, HOME_AFFORDABILITY_RATE_FIELDS);
+  const issues: ValidationIssue[] = [];
+
+  checkNumber(issues, 'annualIncome', inputs.annualIncome, { min: 0, exclusiveMin: true });
+  checkNumber(issues, 'monthlyDebts', inputs.monthlyDebts, { min: 0 });
+  checkNumber(issues, 'downPayment', inputs.downPayment, { min: 0 });
+  checkDecimalRate(issues, 'interestRate', inputs.interestRate, { min: 0, max: 0.3 });
+  checkOneOf(issues, 'loanTermYears', inputs.loanTermYears, [15, 20, 30] as const, false);
+  checkOneOf(issues, 'loanType', inputs.loanType, ['conventional', 'fha', 'va', 'usda'] as const, false);
+  checkDecimalRate(issues, 'propertyTaxRate', inputs.propertyTaxRate, { min: 0, max: 0.1, required: false });
+  checkDecimalRate(issues, 'homeInsuranceRate', inputs.homeInsuranceRate, { min: 0, max: 0.1, required: false });
+  checkNumber(issues, 'monthlyHOA', inputs.monthlyHOA, { min: 0, required: false });
+  checkNumber(issues, 'creditScore', inputs.creditScore, { min: 300, max: 850, required: false });
+
+  const frontEndValid = checkDecimalRate(issues, 'customFrontEndDTI', inputs.customFrontEndDTI, {
+    min: 0,
+    exclusiveMin: true,
+    required: false,
+  });
+  const backEndValid = checkDecimalRate(issues, 'customBackEndDTI', inputs.customBackEndDTI, {
+    min: 0,
+    exclusiveMin: true,
+    required: false,
+  });
+  if (frontEndValid && backEndValid) {
+    checkCondition(
+      issues,
+      inputs.customFrontEndDTI! <= inputs.customBackEndDTI!,
+      'customFrontEndDTI',
+      'invalid_relationship',
+      'Front-end DTI limit cannot exceed the back-end DTI limit'
+    );
+  }
+
+  return issues;
+}
+
 // ============================================================================
 // Main Calculation Functions
 // ============================================================================
@@ -573,6 +717,8 @@ function getDTIStatus(
  * Calculate home affordability based on income, debts, and down payment
  *
  * @param inputs - Home affordability input parameters
+ * @param options - Validation options (strict mode throws on invalid inputs)
+ *   and `trace` to return the calculation steps
  * @returns Complete affordability analysis
  *
  * @example
@@ -591,8 +737,24 @@ function getDTIStatus(
  * ```
  */
 export function calculateHomeAffordability(
-  inputs: HomeAffordabilityInputs
+  inputs: HomeAffordabilityInputs,
+  options?: CalculatorOptions
+): HomeAffordabilityResult;
+/**
+ * Same as above, with rates as { percent } or { rate } (see HOME_AFFORDABILITY_RATE_FIELDS)
+ */
+export function calculateHomeAffordability(
+  inputs: HomeAffordabilityRateInputs,
+  options?: CalculatorOptions
+): HomeAffordabilityResult;
+export function calculateHomeAffordability(
+  rateInputs: HomeAffordabilityInputs | HomeAffordabilityRateInputs,
+  options: CalculatorOptions = {}
 ): HomeAffordabilityResult {
+  const inputs = normalizeRateFields(rateInputs, HOME_AFFORDABILITY_RATE_FIELDS);
+  const validationIssues = enforceValidation(validateHomeAffordabilityInputs(inputs), options);
+  const trace = createTrace(options);
+
   const {
     annualIncome,
     monthlyDebts,
@@ -629,6 +791,21 @@ export function calculateHomeAffordability(
     maxHousingFromBackEnd
   );
 
+  trace.add({
+    name: 'maxHousingPayment',
+    description: 'Largest monthly housing payment allowed by both DTI limits',
+    formula: 'min(monthly income × front-end limit, monthly income × back-end limit − monthly debts)',
+    inputs: { monthlyIncome: traceRound(monthlyIncome), monthlyDebts, frontEndLimit, backEndLimit },
+    intermediates: {
+      maxHousingFromFrontEnd: traceRound(maxHousingFromFrontEnd),
+      maxHousingFromBackEnd: traceRound(maxHousingFromBackEnd),
+    },
+    result: traceRound(maxHousingPayment),
+    source: customFrontEndDTI !== undefined || customBackEndDTI !== undefined
+      ? undefined
+      : `DTI_LIMITS.${loanType}`,
+  });
+
   // Iteratively solve for max home price (accounting for PMI, taxes, insurance)
   let maxHomePrice = 0;
   let iteration = 0;
@@ -695,6 +872,15 @@ export function calculateHomeAffordability(
     maxHomePrice = estimatedHomePrice;
   }
 
+  trace.add({
+    name: 'solvedHomePrice',
+    description: 'Home price whose full housing payment (P&I, tax, insurance, PMI, HOA) matches the maximum, found iteratively',
+    formula: 'adjust price until |housing payment − max housing payment| < $1',
+    inputs: { maxHousingPayment: traceRound(maxHousingPayment), downPayment, interestRate, loanTermYears },
+    intermediates: { iterations: iteration },
+    result: traceRound(maxHomePrice),
+  });
+
   // Round to nearest $1000
   maxHomePrice = Math.floor(maxHomePrice / 1000) * 1000;
 
@@ -706,6 +892,17 @@ export function calculateHomeAffordability(
     maxHomePrice = Math.floor(maxHomePrice / 1000) * 1000;
   }
 
+  trace.add({
+    name: 'maxHomePrice',
+    description: downPayment < minDownPaymentRequired
+      ? 'Capped by the minimum down payment for this loan type, rounded down to $1,000'
+      : 'Rounded down to the nearest $1,000',
+    formula: 'min(solved price, down payment ÷ minimum down payment %)',
+    inputs: { downPayment, minimumDownPaymentPercent: MIN_DOWN_PAYMENT[loanType] },
+    result: maxHomePrice,
+    source: `MIN_DOWN_PAYMENT.${loanType}`,
+  });
+
   // Calculate final values with determined home price
   const loanAmount = Math.max(0, maxHomePrice - downPayment);
   const downPaymentPercent =
@@ -741,6 +938,26 @@ export function calculateHomeAffordability(
     monthlyHOA;
   const totalMonthly = totalHousing + monthlyDebts;
 
+  trace.add({
+    name: 'monthlyHousingPayment',
+    description: 'Monthly housing payment at the maximum home price',
+    formula: 'P&I + property tax + insurance + PMI/MIP + HOA',
+    inputs: {
+      loanAmount,
+      propertyTaxRate,
+      homeInsuranceRate,
+      monthlyHOA,
+    },
+    intermediates: {
+      principalAndInterest: traceRound(monthlyPI),
+      propertyTax: traceRound(monthlyPropertyTax),
+      homeInsurance: traceRound(monthlyInsurance),
+      pmi: traceRound(monthlyPMI),
+    },
+    result: traceRound(totalHousing),
+    source: loanType === 'fha' ? 'FHA_MIP' : monthlyPMI > 0 ? 'PMI_RATES' : undefined,
+  });
+
   const monthlyBreakdown: MonthlyPaymentBreakdown = {
     principalAndInterest: Math.round(monthlyPI * 100) / 100,
     propertyTax: Math.round(monthlyPropertyTax * 100) / 100,
@@ -764,6 +981,15 @@ export function calculateHomeAffordability(
     backEndLimit
   );
 
+  trace.add({
+    name: 'dtiRatios',
+    description: 'Debt-to-income ratios at the maximum home price',
+    formula: 'front-end = housing ÷ income; back-end = (housing + debts) ÷ income',
+    inputs: { totalHousing: traceRound(totalHousing), monthlyDebts, monthlyIncome: traceRound(monthlyIncome) },
+    intermediates: { frontEndRatio: traceRound(frontEndRatio, 4), backEndRatio: traceRound(backEndRatio, 4) },
+    result: status,
+  });
+
   const dtiAnalysis: DTIAnalysis = {
     frontEndRatio: Math.round(frontEndRatio * 1000) / 10,
     backEndRatio: Math.round(backEndRatio * 1000) / 10,
@@ -863,7 +1089,7 @@ export function calculateHomeAffordability(
     );
   }
 
-  return {
+  return withTrace(withValidationIssues({
     maxHomePrice,
     loanAmount,
     downPayment,
@@ -884,7 +1110,7 @@ export function calculateHomeAffordability(
     effectiveRate: Math.round(effectiveRate * 10000) / 10000,
     recommendations,
     warnings,
-  };
+  }, validationIssues), trace);
 }
 
 /**
@@ -1074,6 +1300,14 @@ function compareLoanTypes(
       downPaymentRequired: result.downPayment,
       downPaymentPercent: result.downPaymentPercent,
       monthlyPayment: result.monthlyBreakdown.totalHousing,
+      apr: calculateLoanTypeAPR(
+        lt,
+        result.loanAmount,
+        result.maxHomePrice,
+        interestRate,
+        loanTermYears,
+        result.monthlyBreakdown.pmi
+      ),
       qualifies: result.dtiAnalysis.frontEndOK && result.dtiAnalysis.backEndOK,
       benefits,
       drawbacks,
@@ -9,6 +9,40 @@
  * @see https://www.irs.gov/individuals/tax-withholding-estimator
  */
 
+import {
+  type FilingStatus,
+  type FederalTaxBracket,
+  type FICAConfig,
+  DEFAULT_TAX_YEAR,
+  FEDERAL_TAX_YEARS,
+  getTaxYearConfig,
+  getOrdinaryBrackets,
+  calculateOrdinaryIncomeTax,
+  calculateSocialSecurityWageTax,
+  calculateMedicareWageTax,
+  applyBrackets,
+  findBracket
+} from '../tax/federalTax.js';
+import {
+  type USState,
+  type StateTaxResult,
+  STATE_TAX_INFO,
+  getStateBrackets,
+  calculateStateIncomeTax
+} from '../tax/stateTax.js';
+import {
+  type ValidationIssue,
+  checkNumber,
+  checkOneOf,
+  checkCondition,
+  enforceValidation,
+  withValidationIssues
+} from '../utils/validation.js';
+import { type CalculatorOptions, type TraceStep, createTrace, withTrace, traceRound } from '../utils/trace.js';
+
+export type { FilingStatus, USState };
+export { STATE_TAX_INFO };
+
 // ============================================================================
 // Types
 // ============================================================================
@@ -27,25 +61,6 @@ export type PayFrequency =
   | 'semi-monthly'  // 24 paychecks/year
   | 'monthly';      // 12 paychecks/year
 
-/**
- * Filing status for federal taxes
- */
-export type FilingStatus = 
-  | 'single'
-  | 'married_jointly'
-  | 'married_separately'
-  | 'head_of_household';
-
-/**
- * US States (including DC)
- */
-export type USState = 
-  | 'AL' | 'AK' | 'AZ' | 'AR' | 'CA' | 'CO' | 'CT' | 'DE' | 'DC' | 'FL'
-  | 'GA' | 'HI' | 'ID' | 'IL' | 'IN' | 'IA' | 'KS' | 'KY' | 'LA' | 'ME'
-  | 'MD' | 'MA' | 'MI' | 'MN' | 'MS' | 'MO' | 'MT' | 'NE' | 'NV' | 'NH'
-  | 'NJ' | 'NM' | 'NY' | 'NC' | 'ND' | 'OH' | 'OK' | 'OR' | 'PA' | 'RI'
-  | 'SC' | 'SD' | 'TN' | 'TX' | 'UT' | 'VT' | 'VA' | 'WA' | 'WV' | 'WI' | 'WY';
-
 /**
  * Pre-tax deduction types
  */
@@ -128,6 +143,8 @@ export interface PaycheckInputs {
   stateExempt?: boolean;
   /** Exempt from FICA (rare, religious exemption) */
   ficaExempt?: boolean;
+  /** Tax year for federal brackets and FICA limits (default: DEFAULT_TAX_YEAR) */
+  taxYear?: number;
 }
 
 /**
@@ -213,6 +230,10 @@ export interface PaycheckResult {
   marginalFederalRate: number;
   /** Marginal tax rate (state) */
   marginalStateRate: number;
+  /** Effective state tax rate (state tax / state income) */
+  effectiveStateRate: number;
+  /** State tax details: deductions, exemptions and taxable income (omitted when state exempt) */
+  stateTaxDetails?: StateTaxResult;
   
   // Conversion helpers
   /** Equivalent hourly rate */
@@ -227,6 +248,11 @@ export interface PaycheckResult {
   deductionPercentage: number;
   /** Percentage of gross as take-home */
   takeHomePercentage: number;
+  
+  /** Input validation issues (present only when issues were found) */
+  validationIssues?: ValidationIssue[];
+  /** Calculation steps (present only with { trace: true }) */
+  trace?: TraceStep[];
 }
 
 /**
@@ -259,206 +285,63 @@ export const PAY_PERIODS_PER_YEAR: Record<PayFrequency, number> = {
   'monthly': 12,
 };
 
+/**
+ * Flatten a FICAConfig into the legacy FICA_* constant shape
+ */
+function toLegacyFICA(fica: FICAConfig) {
+  return {
+    /** Social Security rate (employee portion) */
+    socialSecurityRate: fica.socialSecurityRate,
+    /** Social Security wage base limit */
+    socialSecurityLimit: fica.socialSecurityLimit,
+    /** Medicare rate (employee portion) */
+    medicareRate: fica.medicareRate,
+    /** Additional Medicare rate (0.9% on wages above threshold) */
+    additionalMedicareRate: fica.additionalMedicareRate,
+    /** Additional Medicare threshold - Single/HoH */
+    additionalMedicareThresholdSingle: fica.additionalMedicareThresholds['single'],
+    /** Additional Medicare threshold - Married Jointly */
+    additionalMedicareThresholdJoint: fica.additionalMedicareThresholds['married_jointly'],
+    /** Additional Medicare threshold - Married Separately */
+    additionalMedicareThresholdSeparate: fica.additionalMedicareThresholds['married_separately'],
+  };
+}
+
 /**
  * 2024 Federal Income Tax Brackets (for taxes filed in 2025)
+ * Sourced from the shared federal tax registry (tax/federalTax.ts)
  */
-export const FEDERAL_TAX_BRACKETS_2024: Record<FilingStatus, { min: number; max: number; rate: number }[]> = {
-  'single': [
-    { min: 0, max: 11600, rate: 0.10 },
-    { min: 11600, max: 47150, rate: 0.12 },
-    { min: 47150, max: 100525, rate: 0.22 },
-    { min: 100525, max: 191950, rate: 0.24 },
-    { min: 191950, max: 243725, rate: 0.32 },
-    { min: 243725, max: 609350, rate: 0.35 },
-    { min: 609350, max: Infinity, rate: 0.37 },
-  ],
-  'married_jointly': [
-    { min: 0, max: 23200, rate: 0.10 },
-    { min: 23200, max: 94300, rate: 0.12 },
-    { min: 94300, max: 201050, rate: 0.22 },
-    { min: 201050, max: 383900, rate: 0.24 },
-    { min: 383900, max: 487450, rate: 0.32 },
-    { min: 487450, max: 731200, rate: 0.35 },
-    { min: 731200, max: Infinity, rate: 0.37 },
-  ],
-  'married_separately': [
-    { min: 0, max: 11600, rate: 0.10 },
-    { min: 11600, max: 47150, rate: 0.12 },
-    { min: 47150, max: 100525, rate: 0.22 },
-    { min: 100525, max: 191950, rate: 0.24 },
-    { min: 191950, max: 243725, rate: 0.32 },
-    { min: 243725, max: 365600, rate: 0.35 },
-    { min: 365600, max: Infinity, rate: 0.37 },
-  ],
-  'head_of_household': [
-    { min: 0, max: 16550, rate: 0.10 },
-    { min: 16550, max: 63100, rate: 0.12 },
-    { min: 63100, max: 100500, rate: 0.22 },
-    { min: 100500, max: 191950, rate: 0.24 },
-    { min: 191950, max: 243700, rate: 0.32 },
-    { min: 243700, max: 609350, rate: 0.35 },
-    { min: 609350, max: Infinity, rate: 0.37 },
-  ],
-};
+export const FEDERAL_TAX_BRACKETS_2024: Record<FilingStatus, FederalTaxBracket[]> =
+  FEDERAL_TAX_YEARS[2024].ordinaryBrackets;
 
 /**
  * 2024 Standard deductions by filing status
  */
-export const STANDARD_DEDUCTIONS_2024: Record<FilingStatus, number> = {
-  'single': 14600,
-  'married_jointly': 29200,
-  'married_separately': 14600,
-  'head_of_household': 21900,
-};
+export const STANDARD_DEDUCTIONS_2024: Record<FilingStatus, number> =
+  FEDERAL_TAX_YEARS[2024].standardDeductions;
 
 /**
  * 2024 FICA tax rates and limits
  */
-export const FICA_2024 = {
-  /** Social Security rate (employee portion) */
-  socialSecurityRate: 0.062,
-  /** Social Security wage base limit */
-  socialSecurityLimit: 168600,
-  /** Medicare rate (employee portion) */
-  medicareRate: 0.0145,
-  /** Additional Medicare rate (0.9% on wages above threshold) */
-  additionalMedicareRate: 0.009,
-  /** Additional Medicare threshold - Single/HoH */
-  additionalMedicareThresholdSingle: 200000,
-  /** Additional Medicare threshold - Married Jointly */
-  additionalMedicareThresholdJoint: 250000,
-  /** Additional Medicare threshold - Married Separately */
-  additionalMedicareThresholdSeparate: 125000,
-};
+export const FICA_2024 = toLegacyFICA(FEDERAL_TAX_YEARS[2024].fica);
 
 /**
  * 2025 Federal Income Tax Brackets (for taxes filed in 2026)
+ * Sourced from the shared federal tax registry (tax/federalTax.ts)
  */
-export const FEDERAL_TAX_BRACKETS_2025: Record<FilingStatus, { min: number; max: number; rate: number }[]> = {
-  'single': [
-    { min: 0, max: 11925, rate: 0.10 },
-    { min: 11925, max: 48475, rate: 0.12 },
-    { min: 48475, max: 103350, rate: 0.22 },
-    { min: 103350, max: 197300, rate: 0.24 },
-    { min: 197300, max: 250525, rate: 0.32 },
-    { min: 250525, max: 626350, rate: 0.35 },
-    { min: 626350, max: Infinity, rate: 0.37 },
-  ],
-  'married_jointly': [
-    { min: 0, max: 23850, rate: 0.10 },
-    { min: 23850, max: 96950, rate: 0.12 },
-    { min: 96950, max: 206700, rate: 0.22 },
-    { min: 206700, max: 394600, rate: 0.24 },
-    { min: 394600, max: 501050, rate: 0.32 },
-    { min: 501050, max: 751600, rate: 0.35 },
-    { min: 751600, max: Infinity, rate: 0.37 },
-  ],
-  'married_separately': [
-    { min: 0, max: 11925, rate: 0.10 },
-    { min: 11925, max: 48475, rate: 0.12 },
-    { min: 48475, max: 103350, rate: 0.22 },
-    { min: 103350, max: 197300, rate: 0.24 },
-    { min: 197300, max: 250525, rate: 0.32 },
-    { min: 250525, max: 375800, rate: 0.35 },
-    { min: 375800, max: Infinity, rate: 0.37 },
-  ],
-  'head_of_household': [
-    { min: 0, max: 17000, rate: 0.10 },
-    { min: 17000, max: 64850, rate: 0.12 },
-    { min: 64850, max: 103350, rate: 0.22 },
-    { min: 103350, max: 197300, rate: 0.24 },
-    { min: 197300, max: 250500, rate: 0.32 },
-    { min: 250500, max: 626350, rate: 0.35 },
-    { min: 626350, max: Infinity, rate: 0.37 },
-  ],
-};
+export const FEDERAL_TAX_BRACKETS_2025: Record<FilingStatus, FederalTaxBracket[]> =
+  FEDERAL_TAX_YEARS[2025].ordinaryBrackets;
 
 /**
  * 2025 Standard deductions by filing status
  */
-export const STANDARD_DEDUCTIONS_2025: Record<FilingStatus, number> = {
-  'single': 15000,
-  'married_jointly': 30000,
-  'married_separately': 15000,
-  'head_of_household': 22500,
-};
+export const STANDARD_DEDUCTIONS_2025: Record<FilingStatus, number> =
+  FEDERAL_TAX_YEARS[2025].standardDeductions;
 
 /**
  * 2025 FICA tax rates and limits
  */
-export const FICA_2025 = {
-  socialSecurityRate: 0.062,
-  socialSecurityLimit: 176100,
-  medicareRate: 0.0145,
-  additionalMedicareRate: 0.009,
-  additionalMedicareThresholdSingle: 200000,
-  additionalMedicareThresholdJoint: 250000,
-  additionalMedicareThresholdSeparate: 125000,
-};
-
-/**
- * State income tax rates (simplified - flat or top marginal rates)
- * States with no income tax: AK, FL, NV, NH (dividends only), SD, TN, TX, WA, WY
- * This is a simplified model; actual state taxes can be much more complex
- */
-export const STATE_TAX_INFO: Record<USState, { 
-  hasIncomeTax: boolean; 
-  flatRate?: number; 
-  topRate?: number;
-  brackets?: { min: number; max: number; rate: number }[];
-}> = {
-  'AL': { hasIncomeTax: true, topRate: 0.05 },
-  'AK': { hasIncomeTax: false },
-  'AZ': { hasIncomeTax: true, flatRate: 0.025 },
-  'AR': { hasIncomeTax: true, topRate: 0.039 },
-  'CA': { hasIncomeTax: true, topRate: 0.133 },
-  'CO': { hasIncomeTax: true, flatRate: 0.044 },
-  'CT': { hasIncomeTax: true, topRate: 0.0699 },
-  'DE': { hasIncomeTax: true, topRate: 0.066 },
-  'DC': { hasIncomeTax: true, topRate: 0.1075 },
-  'FL': { hasIncomeTax: false },
-  'GA': { hasIncomeTax: true, flatRate: 0.0549 },
-  'HI': { hasIncomeTax: true, topRate: 0.11 },
-  'ID': { hasIncomeTax: true, flatRate: 0.058 },
-  'IL': { hasIncomeTax: true, flatRate: 0.0495 },
-  'IN': { hasIncomeTax: true, flatRate: 0.0305 },
-  'IA': { hasIncomeTax: true, topRate: 0.057 },
-  'KS': { hasIncomeTax: true, topRate: 0.057 },
-  'KY': { hasIncomeTax: true, flatRate: 0.04 },
-  'LA': { hasIncomeTax: true, topRate: 0.0425 },
-  'ME': { hasIncomeTax: true, topRate: 0.0715 },
-  'MD': { hasIncomeTax: true, topRate: 0.0575 },
-  'MA': { hasIncomeTax: true, flatRate: 0.09 },
-  'MI': { hasIncomeTax: true, flatRate: 0.0425 },
-  'MN': { hasIncomeTax: true, topRate: 0.0985 },
-  'MS': { hasIncomeTax: true, flatRate: 0.047 },
-  'MO': { hasIncomeTax: true, topRate: 0.048 },
-  'MT': { hasIncomeTax: true, topRate: 0.059 },
-  'NE': { hasIncomeTax: true, topRate: 0.0584 },
-  'NV': { hasIncomeTax: false },
-  'NH': { hasIncomeTax: false }, // No tax on wages (only dividends/interest, phasing out)
-  'NJ': { hasIncomeTax: true, topRate: 0.1075 },
-  'NM': { hasIncomeTax: true, topRate: 0.059 },
-  'NY': { hasIncomeTax: true, topRate: 0.109 },
-  'NC': { hasIncomeTax: true, flatRate: 0.0475 },
-  'ND': { hasIncomeTax: true, topRate: 0.025 },
-  'OH': { hasIncomeTax: true, topRate: 0.035 },
-  'OK': { hasIncomeTax: true, topRate: 0.0475 },
-  'OR': { hasIncomeTax: true, topRate: 0.099 },
-  'PA': { hasIncomeTax: true, flatRate: 0.0307 },
-  'RI': { hasIncomeTax: true, topRate: 0.0599 },
-  'SC': { hasIncomeTax: true, topRate: 0.064 },
-  'SD': { hasIncomeTax: false },
-  'TN': { hasIncomeTax: false }, // No tax on wages
-  'TX': { hasIncomeTax: false },
-  'UT': { hasIncomeTax: true, flatRate: 0.0465 },
-  'VT': { hasIncomeTax: true, topRate: 0.0875 },
-  'VA': { hasIncomeTax: true, topRate: 0.0575 },
-  'WA': { hasIncomeTax: false },
-  'WV': { hasIncomeTax: true, topRate: 0.0512 },
-  'WI': { hasIncomeTax: true, topRate: 0.0765 },
-  'WY': { hasIncomeTax: false },
-};
+export const FICA_2025 = toLegacyFICA(FEDERAL_TAX_YEARS[2025].fica);
 
 /**
  * States with no income tax
@@ -507,48 +390,30 @@ export function calculateAnnualGross(inputs: PaycheckInputs): number {
 export function calculateFederalTax(
   taxableIncome: number,
   filingStatus: FilingStatus,
-  taxYear: 2024 | 2025 = 2025
+  taxYear: number = DEFAULT_TAX_YEAR
 ): { tax: number; marginalRate: number } {
-  const brackets = taxYear === 2024 
-    ? FEDERAL_TAX_BRACKETS_2024[filingStatus]
-    : FEDERAL_TAX_BRACKETS_2025[filingStatus];
-  
-  let tax = 0;
-  let marginalRate = 0;
-  
-  for (const bracket of brackets) {
-    if (taxableIncome <= bracket.min) {
-      break;
-    }
-    
-    const taxableInBracket = Math.min(taxableIncome, bracket.max) - bracket.min;
-    if (taxableInBracket > 0) {
-      tax += taxableInBracket * bracket.rate;
-      marginalRate = bracket.rate;
-    }
-  }
-  
-  return { tax: Math.max(0, tax), marginalRate };
+  return calculateOrdinaryIncomeTax(taxableIncome, filingStatus, taxYear);
 }
 
 /**
- * Calculate state income tax (simplified model)
+ * Calculate state income tax on state taxable income using the state's
+ * progressive brackets
+ *
+ * No deductions are applied: pass income after the state's deductions. To
+ * start from income before deductions, use calculateStateIncomeTax, which
+ * applies the state's standard deduction, exemptions and credits.
  */
 export function calculateStateTax(
   taxableIncome: number,
-  state: USState
+  state: USState,
+  filingStatus: FilingStatus = 'single'
 ): { tax: number; marginalRate: number } {
-  const stateInfo = STATE_TAX_INFO[state];
-  
-  if (!stateInfo.hasIncomeTax) {
+  const brackets = getStateBrackets(state, filingStatus);
+  if (brackets.length === 0) {
     return { tax: 0, marginalRate: 0 };
   }
-  
-  // Use flat rate if available, otherwise use top marginal rate as approximation
-  const rate = stateInfo.flatRate || stateInfo.topRate || 0;
-  const tax = taxableIncome * rate;
-  
-  return { tax: Math.max(0, tax), marginalRate: rate };
+  const income = Math.max(0, taxableIncome);
+  return { tax: applyBrackets(income, brackets), marginalRate: findBracket(income, brackets).rate };
 }
 
 /**
@@ -557,19 +422,9 @@ export function calculateStateTax(
 export function calculateSocialSecurityTax(
   annualGross: number,
   ytdGrossIncome: number = 0,
-  taxYear: 2024 | 2025 = 2025
+  taxYear: number = DEFAULT_TAX_YEAR
 ): number {
-  const fica = taxYear === 2024 ? FICA_2024 : FICA_2025;
-  const limit = fica.socialSecurityLimit;
-  
-  // Already earned up to the limit this year?
-  if (ytdGrossIncome >= limit) {
-    return 0;
-  }
-  
-  // Calculate taxable amount up to the limit
-  const taxableAmount = Math.min(annualGross, limit - ytdGrossIncome);
-  return taxableAmount * fica.socialSecurityRate;
+  return calculateSocialSecurityWageTax(annualGross, ytdGrossIncome, taxYear);
 }
 
 /**
@@ -578,32 +433,9 @@ export function calculateSocialSecurityTax(
 export function calculateMedicareTax(
   annualGross: number,
   filingStatus: FilingStatus,
-  taxYear: 2024 | 2025 = 2025
+  taxYear: number = DEFAULT_TAX_YEAR
 ): { baseTax: number; additionalTax: number } {
-  const fica = taxYear === 2024 ? FICA_2024 : FICA_2025;
-  
-  // Base Medicare tax on all wages
-  const baseTax = annualGross * fica.medicareRate;
-  
-  // Additional Medicare tax threshold based on filing status
-  let threshold: number;
-  switch (filingStatus) {
-    case 'married_jointly':
-      threshold = fica.additionalMedicareThresholdJoint;
-      break;
-    case 'married_separately':
-      threshold = fica.additionalMedicareThresholdSeparate;
-      break;
-    default:
-      threshold = fica.additionalMedicareThresholdSingle;
-  }
-  
-  // Additional Medicare tax on wages above threshold
-  const additionalTax = annualGross > threshold
-    ? (annualGross - threshold) * fica.additionalMedicareRate
-    : 0;
-  
-  return { baseTax, additionalTax };
+  return calculateMedicareWageTax(annualGross, filingStatus, taxYear);
 }
 
 /**
@@ -681,6 +513,72 @@ function buildDeductionBreakdown(
   return breakdown;
 }
 
+// ============================================================================
+// Input Validation
+// ============================================================================
+
+/**
+ * Validate paycheck inputs
+ * 
+ * Salary pay requires annualSalary and hourly pay requires hourlyRate.
+ * Pre-tax deductions larger than the gross paycheck are reported on
+ * the preTaxDeductions field.
+ * 
+ * @param inputs - Paycheck calculation inputs
+ * @returns Validation issues (empty when inputs are valid)
+ */
+export function validatePaycheckInputs(inputs: PaycheckInputs): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  
+  const payTypeValid = checkOneOf(issues, 'payType', inputs.payType, ['salary', 'hourly'] as const);
+  if (payTypeValid && inputs.payType === 'salary') {
+    checkNumber(issues, 'annualSalary', inputs.annualSalary, { min: 0 });
+  } else if (payTypeValid) {
+    checkNumber(issues, 'hourlyRate', inputs.hourlyRate, { min: 0 });
+    checkNumber(issues, 'hoursPerWeek', inputs.hoursPerWeek, { min: 0, max: 168, required: false });
+  }
+  
+  const frequencyValid = checkOneOf(
+    issues,
+    'payFrequency',
+    inputs.payFrequency,
+    Object.keys(PAY_PERIODS_PER_YEAR) as PayFrequency[]
+  );
+  checkOneOf(
+    issues,
+    'filingStatus',
+    inputs.filingStatus,
+    ['single', 'married_jointly', 'married_separately', 'head_of_household'] as const
+  );
+  checkOneOf(issues, 'state', inputs.state, Object.keys(STATE_TAX_INFO) as USState[]);
+  
+  checkNumber(issues, 'federalAllowances', inputs.federalAllowances, { min: 0, integer: true, required: false });
+  checkNumber(issues, 'additionalFederalWithholding', inputs.additionalFederalWithholding, { min: 0, required: false });
+  checkNumber(issues, 'ytdGrossIncome', inputs.ytdGrossIncome, { min: 0, required: false });
+  checkNumber(issues, 'taxYear', inputs.taxYear, { integer: true, required: false });
+  
+  let deductionsValid = true;
+  for (const [key, amount] of Object.entries(inputs.preTaxDeductions ?? {})) {
+    deductionsValid = checkNumber(issues, `preTaxDeductions.${key}`, amount, { min: 0, required: false }) && deductionsValid;
+  }
+  for (const [key, amount] of Object.entries(inputs.postTaxDeductions ?? {})) {
+    checkNumber(issues, `postTaxDeductions.${key}`, amount, { min: 0, required: false });
+  }
+  
+  if (payTypeValid && frequencyValid && deductionsValid && issues.length === 0) {
+    const grossPerPaycheck = calculateAnnualGross(inputs) / PAY_PERIODS_PER_YEAR[inputs.payFrequency];
+    checkCondition(
+      issues,
+      sumPreTaxDeductions(inputs.preTaxDeductions) <= grossPerPaycheck,
+      'preTaxDeductions',
+      'invalid_relationship',
+      'Pre-tax deductions cannot exceed gross pay per paycheck'
+    );
+  }
+  
+  return issues;
+}
+
 // ============================================================================
 // Main Calculator Functions
 // ============================================================================
@@ -689,6 +587,8 @@ function buildDeductionBreakdown(
  * Calculate paycheck details including all taxes and deductions
  * 
  * @param inputs - Paycheck calculation inputs
+ * @param options - Validation options (strict mode throws on invalid inputs)
+ *   and `trace` to return the calculation steps
  * @returns Complete paycheck breakdown
  * 
  * @example
@@ -709,35 +609,94 @@ function buildDeductionBreakdown(
  * console.log(result.effectiveTaxRate); // Total tax rate
  * ```
  */
-export function calculatePaycheck(inputs: PaycheckInputs): PaycheckResult {
+export function calculatePaycheck(
+  inputs: PaycheckInputs,
+  options: CalculatorOptions = {}
+): PaycheckResult {
+  const validationIssues = enforceValidation(validatePaycheckInputs(inputs), options);
+  const trace = createTrace(options);
+  
   const payPeriods = PAY_PERIODS_PER_YEAR[inputs.payFrequency];
   const annualGross = calculateAnnualGross(inputs);
   const grossPerPaycheck = annualGross / payPeriods;
+  const taxYear = getTaxYearConfig(inputs.taxYear).year;
   
   // Calculate pre-tax deductions
   const preTaxDeductionsPerPaycheck = sumPreTaxDeductions(inputs.preTaxDeductions);
   const annualPreTaxDeductions = preTaxDeductionsPerPaycheck * payPeriods;
   
   // Taxable income (gross minus pre-tax deductions and standard deduction)
-  const standardDeduction = STANDARD_DEDUCTIONS_2025[inputs.filingStatus];
+  const standardDeduction = getTaxYearConfig(taxYear).standardDeductions[inputs.filingStatus];
   const taxableIncome = Math.max(0, annualGross - annualPreTaxDeductions - standardDeduction);
+  const fica = getTaxYearConfig(taxYear).fica;
+  const ficaSource = taxYear === 2024 || taxYear === 2025 ? `FICA_${taxYear}` : `FEDERAL_TAX_YEARS[${taxYear}].fica`;
+  
+  trace.add({
+    name: 'annualGross',
+    description: inputs.payType === 'hourly' ? 'Annual gross pay from hourly wages' : 'Annual gross salary',
+    inputs: { payFrequency: inputs.payFrequency, payPeriods },
+    intermediates: { grossPerPaycheck: traceRound(grossPerPaycheck) },
+    result: traceRound(annualGross),
+    source: `PAY_PERIODS_PER_YEAR['${inputs.payFrequency}']`,
+  });
+  trace.add({
+    name: 'federalTaxableIncome',
+    description: 'Income subject to federal income tax',
+    formula: 'gross − pre-tax deductions − standard deduction',
+    inputs: { annualGross: traceRound(annualGross), annualPreTaxDeductions: traceRound(annualPreTaxDeductions), standardDeduction },
+    result: traceRound(taxableIncome),
+    source: `FEDERAL_TAX_YEARS[${taxYear}].standardDeductions.${inputs.filingStatus}`,
+  });
   
   // Calculate federal tax
   let federalTaxAnnual = 0;
   let marginalFederalRate = 0;
   if (!inputs.federalExempt) {
-    const federal = calculateFederalTax(taxableIncome, inputs.filingStatus, 2025);
+    const federal = calculateFederalTax(taxableIncome, inputs.filingStatus, taxYear);
     federalTaxAnnual = federal.tax;
     marginalFederalRate = federal.marginalRate;
+    trace.add({
+      name: 'federalIncomeTax',
+      description: 'Federal income tax from the progressive brackets',
+      formula: 'Σ (income in each bracket × bracket rate)',
+      inputs: { taxableIncome: traceRound(taxableIncome), filingStatus: inputs.filingStatus, taxYear },
+      intermediates: { marginalRate: marginalFederalRate },
+      result: traceRound(federalTaxAnnual),
+      source: `FEDERAL_TAX_YEARS[${taxYear}].ordinaryBrackets.${inputs.filingStatus}`,
+    });
   }
   
-  // Calculate state tax
+  // Calculate state tax (state applies its own deductions to income after pre-tax deductions)
   let stateTaxAnnual = 0;
   let marginalStateRate = 0;
+  let effectiveStateRate = 0;
+  let stateTaxDetails: StateTaxResult | undefined;
   if (!inputs.stateExempt) {
-    const state = calculateStateTax(taxableIncome, inputs.state);
-    stateTaxAnnual = state.tax;
-    marginalStateRate = state.marginalRate;
+    stateTaxDetails = calculateStateIncomeTax({
+      state: inputs.state,
+      income: annualGross - annualPreTaxDeductions,
+      filingStatus: inputs.filingStatus,
+      taxYear,
+    });
+    stateTaxAnnual = stateTaxDetails.tax;
+    marginalStateRate = stateTaxDetails.marginalRate;
+    effectiveStateRate = stateTaxDetails.effectiveRate;
+    trace.add({
+      name: 'stateIncomeTax',
+      description: stateTaxDetails.hasIncomeTax
+        ? `${inputs.state} income tax after the state's own deductions and exemptions`
+        : `${inputs.state} has no income tax on wages`,
+      formula: 'Σ (state taxable income in each bracket × rate) − exemption credits',
+      inputs: { income: traceRound(stateTaxDetails.income), filingStatus: inputs.filingStatus },
+      intermediates: {
+        standardDeduction: stateTaxDetails.standardDeduction,
+        personalExemption: stateTaxDetails.personalExemption,
+        taxableIncome: traceRound(stateTaxDetails.taxableIncome),
+        credits: stateTaxDetails.credits,
+      },
+      result: traceRound(stateTaxAnnual),
+      source: `STATE_TAX_INFO.${inputs.state}`,
+    });
   }
   
   // Calculate FICA taxes (on gross, not taxable income)
@@ -747,10 +706,34 @@ export function calculatePaycheck(inputs: PaycheckInputs): PaycheckResult {
   let additionalMedicareAnnual = 0;
   
   if (!inputs.ficaExempt) {
-    socialSecurityAnnual = calculateSocialSecurityTax(ficaGross, inputs.ytdGrossIncome || 0, 2025);
-    const medicare = calculateMedicareTax(ficaGross, inputs.filingStatus, 2025);
+    socialSecurityAnnual = calculateSocialSecurityTax(ficaGross, inputs.ytdGrossIncome || 0, taxYear);
+    const medicare = calculateMedicareTax(ficaGross, inputs.filingStatus, taxYear);
     medicareAnnual = medicare.baseTax;
     additionalMedicareAnnual = medicare.additionalTax;
+    trace.add({
+      name: 'socialSecurityTax',
+      description: 'Social Security tax on wages up to the annual wage base',
+      formula: 'min(wages, wage base − year-to-date wages) × rate',
+      inputs: { wages: traceRound(ficaGross), ytdGrossIncome: inputs.ytdGrossIncome || 0 },
+      intermediates: { rate: fica.socialSecurityRate, wageBase: fica.socialSecurityLimit },
+      result: traceRound(socialSecurityAnnual),
+      source: `${ficaSource}.socialSecurityRate, ${ficaSource}.socialSecurityLimit`,
+    });
+    trace.add({
+      name: 'medicareTax',
+      description: 'Medicare tax on all wages, plus Additional Medicare Tax above the threshold',
+      formula: 'wages × rate + max(0, wages − threshold) × additional rate',
+      inputs: { wages: traceRound(ficaGross), filingStatus: inputs.filingStatus },
+      intermediates: {
+        rate: fica.medicareRate,
+        baseTax: traceRound(medicareAnnual),
+        additionalRate: fica.additionalMedicareRate,
+        threshold: fica.additionalMedicareThresholds[inputs.filingStatus],
+        additionalTax: traceRound(additionalMedicareAnnual),
+      },
+      result: traceRound(medicareAnnual + additionalMedicareAnnual),
+      source: `${ficaSource}.medicareRate, ${ficaSource}.additionalMedicareRate`,
+    });
   }
   
   // Calculate post-tax deductions
@@ -767,6 +750,21 @@ export function calculatePaycheck(inputs: PaycheckInputs): PaycheckResult {
   const annualNet = annualGross - totalAnnualTaxes - totalAnnualDeductions;
   const netPerPaycheck = annualNet / payPeriods;
   
+  trace.add({
+    name: 'netPay',
+    description: 'Take-home pay per paycheck',
+    formula: '(gross − taxes − pre-tax deductions − post-tax deductions) ÷ pay periods',
+    inputs: {
+      annualGross: traceRound(annualGross),
+      totalAnnualTaxes: traceRound(totalAnnualTaxes),
+      annualPreTaxDeductions: traceRound(annualPreTaxDeductions),
+      annualPostTaxDeductions: traceRound(annualPostTaxDeductions),
+      payPeriods,
+    },
+    intermediates: { annualNet: traceRound(annualNet) },
+    result: traceRound(netPerPaycheck),
+  });
+  
   // Build tax breakdown
   const federalTax: TaxBreakdown = {
     name: 'Federal Income Tax',
@@ -836,7 +834,7 @@ export function calculatePaycheck(inputs: PaycheckInputs): PaycheckResult {
   // Hourly equivalent (based on 2080 working hours/year = 40 hrs × 52 weeks)
   const hourlyEquivalent = annualNet / 2080;
   
-  return {
+  return withTrace(withValidationIssues({
     // Pay period amounts
     grossPay: grossPerPaycheck,
     netPay: netPerPaycheck,
@@ -867,6 +865,8 @@ export function calculatePaycheck(inputs: PaycheckInputs): PaycheckResult {
     effectiveTaxRate,
     marginalFederalRate,
     marginalStateRate,
+    effectiveStateRate,
+    stateTaxDetails,
     
     // Conversion helpers
     hourlyEquivalent,
@@ -876,7 +876,7 @@ export function calculatePaycheck(inputs: PaycheckInputs): PaycheckResult {
     taxPercentage,
     deductionPercentage,
     takeHomePercentage,
-  };
+  }, validationIssues), trace);
 }
 
 /**
@@ -997,15 +997,13 @@ export function compareStates(
 export function getTaxBracketInfo(
   taxableIncome: number,
   filingStatus: FilingStatus,
-  taxYear: 2024 | 2025 = 2025
+  taxYear: number = DEFAULT_TAX_YEAR
 ): {
   currentBracket: { rate: number; min: number; max: number };
   nextBracket: { rate: number; min: number; max: number } | null;
   incomeUntilNextBracket: number;
 } {
-  const brackets = taxYear === 2024 
-    ? FEDERAL_TAX_BRACKETS_2024[filingStatus]
-    : FEDERAL_TAX_BRACKETS_2025[filingStatus];
+  const brackets = getOrdinaryBrackets(filingStatus, taxYear);
   
   let currentBracket = brackets[0]!;
   let nextBracket: typeof currentBracket | null = null;
@@ -17,6 +17,15 @@
  */
 
 import { CompoundingFrequency, getPeriodsPerYear, calculateEffectiveAnnualRate } from '../investment/compoundInterest.js';
+import {
+  type ValidationIssue,
+  checkNumber,
+  checkOneOf,
+  enforceValidation,
+  withValidationIssues
+} from '../utils/validation.js';
+import { type Percent, type WithExplicitRates, normalizeRateFields } from '../utils/rates.js';
+import { type CalculatorOptions, type TraceStep, createTrace, withTrace, traceRound } from '../utils/trace.js';
 
 /**
  * Types of savings goals
@@ -47,7 +56,7 @@ export interface SavingsGoalInputs {
   /** Number of years to reach the goal */
   yearsToGoal: number;
   /** Expected annual return rate as percentage (e.g., 5 for 5%) */
-  expectedReturnRate: number;
+  expectedReturnRate: Percent;
   /** How often interest compounds (optional, defaults to 'monthly') */
   compoundingFrequency?: CompoundingFrequency;
   /** How often contributions are made (optional, defaults to 'monthly') */
@@ -58,6 +67,16 @@ export interface SavingsGoalInputs {
   goalName?: string;
 }
 
+/**
+ * Rate fields of SavingsGoalInputs and the convention they use
+ */
+export const SAVINGS_GOAL_RATE_FIELDS = { expectedReturnRate: 'percent' } as const;
+
+/**
+ * Savings goal inputs with rates as { percent: 5 } or { rate: 0.05 }
+ */
+export type SavingsGoalRateInputs = WithExplicitRates<SavingsGoalInputs, typeof SAVINGS_GOAL_RATE_FIELDS>;
+
 /**
  * Year-by-year progress toward goal
  */
@@ -144,6 +163,10 @@ export interface SavingsGoalResult {
   isAchievable: boolean;
   /** Warning message if goal may be difficult to achieve */
   warning?: string;
+  /** Input validation issues (present only when issues were found) */
+  validationIssues?: ValidationIssue[];
+  /** Calculation steps (present only with { trace: true }) */
+  trace?: TraceStep[];
 }
 
 /**
@@ -167,6 +190,38 @@ export function getContributionPeriodsPerYear(frequency: ContributionFrequency):
   }
 }
 
+/**
+ * Validate savings goal inputs
+ * 
+ * @param rateInputs - Calculation parameters
+ * @returns Validation issues (empty when inputs are valid)
+ */
+export function validateSavingsGoalInputs(rateInputs: SavingsGoalInputs | SavingsGoalRateInputs): ValidationIssue[] {
+  const inputs = normalizeRateFields(rateInputs, SAVINGS_GOAL_RATE_FIELDS);
+  const issues: ValidationIssue[] = [];
+  
+  checkNumber(issues, 'goalAmount', inputs.goalAmount, { min: 0, exclusiveMin: true });
+  checkNumber(issues, 'currentSavings', inputs.currentSavings, { min: 0, required: false });
+  checkNumber(issues, 'yearsToGoal', inputs.yearsToGoal, { min: 0, exclusiveMin: true, max: 100 });
+  checkNumber(issues, 'expectedReturnRate', inputs.expectedReturnRate, { min: 0, max: 100 });
+  checkOneOf(
+    issues,
+    'compoundingFrequency',
+    inputs.compoundingFrequency,
+    ['daily', 'monthly', 'quarterly', 'semi-annually', 'annually', 'continuously'] as const,
+    false
+  );
+  checkOneOf(
+    issues,
+    'contributionFrequency',
+    inputs.contributionFrequency,
+    ['weekly', 'bi-weekly', 'monthly', 'quarterly', 'annually'] as const,
+    false
+  );
+  
+  return issues;
+}
+
 /**
  * Calculate required savings to reach a financial goal
  * 
@@ -174,6 +229,8 @@ export function getContributionPeriodsPerYear(frequency: ContributionFrequency):
  * amount and timeframe, it determines how much needs to be saved regularly.
  * 
  * @param inputs - Calculation parameters
+ * @param options - Validation options (strict mode throws on invalid inputs)
+ *   and `trace` to return the calculation steps
  * @returns Complete calculation results with progress tracking
  * 
  * @example
@@ -190,7 +247,25 @@ export function getContributionPeriodsPerYear(frequency: ContributionFrequency):
  * console.log(result.totalReturns); // ~$6,500
  * ```
  */
-export function calculateSavingsGoal(inputs: SavingsGoalInputs): SavingsGoalResult {
+export function calculateSavingsGoal(
+  inputs: SavingsGoalInputs,
+  options?: CalculatorOptions
+): SavingsGoalResult;
+/**
+ * Same as above, with rates as { percent } or { rate } (see SAVINGS_GOAL_RATE_FIELDS)
+ */
+export function calculateSavingsGoal(
+  inputs: SavingsGoalRateInputs,
+  options?: CalculatorOptions
+): SavingsGoalResult;
+export function calculateSavingsGoal(
+  rateInputs: SavingsGoalInputs | SavingsGoalRateInputs,
+  options: CalculatorOptions = {}
+): SavingsGoalResult {
+  const inputs = normalizeRateFields(rateInputs, SAVINGS_GOAL_RATE_FIELDS);
+  const validationIssues = enforceValidation(validateSavingsGoalInputs(inputs), options);
+  const trace = createTrace(options);
+  
   const {
     goalAmount,
     currentSavings = 0,
@@ -207,7 +282,17 @@ export function calculateSavingsGoal(inputs: SavingsGoalInputs): SavingsGoalResu
   if (expectedReturnRate < 0) throw new Error('Expected return rate cannot be negative');
   if (currentSavings >= goalAmount) {
     // Goal already achieved
-    return createAlreadyAchievedResult(goalAmount, currentSavings, expectedReturnRate, compoundingFrequency);
+    trace.add({
+      name: 'goalAchieved',
+      description: 'Current savings already cover the goal; no contributions needed',
+      formula: 'current savings ≥ goal amount',
+      inputs: { currentSavings, goalAmount },
+      result: true,
+    });
+    return withTrace(withValidationIssues(
+      createAlreadyAchievedResult(goalAmount, currentSavings, expectedReturnRate, compoundingFrequency),
+      validationIssues
+    ), trace);
   }
 
   const r = expectedReturnRate / 100;
@@ -263,6 +348,29 @@ export function calculateSavingsGoal(inputs: SavingsGoalInputs): SavingsGoalResu
   requiredContribution = Math.max(0, requiredContribution);
   monthlyContribution = Math.max(0, monthlyContribution);
   
+  trace.add({
+    name: 'futureValueOfCurrentSavings',
+    description: 'What current savings grow to by the deadline with no new contributions',
+    formula: compoundingFrequency === 'continuously' ? 'FV = PV × e^(rt)' : 'FV = PV × (1 + r/n)^(nt)',
+    inputs: { currentSavings, expectedReturnRate, periodsPerYear: n, yearsToGoal },
+    result: traceRound(futureValueOfCurrent),
+  });
+  trace.add({
+    name: 'requiredContribution',
+    description: `Contribution needed each ${contributionFrequency} period to close the gap`,
+    formula: r === 0
+      ? 'PMT = (goal − current savings) ÷ contribution periods'
+      : 'PMT = (goal − FV of current savings) ÷ (((1 + r/p)^(pt) − 1) ÷ (r/p))',
+    inputs: {
+      goalAmount,
+      futureValueOfCurrentSavings: traceRound(futureValueOfCurrent),
+      contributionPeriodsPerYear,
+      yearsToGoal,
+    },
+    intermediates: { amountNeeded, monthlyEquivalent: traceRound(monthlyContribution) },
+    result: traceRound(requiredContribution),
+  });
+  
   const annualContribution = monthlyContribution * 12;
   const totalContributions = currentSavings + (annualContribution * yearsToGoal);
   const totalReturns = goalAmount - totalContributions;
@@ -272,6 +380,15 @@ export function calculateSavingsGoal(inputs: SavingsGoalInputs): SavingsGoalResu
   const contributionPercentage = (totalContributions / goalAmount) * 100;
   const returnPercentage = (totalReturns / goalAmount) * 100;
   
+  trace.add({
+    name: 'totalReturns',
+    description: 'Share of the goal earned by investment growth rather than contributed',
+    formula: 'goal − (current savings + annual contribution × years)',
+    inputs: { goalAmount, totalContributions: traceRound(totalContributions) },
+    intermediates: { returnPercentage: traceRound(returnPercentage, 1) },
+    result: traceRound(totalReturns),
+  });
+  
   // Generate year-by-year progress
   const yearlyProgress = calculateYearlyProgress(
     currentSavings,
@@ -311,7 +428,7 @@ export function calculateSavingsGoal(inputs: SavingsGoalInputs): SavingsGoalResu
     warning = 'Required monthly contribution is quite high. Consider extending your timeline or adjusting your goal.';
   }
   
-  return {
+  return withTrace(withValidationIssues({
     requiredContribution,
     monthlyContribution,
     annualContribution,
@@ -326,7 +443,7 @@ export function calculateSavingsGoal(inputs: SavingsGoalInputs): SavingsGoalResu
     scenarios,
     isAchievable,
     warning,
-  };
+  }, validationIssues), trace);
 }
 
 /**
@@ -0,0 +1,349 @@
+/**
+ * Adjustable-Rate Mortgages (ARM)
+ *
+ * Rate reset rules for hybrid ARMs such as the 5/1, 7/6 and 10/6. The rate
+ * is fixed for an initial period, then resets on a regular interval to the
+ * index plus a margin, limited by:
+ * - Initial adjustment cap: largest change at the first reset
+ * - Periodic cap: largest change at each later reset
+ * - Lifetime cap: largest increase over the initial rate
+ * - Floor: lowest rate the loan can reach (default: the margin)
+ *
+ * The index at each reset comes from a caller-supplied path or a stress
+ * scenario. Rates are percentages (6.5 = 6.5%), like the mortgage
+ * calculator.
+ */
+
+import {
+  type ValidationIssue,
+  checkNumber,
+  checkOneOf,
+  checkCondition
+} from '../utils/validation.js';
+import { type Percent, type WithExplicitRates, normalizeRateFields } from '../utils/rates.js';
+import { calculateMonthlyPayment } from './loanCalculator.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Standard hybrid ARM products (years fixed / months between resets,
+ * with /1 meaning yearly resets)
+ */
+export type ARMProduct = '5/1' | '7/6' | '10/6';
+
+/**
+ * How the index moves when no index path is given
+ * - flat: stays at today's value
+ * - rising: up 1 point at each reset
+ * - falling: down 1 point at each reset
+ * - worst-case: the rate rises as far as the caps allow at every reset
+ */
+export type ARMStressScenario = 'flat' | 'rising' | 'falling' | 'worst-case';
+
+/**
+ * Reset schedule and caps of an ARM product
+ */
+export interface ARMProductTerms {
+  /** Months at the initial rate */
+  fixedPeriodMonths: number;
+  /** Months between resets after the fixed period */
+  adjustmentIntervalMonths: number;
+  /** Largest rate change at the first reset (percentage points) */
+  initialAdjustmentCap: Percent;
+  /** Largest rate change at each later reset (percentage points) */
+  periodicCap: Percent;
+  /** Largest increase over the initial rate (percentage points) */
+  lifetimeCap: Percent;
+}
+
+/**
+ * ARM terms for the mortgage calculator
+ *
+ * The mortgage's `interestRate` is the initial rate. Product terms can be
+ * overridden field by field to match a specific loan.
+ */
+export interface ARMTerms extends Partial<ARMProductTerms> {
+  /** Product preset for the reset schedule and caps */
+  product: ARMProduct;
+  /** Index value today (e.g., 30-day average SOFR 4.3) */
+  index: Percent;
+  /** Margin added to the index at each reset */
+  margin: Percent;
+  /** Lowest rate the loan can reset to (default: the margin) */
+  floor?: Percent;
+  /** Index value at each reset, in order (the last value repeats) */
+  indexPath?: Percent[];
+  /** Index scenario used when no index path is given (default: 'flat') */
+  stressScenario?: ARMStressScenario;
+}
+
+/**
+ * Rate fields of ARMTerms and the convention they use
+ */
+export const ARM_RATE_FIELDS = {
+  index: 'percent',
+  margin: 'percent',
+  floor: 'percent',
+  initialAdjustmentCap: 'percent',
+  periodicCap: 'percent',
+  lifetimeCap: 'percent'
+} as const;
+
+/**
+ * ARM terms with rates as { percent: 4.3 } or { rate: 0.043 }
+ */
+export type ARMRateTerms = WithExplicitRates<ARMTerms, typeof ARM_RATE_FIELDS>;
+
+/**
+ * ARM terms with product defaults filled in
+ */
+export interface ResolvedARMTerms extends ARMProductTerms {
+  product: ARMProduct;
+  index: number;
+  margin: number;
+  floor: number;
+  indexPath?: number[];
+  stressScenario: ARMStressScenario;
+}
+
+/**
+ * A rate reset in the payment schedule
+ */
+export interface ARMRateReset {
+  /** Payment number the new rate first applies to */
+  month: number;
+  /** Due date of that payment (ISO) */
+  date: string;
+  /** Index value used (null on the worst-case path, which is set by the caps) */
+  index: number | null;
+  /** New annual rate (percent) */
+  rate: number;
+  /** New monthly principal and interest payment */
+  payment: number;
+}
+
+/**
+ * ARM details reported with the mortgage summary
+ */
+export interface ARMSummary {
+  product: ARMProduct;
+  /** Rate during the fixed period (percent) */
+  initialRate: number;
+  /** Index + margin today, before caps (percent) */
+  fullyIndexedRate: number;
+  /** Highest rate the loan can reach (initial rate + lifetime cap) */
+  maxRate: number;
+  /** Lowest rate the loan can reach */
+  minRate: number;
+  /** Index scenario used for the schedule ('path' when an index path was given) */
+  scenario: ARMStressScenario | 'path';
+  /** Rate resets on the modeled path */
+  resets: ARMRateReset[];
+  /** Highest P&I payment on the modeled path */
+  maxScheduledPayment: number;
+  /** Highest P&I payment if the rate rises as fast as the caps allow */
+  worstCasePayment: number;
+  /** Payment number at which the worst-case payment is first reached */
+  worstCasePaymentMonth: number;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/**
+ * Reset schedule and caps of standard ARM products
+ *
+ * 5/1: 2/2/5 caps (yearly resets, typical of LIBOR-era and portfolio ARMs)
+ * 7/6, 10/6: 5/1/5 caps (six-month SOFR ARMs, Fannie Mae / Freddie Mac standard)
+ */
+export const ARM_PRODUCTS: Record<ARMProduct, ARMProductTerms> = {
+  '5/1': { fixedPeriodMonths: 60, adjustmentIntervalMonths: 12, initialAdjustmentCap: 2, periodicCap: 2, lifetimeCap: 5 },
+  '7/6': { fixedPeriodMonths: 84, adjustmentIntervalMonths: 6, initialAdjustmentCap: 5, periodicCap: 1, lifetimeCap: 5 },
+  '10/6': { fixedPeriodMonths: 120, adjustmentIntervalMonths: 6, initialAdjustmentCap: 5, periodicCap: 1, lifetimeCap: 5 }
+};
+
+/** Index change per reset in the 'rising' and 'falling' scenarios (percentage points) */
+export const ARM_STRESS_INDEX_STEP = 1;
+
+// ============================================================================
+// Functions
+// ============================================================================
+
+/**
+ * Fill in product defaults and convert explicit rates
+ *
+ * @param terms - ARM terms as entered
+ * @returns Terms with every field set
+ */
+export function resolveARMTerms(terms: ARMTerms | ARMRateTerms): ResolvedARMTerms {
+  const normalized = normalizeRateFields(terms, ARM_RATE_FIELDS);
+  const product = ARM_PRODUCTS[normalized.product] ?? ARM_PRODUCTS['7/6'];
+
+  return {
+    product: normalized.product,
+    fixedPeriodMonths: normalized.fixedPeriodMonths ?? product.fixedPeriodMonths,
+    adjustmentIntervalMonths: normalized.adjustmentIntervalMonths ?? product.adjustmentIntervalMonths,
+    initialAdjustmentCap: normalized.initialAdjustmentCap ?? product.initialAdjustmentCap,
+    periodicCap: normalized.periodicCap ?? product.periodicCap,
+    lifetimeCap: normalized.lifetimeCap ?? product.lifetimeCap,
+    index: normalized.index,
+    margin: normalized.margin,
+    floor: normalized.floor ?? normalized.margin,
+    indexPath: normalized.indexPath,
+    stressScenario: normalized.stressScenario ?? 'flat'
+  };
+}
+
+/**
+ * Validate ARM terms
+ *
+ * @param rateTerms - ARM terms
+ * @param termMonths - Loan term in months (to check the fixed period fits)
+ * @param field - Path of the terms in the calculator inputs
+ * @returns Validation issues (empty when the terms are valid)
+ */
+export function validateARMTerms(
+  rateTerms: ARMTerms | ARMRateTerms,
+  termMonths: number,
+  field: string = 'arm'
+): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const terms = normalizeRateFields(rateTerms, ARM_RATE_FIELDS);
+
+  checkOneOf(issues, `${field}.product`, terms.product, Object.keys(ARM_PRODUCTS) as ARMProduct[]);
+  checkNumber(issues, `${field}.index`, terms.index, { min: -100, max: 100 });
+  checkNumber(issues, `${field}.margin`, terms.margin, { min: 0, max: 100 });
+  checkNumber(issues, `${field}.floor`, terms.floor, { min: 0, max: 100, required: false });
+  checkNumber(issues, `${field}.initialAdjustmentCap`, terms.initialAdjustmentCap, { min: 0, max: 100, required: false });
+  checkNumber(issues, `${field}.periodicCap`, terms.periodicCap, { min: 0, max: 100, required: false });
+  checkNumber(issues, `${field}.lifetimeCap`, terms.lifetimeCap, { min: 0, max: 100, required: false });
+  checkNumber(issues, `${field}.adjustmentIntervalMonths`, terms.adjustmentIntervalMonths, { min: 1, integer: true, required: false });
+  const fixedValid = checkNumber(issues, `${field}.fixedPeriodMonths`, terms.fixedPeriodMonths, { min: 1, integer: true, required: false });
+  checkOneOf(issues, `${field}.stressScenario`, terms.stressScenario, ['flat', 'rising', 'falling', 'worst-case'] as const, false);
+  (terms.indexPath ?? []).forEach((value, i) => {
+    checkNumber(issues, `${field}.indexPath[${i}]`, value, { min: -100, max: 100 });
+  });
+
+  const fixedPeriodMonths = fixedValid
+    ? terms.fixedPeriodMonths
+    : ARM_PRODUCTS[terms.product]?.fixedPeriodMonths;
+  if (fixedPeriodMonths !== undefined && Number.isFinite(termMonths)) {
+    checkCondition(
+      issues,
+      fixedPeriodMonths < termMonths,
+      `${field}.fixedPeriodMonths`,
+      'invalid_relationship',
+      'Fixed period covers the whole loan term, so the rate never adjusts',
+      'warning'
+    );
+  }
+
+  return issues;
+}
+
+/**
+ * Whether the rate resets at a payment
+ *
+ * The first reset applies to the first payment after the fixed period.
+ *
+ * @param terms - Resolved ARM terms
+ * @param month - Payment number (1-indexed)
+ */
+export function isARMResetMonth(terms: ResolvedARMTerms, month: number): boolean {
+  const monthsAfterFixed = month - terms.fixedPeriodMonths - 1;
+  return monthsAfterFixed >= 0 && monthsAfterFixed % terms.adjustmentIntervalMonths === 0;
+}
+
+/**
+ * Index value at a reset
+ *
+ * @param terms - Resolved ARM terms
+ * @param resetNumber - Reset number (1 = first reset)
+ * @returns Index value, or null on the worst-case path
+ */
+export function armIndexAt(terms: ResolvedARMTerms, resetNumber: number): number | null {
+  if (terms.indexPath && terms.indexPath.length > 0) {
+    return terms.indexPath[Math.min(resetNumber, terms.indexPath.length) - 1];
+  }
+
+  switch (terms.stressScenario) {
+    case 'rising':
+      return terms.index + ARM_STRESS_INDEX_STEP * resetNumber;
+    case 'falling':
+      return terms.index - ARM_STRESS_INDEX_STEP * resetNumber;
+    case 'worst-case':
+      return null;
+    default:
+      return terms.index;
+  }
+}
+
+/**
+ * Rate after a reset
+ *
+ * Index + margin, held within the reset's cap of the previous rate, the
+ * lifetime cap over the initial rate and the floor.
+ *
+ * @param terms - Resolved ARM terms
+ * @param initialRate - Rate during the fixed period (percent)
+ * @param previousRate - Rate before this reset (percent)
+ * @param index - Index value (null moves the rate up by the full cap)
+ * @param resetNumber - Reset number (1 = first reset)
+ * @returns New annual rate (percent)
+ */
+export function adjustARMRate(
+  terms: ResolvedARMTerms,
+  initialRate: number,
+  previousRate: number,
+  index: number | null,
+  resetNumber: number
+): number {
+  const cap = resetNumber === 1 ? terms.initialAdjustmentCap : terms.periodicCap;
+  const maxRate = initialRate + terms.lifetimeCap;
+  const target = index === null ? Infinity : index + terms.margin;
+
+  const capped = Math.min(Math.max(target, previousRate - cap), previousRate + cap);
+  return Math.max(terms.floor, Math.min(capped, maxRate));
+}
+
+/**
+ * Highest P&I payment if the rate rises as fast as the caps allow
+ *
+ * Follows the scheduled balance without extra payments, recomputing the
+ * payment over the remaining term at each reset.
+ *
+ * @param principal - Loan amount
+ * @param initialRate - Rate during the fixed period (percent)
+ * @param termMonths - Loan term in months
+ * @param terms - Resolved ARM terms
+ * @returns Highest payment and the payment number it first applies to
+ */
+export function calculateARMWorstCasePayment(
+  principal: number,
+  initialRate: number,
+  termMonths: number,
+  terms: ResolvedARMTerms
+): { payment: number; month: number } {
+  let rate = initialRate;
+  let payment = calculateMonthlyPayment(principal, rate, termMonths);
+  let balance = principal;
+  let worst = { payment, month: 1 };
+  let resetNumber = 0;
+
+  for (let month = 1; month <= termMonths && balance > 0.01; month++) {
+    if (isARMResetMonth(terms, month)) {
+      resetNumber++;
+      rate = adjustARMRate(terms, initialRate, rate, null, resetNumber);
+      payment = calculateMonthlyPayment(balance, rate, termMonths - month + 1);
+      if (payment > worst.payment + 0.005) {
+        worst = { payment, month };
+      }
+    }
+    balance -= Math.min(payment - balance * (rate / 100 / 12), balance);
+  }
+
+  return worst;
+}
@@ -0,0 +1,204 @@
+/**
+ * Annual Percentage Rate (APR)
+ *
+ * Truth in Lending (Regulation Z) APR using the actuarial method. Prepaid
+ * finance charges - origination fees, discount points, an upfront mortgage
+ * insurance premium and similar fees - reduce the amount financed. The
+ * APR is then the annual rate at which the payment stream has a present
+ * value equal to that amount:
+ *
+ *   amount financed = Σ payment_k ÷ (1 + i)^k,  APR = i × periods per year
+ *
+ * Payments may include monthly mortgage insurance, which is also a finance
+ * charge. Rates are percentages (6.5 = 6.5%), like the loan and mortgage
+ * calculators.
+ */
+
+import {
+  type ValidationIssue,
+  checkNumber
+} from '../utils/validation.js';
+import { type Percent } from '../utils/rates.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Finance charges paid at closing (or financed into the loan)
+ */
+export interface PrepaidFinanceCharges {
+  /** Lender origination and underwriting fees */
+  originationFee?: number;
+  /** Discount points as % of the loan amount (1 = 1%) */
+  discountPoints?: number;
+  /** Upfront mortgage insurance premium (e.g., FHA UFMIP, VA funding fee) */
+  mortgageInsurancePremium?: number;
+  /** Other finance charges (processing, prepaid interest, broker fees) */
+  otherCharges?: number;
+}
+
+/**
+ * Truth in Lending disclosure figures
+ */
+export interface APRResult {
+  /** Annual percentage rate (percent, to 3 decimals) */
+  apr: Percent;
+  /** Note rate (percent) */
+  noteRate: Percent;
+  /** Loan amount − prepaid finance charges */
+  amountFinanced: number;
+  /** Sum of the prepaid finance charges */
+  prepaidFinanceCharges: number;
+  /** Total of payments − amount financed */
+  financeCharge: number;
+  /** Sum of all scheduled payments */
+  totalOfPayments: number;
+}
+
+// ============================================================================
+// Functions
+// ============================================================================
+
+/**
+ * Sum the prepaid finance charges on a loan
+ *
+ * @param principal - Loan amount (for discount points)
+ * @param charges - Prepaid finance charges
+ */
+export function totalPrepaidFinanceCharges(principal: number, charges: PrepaidFinanceCharges = {}): number {
+  return (charges.originationFee ?? 0) +
+    principal * (charges.discountPoints ?? 0) / 100 +
+    (charges.mortgageInsurancePremium ?? 0) +
+    (charges.otherCharges ?? 0);
+}
+
+/**
+ * Validate prepaid finance charges
+ *
+ * @param charges - Prepaid finance charges
+ * @param field - Path of the charges in the calculator inputs
+ * @returns Validation issues (empty when the charges are valid)
+ */
+export function validatePrepaidFinanceCharges(
+  charges: PrepaidFinanceCharges,
+  field: string = 'prepaidFinanceCharges'
+): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  checkNumber(issues, `${field}.originationFee`, charges.originationFee, { min: 0, required: false });
+  checkNumber(issues, `${field}.discountPoints`, charges.discountPoints, { min: 0, max: 20, required: false });
+  checkNumber(issues, `${field}.mortgageInsurancePremium`, charges.mortgageInsurancePremium, { min: 0, required: false });
+  checkNumber(issues, `${field}.otherCharges`, charges.otherCharges, { min: 0, required: false });
+  return issues;
+}
+
+/**
+ * Annual rate implied by a payment stream (actuarial method)
+ *
+ * Solves Σ payment_k ÷ (1 + i)^k = amount financed for the periodic rate i
+ * by bisection, with payment k due k periods after the loan is made.
+ *
+ * @param amountFinanced - Amount the borrower receives
+ * @param payments - Payment due at the end of each period, in order
+ * @param periodsPerYear - Payment periods per year (default: 12)
+ * @returns Annual rate as percentage (unrounded), or null when the
+ *   payments or amount financed are not positive
+ */
+export function rateFromPaymentStream(
+  amountFinanced: number,
+  payments: readonly number[],
+  periodsPerYear: number = 12
+): number | null {
+  const totalOfPayments = payments.reduce((sum, payment) => sum + payment, 0);
+  if (!(amountFinanced > 0) || !(totalOfPayments > 0)) {
+    return null;
+  }
+
+  const presentValue = (rate: number): number => {
+    let value = 0;
+    let discount = 1;
+    for (const payment of payments) {
+      discount /= 1 + rate;
+      value += payment * discount;
+    }
+    return value;
+  };
+
+  // Present value falls as the rate rises; bracket the rate, then bisect
+  // (the rate is negative only when the payments total less than the amount financed)
+  let low = totalOfPayments >= amountFinanced ? 0 : -0.5;
+  let high = 0.01;
+  while (presentValue(high) > amountFinanced && high < 1e6) {
+    high *= 2;
+  }
+  for (let i = 0; i < 200 && high - low > 1e-12; i++) {
+    const mid = (low + high) / 2;
+    if (presentValue(mid) > amountFinanced) {
+      low = mid;
+    } else {
+      high = mid;
+    }
+  }
+
+  return (low + high) / 2 * periodsPerYear * 100;
+}
+
+/**
+ * APR and Truth in Lending figures for a payment stream
+ *
+ * @param principal - Loan amount
+ * @param noteRate - Note rate (percent)
+ * @param payments - Scheduled payments, including any monthly mortgage insurance
+ * @param charges - Prepaid finance charges
+ * @param periodsPerYear - Payment periods per year (default: 12)
+ * @returns APR, amount financed, finance charge and total of payments
+ */
+export function calculateAPRFromPayments(
+  principal: number,
+  noteRate: number,
+  payments: readonly number[],
+  charges: PrepaidFinanceCharges = {},
+  periodsPerYear: number = 12
+): APRResult {
+  const prepaid = totalPrepaidFinanceCharges(principal, charges);
+  const amountFinanced = principal - prepaid;
+  const totalOfPayments = payments.reduce((sum, payment) => sum + payment, 0);
+  const apr = rateFromPaymentStream(amountFinanced, payments, periodsPerYear) ?? noteRate;
+
+  return {
+    apr: Math.round(apr * 1000) / 1000,
+    noteRate,
+    amountFinanced: Math.round(amountFinanced * 100) / 100,
+    prepaidFinanceCharges: Math.round(prepaid * 100) / 100,
+    financeCharge: Math.round((totalOfPayments - amountFinanced) * 100) / 100,
+    totalOfPayments: Math.round(totalOfPayments * 100) / 100
+  };
+}
+
+/**
+ * APR of a level-payment loan
+ *
+ * @param principal - Loan amount
+ * @param noteRate - Note rate (percent)
+ * @param periodicPayment - Payment each period
+ * @param numberOfPayments - Number of payments
+ * @param charges - Prepaid finance charges
+ * @param periodsPerYear - Payment periods per year (default: 12)
+ * @returns APR, amount financed, finance charge and total of payments
+ *
+ * @example
+ * // $300,000 at 6.5% for 30 years with $6,000 in fees
+ * calculateLevelPaymentAPR(300000, 6.5, 1896.2, 360, { originationFee: 3000, discountPoints: 1 })
+ * // apr: 6.695
+ */
+export function calculateLevelPaymentAPR(
+  principal: number,
+  noteRate: number,
+  periodicPayment: number,
+  numberOfPayments: number,
+  charges: PrepaidFinanceCharges = {},
+  periodsPerYear: number = 12
+): APRResult {
+  const payments = new Array<number>(Math.max(0, Math.round(numberOfPayments))).fill(periodicPayment);
+  return calculateAPRFromPayments(principal, noteRate, payments, charges, periodsPerYear);
+}
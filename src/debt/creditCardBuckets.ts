@@ -0,0 +1,276 @@
+/**
+ * Credit Card Balance Buckets
+ *
+ * A card balance is often several balances with their own rates:
+ * purchases, cash advances and balance transfers. Each bucket can have a
+ * promotional rate for its first months (e.g., a 0% intro APR), and a
+ * balance transfer can carry a fee added to the balance.
+ *
+ * Deferred-interest promotions (common on retail cards) charge no interest
+ * during the promotion, but interest accrues in the background at the
+ * regular rate; if the bucket is not paid in full when the promotion ends,
+ * all of it is charged at once.
+ *
+ * Payments follow the CARD Act (12 CFR 1026.53):
+ * - The minimum payment goes to the lowest-rate balances first (the
+ *   issuer's usual choice)
+ * - Any amount above the minimum goes to the highest-rate balance first,
+ *   except in the last two months of a deferred-interest promotion, when
+ *   it goes to that balance first
+ *
+ * Months are payment numbers (1 = first payment) and rates are percentages
+ * (22.9 = 22.9%), like the credit card calculator.
+ */
+
+import {
+  type ValidationIssue,
+  checkNumber,
+  checkOneOf,
+  checkCondition
+} from '../utils/validation.js';
+import { type Percent } from '../utils/rates.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Kind of balance on a card
+ */
+export type BalanceBucketType = 'purchase' | 'cash-advance' | 'balance-transfer';
+
+/**
+ * Promotional rate for the first months of a balance
+ */
+export interface PromotionalRate {
+  /** Rate during the promotion (default: 0) */
+  rate?: Percent;
+  /** Payments at the promotional rate */
+  months: number;
+  /** Charge the interest waived during the promotion if the balance is not paid in full by its end */
+  deferredInterest?: boolean;
+}
+
+/**
+ * A balance on a card with its own rate
+ */
+export interface BalanceBucket {
+  type: BalanceBucketType;
+  /** Name shown in snapshots (default: the type) */
+  label?: string;
+  balance: number;
+  /** Regular APR (after any promotion) */
+  interestRate: Percent;
+  promotion?: PromotionalRate;
+  /** Balance transfer fee as % of the balance, added to it (e.g., 3) */
+  transferFee?: Percent;
+}
+
+/**
+ * A bucket as the payoff progresses
+ */
+export interface BucketState {
+  type: BalanceBucketType;
+  label: string;
+  interestRate: number;
+  promotion?: PromotionalRate;
+  /** Balance including any transfer fee */
+  balance: number;
+  /** Balance before the transfer fee */
+  startingBalance: number;
+  transferFee: number;
+  /** Interest accrued but not yet charged on a deferred-interest promotion */
+  deferredInterest: number;
+  interestPaid: number;
+  deferredInterestCharged: number;
+  /** Payment that cleared the bucket (null while it has a balance) */
+  payoffMonth: number | null;
+}
+
+/**
+ * A bucket's activity in one month
+ */
+export interface BucketSnapshot {
+  type: BalanceBucketType;
+  label: string;
+  /** APR charged this month */
+  rate: number;
+  balance: number;
+  payment: number;
+  interest: number;
+}
+
+/**
+ * A bucket's totals over the payoff
+ */
+export interface BucketSummary {
+  type: BalanceBucketType;
+  label: string;
+  startingBalance: number;
+  transferFee: number;
+  interestPaid: number;
+  /** Deferred interest charged when the promotion ended unpaid (0 if waived) */
+  deferredInterestCharged: number;
+  /** Payment that cleared the bucket (null if never cleared) */
+  payoffMonth: number | null;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/**
+ * Default labels for each bucket type
+ */
+export const BALANCE_BUCKET_LABELS: Record<BalanceBucketType, string> = {
+  'purchase': 'Purchases',
+  'cash-advance': 'Cash advances',
+  'balance-transfer': 'Balance transfer'
+};
+
+/** Months before a deferred-interest promotion ends when excess payments go to it first */
+export const DEFERRED_INTEREST_ALLOCATION_MONTHS = 2;
+
+// ============================================================================
+// Functions
+// ============================================================================
+
+/**
+ * Validate a promotional rate
+ *
+ * @param promotion - Promotional rate
+ * @param field - Path of the promotion in the calculator inputs
+ * @returns Validation issues (empty when the promotion is valid)
+ */
+export function validatePromotion(promotion: PromotionalRate, field: string = 'promotion'): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  checkNumber(issues, `${field}.rate`, promotion.rate, { min: 0, max: 100, required: false });
+  checkNumber(issues, `${field}.months`, promotion.months, { min: 1, max: 600, integer: true });
+  return issues;
+}
+
+/**
+ * Validate balance buckets
+ *
+ * @param buckets - Balance buckets
+ * @param field - Path of the buckets in the calculator inputs
+ * @returns Validation issues (empty when the buckets are valid)
+ */
+export function validateBalanceBuckets(
+  buckets: readonly BalanceBucket[] | undefined,
+  field: string = 'buckets'
+): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  if (buckets === undefined) {
+    return issues;
+  }
+  if (!checkCondition(issues, Array.isArray(buckets), field, 'invalid_option', 'Buckets must be a list')) {
+    return issues;
+  }
+
+  buckets.forEach((bucket, i) => {
+    const path = `${field}[${i}]`;
+    checkOneOf(issues, `${path}.type`, bucket.type, Object.keys(BALANCE_BUCKET_LABELS) as BalanceBucketType[]);
+    checkNumber(issues, `${path}.balance`, bucket.balance, { min: 0 });
+    checkNumber(issues, `${path}.interestRate`, bucket.interestRate, { min: 0, max: 100 });
+    checkNumber(issues, `${path}.transferFee`, bucket.transferFee, { min: 0, max: 100, required: false });
+    if (bucket.promotion !== undefined) {
+      issues.push(...validatePromotion(bucket.promotion, `${path}.promotion`));
+    }
+  });
+  return issues;
+}
+
+/**
+ * Set up a bucket for the payoff, adding any transfer fee to its balance
+ */
+export function createBucketState(bucket: BalanceBucket): BucketState {
+  const transferFee = bucket.balance * (bucket.transferFee ?? 0) / 100;
+  return {
+    type: bucket.type,
+    label: bucket.label ?? BALANCE_BUCKET_LABELS[bucket.type],
+    interestRate: bucket.interestRate,
+    promotion: bucket.promotion,
+    balance: bucket.balance + transferFee,
+    startingBalance: bucket.balance,
+    transferFee,
+    deferredInterest: 0,
+    interestPaid: 0,
+    deferredInterestCharged: 0,
+    payoffMonth: null
+  };
+}
+
+/**
+ * Whether a payment falls within a bucket's promotion
+ */
+export function isInPromotion(bucket: BucketState, month: number): boolean {
+  return bucket.promotion !== undefined && month <= bucket.promotion.months;
+}
+
+/**
+ * APR charged on a bucket for a payment
+ */
+export function bucketRate(bucket: BucketState, month: number): number {
+  return isInPromotion(bucket, month) ? bucket.promotion!.rate ?? 0 : bucket.interestRate;
+}
+
+/**
+ * Split a payment across buckets under the CARD Act
+ *
+ * @param buckets - Buckets after this month's interest
+ * @param payment - Total payment
+ * @param minimum - Minimum payment due
+ * @param month - Payment number
+ * @returns Amount applied to each bucket, in bucket order
+ */
+export function allocateCardPayment(
+  buckets: readonly BucketState[],
+  payment: number,
+  minimum: number,
+  month: number
+): number[] {
+  const applied = buckets.map(() => 0);
+  const apply = (order: number[], amount: number): number => {
+    for (const i of order) {
+      const portion = Math.min(amount, buckets[i].balance - applied[i]);
+      applied[i] += portion;
+      amount -= portion;
+    }
+    return amount;
+  };
+
+  const indexes = buckets.map((_, i) => i);
+  const byRate = (direction: 1 | -1) => [...indexes].sort(
+    (a, b) => direction * (bucketRate(buckets[a], month) - bucketRate(buckets[b], month))
+  );
+  const minimumPart = Math.min(payment, minimum);
+  let excess = payment - minimumPart + apply(byRate(1), minimumPart);
+
+  // Deferred-interest balances ending within two months come first
+  const ending = indexes.filter(i => {
+    const promotion = buckets[i].promotion;
+    return promotion?.deferredInterest === true &&
+      month <= promotion.months &&
+      month > promotion.months - DEFERRED_INTEREST_ALLOCATION_MONTHS;
+  });
+  excess = apply(ending, excess);
+  apply(byRate(-1), excess);
+
+  return applied;
+}
+
+/**
+ * Totals for a bucket, rounded for display
+ */
+export function summarizeBucket(bucket: BucketState): BucketSummary {
+  return {
+    type: bucket.type,
+    label: bucket.label,
+    startingBalance: Math.round(bucket.startingBalance * 100) / 100,
+    transferFee: Math.round(bucket.transferFee * 100) / 100,
+    interestPaid: Math.round(bucket.interestPaid * 100) / 100,
+    deferredInterestCharged: Math.round(bucket.deferredInterestCharged * 100) / 100,
+    payoffMonth: bucket.payoffMonth
+  };
+}
@@ -2,33 +2,251 @@
  * Credit Card Payoff Calculator
  * 
  * Calculates payoff scenarios for credit card debt including
- * minimum payment only vs fixed payment strategies.
+ * minimum payment only vs fixed payment strategies, with optional
+ * promotional rates and separate balances (see creditCardBuckets), and
+ * ongoing charges with statement cycles (see creditCardStatement).
  */
 
+import {
+  type ValidationIssue,
+  checkNumber,
+  checkCondition,
+  checkDate,
+  checkOneOf,
+  enforceValidation,
+  withValidationIssues
+} from '../utils/validation.js';
+import { type Percent, type WithExplicitRates, normalizeRateFields } from '../utils/rates.js';
+import {
+  type DateInput,
+  formatISODate,
+  monthlyPaymentDate,
+  monthsBetween,
+  parseCalendarDate,
+  resolveFirstPaymentDate,
+  toDate
+} from '../utils/dates.js';
+import {
+  type PromotionalRate,
+  type BalanceBucket,
+  type BucketState,
+  type BucketSnapshot,
+  type BucketSummary,
+  allocateCardPayment,
+  bucketRate,
+  createBucketState,
+  isInPromotion,
+  summarizeBucket,
+  validateBalanceBuckets,
+  validatePromotion
+} from './creditCardBuckets.js';
+import {
+  type CardInterestMethod,
+  CARD_INTEREST_METHODS,
+  DEFAULT_GRACE_PERIOD_DAYS,
+  MIN_GRACE_PERIOD_DAYS,
+  MAX_GRACE_PERIOD_DAYS,
+  cycleInterest,
+  statementCycle
+} from './creditCardStatement.js';
+import { type CalculatorOptions, type CalculationTrace, type TraceStep, createTrace, withTrace, traceRound } from '../utils/trace.js';
+
 export interface CreditCardInputs {
   balance: number;
-  interestRate: number; // Annual percentage
-  minimumPaymentPercentage: number; // e.g., 2 for 2%
+  interestRate: Percent; // Annual percentage
+  minimumPaymentPercentage: Percent; // e.g., 2 for 2%
   minimumPaymentFloor: number; // Minimum dollar amount (e.g., $25)
+  firstPaymentDate?: DateInput; // Default: one month after today
+  today?: DateInput; // Default: the current date
+  promotion?: PromotionalRate; // Intro rate on `balance` (e.g., 0% for 15 months)
+  buckets?: BalanceBucket[]; // Other balances with their own rates (cash advances, transfers)
+  monthlyCharges?: number; // New purchases each month, added to `balance`
+  interestMethod?: CardInterestMethod; // Default: 'monthly'
+  gracePeriodDays?: number; // Days from statement closing to payment due (default: 25)
 }
 
+/**
+ * Rate fields of CreditCardInputs and the convention they use
+ */
+export const CREDIT_CARD_RATE_FIELDS = { interestRate: 'percent', minimumPaymentPercentage: 'percent' } as const;
+
+/**
+ * Credit card inputs with rates as { percent: 22.9 } or { rate: 0.229 }
+ */
+export type CreditCardRateInputs = WithExplicitRates<CreditCardInputs, typeof CREDIT_CARD_RATE_FIELDS>;
+
 export interface PayoffScenario {
   strategy: 'minimum' | 'fixed' | 'aggressive';
   monthsToPayoff: number;
   totalInterestPaid: number;
   totalPaid: number;
   monthlyPayment: number;
-  payoffDate: Date;
+  payoffDate: Date; // Due date of the final payment
+  totalFees?: number; // Balance transfer fees (with buckets)
+  buckets?: BucketSummary[]; // Each balance (with buckets or a promotion)
+  totalCharges?: number; // New charges made until payoff (with monthlyCharges or daily balances)
   monthlySnapshots: MonthlySnapshot[];
+  validationIssues?: ValidationIssue[];
+  trace?: TraceStep[];
+}
+
+/**
+ * Pay a set amount each month
+ */
+export interface FixedPaymentPlan {
+  type: 'fixed';
+  payment: number;
+  label?: string; // Default: '$400/month'
+}
+
+/**
+ * Pay whatever clears the card within a number of payments
+ */
+export interface TargetMonthsPlan {
+  type: 'target-months';
+  months: number;
+  label?: string; // Default: 'Debt-free in 24 months'
+}
+
+/**
+ * Pay whatever clears the card by a date
+ */
+export interface TargetDatePlan {
+  type: 'target-date';
+  date: DateInput; // Last payment due on or before this date
+  label?: string; // Default: 'Debt-free by 2027-12-15'
+}
+
+/**
+ * Pay a percentage of the balance each month, like a minimum payment
+ */
+export interface PercentOfBalancePlan {
+  type: 'percent-of-balance';
+  percent: Percent; // e.g., 5 for 5%
+  floor?: number; // Smallest payment (default: minimumPaymentFloor)
+  label?: string; // Default: '5% of balance'
+}
+
+/**
+ * A way of paying down a card, for compareCreditCardStrategies
+ */
+export type CreditCardPaymentPlan =
+  | FixedPaymentPlan
+  | TargetMonthsPlan
+  | TargetDatePlan
+  | PercentOfBalancePlan;
+
+export interface CreditCardStrategyResult {
+  label: string;
+  plan: CreditCardPaymentPlan;
+  payment: number; // Monthly payment (the first payment for percent-of-balance plans)
+  targetMonths?: number; // Payments allowed (target plans)
+  scenario: PayoffScenario;
+  interestSavings: number; // Interest saved vs. minimum payments (negative if more)
+  monthsSaved: number; // Payments fewer than with minimum payments
+}
+
+export interface CreditCardStrategyComparison {
+  minimum: PayoffScenario;
+  strategies: CreditCardStrategyResult[];
+  lowestInterest: string | null; // Label of the strategy with the least interest
+  fastestPayoff: string | null; // Label of the strategy paid off soonest
+  validationIssues?: ValidationIssue[];
 }
 
 export interface MonthlySnapshot {
   month: number;
+  date: string; // Payment due date (ISO, e.g. '2026-03-01')
   balance: number;
   payment: number;
   principal: number;
   interest: number;
   totalInterestPaid: number;
+  buckets?: BucketSnapshot[]; // Each balance (with buckets or a promotion)
+  statementDate?: string; // Statement closing date (with monthlyCharges or daily balances)
+  charges?: number; // New charges on the statement
+}
+
+/**
+ * Validate credit card inputs
+ * 
+ * Flags payments that never cover the monthly interest (and any new
+ * charges), since the balance would then never be paid off.
+ * 
+ * @param rateInputs - Credit card parameters
+ * @param fixedPayment - Optional fixed monthly payment
+ * @returns Validation issues (empty when inputs are valid)
+ */
+export function validateCreditCardInputs(
+  rateInputs: CreditCardInputs | CreditCardRateInputs,
+  fixedPayment?: number
+): ValidationIssue[] {
+  const inputs = normalizeRateFields(rateInputs, CREDIT_CARD_RATE_FIELDS);
+  const issues: ValidationIssue[] = [];
+  const balanceValid = checkNumber(issues, 'balance', inputs.balance, { min: 0 });
+  const rateValid = checkNumber(issues, 'interestRate', inputs.interestRate, { min: 0, max: 100 });
+  const percentValid = checkNumber(issues, 'minimumPaymentPercentage', inputs.minimumPaymentPercentage, {
+    min: 0,
+    exclusiveMin: true,
+    max: 100,
+  });
+  const floorValid = checkNumber(issues, 'minimumPaymentFloor', inputs.minimumPaymentFloor, { min: 0 });
+  const fixedValid = checkNumber(issues, 'fixedPayment', fixedPayment, { min: 0, exclusiveMin: true, required: false });
+  checkDate(issues, 'firstPaymentDate', inputs.firstPaymentDate);
+  checkDate(issues, 'today', inputs.today);
+  if (inputs.promotion !== undefined) {
+    issues.push(...validatePromotion(inputs.promotion));
+  }
+  const bucketIssues = validateBalanceBuckets(inputs.buckets);
+  issues.push(...bucketIssues);
+  const chargesValid = checkNumber(issues, 'monthlyCharges', inputs.monthlyCharges, { min: 0, required: false });
+  checkOneOf(issues, 'interestMethod', inputs.interestMethod, CARD_INTEREST_METHODS, false);
+  checkNumber(issues, 'gracePeriodDays', inputs.gracePeriodDays, {
+    min: MIN_GRACE_PERIOD_DAYS,
+    max: MAX_GRACE_PERIOD_DAYS,
+    integer: true,
+    required: false
+  });
+  const monthlyCharges = chargesValid ? inputs.monthlyCharges ?? 0 : 0;
+  
+  // With buckets, test the whole card at its regular (post-promotion) rates
+  const buckets = bucketIssues.length === 0 ? inputs.buckets ?? [] : [];
+  const totalBalance = buckets.reduce((sum, b) => sum + b.balance, inputs.balance);
+  const highestRate = buckets.reduce((max, b) => Math.max(max, b.interestRate), inputs.interestRate);
+  if (balanceValid && rateValid && bucketIssues.length === 0 && totalBalance > 0) {
+    const firstMonthInterest = inputs.balance * inputs.interestRate / 100 / 12 +
+      buckets.reduce((sum, b) => sum + b.balance * (1 + (b.transferFee ?? 0) / 100) * b.interestRate / 100 / 12, 0);
+    if (fixedPayment !== undefined && fixedValid) {
+      checkCondition(
+        issues,
+        fixedPayment > firstMonthInterest + monthlyCharges,
+        'fixedPayment',
+        'unreachable',
+        monthlyCharges > 0
+          ? `Payment must be more than the monthly interest and new charges ($${(firstMonthInterest + monthlyCharges).toFixed(2)}) to pay off the balance`
+          : `Payment must be more than the monthly interest ($${firstMonthInterest.toFixed(2)}) to pay off the balance`
+      );
+    } else if (fixedPayment === undefined && percentValid && floorValid) {
+      checkCondition(
+        issues,
+        inputs.minimumPaymentPercentage > highestRate / 12 || inputs.minimumPaymentFloor > firstMonthInterest,
+        'minimumPaymentPercentage',
+        'unreachable',
+        'Minimum payment never covers the monthly interest, so the balance will not be paid off'
+      );
+      if (monthlyCharges > 0) {
+        checkCondition(
+          issues,
+          inputs.minimumPaymentFloor > monthlyCharges,
+          'monthlyCharges',
+          'unreachable',
+          'Minimum payments never pay a statement in full while new charges exceed the minimum payment floor'
+        );
+      }
+    }
+  }
+  
+  return issues;
 }
 
 /**
@@ -41,31 +259,94 @@ export interface MonthlySnapshot {
  * - Principal = payment - interest
  * - New balance = balance - principal
  * 
+ * With a `promotion` or `buckets`, each balance accrues interest at its
+ * own (promotional or regular) rate, balance transfer fees are added up
+ * front, and the payment is split under the CARD Act. Snapshots then
+ * show each balance.
+ * 
+ * With `monthlyCharges` or average-daily-balance interest, each payment
+ * pays a monthly statement: new charges are added to the purchase
+ * balance, and the card is paid off once a statement is paid in full
+ * (after which the grace period keeps new charges interest-free).
+ * 
  * @param inputs - Credit card parameters
  * @param fixedPayment - Optional fixed monthly payment (if not using minimums)
+ * @param options - Validation options (strict mode throws on invalid inputs)
+ *   and `trace` to return the calculation steps
  * @returns Detailed payoff scenario
  */
 export function calculateCreditCardPayoff(
   inputs: CreditCardInputs,
-  fixedPayment?: number
+  fixedPayment?: number,
+  options?: CalculatorOptions
+): PayoffScenario;
+/**
+ * Same as above, with rates as { percent } or { rate } (see CREDIT_CARD_RATE_FIELDS)
+ */
+export function calculateCreditCardPayoff(
+  inputs: CreditCardRateInputs,
+  fixedPayment?: number,
+  options?: CalculatorOptions
+): PayoffScenario;
+export function calculateCreditCardPayoff(
+  rateInputs: CreditCardInputs | CreditCardRateInputs,
+  fixedPayment?: number,
+  options: CalculatorOptions = {}
 ): PayoffScenario {
+  const inputs = normalizeRateFields(rateInputs, CREDIT_CARD_RATE_FIELDS);
+  const validationIssues = enforceValidation(validateCreditCardInputs(inputs, fixedPayment), options);
+  const trace = createTrace(options);
+  
   const monthlyRate = inputs.interestRate / 100 / 12;
   let balance = inputs.balance;
   let totalInterestPaid = 0;
   const monthlySnapshots: MonthlySnapshot[] = [];
   let month = 0;
+  const firstPaymentDate = resolveFirstPaymentDate(inputs);
   
   const isMinimumOnly = !fixedPayment;
+  const startingBalance = (inputs.buckets ?? []).reduce((sum, b) => sum + b.balance, inputs.balance);
   let strategy: PayoffScenario['strategy'];
   
   if (isMinimumOnly) {
     strategy = 'minimum';
-  } else if (fixedPayment && fixedPayment > inputs.balance * 0.05) {
+  } else if (fixedPayment && fixedPayment > startingBalance * 0.05) {
     strategy = 'aggressive';
   } else {
     strategy = 'fixed';
   }
   
+  trace.add({
+    name: 'monthlyRate',
+    description: 'Monthly periodic rate',
+    formula: 'r = APR ÷ 100 ÷ 12',
+    inputs: { apr: inputs.interestRate },
+    result: monthlyRate
+  });
+  trace.add({
+    name: 'paymentRule',
+    description: isMinimumOnly
+      ? 'Minimum payment each month: a percentage of the balance, but at least the floor'
+      : 'Fixed payment each month (the last payment clears the remaining balance)',
+    formula: isMinimumOnly ? 'payment = max(balance × min% ÷ 100, floor)' : 'payment = min(fixed payment, balance)',
+    inputs: isMinimumOnly
+      ? { minimumPaymentPercentage: inputs.minimumPaymentPercentage, minimumPaymentFloor: inputs.minimumPaymentFloor }
+      : { fixedPayment: fixedPayment! },
+    result: strategy
+  });
+  
+  if (
+    inputs.promotion !== undefined ||
+    (inputs.buckets !== undefined && inputs.buckets.length > 0) ||
+    (inputs.monthlyCharges ?? 0) > 0 ||
+    inputs.interestMethod === 'average-daily-balance'
+  ) {
+    return withTrace(withValidationIssues(
+      calculateBucketPayoff(inputs, fixedPayment, strategy, trace),
+      validationIssues
+    ), trace);
+  }
+  
   while (balance > 0.01 && month < 600) { // Max 50 years
     month++;
     
@@ -86,12 +367,13 @@ export function calculateCreditCardPayoff(
     // Calculate principal portion
     const principal = payment - interestCharge;
     
-    // Update balance
-    balance -= principal;
+    // Update balance (interest was added above)
+    balance -= payment;
     totalInterestPaid += interestCharge;
     
     monthlySnapshots.push({
       month,
+      date: formatISODate(monthlyPaymentDate(firstPaymentDate, month)),
       balance: Math.max(0, Math.round(balance * 100) / 100),
       payment: Math.round(payment * 100) / 100,
       principal: Math.round(principal * 100) / 100,
@@ -100,13 +382,28 @@ export function calculateCreditCardPayoff(
     });
   }
   
-  const payoffDate = new Date();
-  payoffDate.setMonth(payoffDate.getMonth() + month);
+  const payoffDate = toDate(monthlyPaymentDate(firstPaymentDate, month));
   
   const totalPaid = inputs.balance + totalInterestPaid;
   const avgMonthlyPayment = totalPaid / month;
   
-  return {
+  trace.add({
+    name: 'totalInterest',
+    description: 'Interest charged until the balance is paid off',
+    formula: 'Σ balance × r, month by month',
+    inputs: { balance: inputs.balance, monthlyRate },
+    intermediates: { monthsToPayoff: month, firstMonthInterest: traceRound(inputs.balance * monthlyRate) },
+    result: traceRound(totalInterestPaid)
+  });
+  trace.add({
+    name: 'totalPaid',
+    description: 'Total paid over the payoff period',
+    formula: 'balance + total interest',
+    inputs: { balance: inputs.balance, totalInterest: traceRound(totalInterestPaid) },
+    result: traceRound(totalPaid)
+  });
+  
+  return withTrace(withValidationIssues({
     strategy,
     monthsToPayoff: month,
     totalInterestPaid: Math.round(totalInterestPaid),
@@ -114,22 +411,370 @@ export function calculateCreditCardPayoff(
     monthlyPayment: Math.round(avgMonthlyPayment),
     payoffDate,
     monthlySnapshots
-  };
+  }, validationIssues), trace);
 }
 
 /**
- * Compare minimum payment vs fixed payment strategies
+ * Payoff of a card with promotional rates, several balances or ongoing charges
  * 
- * @param inputs - Credit card parameters
- * @param fixedPaymentAmount - Monthly payment amount to compare
- * @returns Comparison of both strategies
+ * Each statement every bucket accrues interest at its rate, new charges
+ * are added to the purchase balance, the minimum or fixed payment for the
+ * whole card is split under the CARD Act, and a deferred-interest
+ * promotion that ends with a balance left charges the interest it held
+ * back. The card is paid off once a statement is paid in full.
  */
-export function compareCreditCardStrategies(
+function calculateBucketPayoff(
   inputs: CreditCardInputs,
-  fixedPaymentAmount: number
-): { minimum: PayoffScenario; fixed: PayoffScenario } {
+  fixedPayment: number | undefined,
+  strategy: PayoffScenario['strategy'],
+  trace: CalculationTrace
+): Omit<PayoffScenario, 'validationIssues' | 'trace'> {
+  const firstPaymentDate = resolveFirstPaymentDate(inputs);
+  const monthlyCharges = inputs.monthlyCharges ?? 0;
+  const interestMethod = inputs.interestMethod ?? 'monthly';
+  const gracePeriodDays = inputs.gracePeriodDays ?? DEFAULT_GRACE_PERIOD_DAYS;
+  const statements = monthlyCharges > 0 || interestMethod === 'average-daily-balance';
+  const purchases = inputs.balance > 0 || monthlyCharges > 0
+    ? createBucketState({ type: 'purchase', balance: inputs.balance, interestRate: inputs.interestRate, promotion: inputs.promotion })
+    : undefined;
+  const buckets: BucketState[] = [
+    ...(purchases ? [purchases] : []),
+    ...(inputs.buckets ?? []).map(createBucketState)
+  ];
+  const startingBalance = buckets.reduce((sum, b) => sum + b.startingBalance, 0);
+  const totalFees = buckets.reduce((sum, b) => sum + b.transferFee, 0);
+  let balance = startingBalance + totalFees;
+  let totalInterestPaid = 0;
+  let totalCharges = 0;
+  let previousApplied = buckets.map(() => 0);
+  const monthlySnapshots: MonthlySnapshot[] = [];
+  let month = 0;
+  
+  while (balance > 0.01 && month < 600) { // Max 50 years
+    month++;
+    const cycle = statementCycle(firstPaymentDate, month, gracePeriodDays);
+    
+    // Interest at each bucket's rate; deferred interest builds up in the background.
+    // New charges go to the purchase balance
+    const interest = buckets.map((bucket, i) => {
+      const charges = bucket === purchases ? monthlyCharges : 0;
+      const accrue = (rate: number) =>
+        cycleInterest(bucket.balance, previousApplied[i], charges, rate, interestMethod, cycle);
+      const charge = accrue(bucketRate(bucket, month));
+      if (bucket.promotion?.deferredInterest && isInPromotion(bucket, month)) {
+        bucket.deferredInterest += accrue(bucket.interestRate);
+      }
+      bucket.balance += charge + charges;
+      bucket.interestPaid += charge;
+      totalCharges += charges;
+      return charge;
+    });
+    balance = buckets.reduce((sum, b) => sum + b.balance, 0);
+    
+    // Payment for the whole card, split across the buckets
+    const minimum = Math.min(
+      Math.max(balance * (inputs.minimumPaymentPercentage / 100), inputs.minimumPaymentFloor),
+      balance
+    );
+    const payment = fixedPayment ? Math.min(fixedPayment, balance) : minimum;
+    const applied = allocateCardPayment(buckets, payment, minimum, month);
+    buckets.forEach((bucket, i) => {
+      bucket.balance -= applied[i];
+      
+      // A deferred-interest promotion ending with a balance left charges everything it held back
+      if (bucket.promotion?.deferredInterest && month === bucket.promotion.months) {
+        if (bucket.balance > 0.01) {
+          bucket.balance += bucket.deferredInterest;
+          bucket.interestPaid += bucket.deferredInterest;
+          bucket.deferredInterestCharged = bucket.deferredInterest;
+          interest[i] += bucket.deferredInterest;
+        }
+        bucket.deferredInterest = 0;
+      }
+      
+      // New charges can reopen a balance that was cleared
+      bucket.payoffMonth = bucket.balance <= 0.005 ? bucket.payoffMonth ?? month : null;
+    });
+    previousApplied = applied;
+    
+    const interestCharge = interest.reduce((sum, charge) => sum + charge, 0);
+    balance = buckets.reduce((sum, b) => sum + b.balance, 0);
+    totalInterestPaid += interestCharge;
+    
+    monthlySnapshots.push({
+      month,
+      date: formatISODate(monthlyPaymentDate(firstPaymentDate, month)),
+      balance: Math.max(0, Math.round(balance * 100) / 100),
+      payment: Math.round(payment * 100) / 100,
+      principal: Math.round((payment - interestCharge) * 100) / 100,
+      interest: Math.round(interestCharge * 100) / 100,
+      totalInterestPaid: Math.round(totalInterestPaid * 100) / 100,
+      ...(statements
+        ? { statementDate: formatISODate(cycle.closingDate), charges: Math.round(monthlyCharges * 100) / 100 }
+        : {}),
+      buckets: buckets.map((bucket, i) => ({
+        type: bucket.type,
+        label: bucket.label,
+        rate: bucketRate(bucket, month),
+        balance: Math.max(0, Math.round(bucket.balance * 100) / 100),
+        payment: Math.round(applied[i] * 100) / 100,
+        interest: Math.round(interest[i] * 100) / 100
+      }))
+    });
+  }
+  
+  const totalPaid = startingBalance + totalFees + totalCharges + totalInterestPaid;
+  const summaries = buckets.map(summarizeBucket);
+  
+  if (statements) {
+    const firstCycle = statementCycle(firstPaymentDate, 1, gracePeriodDays);
+    trace.add({
+      name: 'statementInterest',
+      description: interestMethod === 'average-daily-balance'
+        ? 'Interest on the average daily balance of each billing cycle, including new charges'
+        : 'Interest on the balance carried from the last payment; new charges post when the statement closes',
+      formula: interestMethod === 'average-daily-balance'
+        ? 'interest = average daily balance × APR ÷ 365 × days in cycle'
+        : 'interest = carried balance × APR ÷ 12',
+      inputs: { monthlyCharges, gracePeriodDays, interestMethod },
+      intermediates: { firstStatementDate: formatISODate(firstCycle.closingDate), firstCycleDays: firstCycle.days },
+      result: traceRound(monthlySnapshots[0]?.interest ?? 0)
+    });
+  }
+  
+  trace.add({
+    name: 'bucketInterest',
+    description: 'Interest by balance, with each payment split under the CARD Act',
+    formula: 'interest = Σ balance × APR ÷ 12 per bucket; minimum to the lowest APR, the rest to the highest',
+    inputs: { buckets: buckets.length, totalFees: traceRound(totalFees) },
+    intermediates: Object.fromEntries(summaries.map(s => [s.label, s.interestPaid])),
+    result: traceRound(totalInterestPaid)
+  });
+  trace.add({
+    name: 'totalPaid',
+    description: 'Total paid over the payoff period',
+    formula: 'balances + transfer fees + new charges + total interest',
+    inputs: {
+      balance: traceRound(startingBalance),
+      totalFees: traceRound(totalFees),
+      totalCharges: traceRound(totalCharges),
+      totalInterest: traceRound(totalInterestPaid)
+    },
+    result: traceRound(totalPaid)
+  });
+  
   return {
-    minimum: calculateCreditCardPayoff(inputs),
-    fixed: calculateCreditCardPayoff(inputs, fixedPaymentAmount)
+    strategy,
+    monthsToPayoff: month,
+    totalInterestPaid: Math.round(totalInterestPaid),
+    totalPaid: Math.round(totalPaid),
+    monthlyPayment: Math.round(month > 0 ? totalPaid / month : 0),
+    payoffDate: toDate(monthlyPaymentDate(firstPaymentDate, month)),
+    totalFees: Math.round(totalFees * 100) / 100,
+    buckets: summaries,
+    ...(statements ? { totalCharges: Math.round(totalCharges * 100) / 100 } : {}),
+    monthlySnapshots
   };
 }
+
+/**
+ * Fixed monthly payment that pays off a card within a number of payments
+ * 
+ * Searches for the smallest payment (to the cent) whose payoff takes no
+ * more than `months` payments, so promotions, balance buckets and ongoing
+ * charges are all taken into account.
+ * 
+ * @param rateInputs - Credit card parameters
+ * @param months - Payments allowed
+ * @returns Monthly payment, or null when `months` is not a positive whole number
+ * 
+ * @example
+ * // $5,000 at 18%, debt-free in 24 payments
+ * solveCreditCardPayment({ balance: 5000, interestRate: 18, minimumPaymentPercentage: 2, minimumPaymentFloor: 25 }, 24)
+ * // 249.63
+ */
+export function solveCreditCardPayment(
+  rateInputs: CreditCardInputs | CreditCardRateInputs,
+  months: number
+): number | null {
+  if (!Number.isInteger(months) || months < 1) {
+    return null;
+  }
+  const inputs = normalizeRateFields(rateInputs, CREDIT_CARD_RATE_FIELDS);
+  const startingBalance = (inputs.buckets ?? []).reduce(
+    (sum, b) => sum + b.balance * (1 + (b.transferFee ?? 0) / 100),
+    inputs.balance
+  );
+  if (!(startingBalance > 0)) {
+    return 0;
+  }
+  const paysOff = (payment: number) => calculateCreditCardPayoff(inputs, payment).monthsToPayoff <= months;
+  
+  // Bracket the payment, then bisect
+  let low = 0;
+  let high = startingBalance + (inputs.monthlyCharges ?? 0);
+  while (!paysOff(high) && high < startingBalance * 1e6) {
+    low = high;
+    high *= 2;
+  }
+  for (let i = 0; i < 60 && high - low > 0.001; i++) {
+    const mid = (low + high) / 2;
+    if (paysOff(mid)) {
+      high = mid;
+    } else {
+      low = mid;
+    }
+  }
+  
+  const payment = Math.ceil(high * 100) / 100;
+  return paysOff(payment - 0.01) ? payment - 0.01 : payment;
+}
+
+/**
+ * Default label for a payment plan
+ */
+function paymentPlanLabel(plan: CreditCardPaymentPlan): string {
+  switch (plan.type) {
+    case 'fixed':
+      return `$${plan.payment}/month`;
+    case 'target-months':
+      return `Debt-free in ${plan.months} months`;
+    case 'target-date': {
+      const date = parseCalendarDate(plan.date);
+      return `Debt-free by ${date ? formatISODate(date) : String(plan.date)}`;
+    }
+    case 'percent-of-balance':
+      return `${plan.percent}% of balance`;
+  }
+}
+
+/**
+ * Validate payment plans for compareCreditCardStrategies
+ * 
+ * @param plans - Payment plans
+ * @param rateInputs - Credit card parameters (for the first payment date)
+ * @returns Validation issues (empty when the plans are valid)
+ */
+export function validateCreditCardPaymentPlans(
+  plans: readonly CreditCardPaymentPlan[],
+  rateInputs: CreditCardInputs | CreditCardRateInputs
+): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  if (!checkCondition(issues, Array.isArray(plans), 'plans', 'invalid_option', 'Plans must be a list')) {
+    return issues;
+  }
+  
+  const firstPaymentDate = resolveFirstPaymentDate(rateInputs);
+  plans.forEach((plan, i) => {
+    const path = `plans[${i}]`;
+    if (!checkOneOf(issues, `${path}.type`, plan.type, ['fixed', 'target-months', 'target-date', 'percent-of-balance'] as const)) {
+      return;
+    }
+    switch (plan.type) {
+      case 'fixed':
+        checkNumber(issues, `${path}.payment`, plan.payment, { min: 0, exclusiveMin: true });
+        break;
+      case 'target-months':
+        checkNumber(issues, `${path}.months`, plan.months, { min: 1, max: 600, integer: true });
+        break;
+      case 'target-date': {
+        if (checkDate(issues, `${path}.date`, plan.date, true)) {
+          checkCondition(
+            issues,
+            monthsBetween(firstPaymentDate, parseCalendarDate(plan.date)!) >= 0,
+            `${path}.date`,
+            'invalid_relationship',
+            'Target date must be on or after the first payment date'
+          );
+        }
+        break;
+      }
+      case 'percent-of-balance':
+        checkNumber(issues, `${path}.percent`, plan.percent, { min: 0, exclusiveMin: true, max: 100 });
+        checkNumber(issues, `${path}.floor`, plan.floor, { min: 0, required: false });
+        break;
+    }
+  });
+  return issues;
+}
+
+/**
+ * Compare payment plans against paying the minimum
+ * 
+ * Each plan is a fixed payment, a payoff target (the payment is solved
+ * with solveCreditCardPayment) or a percentage of the balance. Interest
+ * and months are compared with minimum payments.
+ * 
+ * @param rateInputs - Credit card parameters
+ * @param plans - Payment plans to compare
+ * @param options - Validation options (strict mode throws on invalid inputs)
+ * @returns Minimum payment scenario, each plan's scenario and the best plans
+ * 
+ * @example
+ * compareCreditCardStrategies(card, [
+ *   { type: 'fixed', payment: 200 },
+ *   { type: 'target-months', months: 24 },
+ *   { type: 'percent-of-balance', percent: 5 }
+ * ])
+ */
+export function compareCreditCardStrategies(
+  rateInputs: CreditCardInputs | CreditCardRateInputs,
+  plans: CreditCardPaymentPlan[],
+  options: CalculatorOptions = {}
+): CreditCardStrategyComparison {
+  const inputs = normalizeRateFields(rateInputs, CREDIT_CARD_RATE_FIELDS);
+  const validationIssues = enforceValidation(
+    [...validateCreditCardInputs(inputs), ...validateCreditCardPaymentPlans(plans, inputs)],
+    options
+  );
+  const minimum = calculateCreditCardPayoff(inputs);
+  const firstPaymentDate = resolveFirstPaymentDate(inputs);
+  
+  const strategies = (Array.isArray(plans) ? plans : []).map((plan): CreditCardStrategyResult => {
+    let scenario: PayoffScenario;
+    let payment: number;
+    let targetMonths: number | undefined;
+    
+    if (plan.type === 'percent-of-balance') {
+      scenario = calculateCreditCardPayoff({
+        ...inputs,
+        minimumPaymentPercentage: plan.percent,
+        minimumPaymentFloor: plan.floor ?? inputs.minimumPaymentFloor
+      });
+      payment = scenario.monthlySnapshots[0]?.payment ?? 0;
+    } else {
+      if (plan.type === 'fixed') {
+        payment = plan.payment;
+      } else {
+        const target = plan.type === 'target-months'
+          ? plan.months
+          : monthsBetween(firstPaymentDate, parseCalendarDate(plan.date) ?? firstPaymentDate) + 1;
+        targetMonths = target;
+        payment = solveCreditCardPayment(inputs, target) ?? 0;
+      }
+      scenario = calculateCreditCardPayoff(inputs, payment);
+    }
+    
+    return {
+      label: plan.label ?? paymentPlanLabel(plan),
+      plan,
+      payment,
+      ...(targetMonths !== undefined ? { targetMonths } : {}),
+      scenario,
+      interestSavings: minimum.totalInterestPaid - scenario.totalInterestPaid,
+      monthsSaved: minimum.monthsToPayoff - scenario.monthsToPayoff
+    };
+  });
+  
+  const best = (key: (s: CreditCardStrategyResult) => number): string | null =>
+    strategies.length > 0
+      ? strategies.reduce((a, b) => (key(b) < key(a) ? b : a)).label
+      : null;
+  
+  return withValidationIssues({
+    minimum,
+    strategies,
+    lowestInterest: best(s => s.scenario.totalInterestPaid),
+    fastestPayoff: best(s => s.scenario.monthsToPayoff)
+  }, validationIssues);
+}
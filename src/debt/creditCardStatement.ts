@@ -0,0 +1,150 @@
+/**
+ * Credit Card Statement Cycles
+ *
+ * Billing cycles for a card that is still being used. Each statement
+ * closes a set number of days (the grace period) before its payment is
+ * due, and interest is charged when the statement closes:
+ * - monthly: balance carried from the last payment × APR ÷ 12, with new
+ *   charges posted when the statement closes (a quick approximation)
+ * - average-daily-balance: the average of each day's balance in the cycle
+ *   × APR ÷ 365 × days in the cycle, as issuers compute it. New charges
+ *   accrue interest from the day they are made, and the balance before
+ *   the last payment accrues until the payment posts
+ *
+ * Paying the statement balance in full keeps the grace period: charges in
+ * the next cycle accrue no interest, so the card is paid off from then on.
+ * Until then, new charges accrue interest with the carried balance.
+ *
+ * Months are payment numbers (1 = first payment) and rates are percentages
+ * (22.9 = 22.9%), like the credit card calculator.
+ */
+
+import {
+  type CalendarDate,
+  addDays,
+  daysBetween,
+  monthlyPaymentDate
+} from '../utils/dates.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * How interest is charged each cycle
+ */
+export type CardInterestMethod = 'monthly' | 'average-daily-balance';
+
+/**
+ * Billing cycle ending with the statement for a payment
+ */
+export interface StatementCycle {
+  /** Date the statement closes */
+  closingDate: CalendarDate;
+  /** Days in the cycle */
+  days: number;
+  /** Day of the cycle the previous payment posts on (1 = the day after the last statement) */
+  paymentDay: number;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Default days from the statement closing date to the payment due date */
+export const DEFAULT_GRACE_PERIOD_DAYS = 25;
+
+/** Shortest grace period the CARD Act allows (12 CFR 1026.5(b)(2)) */
+export const MIN_GRACE_PERIOD_DAYS = 21;
+
+/** Longest grace period that keeps each payment inside the next cycle (February has 28 days) */
+export const MAX_GRACE_PERIOD_DAYS = 27;
+
+/** Days in a year for the daily periodic rate */
+export const CARD_DAYS_IN_YEAR = 365;
+
+/**
+ * Supported interest methods
+ */
+export const CARD_INTEREST_METHODS: readonly CardInterestMethod[] = ['monthly', 'average-daily-balance'];
+
+// ============================================================================
+// Functions
+// ============================================================================
+
+/**
+ * Billing cycle for a payment
+ *
+ * @param firstPaymentDate - Due date of payment 1
+ * @param month - Payment number (1-indexed)
+ * @param gracePeriodDays - Days from statement closing to the due date
+ * @returns Closing date, length of the cycle and the day the previous payment posts
+ *
+ * @example
+ * // Payments due on the 15th with a 25-day grace period
+ * statementCycle({ year: 2026, month: 3, day: 15 }, 1, 25)
+ * // { closingDate: 2026-02-18, days: 28, paymentDay: 25 }
+ */
+export function statementCycle(
+  firstPaymentDate: CalendarDate,
+  month: number,
+  gracePeriodDays: number = DEFAULT_GRACE_PERIOD_DAYS
+): StatementCycle {
+  const previousClosingDate = addDays(monthlyPaymentDate(firstPaymentDate, month - 1), -gracePeriodDays);
+  const closingDate = addDays(monthlyPaymentDate(firstPaymentDate, month), -gracePeriodDays);
+  return {
+    closingDate,
+    days: daysBetween(previousClosingDate, closingDate),
+    paymentDay: gracePeriodDays
+  };
+}
+
+/**
+ * Average of each day's balance over a cycle
+ *
+ * The balance before the previous payment counts until the payment posts,
+ * and charges are spread evenly over the cycle:
+ *
+ *   ADB = balance + payment × (payment day − 1) ÷ days + charges × (days + 1) ÷ (2 × days)
+ *
+ * @param balance - Balance after the previous payment
+ * @param previousPayment - Previous payment (0 for the first cycle)
+ * @param charges - New charges made during the cycle
+ * @param cycle - Billing cycle
+ * @returns Average daily balance
+ */
+export function averageDailyBalance(
+  balance: number,
+  previousPayment: number,
+  charges: number,
+  cycle: StatementCycle
+): number {
+  return balance +
+    previousPayment * (cycle.paymentDay - 1) / cycle.days +
+    charges * (cycle.days + 1) / (2 * cycle.days);
+}
+
+/**
+ * Interest charged when a statement closes
+ *
+ * @param balance - Balance after the previous payment
+ * @param previousPayment - Previous payment (0 for the first cycle)
+ * @param charges - New charges made during the cycle
+ * @param annualRate - APR as percentage
+ * @param method - Interest method
+ * @param cycle - Billing cycle
+ * @returns Interest for the cycle
+ */
+export function cycleInterest(
+  balance: number,
+  previousPayment: number,
+  charges: number,
+  annualRate: number,
+  method: CardInterestMethod,
+  cycle: StatementCycle
+): number {
+  if (method === 'monthly') {
+    return balance * annualRate / 100 / 12;
+  }
+  return averageDailyBalance(balance, previousPayment, charges, cycle) * annualRate / 100 / CARD_DAYS_IN_YEAR * cycle.days;
+}
@@ -0,0 +1,171 @@
+/**
+ * Day-Count Conventions
+ *
+ * Daily interest accrual between real payment dates, as on auto loan and
+ * student loan statements:
+ * - actual/365: actual days elapsed ÷ 365
+ * - actual/360: actual days elapsed ÷ 360 (about 1.4% more interest)
+ * - 30/360: every month counts as 30 days (US 30/360 rules)
+ *
+ * Interest accrues from the date the loan was funded to the first payment,
+ * then from each payment to the next, and is rounded to the cent like a
+ * lender statement. A payment made late accrues more interest, leaving
+ * less of it for principal; an early payment does the reverse.
+ */
+
+import {
+  type ValidationIssue,
+  checkNumber,
+  checkCondition,
+  checkDate
+} from '../utils/validation.js';
+import {
+  type DateInput,
+  type CalendarDate,
+  daysBetween,
+  parseCalendarDate
+} from '../utils/dates.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * How days of interest are counted
+ */
+export type DayCountConvention = 'actual/365' | 'actual/360' | '30/360';
+
+/**
+ * A payment made on a date other than its due date
+ */
+export interface ActualPayment {
+  /** Payment number */
+  month: number;
+  /** Date the payment was made */
+  date: DateInput;
+}
+
+/**
+ * Daily accrual details reported with the loan summary
+ */
+export interface DayCountSummary {
+  convention: DayCountConvention;
+  /** Date interest started accruing (ISO) */
+  disbursementDate: string;
+  /** Days of interest over the loan */
+  totalDays: number;
+  /** Payments made after their due date */
+  latePayments: number;
+  /** Payments made before their due date */
+  earlyPayments: number;
+  /** Interest − interest at the rate ÷ payments per year */
+  interestVsPeriodic: number;
+  /** Interest − interest with every payment on its due date */
+  paymentTimingInterest: number;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/**
+ * Days in a year for each convention
+ */
+export const DAY_COUNT_BASIS: Record<DayCountConvention, number> = {
+  'actual/365': 365,
+  'actual/360': 360,
+  '30/360': 360
+};
+
+/**
+ * Supported day-count conventions
+ */
+export const DAY_COUNT_CONVENTIONS = Object.keys(DAY_COUNT_BASIS) as DayCountConvention[];
+
+// ============================================================================
+// Functions
+// ============================================================================
+
+/**
+ * Days of interest between two dates
+ *
+ * 30/360 follows the US rules: day 31 counts as day 30, and an end date on
+ * the 31st counts as the 30th when the start date is the 30th or 31st.
+ *
+ * @param convention - Day-count convention
+ * @param from - Start of the accrual period
+ * @param to - End of the accrual period
+ * @returns Days counted (negative when `to` is before `from`)
+ */
+export function accrualDays(convention: DayCountConvention, from: CalendarDate, to: CalendarDate): number {
+  if (convention !== '30/360') {
+    return daysBetween(from, to);
+  }
+  const startDay = Math.min(from.day, 30);
+  const endDay = to.day === 31 && startDay === 30 ? 30 : to.day;
+  return 360 * (to.year - from.year) + 30 * (to.month - from.month) + (endDay - startDay);
+}
+
+/**
+ * Interest accrued between two dates, rounded to the cent
+ *
+ * Formula: interest = balance × annual rate × days ÷ days in year
+ *
+ * @param balance - Balance accruing interest
+ * @param annualRate - Annual interest rate as percentage
+ * @param convention - Day-count convention
+ * @param from - Start of the accrual period
+ * @param to - End of the accrual period
+ * @returns Interest for the period
+ */
+export function accruedInterest(
+  balance: number,
+  annualRate: number,
+  convention: DayCountConvention,
+  from: CalendarDate,
+  to: CalendarDate
+): number {
+  const days = Math.max(0, accrualDays(convention, from, to));
+  return Math.round(balance * annualRate / 100 * days / DAY_COUNT_BASIS[convention] * 100) / 100;
+}
+
+/**
+ * Validate early or late payment dates
+ *
+ * @param payments - Payments made off their due date
+ * @param numberOfPayments - Scheduled payments (later payment numbers are flagged)
+ * @param field - Path of the list in the calculator inputs
+ * @returns Validation issues (empty when the list is valid)
+ */
+export function validatePaymentDates(
+  payments: readonly ActualPayment[] | undefined,
+  numberOfPayments: number,
+  field: string = 'paymentDates'
+): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  if (payments === undefined) {
+    return issues;
+  }
+  if (!checkCondition(issues, Array.isArray(payments), field, 'invalid_option', 'Payment dates must be a list')) {
+    return issues;
+  }
+
+  const maxMonth = Number.isFinite(numberOfPayments) && numberOfPayments > 0 ? numberOfPayments : undefined;
+  payments.forEach((payment, i) => {
+    checkNumber(issues, `${field}[${i}].month`, payment.month, { min: 1, max: maxMonth, integer: true });
+    checkDate(issues, `${field}[${i}].date`, payment.date, true);
+  });
+  return issues;
+}
+
+/**
+ * Date a payment was actually made
+ *
+ * @param payments - Payments made off their due date
+ * @param month - Payment number
+ * @returns The date, or undefined when the payment was made on time
+ */
+export function actualPaymentDate(payments: readonly ActualPayment[], month: number): CalendarDate | undefined {
+  const payment = payments.find(p => p.month === month);
+  return payment ? parseCalendarDate(payment.date) : undefined;
+}
@@ -0,0 +1,401 @@
+/**
+ * Debt Consolidation Calculator
+ *
+ * Compares paying a list of debts off separately (avalanche, with the
+ * current minimum payments plus any extra payment) against consolidating
+ * them with one of several offers:
+ * - personal-loan: a fixed-rate loan for the total balance; an origination
+ *   fee deducted from the proceeds grosses up the loan
+ * - heloc: a home equity line for the total balance, with an optional
+ *   interest-only draw period and expected rate changes
+ * - balance-transfer: a card with a promotional rate and a transfer fee,
+ *   paid at the current monthly payment unless another is given
+ *
+ * For each offer it reports the monthly payment, total interest and fees,
+ * payoff date and savings. Balance transfers also report what happens if
+ * the balance is not cleared before the promotion ends.
+ */
+
+import {
+  type ValidationIssue,
+  checkNumber,
+  checkOneOf,
+  checkCondition,
+  enforceValidation,
+  withValidationIssues
+} from '../utils/validation.js';
+import { type Percent } from '../utils/rates.js';
+import {
+  type DateInput,
+  monthlyPaymentDate,
+  resolveFirstPaymentDate,
+  toDate
+} from '../utils/dates.js';
+import { type CalculatorOptions, type TraceStep, createTrace, withTrace, traceRound } from '../utils/trace.js';
+import { type Debt, calculateDebtPayoff, validateDebtPayoffInputs } from './debtPayoff.js';
+import { calculateLoanAmortization } from './loanCalculator.js';
+import { type CreditCardInputs, calculateCreditCardPayoff, solveCreditCardPayment } from './creditCardPayoff.js';
+import { type RateChange, validateRateChanges } from './variableRate.js';
+
+export interface PersonalLoanOffer {
+  type: 'personal-loan';
+  name?: string; // Default: 'Offer 1', 'Offer 2', ...
+  interestRate: Percent; // Annual percentage
+  termMonths: number;
+  originationFee?: Percent; // % of the loan, deducted from the proceeds (e.g., 5)
+}
+
+export interface HELOCOffer {
+  type: 'heloc';
+  name?: string; // Default: 'Offer 1', 'Offer 2', ...
+  interestRate: Percent; // Current annual rate
+  termMonths: number; // Draw and repayment periods together
+  interestOnlyMonths?: number; // Interest-only draw period (default: none)
+  closingCosts?: number; // Paid at closing
+  rateChanges?: RateChange[]; // Expected rate changes on the variable rate
+}
+
+export interface BalanceTransferOffer {
+  type: 'balance-transfer';
+  name?: string; // Default: 'Offer 1', 'Offer 2', ...
+  promoRate?: Percent; // Default: 0
+  promoMonths: number;
+  transferFee: Percent; // % of the balance transferred, added to it (e.g., 3)
+  regularRate: Percent; // APR after the promotion
+  deferredInterest?: boolean; // Promotional interest is charged if the balance is not cleared in time
+  monthlyPayment?: number; // Default: the current monthly payments on the debts
+}
+
+/**
+ * A way of consolidating the debts
+ */
+export type ConsolidationOffer = PersonalLoanOffer | HELOCOffer | BalanceTransferOffer;
+
+export interface DebtConsolidationInputs {
+  debts: Debt[];
+  offers: ConsolidationOffer[];
+  extraPayment?: number; // Paid on top of the minimums when paying separately (default: 0)
+  firstPaymentDate?: DateInput; // Default: one month after today
+  today?: DateInput; // Default: the current date
+}
+
+export interface CurrentDebtsSummary {
+  totalBalance: number;
+  monthlyPayment: number; // Minimum payments + extra payment
+  totalInterest: number; // Paying the debts off separately (avalanche)
+  monthsToPayoff: number;
+  payoffDate: Date; // Due date of the final payment
+}
+
+export interface PromotionRisk {
+  promoMonths: number;
+  clearedInTime: boolean; // Paid off before the promotion ends
+  balanceAfterPromo: number; // Balance left when the promotion ends
+  interestAfterPromo: number; // Interest charged after the promotion ends
+  deferredInterestCharged: number; // Promotional interest charged at once (deferred-interest offers)
+  paymentToClearPromo: number | null; // Monthly payment that clears the balance during the promotion
+}
+
+export interface ConsolidationAnalysis {
+  name: string;
+  type: ConsolidationOffer['type'];
+  amountFinanced: number; // New loan or card balance, including any financed fee
+  fees: number; // Origination fee, closing costs or transfer fee
+  monthlyPayment: number; // Scheduled payment (HELOCs: the amortizing payment after the draw period)
+  drawPeriodPayment?: number; // HELOCs with a draw period: the interest-only payment until it ends
+  monthlyPaymentChange: number; // New payment − current payments (negative when it drops)
+  totalInterest: number;
+  totalCost: number; // Interest + fees
+  savings: number; // Current interest − total cost (negative when consolidating costs more)
+  monthsToPayoff: number;
+  monthsSaved: number; // Months sooner than paying separately (negative if later)
+  payoffDate: Date; // Due date of the final payment
+  apr: number | null; // Loans, including fees (percent)
+  promotion?: PromotionRisk; // Balance transfers
+  isWorthwhile: boolean; // Savings above zero
+}
+
+export interface DebtConsolidationResult {
+  currentDebts: CurrentDebtsSummary;
+  offers: ConsolidationAnalysis[];
+  bestOffer: string | null; // Offer with the largest positive savings
+  summary: string;
+  validationIssues?: ValidationIssue[];
+  trace?: TraceStep[];
+}
+
+/** Minimum payment terms assumed for a balance transfer card (percent and floor) */
+const BALANCE_TRANSFER_MINIMUM = { percentage: 1, floor: 25 };
+
+/** Supported consolidation offer types */
+const OFFER_TYPES: readonly ConsolidationOffer['type'][] = ['personal-loan', 'heloc', 'balance-transfer'];
+
+/**
+ * Validate debt consolidation inputs
+ *
+ * @param inputs - Debts and consolidation offers
+ * @returns Validation issues (empty when inputs are valid)
+ */
+export function validateDebtConsolidationInputs(inputs: DebtConsolidationInputs): ValidationIssue[] {
+  const issues = validateDebtPayoffInputs(inputs.debts, inputs.extraPayment ?? 0, 'avalanche', inputs);
+
+  if (checkCondition(issues, Array.isArray(inputs.offers) && inputs.offers.length > 0, 'offers', 'empty', 'Add at least one consolidation offer')) {
+    inputs.offers.forEach((offer, i) => {
+      const path = `offers[${i}]`;
+      if (!checkOneOf(issues, `${path}.type`, offer.type, OFFER_TYPES)) {
+        return;
+      }
+      switch (offer.type) {
+        case 'personal-loan':
+          checkNumber(issues, `${path}.interestRate`, offer.interestRate, { min: 0, max: 100 });
+          checkNumber(issues, `${path}.termMonths`, offer.termMonths, { min: 1, integer: true, max: 600 });
+          checkNumber(issues, `${path}.originationFee`, offer.originationFee, { min: 0, max: 50, required: false });
+          break;
+        case 'heloc': {
+          checkNumber(issues, `${path}.interestRate`, offer.interestRate, { min: 0, max: 100 });
+          const termValid = checkNumber(issues, `${path}.termMonths`, offer.termMonths, { min: 1, integer: true, max: 600 });
+          const ioValid = checkNumber(issues, `${path}.interestOnlyMonths`, offer.interestOnlyMonths, { min: 0, integer: true, required: false });
+          if (termValid && ioValid && offer.interestOnlyMonths !== undefined) {
+            checkCondition(
+              issues,
+              offer.interestOnlyMonths < offer.termMonths,
+              `${path}.interestOnlyMonths`,
+              'invalid_relationship',
+              'Interest-only period must end before the term'
+            );
+          }
+          checkNumber(issues, `${path}.closingCosts`, offer.closingCosts, { min: 0, required: false });
+          issues.push(...validateRateChanges(offer.rateChanges, offer.termMonths, `${path}.rateChanges`));
+          break;
+        }
+        case 'balance-transfer':
+          checkNumber(issues, `${path}.promoRate`, offer.promoRate, { min: 0, max: 100, required: false });
+          checkNumber(issues, `${path}.promoMonths`, offer.promoMonths, { min: 1, integer: true, max: 600 });
+          checkNumber(issues, `${path}.transferFee`, offer.transferFee, { min: 0, max: 100 });
+          checkNumber(issues, `${path}.regularRate`, offer.regularRate, { min: 0, max: 100 });
+          checkNumber(issues, `${path}.monthlyPayment`, offer.monthlyPayment, { min: 0, exclusiveMin: true, required: false });
+          break;
+      }
+    });
+  }
+
+  return issues;
+}
+
+/**
+ * Compare paying debts off separately against consolidation offers
+ *
+ * - Separately: avalanche payoff at the minimum payments plus any extra
+ * - Personal loan: loan = total balance ÷ (1 − origination fee ÷ 100),
+ *   so the proceeds cover every debt
+ * - HELOC: loan = total balance, closing costs paid at closing
+ * - Balance transfer: card balance = total balance + transfer fee, paid at
+ *   the current monthly payment (or the offer's), with the promotion risk
+ *   worked out from the payoff
+ *
+ * Savings compare the interest paid separately with the offer's interest
+ * plus fees.
+ *
+ * @param inputs - Debts, consolidation offers, extra payment and dates
+ * @param options - Validation options (strict mode throws on invalid inputs)
+ *   and `trace` to return the calculation steps
+ * @returns Current payoff summary and an analysis of each offer
+ *
+ * @example
+ * ```typescript
+ * const result = calculateDebtConsolidation({
+ *   debts,
+ *   offers: [
+ *     { type: 'personal-loan', name: 'Personal loan', interestRate: 11.5, termMonths: 48, originationFee: 4 },
+ *     { type: 'balance-transfer', name: '0% card', promoMonths: 18, transferFee: 3, regularRate: 24.9 }
+ *   ]
+ * });
+ *
+ * console.log(result.offers[1].promotion?.paymentToClearPromo); // Payment that beats the promotion deadline
+ * ```
+ */
+export function calculateDebtConsolidation(
+  inputs: DebtConsolidationInputs,
+  options: CalculatorOptions = {}
+): DebtConsolidationResult {
+  const validationIssues = enforceValidation(validateDebtConsolidationInputs(inputs), options);
+  const trace = createTrace(options);
+
+  const dates = { firstPaymentDate: inputs.firstPaymentDate, today: inputs.today };
+  const firstPaymentDate = resolveFirstPaymentDate(inputs);
+  const extraPayment = inputs.extraPayment ?? 0;
+  const totalBalance = inputs.debts.reduce((sum, d) => sum + d.balance, 0);
+  const currentPayment = inputs.debts.reduce((sum, d) => sum + d.minimumPayment, 0) + extraPayment;
+  const current = calculateDebtPayoff(inputs.debts, extraPayment, 'avalanche', dates);
+
+  trace.add({
+    name: 'currentDebts',
+    description: 'Interest paying the debts off separately (avalanche)',
+    formula: 'Σ debts Σ months balance × rate ÷ 100 ÷ 12',
+    inputs: { totalBalance: traceRound(totalBalance), monthlyPayment: traceRound(currentPayment) },
+    intermediates: { monthsToPayoff: current.monthsToPayoff },
+    result: current.totalInterestPaid
+  });
+
+  // Offers of an unknown type are flagged by validation and skipped
+  const offers = (Array.isArray(inputs.offers) ? inputs.offers : []).flatMap((offer, i): ConsolidationAnalysis[] => {
+    if (!OFFER_TYPES.includes(offer.type)) {
+      return [];
+    }
+    const name = offer.name ?? `Offer ${i + 1}`;
+    let amountFinanced: number;
+    let fees: number;
+    let monthlyPayment: number;
+    let drawPeriodPayment: number | undefined;
+    let totalInterest: number;
+    let monthsToPayoff: number;
+    let apr: number | null = null;
+    let promotion: PromotionRisk | undefined;
+
+    if (offer.type === 'balance-transfer') {
+      const card: CreditCardInputs = {
+        balance: 0,
+        interestRate: offer.regularRate,
+        minimumPaymentPercentage: BALANCE_TRANSFER_MINIMUM.percentage,
+        minimumPaymentFloor: BALANCE_TRANSFER_MINIMUM.floor,
+        ...dates,
+        buckets: [{
+          type: 'balance-transfer',
+          balance: totalBalance,
+          interestRate: offer.regularRate,
+          promotion: { rate: offer.promoRate ?? 0, months: offer.promoMonths, deferredInterest: offer.deferredInterest },
+          transferFee: offer.transferFee
+        }]
+      };
+      monthlyPayment = offer.monthlyPayment ?? currentPayment;
+      const payoff = calculateCreditCardPayoff(card, monthlyPayment);
+      fees = payoff.totalFees ?? 0;
+      amountFinanced = totalBalance + fees;
+      totalInterest = payoff.totalInterestPaid;
+      monthsToPayoff = payoff.monthsToPayoff;
+
+      // What is left, and what it costs, once the promotion ends
+      const clearedInTime = monthsToPayoff <= offer.promoMonths;
+      const atPromoEnd = payoff.monthlySnapshots[offer.promoMonths - 1];
+      const last = payoff.monthlySnapshots[payoff.monthlySnapshots.length - 1];
+      promotion = {
+        promoMonths: offer.promoMonths,
+        clearedInTime,
+        balanceAfterPromo: clearedInTime || !atPromoEnd ? 0 : atPromoEnd.balance,
+        interestAfterPromo: clearedInTime || !atPromoEnd
+          ? 0
+          : Math.round((last.totalInterestPaid - atPromoEnd.totalInterestPaid) * 100) / 100,
+        deferredInterestCharged: payoff.buckets?.[0]?.deferredInterestCharged ?? 0,
+        paymentToClearPromo: solveCreditCardPayment(card, offer.promoMonths)
+      };
+
+      trace.add({
+        name: `offers[${i}].promotion`,
+        description: `${name}: balance left when the promotion ends`,
+        formula: 'balance + transfer fee, paid down at the monthly payment for the promotion',
+        inputs: { promoMonths: offer.promoMonths, transferFee: offer.transferFee, monthlyPayment: traceRound(monthlyPayment) },
+        intermediates: { paymentToClearPromo: promotion.paymentToClearPromo },
+        result: promotion.balanceAfterPromo
+      });
+    } else {
+      const isLoan = offer.type === 'personal-loan';
+      const originationFee = isLoan ? offer.originationFee ?? 0 : 0;
+      amountFinanced = totalBalance / (1 - originationFee / 100);
+      fees = isLoan ? amountFinanced - totalBalance : offer.closingCosts ?? 0;
+      const loan = calculateLoanAmortization({
+        principal: amountFinanced,
+        interestRate: offer.interestRate,
+        termMonths: offer.termMonths,
+        ...dates,
+        prepaidFinanceCharges: isLoan ? { originationFee: fees } : { otherCharges: fees },
+        ...(!isLoan && offer.interestOnlyMonths
+          ? { structure: { type: 'interest-only' as const, interestOnlyMonths: offer.interestOnlyMonths } }
+          : {}),
+        ...(!isLoan && offer.rateChanges ? { rateChanges: offer.rateChanges } : {})
+      });
+      // After an interest-only draw period, the payment that repays the line
+      const drawMonths = isLoan ? 0 : offer.interestOnlyMonths ?? 0;
+      if (drawMonths > 0) {
+        drawPeriodPayment = loan.monthlyPayment;
+      }
+      monthlyPayment = loan.schedule[drawMonths]?.payment ?? loan.monthlyPayment;
+      totalInterest = loan.totalInterest;
+      monthsToPayoff = loan.schedule.length;
+      apr = loan.apr?.apr ?? null;
+
+      trace.add({
+        name: `offers[${i}].amountFinanced`,
+        description: isLoan
+          ? `${name}: total balance, grossed up so the proceeds cover the debts after the origination fee`
+          : `${name}: total balance drawn on the line`,
+        formula: isLoan ? 'loan = balance ÷ (1 − fee ÷ 100)' : 'loan = balance',
+        inputs: { totalBalance: traceRound(totalBalance), originationFee },
+        intermediates: {
+          fees: traceRound(fees),
+          monthlyPayment: traceRound(monthlyPayment),
+          ...(drawPeriodPayment !== undefined ? { drawPeriodPayment: traceRound(drawPeriodPayment) } : {})
+        },
+        result: traceRound(amountFinanced)
+      });
+    }
+
+    const totalCost = totalInterest + fees;
+    const savings = current.totalInterestPaid - totalCost;
+
+    trace.add({
+      name: `offers[${i}].savings`,
+      description: `${name}: interest saved after fees`,
+      formula: 'current interest − (interest + fees)',
+      inputs: { currentInterest: current.totalInterestPaid, totalInterest: traceRound(totalInterest), fees: traceRound(fees) },
+      intermediates: { monthsToPayoff },
+      result: traceRound(savings)
+    });
+
+    return [{
+      name,
+      type: offer.type,
+      amountFinanced: Math.round(amountFinanced * 100) / 100,
+      fees: Math.round(fees * 100) / 100,
+      monthlyPayment: Math.round(monthlyPayment * 100) / 100,
+      ...(drawPeriodPayment !== undefined ? { drawPeriodPayment: Math.round(drawPeriodPayment * 100) / 100 } : {}),
+      monthlyPaymentChange: Math.round((monthlyPayment - currentPayment) * 100) / 100,
+      totalInterest: Math.round(totalInterest),
+      totalCost: Math.round(totalCost),
+      savings: Math.round(savings),
+      monthsToPayoff,
+      monthsSaved: current.monthsToPayoff - monthsToPayoff,
+      payoffDate: toDate(monthlyPaymentDate(firstPaymentDate, monthsToPayoff)),
+      apr,
+      ...(promotion ? { promotion } : {}),
+      isWorthwhile: savings > 0
+    }];
+  });
+
+  const best = offers
+    .filter(offer => offer.isWorthwhile)
+    .reduce<ConsolidationAnalysis | null>((top, offer) => (top === null || offer.savings > top.savings ? offer : top), null);
+
+  const risky = offers.filter(offer => offer.promotion && !offer.promotion.clearedInTime);
+  const summary = (best
+    ? `${best.name} is the best offer: it saves $${best.savings.toLocaleString()} in interest and fees.`
+    : 'None of the offers costs less than paying the debts off separately.') +
+    risky.map(offer =>
+      ` ${offer.name} leaves $${Math.round(offer.promotion!.balanceAfterPromo).toLocaleString()} when the promotion ends` +
+      (offer.promotion!.paymentToClearPromo !== null
+        ? `; pay $${offer.promotion!.paymentToClearPromo.toFixed(2)} a month to clear it in time.`
+        : '.')
+    ).join('');
+
+  return withTrace(withValidationIssues({
+    currentDebts: {
+      totalBalance: Math.round(totalBalance * 100) / 100,
+      monthlyPayment: Math.round(currentPayment * 100) / 100,
+      totalInterest: current.totalInterestPaid,
+      monthsToPayoff: current.monthsToPayoff,
+      payoffDate: current.payoffDate
+    },
+    offers,
+    bestOffer: best ? best.name : null,
+    summary
+  }, validationIssues), trace);
+}
@@ -1,148 +1,582 @@
 /**
  * Debt Payoff Calculator
  * 
- * Calculates debt payoff timelines using avalanche (highest interest first)
- * or snowball (smallest balance first) strategies.
+ * Calculates debt payoff timelines using avalanche (highest interest first),
+ * snowball (smallest balance first) or other orderings (see payoffOrder),
+ * and searches for the ordering with the least interest or time.
+ * 
+ * The extra payment can change over time, windfalls can be added in any
+ * month (see payoffCashFlow), and each debt can have rate changes.
  */
 
+import {
+  type ValidationIssue,
+  checkNumber,
+  checkOneOf,
+  checkCondition,
+  checkDate,
+  enforceValidation,
+  withValidationIssues
+} from '../utils/validation.js';
+import {
+  type ScheduleDateOptions,
+  formatISODate,
+  monthlyPaymentDate,
+  resolveFirstPaymentDate,
+  toDate
+} from '../utils/dates.js';
+import { type CalculatorOptions, type TraceStep, createTrace, withTrace, traceRound } from '../utils/trace.js';
+import {
+  type PayoffStrategy,
+  type PayoffStrategyType,
+  PAYOFF_STRATEGY_NAMES,
+  cashFlowIndex,
+  orderDebts,
+  payoffStrategyLabel,
+  payoffStrategyType,
+  validatePayoffStrategy
+} from './payoffOrder.js';
+import {
+  type ExtraPaymentChange,
+  type Windfall,
+  MAX_PAYOFF_MONTHS,
+  extraPaymentForMonth,
+  hasCashFlowChanges,
+  validateExtraPaymentChanges,
+  validateWindfalls,
+  windfallsForMonth
+} from './payoffCashFlow.js';
+import { type RateChange, rateChangeAt, validateRateChanges } from './variableRate.js';
+
+/** Most debts the optimizer tries every order for (7! = 5,040 orders) */
+export const MAX_EXHAUSTIVE_DEBTS = 7;
+
 export interface Debt {
   id: string;
   name: string;
   balance: number;
   interestRate: number; // Annual percentage
   minimumPayment: number;
+  rateChanges?: RateChange[]; // New rates from given payments on (e.g., a promotional rate ending)
+}
+
+/**
+ * Payment dates and changes to the extra cash over the payoff
+ */
+export interface DebtPayoffPlan extends ScheduleDateOptions {
+  extraPayments?: ExtraPaymentChange[]; // New monthly extra payment from given payments on
+  windfalls?: Windfall[]; // One-time extra payments
 }
 
+/**
+ * Options for calculateDebtPayoff: validation mode, tracing, payment dates
+ * and cash flow changes
+ */
+export type DebtPayoffOptions = CalculatorOptions & DebtPayoffPlan;
+
 export interface PayoffResult {
-  strategy: 'avalanche' | 'snowball';
+  strategy: PayoffStrategyType;
+  payoffOrder: string[]; // Debt ids in the order extra payments go to them
   monthsToPayoff: number;
   totalInterestPaid: number;
-  payoffDate: Date;
+  payoffDate: Date; // Due date of the final payment
   monthlySnapshots: MonthlySnapshot[];
+  validationIssues?: ValidationIssue[];
+  trace?: TraceStep[];
+}
+
+/**
+ * What the optimizer minimizes
+ */
+export type PayoffGoal = 'interest' | 'time';
+
+export interface OptimizedPayoffResult extends PayoffResult {
+  goal: PayoffGoal;
+  orderingsEvaluated: number;
+  exhaustive: boolean; // Every ordering was tried (otherwise a local search)
+}
+
+export interface RankedPayoffStrategy {
+  label: string;
+  result: PayoffResult;
+  interestVsAvalanche: number; // Interest above avalanche (negative if less)
+  monthsVsAvalanche: number; // Months beyond avalanche (negative if fewer)
+}
+
+export interface PayoffComparison {
+  avalanche: PayoffResult;
+  snowball: PayoffResult;
+  ranking: RankedPayoffStrategy[]; // Best first by the comparison goal
 }
 
 export interface MonthlySnapshot {
   month: number;
+  date: string; // Payment due date (ISO, e.g. '2026-03-01')
+  extraPayment: number; // Monthly extra payment in effect
+  windfall: number; // Windfalls received this month (any left once every debt is paid is unused)
   debts: DebtSnapshot[];
   totalBalance: number;
-  interestPaid: number;
+  interestPaid: number; // Cumulative
 }
 
 export interface DebtSnapshot {
   id: string;
   name: string;
   balance: number;
+  interestRate: number; // Rate charged this month
+  interest: number; // Interest charged this month
+  minimumPaid: number;
+  extraPaid: number; // Extra payment and freed minimums
+  windfallPaid: number;
 }
 
 /**
- * Calculate debt payoff using avalanche or snowball method
+ * Validate debt payoff inputs
+ * 
+ * Flags plans where the first month's payment does not cover the interest,
+ * since the debts would then never be paid off.
+ * 
+ * @param debts - Array of debts to pay off
+ * @param extraPayment - Additional payment beyond minimums
+ * @param strategy - Payoff ordering (e.g., 'avalanche' or 'snowball')
+ * @param plan - First payment date, injected today, extra payment changes
+ *   and windfalls
+ * @returns Validation issues (empty when inputs are valid)
+ */
+export function validateDebtPayoffInputs(
+  debts: Debt[],
+  extraPayment: number,
+  strategy: PayoffStrategy,
+  plan: DebtPayoffPlan = {}
+): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  
+  if (!checkCondition(issues, Array.isArray(debts) && debts.length > 0, 'debts', 'empty', 'Add at least one debt')) {
+    return issues;
+  }
+  
+  let allValid = true;
+  debts.forEach((debt, i) => {
+    allValid = checkNumber(issues, `debts[${i}].balance`, debt.balance, { min: 0 }) && allValid;
+    allValid = checkNumber(issues, `debts[${i}].interestRate`, debt.interestRate, { min: 0, max: 100 }) && allValid;
+    allValid = checkNumber(issues, `debts[${i}].minimumPayment`, debt.minimumPayment, { min: 0 }) && allValid;
+    issues.push(...validateRateChanges(debt.rateChanges, MAX_PAYOFF_MONTHS, `debts[${i}].rateChanges`));
+  });
+  allValid = checkNumber(issues, 'extraPayment', extraPayment, { min: 0 }) && allValid;
+  const changeIssues = validateExtraPaymentChanges(plan.extraPayments);
+  allValid = changeIssues.length === 0 && allValid;
+  issues.push(...changeIssues);
+  issues.push(...validateWindfalls(plan.windfalls, debts));
+  issues.push(...validatePayoffStrategy(strategy, debts));
+  checkDate(issues, 'firstPaymentDate', plan.firstPaymentDate);
+  checkDate(issues, 'today', plan.today);
+  
+  if (allValid) {
+    const totalPayment = debts.reduce((sum, d) => sum + d.minimumPayment, 0) +
+      extraPaymentForMonth(extraPayment, plan.extraPayments ?? [], 1);
+    const firstMonthInterest = debts.reduce((sum, d) => sum + (d.balance * d.interestRate / 100) / 12, 0);
+    const totalBalance = debts.reduce((sum, d) => sum + d.balance, 0);
+    checkCondition(
+      issues,
+      totalBalance === 0 || totalPayment > firstMonthInterest,
+      'extraPayment',
+      'unreachable',
+      `Total monthly payment must be more than the monthly interest ($${firstMonthInterest.toFixed(2)}) to pay off the debts`
+    );
+  }
+  
+  return issues;
+}
+
+/**
+ * Calculate debt payoff using avalanche, snowball or another ordering
  * 
  * Avalanche: Pay off highest interest rate first (minimizes interest)
  * Snowball: Pay off smallest balance first (psychological wins)
+ * Others: highest interest dollars, cash flow index, hybrid or a custom
+ * order (see payoffOrder)
  * 
  * Process each month:
- * 1. Add interest to all balances
+ * 1. Apply any rate changes and add interest to all balances
  * 2. Pay minimums on all debts
  * 3. Apply extra payment to target debt
+ * 4. Apply windfalls to their debt, or to the target debt, with any
+ *    leftover going down the payoff order
  * 
  * @param debts - Array of debts to pay off
  * @param extraPayment - Additional payment beyond minimums
- * @param strategy - 'avalanche' or 'snowball'
- * @returns Detailed payoff results
+ * @param strategy - Payoff ordering (e.g., 'avalanche', 'snowball' or
+ *   { type: 'custom', order: ['card', 'auto'] })
+ * @param options - Validation options (strict mode throws on invalid inputs),
+ *   `trace` to return the calculation steps, first payment date, injected
+ *   today, extra payment changes and windfalls
+ * @returns Detailed payoff results, with where each payment went every month
  */
 export function calculateDebtPayoff(
   debts: Debt[],
   extraPayment: number,
-  strategy: 'avalanche' | 'snowball'
+  strategy: PayoffStrategy,
+  options: DebtPayoffOptions = {}
 ): PayoffResult {
-  // Create working copy and sort by strategy
-  let workingDebts = debts.map(d => ({ ...d }));
+  const validationIssues = enforceValidation(
+    validateDebtPayoffInputs(debts, extraPayment, strategy, options),
+    options
+  );
+  const firstPaymentDate = resolveFirstPaymentDate(options);
+  const trace = createTrace(options);
   
-  if (strategy === 'avalanche') {
-    // Highest interest rate first
-    workingDebts.sort((a, b) => b.interestRate - a.interestRate);
-  } else {
-    // Smallest balance first
-    workingDebts.sort((a, b) => a.balance - b.balance);
-  }
+  // Create working copy and sort by strategy
+  const workingDebts = orderDebts(debts.map(d => ({ ...d })), strategy);
   
   const monthlySnapshots: MonthlySnapshot[] = [];
   let month = 0;
   let totalInterestPaid = 0;
   const totalMinimums = debts.reduce((sum, d) => sum + d.minimumPayment, 0);
   const monthlyPayment = totalMinimums + extraPayment;
+  const extraPayments = options.extraPayments ?? [];
+  const windfalls = options.windfalls ?? [];
+  let totalExtraPaid = 0;
+  let totalWindfallsPaid = 0;
+  
+  const order = describePayoffOrder(strategy);
+  trace.add({
+    name: 'payoffOrder',
+    description: order.description,
+    inputs: Object.fromEntries(debts.map(d => [d.name, order.key(d, workingDebts.findIndex(w => w.id === d.id) + 1)])),
+    result: workingDebts.map(d => d.name).join(' → ')
+  });
+  trace.add({
+    name: 'monthlyPayment',
+    description: 'Total paid each month; payments freed by paid-off debts roll to the next target',
+    formula: 'Σ minimum payments + extra payment',
+    inputs: { totalMinimums, extraPayment },
+    result: monthlyPayment
+  });
   
   // Simulate month by month
   while (workingDebts.some(d => d.balance > 0)) {
     month++;
+    const paid = workingDebts.map(() => ({ interest: 0, minimum: 0, extra: 0, windfall: 0 }));
     
-    // Step 1: Add interest to all balances
-    workingDebts.forEach(debt => {
+    // Step 1: Apply rate changes and add interest to all balances
+    workingDebts.forEach((debt, i) => {
+      const rateChange = rateChangeAt(debt.rateChanges ?? [], month);
+      if (rateChange) {
+        debt.interestRate = rateChange.rate;
+      }
       if (debt.balance > 0) {
         const monthlyInterest = (debt.balance * debt.interestRate / 100) / 12;
         debt.balance += monthlyInterest;
         totalInterestPaid += monthlyInterest;
+        paid[i].interest = monthlyInterest;
       }
     });
     
     // Step 2: Apply minimum payments
-    let remainingPayment = monthlyPayment;
-    workingDebts.forEach(debt => {
+    const monthExtraPayment = extraPaymentForMonth(extraPayment, extraPayments, month);
+    let remainingPayment = totalMinimums + monthExtraPayment;
+    workingDebts.forEach((debt, i) => {
       if (debt.balance > 0) {
         const payment = Math.min(debt.minimumPayment, debt.balance, remainingPayment);
         debt.balance -= payment;
         remainingPayment -= payment;
+        paid[i].minimum = payment;
       }
     });
     
     // Step 3: Apply extra payment to target debt (first with balance > 0)
-    const targetDebt = workingDebts.find(d => d.balance > 0);
-    if (targetDebt && remainingPayment > 0) {
-      const extraPaymentAmount = Math.min(remainingPayment, targetDebt.balance);
-      targetDebt.balance -= extraPaymentAmount;
+    const target = workingDebts.findIndex(d => d.balance > 0);
+    if (target >= 0 && remainingPayment > 0) {
+      const extraPaymentAmount = Math.min(remainingPayment, workingDebts[target].balance);
+      workingDebts[target].balance -= extraPaymentAmount;
+      paid[target].extra = extraPaymentAmount;
+      totalExtraPaid += extraPaymentAmount;
+    }
+    
+    // Step 4: Apply windfalls to their debt, then down the payoff order
+    let monthWindfall = 0;
+    for (const windfall of windfallsForMonth(windfalls, month)) {
+      monthWindfall += windfall.amount;
+      const chosen = workingDebts.findIndex(d => d.id === windfall.debtId);
+      const order = workingDebts.map((_, i) => i);
+      let remaining = windfall.amount;
+      for (const i of chosen >= 0 ? [chosen, ...order] : order) {
+        const amount = Math.min(remaining, Math.max(0, workingDebts[i].balance));
+        workingDebts[i].balance -= amount;
+        paid[i].windfall += amount;
+        totalWindfallsPaid += amount;
+        remaining -= amount;
+      }
     }
     
     // Record snapshot
     monthlySnapshots.push({
       month,
-      debts: workingDebts.map(d => ({
+      date: formatISODate(monthlyPaymentDate(firstPaymentDate, month)),
+      extraPayment: monthExtraPayment,
+      windfall: monthWindfall,
+      debts: workingDebts.map((d, i) => ({
         id: d.id,
         name: d.name,
-        balance: Math.max(0, Math.round(d.balance))
+        balance: Math.max(0, Math.round(d.balance)),
+        interestRate: d.interestRate,
+        interest: Math.round(paid[i].interest * 100) / 100,
+        minimumPaid: Math.round(paid[i].minimum * 100) / 100,
+        extraPaid: Math.round(paid[i].extra * 100) / 100,
+        windfallPaid: Math.round(paid[i].windfall * 100) / 100
       })),
       totalBalance: Math.round(workingDebts.reduce((sum, d) => sum + Math.max(0, d.balance), 0)),
       interestPaid: Math.round(totalInterestPaid)
     });
     
     // Safety check (max 50 years)
-    if (month > 600) break;
+    if (month > MAX_PAYOFF_MONTHS) break;
+  }
+  
+  if (hasCashFlowChanges(extraPayments, windfalls)) {
+    trace.add({
+      name: 'cashFlow',
+      description: 'Extra payments and windfalls applied above the minimums',
+      formula: 'Σ months extra payment in effect (and freed minimums) + Σ windfalls',
+      inputs: {
+        extraPayment,
+        ...Object.fromEntries(extraPayments.map(c => [`extra payment from month ${c.month}`, c.amount])),
+        ...Object.fromEntries(windfalls.map((w, i) => [w.label ?? `windfall ${i + 1} (month ${w.month})`, w.amount]))
+      },
+      intermediates: { extraPaid: traceRound(totalExtraPaid), windfallsPaid: traceRound(totalWindfallsPaid) },
+      result: traceRound(totalExtraPaid + totalWindfallsPaid)
+    });
   }
   
-  const payoffDate = new Date();
-  payoffDate.setMonth(payoffDate.getMonth() + month);
+  const payoffDate = toDate(monthlyPaymentDate(firstPaymentDate, month));
   
-  return {
-    strategy,
+  trace.add({
+    name: 'totalInterest',
+    description: 'Interest charged on all debts until every balance is paid off',
+    formula: 'Σ debts Σ months balance × rate ÷ 100 ÷ 12',
+    inputs: { monthlyPayment },
+    intermediates: {
+      monthsToPayoff: month,
+      ...Object.fromEntries(workingDebts.map(d => {
+        const paidOff = monthlySnapshots.find(s => s.debts.find(sd => sd.id === d.id)!.balance === 0);
+        return [`${d.name} paid off in month`, paidOff ? paidOff.month : null];
+      }))
+    },
+    result: traceRound(totalInterestPaid)
+  });
+  
+  return withTrace(withValidationIssues({
+    strategy: payoffStrategyType(strategy),
+    payoffOrder: workingDebts.map(d => d.id),
     monthsToPayoff: month,
     totalInterestPaid: Math.round(totalInterestPaid),
     payoffDate,
     monthlySnapshots
-  };
+  }, validationIssues), trace);
+}
+
+/**
+ * How a payoff ordering ranks debts, for the trace
+ */
+function describePayoffOrder(strategy: PayoffStrategy): {
+  description: string;
+  key: (debt: Debt, position: number) => number | null;
+} {
+  switch (payoffStrategyType(strategy)) {
+    case 'avalanche':
+      return { description: 'Extra payment goes to the highest interest rate first', key: d => d.interestRate };
+    case 'snowball':
+      return { description: 'Extra payment goes to the smallest balance first', key: d => d.balance };
+    case 'highest-interest-dollars':
+      return {
+        description: 'Extra payment goes to the largest monthly interest charge first',
+        key: d => traceRound(d.balance * d.interestRate / 100 / 12)
+      };
+    case 'cash-flow-index':
+      return {
+        description: 'Extra payment goes to the lowest balance ÷ minimum payment first',
+        key: d => (d.minimumPayment > 0 ? traceRound(cashFlowIndex(d)) : null)
+      };
+    case 'hybrid':
+      return {
+        description: 'Extra payment goes to the smallest balances first, then the highest interest rate',
+        key: (_, position) => position
+      };
+    default:
+      return { description: 'Extra payment follows the chosen order', key: (_, position) => position };
+  }
+}
+
+/**
+ * Totals the optimizer compares payoffs by
+ */
+type PayoffTotals = Pick<PayoffResult, 'payoffOrder' | 'monthsToPayoff' | 'totalInterestPaid'>;
+
+/**
+ * Whether one payoff beats another for a goal (ties go to the first)
+ */
+function isBetterPayoff(a: PayoffTotals, b: PayoffTotals, goal: PayoffGoal): boolean {
+  return goal === 'interest'
+    ? a.totalInterestPaid < b.totalInterestPaid ||
+      (a.totalInterestPaid === b.totalInterestPaid && a.monthsToPayoff < b.monthsToPayoff)
+    : a.monthsToPayoff < b.monthsToPayoff ||
+      (a.monthsToPayoff === b.monthsToPayoff && a.totalInterestPaid < b.totalInterestPaid);
 }
 
 /**
- * Compare avalanche vs snowball strategies
+ * Compare payoff strategies
+ * 
+ * Avalanche and snowball are always included; any other strategies are
+ * ranked with them.
  * 
  * @param debts - Array of debts
  * @param extraPayment - Additional payment beyond minimums
- * @returns Results for both strategies
+ * @param plan - First payment date, injected today, extra payment changes
+ *   and windfalls
+ * @param strategies - More strategies to rank (e.g., hybrid or custom orders)
+ * @param goal - Rank by least interest (default) or fewest months
+ * @returns Avalanche and snowball results and every strategy ranked
  */
 export function comparePayoffStrategies(
   debts: Debt[],
-  extraPayment: number
-): { avalanche: PayoffResult; snowball: PayoffResult } {
+  extraPayment: number,
+  plan: DebtPayoffPlan = {},
+  strategies: PayoffStrategy[] = [],
+  goal: PayoffGoal = 'interest'
+): PayoffComparison {
+  const avalanche = calculateDebtPayoff(debts, extraPayment, 'avalanche', plan);
+  const snowball = calculateDebtPayoff(debts, extraPayment, 'snowball', plan);
+  
+  const entries = [
+    { label: 'avalanche', result: avalanche },
+    { label: 'snowball', result: snowball },
+    ...strategies
+      .filter(s => s !== 'avalanche' && s !== 'snowball')
+      .map(s => ({ label: payoffStrategyLabel(s), result: calculateDebtPayoff(debts, extraPayment, s, plan) }))
+  ];
+  const ranking = entries
+    .map(({ label, result }): RankedPayoffStrategy => ({
+      label,
+      result,
+      interestVsAvalanche: result.totalInterestPaid - avalanche.totalInterestPaid,
+      monthsVsAvalanche: result.monthsToPayoff - avalanche.monthsToPayoff
+    }))
+    .sort((a, b) => (isBetterPayoff(a.result, b.result, goal) ? -1 : isBetterPayoff(b.result, a.result, goal) ? 1 : 0));
+  
+  return { avalanche, snowball, ranking };
+}
+
+/**
+ * Find the payoff order with the least interest or the fewest months
+ * 
+ * With up to MAX_EXHAUSTIVE_DEBTS debts every order is tried. With more,
+ * the named strategies and every hybrid are tried, then the best is
+ * improved by swapping pairs of debts until no swap helps.
+ * 
+ * @param debts - Array of debts to pay off
+ * @param extraPayment - Additional payment beyond minimums
+ * @param goal - Minimize total interest (default) or months to payoff
+ * @param options - Validation options (strict mode throws on invalid inputs),
+ *   `trace` to return the calculation steps of the best order, first
+ *   payment date and injected today
+ * @returns Payoff with the best order, and how many orders were tried
+ */
+export function optimizeDebtPayoff(
+  debts: Debt[],
+  extraPayment: number,
+  goal: PayoffGoal = 'interest',
+  options: DebtPayoffOptions = {}
+): OptimizedPayoffResult {
+  const issues = validateDebtPayoffInputs(debts, extraPayment, 'avalanche', options);
+  checkOneOf(issues, 'goal', goal, ['interest', 'time'] as const);
+  enforceValidation(issues, options);
+  
+  const plan: DebtPayoffPlan = {
+    firstPaymentDate: options.firstPaymentDate,
+    today: options.today,
+    extraPayments: options.extraPayments,
+    windfalls: options.windfalls
+  };
+  // Keep only the totals of each order tried, not their snapshots
+  const tried = new Map<string, PayoffTotals>();
+  const evaluate = (order: string[]): PayoffTotals => {
+    const key = order.join('\u0000');
+    let result = tried.get(key);
+    if (!result) {
+      const { payoffOrder, monthsToPayoff, totalInterestPaid } =
+        calculateDebtPayoff(debts, extraPayment, { type: 'custom', order }, plan);
+      result = { payoffOrder, monthsToPayoff, totalInterestPaid };
+      tried.set(key, result);
+    }
+    return result;
+  };
+  
+  let best: PayoffTotals | undefined;
+  const consider = (order: string[]) => {
+    const result = evaluate(order);
+    if (!best || isBetterPayoff(result, best, goal)) {
+      best = result;
+    }
+  };
+  
+  const ids = issues.some(i => i.severity === 'error') ? [] : debts.map(d => d.id);
+  const exhaustive = ids.length <= MAX_EXHAUSTIVE_DEBTS;
+  if (exhaustive) {
+    // Start from avalanche so ties keep it
+    consider(orderDebts(debts, 'avalanche').map(d => d.id));
+    forEachPermutation(ids, consider);
+  } else {
+    for (const name of PAYOFF_STRATEGY_NAMES) {
+      consider(orderDebts(debts, name).map(d => d.id));
+    }
+    for (let n = 1; n < ids.length; n++) {
+      consider(orderDebts(debts, { type: 'hybrid', snowballDebts: n }).map(d => d.id));
+    }
+    let improved = true;
+    while (improved) {
+      improved = false;
+      const current = best!.payoffOrder;
+      for (let i = 0; i < current.length - 1 && !improved; i++) {
+        for (let j = i + 1; j < current.length && !improved; j++) {
+          const swapped = [...current];
+          [swapped[i], swapped[j]] = [swapped[j], swapped[i]];
+          consider(swapped);
+          improved = best!.payoffOrder !== current;
+        }
+      }
+    }
+  }
+  
+  const order = best?.payoffOrder ?? debts.map(d => d.id);
+  const result = calculateDebtPayoff(debts, extraPayment, { type: 'custom', order }, options);
   return {
-    avalanche: calculateDebtPayoff(debts, extraPayment, 'avalanche'),
-    snowball: calculateDebtPayoff(debts, extraPayment, 'snowball')
+    ...result,
+    strategy: 'optimized',
+    goal,
+    orderingsEvaluated: tried.size,
+    exhaustive,
+    ...(issues.length > 0 ? { validationIssues: issues } : {})
   };
 }
+
+/**
+ * Call a function with every ordering of a list (Heap's algorithm)
+ */
+function forEachPermutation<T>(items: readonly T[], visit: (permutation: T[]) => void): void {
+  const permutation = [...items];
+  const counters = permutation.map(() => 0);
+  visit([...permutation]);
+  let i = 1;
+  while (i < permutation.length) {
+    if (counters[i] < i) {
+      const j = i % 2 === 0 ? 0 : counters[i];
+      [permutation[j], permutation[i]] = [permutation[i], permutation[j]];
+      visit([...permutation]);
+      counters[i]++;
+      i = 1;
+    } else {
+      counters[i] = 0;
+      i++;
+    }
+  }
+}
@@ -2,13 +2,43 @@
  * Debt-to-Income Ratio Calculator
  * 
  * Calculates front-end and back-end DTI ratios used by lenders
- * for mortgage qualification and financial health assessment.
+ * for mortgage qualification and financial health assessment, and checks
+ * qualification for conventional, FHA, VA and USDA loans under each
+ * program's income, student loan and residual income rules (see
+ * lenderPrograms).
  */
 
+import {
+  type ValidationIssue,
+  checkNumber,
+  checkOneOf,
+  checkCondition,
+  enforceValidation,
+  withValidationIssues
+} from '../utils/validation.js';
+import { type CalculatorOptions, type TraceStep, createTrace, withTrace, traceRound } from '../utils/trace.js';
+import { type LoanType, DTI_LIMITS } from '../budget/homeAffordability.js';
+import {
+  type IncomeSource,
+  type QualifyingIncomeLine,
+  type VARegion,
+  LOAN_PROGRAMS,
+  LOAN_PROGRAM_LABELS,
+  VA_REGIONS,
+  VA_MAINTENANCE_PER_SQUARE_FOOT,
+  VA_RESIDUAL_INCOME_MARGIN,
+  isAveragedIncome,
+  qualifyingIncome,
+  qualifyingStudentLoanPayment,
+  vaResidualIncomeRequired
+} from './lenderPrograms.js';
+
 export interface DebtItem {
   name: string;
   monthlyPayment: number;
   category: 'mortgage' | 'credit' | 'auto' | 'student' | 'other';
+  balance?: number; // Student loans: used to impute a qualifying payment
+  incomeDriven?: boolean; // Student loans: the payment is a documented income-driven payment
 }
 
 export interface DTIResult {
@@ -19,6 +49,32 @@ export interface DTIResult {
   availableIncome: number;
   rating: 'excellent' | 'good' | 'fair' | 'poor' | 'concerning';
   mortgageEligibility: string;
+  validationIssues?: ValidationIssue[];
+  trace?: TraceStep[];
+}
+
+/**
+ * Validate debt-to-income inputs
+ * 
+ * @param grossMonthlyIncome - Monthly income before taxes
+ * @param debts - Array of monthly debt obligations
+ * @returns Validation issues (empty when inputs are valid)
+ */
+export function validateDTIInputs(grossMonthlyIncome: number, debts: DebtItem[]): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  
+  checkNumber(issues, 'grossMonthlyIncome', grossMonthlyIncome, { min: 0, exclusiveMin: true });
+  debts.forEach((debt, i) => {
+    checkNumber(issues, `debts[${i}].monthlyPayment`, debt.monthlyPayment, { min: 0 });
+    checkOneOf(
+      issues,
+      `debts[${i}].category`,
+      debt.category,
+      ['mortgage', 'credit', 'auto', 'student', 'other'] as const
+    );
+  });
+  
+  return issues;
 }
 
 /**
@@ -36,9 +92,17 @@ export interface DTIResult {
  * 
  * @param grossMonthlyIncome - Monthly income before taxes
  * @param debts - Array of monthly debt obligations
+ * @param options - Validation options (strict mode throws on invalid inputs)
+ *   and `trace` to return the calculation steps
  * @returns DTI ratios and financial health assessment
  */
-export function calculateDTI(grossMonthlyIncome: number, debts: DebtItem[]): DTIResult {
+export function calculateDTI(
+  grossMonthlyIncome: number, debts: DebtItem[],
+  options: CalculatorOptions = {}
+): DTIResult {
+  const validationIssues = enforceValidation(validateDTIInputs(grossMonthlyIncome, debts), options);
+  const trace = createTrace(options);
+  
   const housingCosts = debts
     .filter(d => d.category === 'mortgage')
     .reduce((sum, d) => sum + d.monthlyPayment, 0);
@@ -49,6 +113,22 @@ export function calculateDTI(grossMonthlyIncome: number, debts: DebtItem[]): DTI
   const backEndRatio = (totalMonthlyDebt / grossMonthlyIncome) * 100;
   const availableIncome = grossMonthlyIncome - totalMonthlyDebt;
   
+  trace.add({
+    name: 'frontEndRatio',
+    description: 'Housing costs as a share of gross monthly income',
+    formula: 'front-end DTI = housing costs ÷ gross income × 100',
+    inputs: { housingCosts, grossMonthlyIncome },
+    result: traceRound(frontEndRatio, 1)
+  });
+  trace.add({
+    name: 'backEndRatio',
+    description: 'All monthly debt payments as a share of gross monthly income',
+    formula: 'back-end DTI = total monthly debt ÷ gross income × 100',
+    inputs: { totalMonthlyDebt, grossMonthlyIncome },
+    intermediates: Object.fromEntries(debts.map((d, i) => [`debts[${i}] ${d.name}`, d.monthlyPayment])),
+    result: traceRound(backEndRatio, 1)
+  });
+  
   // Determine rating based on back-end ratio
   let rating: DTIResult['rating'];
   if (backEndRatio <= 20) rating = 'excellent';
@@ -69,7 +149,15 @@ export function calculateDTI(grossMonthlyIncome: number, debts: DebtItem[]): DTI
     mortgageEligibility = 'Difficult - May not qualify for conventional loans';
   }
   
-  return {
+  trace.add({
+    name: 'rating',
+    description: 'Rating from the back-end ratio',
+    formula: '≤20% excellent, ≤36% good, ≤43% fair, ≤50% poor, otherwise concerning',
+    inputs: { backEndRatio: traceRound(backEndRatio, 1) },
+    result: rating
+  });
+  
+  return withTrace(withValidationIssues({
     frontEndRatio: Math.round(frontEndRatio * 10) / 10,
     backEndRatio: Math.round(backEndRatio * 10) / 10,
     totalMonthlyDebt: Math.round(totalMonthlyDebt),
@@ -77,5 +165,320 @@ export function calculateDTI(grossMonthlyIncome: number, debts: DebtItem[]): DTI
     availableIncome: Math.round(availableIncome),
     rating,
     mortgageEligibility
-  };
+  }, validationIssues), trace);
+}
+
+export interface VAResidualInputs {
+  region: VARegion;
+  familySize: number; // Everyone in the household
+  loanAmount: number;
+  monthlyTaxes: number; // Income taxes and Social Security/Medicare withheld
+  squareFeet?: number; // Living area, for maintenance and utilities
+  otherExpenses?: number; // Child care and other monthly obligations not in debts
+}
+
+export interface MortgageQualificationInputs {
+  income: IncomeSource[];
+  debts: DebtItem[]; // 'mortgage' items are the proposed housing payment
+  programs?: LoanType[]; // Default: conventional, FHA, VA and USDA
+  va?: VAResidualInputs; // Required to check VA residual income
+  usdaIncomeLimit?: number; // Annual income limit for the area (USDA)
+}
+
+export interface ProgramQualification {
+  program: LoanType;
+  label: string;
+  qualifies: boolean;
+  frontEndRatio: number; // Housing costs / qualifying income
+  backEndRatio: number; // All debts (with imputed student loan payments) / qualifying income
+  frontEndLimit: number | null; // Percent (null when the program has none)
+  backEndLimit: number; // Percent
+  monthlyDebt: number; // Including housing and imputed student loan payments
+  studentLoanPayments: number; // Student loan payments the program counts
+  residualIncome?: number; // VA
+  residualIncomeRequired?: number; // VA
+  reasons: string[]; // Each check, passed or failed
+}
+
+export interface MortgageQualificationResult {
+  qualifyingIncome: number; // Monthly
+  income: QualifyingIncomeLine[];
+  housingCosts: number;
+  programs: ProgramQualification[];
+  qualifyingPrograms: LoanType[];
+  validationIssues?: ValidationIssue[];
+  trace?: TraceStep[];
+}
+
+/**
+ * Validate mortgage qualification inputs
+ * 
+ * @param inputs - Income sources, debts, programs and program details
+ * @returns Validation issues (empty when inputs are valid)
+ */
+export function validateMortgageQualificationInputs(inputs: MortgageQualificationInputs): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  
+  if (checkCondition(issues, Array.isArray(inputs.income) && inputs.income.length > 0, 'income', 'empty', 'Add at least one income source')) {
+    let sourcesValid = true;
+    inputs.income.forEach((source, i) => {
+      const path = `income[${i}]`;
+      if (!checkOneOf(issues, `${path}.type`, source.type, ['salary', 'other', 'variable', 'self-employment'] as const)) {
+        sourcesValid = false;
+        return;
+      }
+      if (!isAveragedIncome(source)) {
+        sourcesValid = checkNumber(issues, `${path}.monthlyAmount`, source.monthlyAmount, { min: 0 }) && sourcesValid;
+      } else if (checkCondition(issues, Array.isArray(source.annualAmounts), `${path}.annualAmounts`, 'invalid_option', 'Annual amounts must be a list')) {
+        source.annualAmounts.forEach((amount, j) => {
+          sourcesValid = checkNumber(issues, `${path}.annualAmounts[${j}]`, amount, {
+            min: source.type === 'variable' ? 0 : undefined
+          }) && sourcesValid;
+        });
+      } else {
+        sourcesValid = false;
+      }
+    });
+    if (sourcesValid) {
+      checkCondition(
+        issues,
+        inputs.income.reduce((sum, source) => sum + qualifyingIncome(source).monthlyIncome, 0) > 0,
+        'income',
+        'not_positive',
+        'Qualifying income must be greater than 0'
+      );
+    }
+  }
+  
+  if (checkCondition(issues, Array.isArray(inputs.debts), 'debts', 'invalid_option', 'Debts must be a list')) {
+    inputs.debts.forEach((debt, i) => {
+      checkNumber(issues, `debts[${i}].monthlyPayment`, debt.monthlyPayment, { min: 0 });
+      checkOneOf(issues, `debts[${i}].category`, debt.category, ['mortgage', 'credit', 'auto', 'student', 'other'] as const);
+      checkNumber(issues, `debts[${i}].balance`, debt.balance, { min: 0, required: false });
+      if (debt.category === 'student' && debt.monthlyPayment === 0) {
+        checkCondition(
+          issues,
+          debt.balance !== undefined,
+          `debts[${i}].balance`,
+          'required',
+          'Balance is needed to impute a payment for a student loan with no payment',
+          'warning'
+        );
+      }
+    });
+  }
+  
+  const programs = inputs.programs ?? [];
+  programs.forEach((program, i) => {
+    checkOneOf(issues, `programs[${i}]`, program, LOAN_PROGRAMS);
+  });
+  
+  if (inputs.va !== undefined) {
+    checkOneOf(issues, 'va.region', inputs.va.region, VA_REGIONS);
+    checkNumber(issues, 'va.familySize', inputs.va.familySize, { min: 1, max: 30, integer: true });
+    checkNumber(issues, 'va.loanAmount', inputs.va.loanAmount, { min: 0, exclusiveMin: true });
+    checkNumber(issues, 'va.monthlyTaxes', inputs.va.monthlyTaxes, { min: 0 });
+    checkNumber(issues, 'va.squareFeet', inputs.va.squareFeet, { min: 0, required: false });
+    checkNumber(issues, 'va.otherExpenses', inputs.va.otherExpenses, { min: 0, required: false });
+  }
+  checkNumber(issues, 'usdaIncomeLimit', inputs.usdaIncomeLimit, { min: 0, exclusiveMin: true, required: false });
+  
+  return issues;
+}
+
+/**
+ * Check mortgage qualification by loan program
+ * 
+ * Qualifying income averages variable and self-employment income over two
+ * years (see lenderPrograms). For each program:
+ * - Student loans with no payment (or, for VA, a low payment) count at a
+ *   share of the balance
+ * - Front-end and back-end DTI are checked against DTI_LIMITS (VA checks
+ *   only the back-end ratio)
+ * - VA: residual income = income − taxes − housing − maintenance − debts −
+ *   other expenses must meet the table for the region and family size; a
+ *   DTI above the limit is accepted when residual income is at least 20%
+ *   above the table
+ * - USDA: annual qualifying income must be within the area income limit
+ *   when one is given
+ * 
+ * @param inputs - Income sources, debts, programs and program details
+ * @param options - Validation options (strict mode throws on invalid inputs)
+ *   and `trace` to return the calculation steps
+ * @returns Qualifying income and pass/fail with reasons for each program
+ * 
+ * @example
+ * ```typescript
+ * const result = calculateMortgageQualification({
+ *   income: [
+ *     { type: 'salary', monthlyAmount: 6000 },
+ *     { type: 'variable', name: 'Bonus', annualAmounts: [9000, 12000] }
+ *   ],
+ *   debts: [
+ *     { name: 'New mortgage', monthlyPayment: 1900, category: 'mortgage' },
+ *     { name: 'Student loans', monthlyPayment: 0, category: 'student', balance: 40000, incomeDriven: true }
+ *   ]
+ * });
+ * 
+ * console.log(result.qualifyingPrograms); // ['conventional', 'fha', 'va']
+ * ```
+ */
+export function calculateMortgageQualification(
+  inputs: MortgageQualificationInputs,
+  options: CalculatorOptions = {}
+): MortgageQualificationResult {
+  const validationIssues = enforceValidation(validateMortgageQualificationInputs(inputs), options);
+  const trace = createTrace(options);
+  
+  const income = (Array.isArray(inputs.income) ? inputs.income : []).map(qualifyingIncome);
+  const monthlyIncome = income.reduce((sum, line) => sum + line.monthlyIncome, 0);
+  const debts = Array.isArray(inputs.debts) ? inputs.debts : [];
+  const housingCosts = debts
+    .filter(d => d.category === 'mortgage')
+    .reduce((sum, d) => sum + d.monthlyPayment, 0);
+  
+  trace.add({
+    name: 'qualifyingIncome',
+    description: 'Monthly income lenders count; variable and self-employment income averaged over two years',
+    formula: 'Σ salary + Σ two-year average ÷ 12 (most recent year ÷ 12 when declining)',
+    inputs: Object.fromEntries(income.map(line => [line.name, line.method])),
+    intermediates: Object.fromEntries(income.map(line => [line.name, traceRound(line.monthlyIncome)])),
+    result: traceRound(monthlyIncome)
+  });
+  
+  // Unknown programs are flagged by validation and skipped
+  const programList = (inputs.programs ?? LOAN_PROGRAMS).filter(program => LOAN_PROGRAMS.includes(program));
+  const programs = programList.map((program): ProgramQualification => {
+    const label = LOAN_PROGRAM_LABELS[program];
+    const reasons: string[] = [];
+    const studentLoanPayments = debts
+      .filter(d => d.category === 'student')
+      .reduce((sum, d) => sum + (d.balance === undefined
+        ? d.monthlyPayment
+        : qualifyingStudentLoanPayment(d.monthlyPayment, d.balance, program, d.incomeDriven)), 0);
+    const monthlyDebt = debts
+      .filter(d => d.category !== 'student')
+      .reduce((sum, d) => sum + d.monthlyPayment, 0) + studentLoanPayments;
+    const frontEndRatio = housingCosts / monthlyIncome * 100;
+    const backEndRatio = monthlyDebt / monthlyIncome * 100;
+    const frontEndLimit = program === 'va' ? null : Math.round(DTI_LIMITS[program].frontEnd * 1000) / 10;
+    const backEndLimit = Math.round(DTI_LIMITS[program].backEnd * 1000) / 10;
+    
+    let qualifies = true;
+    if (frontEndLimit !== null) {
+      const passes = frontEndRatio <= frontEndLimit;
+      qualifies = passes;
+      reasons.push(`Front-end DTI ${frontEndRatio.toFixed(1)}% is ${passes ? 'within' : 'above'} the ${frontEndLimit}% ${label} limit`);
+    }
+    const backEndPasses = backEndRatio <= backEndLimit;
+    
+    let residual: Pick<ProgramQualification, 'residualIncome' | 'residualIncomeRequired'> = {};
+    if (program === 'va' && inputs.va && VA_REGIONS.includes(inputs.va.region)) {
+      const va = inputs.va;
+      const maintenance = (va.squareFeet ?? 0) * VA_MAINTENANCE_PER_SQUARE_FOOT;
+      const residualIncome = monthlyIncome - va.monthlyTaxes - monthlyDebt - maintenance - (va.otherExpenses ?? 0);
+      const residualIncomeRequired = vaResidualIncomeRequired(va.region, va.familySize, va.loanAmount);
+      const strongResidual = residualIncome >= residualIncomeRequired * (1 + VA_RESIDUAL_INCOME_MARGIN / 100);
+      residual = { residualIncome: Math.round(residualIncome), residualIncomeRequired };
+      
+      const residualPasses = residualIncome >= residualIncomeRequired;
+      reasons.push(
+        `Residual income $${Math.round(residualIncome).toLocaleString()} is ${residualPasses ? 'at least' : 'below'} ` +
+        `the $${residualIncomeRequired.toLocaleString()} required for a family of ${va.familySize} in the ${va.region}`
+      );
+      if (backEndPasses) {
+        reasons.push(`Back-end DTI ${backEndRatio.toFixed(1)}% is within the ${backEndLimit}% VA guideline`);
+      } else {
+        reasons.push(
+          `Back-end DTI ${backEndRatio.toFixed(1)}% is above the ${backEndLimit}% VA guideline` +
+          (strongResidual
+            ? `, accepted because residual income is at least ${VA_RESIDUAL_INCOME_MARGIN}% above the requirement`
+            : ` and residual income is not ${VA_RESIDUAL_INCOME_MARGIN}% above the requirement`)
+        );
+      }
+      qualifies = residualPasses && (backEndPasses || strongResidual);
+      
+      trace.add({
+        name: 'programs.va.residualIncome',
+        description: 'Income left each month after taxes, housing, maintenance, debts and other expenses',
+        formula: 'income − taxes − monthly debt − square feet × $0.14 − other expenses',
+        inputs: {
+          monthlyIncome: traceRound(monthlyIncome),
+          monthlyTaxes: va.monthlyTaxes,
+          monthlyDebt: traceRound(monthlyDebt),
+          maintenance: traceRound(maintenance),
+          otherExpenses: va.otherExpenses ?? 0
+        },
+        intermediates: { residualIncomeRequired },
+        result: traceRound(residualIncome),
+        source: `VA_RESIDUAL_INCOME.${va.region}`
+      });
+    } else {
+      qualifies = qualifies && backEndPasses;
+      reasons.push(`Back-end DTI ${backEndRatio.toFixed(1)}% is ${backEndPasses ? 'within' : 'above'} the ${backEndLimit}% ${label} limit`);
+      if (program === 'va') {
+        reasons.push(inputs.va
+          ? `Residual income was not checked; '${inputs.va.region}' is not a VA region`
+          : 'Residual income was not checked; add VA details to check it');
+      }
+    }
+    
+    if (program === 'usda') {
+      if (inputs.usdaIncomeLimit !== undefined) {
+        const withinLimit = monthlyIncome * 12 <= inputs.usdaIncomeLimit;
+        qualifies = qualifies && withinLimit;
+        reasons.push(
+          `Annual income $${Math.round(monthlyIncome * 12).toLocaleString()} is ${withinLimit ? 'within' : 'above'} ` +
+          `the $${inputs.usdaIncomeLimit.toLocaleString()} USDA income limit`
+        );
+      } else {
+        reasons.push('Income limit was not checked; add the area USDA income limit to check it');
+      }
+    }
+    
+    const imputed = studentLoanPayments - debts
+      .filter(d => d.category === 'student')
+      .reduce((sum, d) => sum + d.monthlyPayment, 0);
+    if (imputed > 0.005) {
+      reasons.push(`Student loans count at $${studentLoanPayments.toFixed(2)} a month, $${imputed.toFixed(2)} more than the reported payments`);
+    }
+    
+    trace.add({
+      name: `programs.${program}`,
+      description: `${label} qualification: DTI with the program's student loan payments against its limits`,
+      formula: 'back-end DTI = (debts + program student loan payments) ÷ qualifying income × 100',
+      inputs: {
+        housingCosts: traceRound(housingCosts),
+        monthlyDebt: traceRound(monthlyDebt),
+        studentLoanPayments: traceRound(studentLoanPayments),
+        frontEndLimit,
+        backEndLimit
+      },
+      intermediates: { frontEndRatio: traceRound(frontEndRatio, 1), backEndRatio: traceRound(backEndRatio, 1) },
+      result: qualifies,
+      source: `DTI_LIMITS.${program}`
+    });
+    
+    return {
+      program,
+      label,
+      qualifies,
+      frontEndRatio: Math.round(frontEndRatio * 10) / 10,
+      backEndRatio: Math.round(backEndRatio * 10) / 10,
+      frontEndLimit,
+      backEndLimit,
+      monthlyDebt: Math.round(monthlyDebt),
+      studentLoanPayments: Math.round(studentLoanPayments * 100) / 100,
+      ...residual,
+      reasons
+    };
+  });
+  
+  return withTrace(withValidationIssues({
+    qualifyingIncome: Math.round(monthlyIncome),
+    income: income.map(line => ({ ...line, monthlyIncome: Math.round(line.monthlyIncome * 100) / 100 })),
+    housingCosts: Math.round(housingCosts),
+    programs,
+    qualifyingPrograms: programs.filter(p => p.qualifies).map(p => p.program)
+  }, validationIssues), trace);
 }
@@ -0,0 +1,240 @@
+/**
+ * Lender Program Rules
+ *
+ * How mortgage programs count income and debts when qualifying a
+ * borrower:
+ * - Qualifying income: salary and other stable income count as they are.
+ *   Variable income (bonus, overtime, commission) and self-employment
+ *   income are averaged over the last two years; when the most recent year
+ *   is lower, only that year counts. Less than two years of history is not
+ *   counted
+ * - Student loans: programs impute a payment from the balance when the
+ *   reported payment is $0 (FHA and USDA 0.5%, conventional 1% unless a $0
+ *   income-driven payment is documented) or, for VA, below 5% of the
+ *   balance a year
+ * - VA residual income: income left after taxes, housing, maintenance and
+ *   debts must meet a minimum set by region, family size and loan amount
+ *
+ * Debt-to-income limits come from DTI_LIMITS in the home affordability
+ * calculator.
+ *
+ * @see https://selling-guide.fanniemae.com/sel/b3-3.1-01/general-income-information
+ * @see https://www.benefits.va.gov/WARMS/docs/admin26/m26_07/m26-7-chapter4-credit-underwriting.pdf
+ */
+
+import { type Percent } from '../utils/rates.js';
+import { type LoanType } from '../budget/homeAffordability.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Stable income counted as it is (salary, wages, pension, etc.)
+ */
+export interface SteadyIncome {
+  type: 'salary' | 'other';
+  name?: string;
+  monthlyAmount: number;
+}
+
+/**
+ * Income that changes from year to year
+ */
+export interface AveragedIncome {
+  /** variable: bonus, overtime or commission; self-employment: net business income */
+  type: 'variable' | 'self-employment';
+  name?: string;
+  /** Yearly amounts, oldest first (the last two are used) */
+  annualAmounts: number[];
+}
+
+/**
+ * A source of income for qualifying
+ */
+export type IncomeSource = SteadyIncome | AveragedIncome;
+
+/**
+ * How an income source was counted
+ */
+export interface QualifyingIncomeLine {
+  name: string;
+  type: IncomeSource['type'];
+  monthlyIncome: number;
+  counted: boolean;
+  /** How the amount was worked out (e.g., 'two-year average') */
+  method: string;
+}
+
+/**
+ * Payment a program uses for a student loan with no (or a low) payment
+ */
+export interface StudentLoanPaymentRule {
+  /** Monthly payment as a % of the balance */
+  balancePercent: Percent;
+  /** zero-payment: only when the payment is $0; below-percent: whenever the payment is lower */
+  appliesWhen: 'zero-payment' | 'below-percent';
+  /** A documented $0 income-driven payment counts as $0 */
+  acceptsZeroIncomeDrivenPayment: boolean;
+}
+
+/**
+ * VA residual income region
+ */
+export type VARegion = 'northeast' | 'midwest' | 'south' | 'west';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/**
+ * Names of the loan programs
+ */
+export const LOAN_PROGRAM_LABELS: Record<LoanType, string> = {
+  conventional: 'Conventional',
+  fha: 'FHA',
+  va: 'VA',
+  usda: 'USDA'
+};
+
+/**
+ * Supported loan programs
+ */
+export const LOAN_PROGRAMS = Object.keys(LOAN_PROGRAM_LABELS) as LoanType[];
+
+/**
+ * Student loan payment each program qualifies with
+ */
+export const STUDENT_LOAN_PAYMENT_RULES: Record<LoanType, StudentLoanPaymentRule> = {
+  conventional: { balancePercent: 1, appliesWhen: 'zero-payment', acceptsZeroIncomeDrivenPayment: true },
+  fha: { balancePercent: 0.5, appliesWhen: 'zero-payment', acceptsZeroIncomeDrivenPayment: false },
+  va: { balancePercent: 5 / 12, appliesWhen: 'below-percent', acceptsZeroIncomeDrivenPayment: false },
+  usda: { balancePercent: 0.5, appliesWhen: 'zero-payment', acceptsZeroIncomeDrivenPayment: false }
+};
+
+/**
+ * VA residual income for family sizes 1-5, for loans of $80,000 or more
+ */
+export const VA_RESIDUAL_INCOME: Record<VARegion, number[]> = {
+  northeast: [450, 755, 909, 1025, 1062],
+  midwest: [441, 738, 889, 1003, 1039],
+  south: [441, 738, 889, 1003, 1039],
+  west: [491, 823, 990, 1117, 1158]
+};
+
+/**
+ * VA residual income for family sizes 1-5, for loans under $80,000
+ */
+export const VA_RESIDUAL_INCOME_SMALL_LOAN: Record<VARegion, number[]> = {
+  northeast: [390, 654, 788, 888, 921],
+  midwest: [382, 641, 772, 868, 902],
+  south: [382, 641, 772, 868, 902],
+  west: [425, 713, 859, 967, 1004]
+};
+
+/**
+ * VA residual income regions
+ */
+export const VA_REGIONS = Object.keys(VA_RESIDUAL_INCOME) as VARegion[];
+
+/** Loan amount from which the larger VA residual income table applies */
+export const VA_RESIDUAL_LOAN_THRESHOLD = 80000;
+
+/** Residual income added per family member above 5 (loans of $80,000 or more) */
+export const VA_RESIDUAL_ADDITIONAL_MEMBER = 80;
+
+/** Residual income added per family member above 5 (loans under $80,000) */
+export const VA_RESIDUAL_ADDITIONAL_MEMBER_SMALL_LOAN = 75;
+
+/** VA maintenance and utilities estimate per square foot of living area, monthly */
+export const VA_MAINTENANCE_PER_SQUARE_FOOT = 0.14;
+
+/** Residual income above the requirement (%) that allows a VA DTI above the limit */
+export const VA_RESIDUAL_INCOME_MARGIN = 20;
+
+/** Years of history averaged for variable and self-employment income */
+export const INCOME_AVERAGING_YEARS = 2;
+
+// ============================================================================
+// Functions
+// ============================================================================
+
+/**
+ * Whether an income source is averaged over several years
+ */
+export function isAveragedIncome(source: IncomeSource): source is AveragedIncome {
+  return source.type === 'variable' || source.type === 'self-employment';
+}
+
+/**
+ * Monthly income a lender counts from a source
+ *
+ * @param source - Income source
+ * @returns Monthly qualifying income and how it was worked out
+ */
+export function qualifyingIncome(source: IncomeSource): QualifyingIncomeLine {
+  const name = source.name ?? source.type;
+  if (!isAveragedIncome(source)) {
+    return { name, type: source.type, monthlyIncome: source.monthlyAmount, counted: true, method: 'monthly amount' };
+  }
+
+  const history = (source.annualAmounts ?? []).slice(-INCOME_AVERAGING_YEARS);
+  if (history.length < INCOME_AVERAGING_YEARS) {
+    return { name, type: source.type, monthlyIncome: 0, counted: false, method: 'less than two years of history' };
+  }
+  const [previous, recent] = history;
+  if (recent < previous) {
+    return { name, type: source.type, monthlyIncome: recent / 12, counted: true, method: 'most recent year (declining)' };
+  }
+  return {
+    name,
+    type: source.type,
+    monthlyIncome: (previous + recent) / 2 / 12,
+    counted: true,
+    method: 'two-year average'
+  };
+}
+
+/**
+ * Student loan payment a program qualifies with
+ *
+ * @param payment - Reported monthly payment
+ * @param balance - Loan balance
+ * @param program - Loan program
+ * @param incomeDriven - The payment is a documented income-driven payment
+ * @returns Monthly payment used in the DTI
+ */
+export function qualifyingStudentLoanPayment(
+  payment: number,
+  balance: number,
+  program: LoanType,
+  incomeDriven: boolean = false
+): number {
+  const rule = STUDENT_LOAN_PAYMENT_RULES[program];
+  const imputed = balance * rule.balancePercent / 100;
+  if (rule.appliesWhen === 'below-percent') {
+    return Math.max(payment, imputed);
+  }
+  if (payment > 0 || (incomeDriven && rule.acceptsZeroIncomeDrivenPayment)) {
+    return payment;
+  }
+  return imputed;
+}
+
+/**
+ * Minimum VA residual income
+ *
+ * @param region - Region of the property
+ * @param familySize - Everyone in the household
+ * @param loanAmount - Loan amount (chooses the table)
+ * @returns Monthly residual income required
+ */
+export function vaResidualIncomeRequired(region: VARegion, familySize: number, loanAmount: number): number {
+  const small = loanAmount < VA_RESIDUAL_LOAN_THRESHOLD;
+  const table = (small ? VA_RESIDUAL_INCOME_SMALL_LOAN : VA_RESIDUAL_INCOME)[region];
+  const perMember = small ? VA_RESIDUAL_ADDITIONAL_MEMBER_SMALL_LOAN : VA_RESIDUAL_ADDITIONAL_MEMBER;
+  const size = Math.max(1, familySize);
+  return size <= table.length
+    ? table[size - 1]
+    : table[table.length - 1] + perMember * (size - table.length);
+}
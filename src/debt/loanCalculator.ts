@@ -5,29 +5,134 @@
  * (auto, personal, student, etc.) using standard loan formulas.
  */
 
+import {
+  type ValidationIssue,
+  checkNumber,
+  checkOneOf,
+  checkCondition,
+  checkDate,
+  enforceValidation,
+  withValidationIssues
+} from '../utils/validation.js';
+import { type Percent, type WithExplicitRates, normalizeRateFields } from '../utils/rates.js';
+import {
+  type DateInput,
+  type CalendarDate,
+  daysBetween,
+  formatISODate,
+  parseCalendarDate,
+  resolveFirstPaymentDate
+} from '../utils/dates.js';
+import {
+  type PaymentFrequency,
+  type FrequencyComparison,
+  PAYMENT_FREQUENCIES,
+  isAcceleratedFrequency,
+  paymentsForTerm,
+  calculatePeriodicPayment,
+  resolvePaymentPeriod,
+  paymentDueDate,
+  compareWithMonthly
+} from './paymentFrequency.js';
+import {
+  type PrepaidFinanceCharges,
+  type APRResult,
+  calculateAPRFromPayments,
+  validatePrepaidFinanceCharges
+} from './apr.js';
+import {
+  type Prepayment,
+  type PrepaymentSummary,
+  hasPrepayments,
+  prepaymentForMonth,
+  validatePrepayments
+} from './prepayments.js';
+import {
+  type LoanStructure,
+  type LoanStructureSummary,
+  resolveLoanStructure,
+  structuredPayment,
+  validateLoanStructure
+} from './loanStructure.js';
+import {
+  type RateChange,
+  type RateChangePolicy,
+  type AppliedRateChange,
+  type VariableRateSummary,
+  MAX_TERM_EXTENSION_MONTHS,
+  hasRateChanges,
+  rateChangeAt,
+  validateRateChanges
+} from './variableRate.js';
+import {
+  type DayCountConvention,
+  type ActualPayment,
+  type DayCountSummary,
+  DAY_COUNT_BASIS,
+  DAY_COUNT_CONVENTIONS,
+  accrualDays,
+  accruedInterest,
+  actualPaymentDate,
+  validatePaymentDates
+} from './dayCount.js';
+import { type CalculatorOptions, type TraceStep, createTrace, withTrace, traceRound } from '../utils/trace.js';
+
 export interface LoanInputs {
   principal: number;
-  interestRate: number; // Annual percentage
+  interestRate: Percent; // Annual percentage
   termMonths: number;
+  firstPaymentDate?: DateInput; // Default: one month after today
+  today?: DateInput; // Default: the current date
+  prepayments?: Prepayment[]; // Lump sums, recurring or annual extras, percent-of-payment
+  paymentFrequency?: PaymentFrequency; // Default: 'monthly'
+  prepaidFinanceCharges?: PrepaidFinanceCharges; // Fees for the APR (origination, points, ...)
+  structure?: LoanStructure; // Interest-only, balloon, graduated or set payment (default: fully amortizing)
+  rateChanges?: RateChange[]; // New rates from given payments on (variable-rate loans)
+  rateChangePolicy?: RateChangePolicy; // Payment at a rate change (default: 'reamortize')
+  dayCount?: DayCountConvention; // Daily accrual between payment dates (default: rate ÷ payments per year)
+  disbursementDate?: DateInput; // Interest start with a day count (default: one period before the first payment)
+  paymentDates?: ActualPayment[]; // Payments made early or late (with a day count)
 }
 
+/**
+ * Rate fields of LoanInputs and the convention they use
+ */
+export const LOAN_RATE_FIELDS = { interestRate: 'percent' } as const;
+
+/**
+ * Loan inputs with rates as { percent: 6.9 } or { rate: 0.069 }
+ */
+export type LoanRateInputs = WithExplicitRates<LoanInputs, typeof LOAN_RATE_FIELDS>;
+
 export interface AmortizationSchedule {
-  month: number;
+  month: number; // Payment number (the month when paying monthly)
   year: number;
+  date: string; // Payment due date (ISO, e.g. '2026-03-01')
   payment: number;
-  principal: number;
+  prepayment: number; // Extra principal paid with this payment
+  principal: number; // Including any prepayment
   interest: number;
   balance: number;
   totalInterest: number;
   totalPrincipal: number;
+  days?: number; // Days of interest (with a day count)
+  paidDate?: string; // Date paid, when not the due date (ISO)
 }
 
 export interface LoanSummary {
-  monthlyPayment: number;
+  monthlyPayment: number; // First scheduled payment for structured loans
   totalPayments: number;
   totalInterest: number;
   totalPrincipal: number;
+  prepayment?: PrepaymentSummary; // Present when prepayments are made
+  frequency?: FrequencyComparison; // Present for non-monthly payments
+  apr?: APRResult; // Present when prepaidFinanceCharges are given
+  structure?: LoanStructureSummary; // Present for structured loans
+  variableRate?: VariableRateSummary; // Present when the rate changes
+  dayCount?: DayCountSummary; // Present with a day-count convention
   schedule: AmortizationSchedule[];
+  validationIssues?: ValidationIssue[];
+  trace?: TraceStep[];
 }
 
 /**
@@ -64,6 +169,62 @@ export function calculateMonthlyPayment(
   return payment;
 }
 
+/**
+ * Validate loan inputs
+ * 
+ * @param rateInputs - Loan parameters
+ * @returns Validation issues (empty when inputs are valid)
+ */
+export function validateLoanInputs(rateInputs: LoanInputs | LoanRateInputs): ValidationIssue[] {
+  const inputs = normalizeRateFields(rateInputs, LOAN_RATE_FIELDS);
+  const issues: ValidationIssue[] = [];
+  checkNumber(issues, 'principal', inputs.principal, { min: 0, exclusiveMin: true });
+  checkNumber(issues, 'interestRate', inputs.interestRate, { min: 0, max: 100 });
+  checkNumber(issues, 'termMonths', inputs.termMonths, { min: 0, exclusiveMin: true, integer: true, max: 600 });
+  checkDate(issues, 'firstPaymentDate', inputs.firstPaymentDate);
+  checkDate(issues, 'today', inputs.today);
+  const frequencyValid = checkOneOf(issues, 'paymentFrequency', inputs.paymentFrequency, PAYMENT_FREQUENCIES, false);
+  if (inputs.structure !== undefined) {
+    issues.push(...validateLoanStructure(inputs.structure, inputs.termMonths));
+  }
+  issues.push(...validateRateChanges(inputs.rateChanges, inputs.termMonths));
+  checkOneOf(issues, 'rateChangePolicy', inputs.rateChangePolicy, ['reamortize', 'keep-payment'] as const, false);
+  if (hasRateChanges(inputs.rateChanges) && inputs.structure !== undefined) {
+    checkCondition(
+      issues,
+      inputs.structure.type !== 'graduated' && inputs.structure.type !== 'payment-override',
+      'rateChanges',
+      'invalid_relationship',
+      'Rate changes apply to level-payment, interest-only and balloon loans'
+    );
+  }
+  checkOneOf(issues, 'dayCount', inputs.dayCount, DAY_COUNT_CONVENTIONS, false);
+  checkDate(issues, 'disbursementDate', inputs.disbursementDate);
+  issues.push(...validatePaymentDates(inputs.paymentDates, paymentsForTerm(inputs.termMonths, inputs.paymentFrequency)));
+  checkCondition(
+    issues,
+    inputs.dayCount !== undefined || (inputs.paymentDates === undefined && inputs.disbursementDate === undefined),
+    'dayCount',
+    'invalid_relationship',
+    'Payment and disbursement dates only change the interest with a day-count convention',
+    'warning'
+  );
+  if (inputs.structure !== undefined || hasRateChanges(inputs.rateChanges)) {
+    checkCondition(
+      issues,
+      !frequencyValid || inputs.paymentFrequency === 'monthly',
+      'paymentFrequency',
+      'invalid_relationship',
+      'Structured and variable-rate loans are paid monthly'
+    );
+  }
+  issues.push(...validatePrepayments(inputs.prepayments, paymentsForTerm(inputs.termMonths, inputs.paymentFrequency)));
+  if (inputs.prepaidFinanceCharges !== undefined) {
+    issues.push(...validatePrepaidFinanceCharges(inputs.prepaidFinanceCharges));
+  }
+  return issues;
+}
+
 /**
  * Generate complete loan amortization schedule
  * 
@@ -72,10 +233,71 @@ export function calculateMonthlyPayment(
  * - Principal = payment - interest
  * - New balance = balance - principal
  * 
+ * Payments are due monthly from `firstPaymentDate` on the same day of
+ * the month (clamped in shorter months).
+ * 
+ * Prepayments go to principal with the payment they are made with; the
+ * loan then pays off early and the summary reports the interest saved and
+ * months cut against the schedule without them.
+ * 
+ * With a `paymentFrequency` other than monthly, each row is one payment
+ * period and interest accrues at the annual rate ÷ payments per year; the
+ * summary then compares interest and payoff date with paying monthly.
+ * 
+ * With `prepaidFinanceCharges`, the summary includes the Truth in Lending
+ * APR of the scheduled payments (prepayments left out).
+ * 
+ * A `structure` changes the scheduled payment: interest-only, then
+ * amortizing; a balloon due before the term ends; graduated payments; or
+ * a payment set by the borrower. The rows keep the same shape, with any
+ * balloon included in the last row's payment.
+ * 
+ * `rateChanges` set new rates from given payments on. At each change the
+ * payment is re-amortized to the original maturity, or kept as it was
+ * (`rateChangePolicy: 'keep-payment'`), stretching the term; the summary
+ * warns when a kept payment no longer covers the interest.
+ * 
+ * With a `dayCount` convention, interest accrues daily from the
+ * disbursement date to each payment's date, rounded to the cent, and
+ * `paymentDates` records payments made early or late.
+ * 
  * @param inputs - Loan parameters
+ * @param options - Validation options (strict mode throws on invalid inputs)
+ *   and `trace` to return the calculation steps
  * @returns Complete amortization schedule and summary
  */
-export function calculateLoanAmortization(inputs: LoanInputs): LoanSummary {
+export function calculateLoanAmortization(
+  inputs: LoanInputs,
+  options?: CalculatorOptions
+): LoanSummary;
+/**
+ * Same as above, with rates as { percent } or { rate } (see LOAN_RATE_FIELDS)
+ */
+export function calculateLoanAmortization(
+  inputs: LoanRateInputs,
+  options?: CalculatorOptions
+): LoanSummary;
+export function calculateLoanAmortization(
+  rateInputs: LoanInputs | LoanRateInputs,
+  options: CalculatorOptions = {}
+): LoanSummary {
+  return buildLoanAmortization(normalizeRateFields(rateInputs, LOAN_RATE_FIELDS), options, true);
+}
+
+/**
+ * Build the loan schedule and summary
+ * 
+ * The baselines that comparisons are measured against are built with
+ * `comparisons` off, so they don't run comparisons of their own.
+ */
+function buildLoanAmortization(
+  inputs: LoanInputs,
+  options: CalculatorOptions,
+  comparisons: boolean
+): LoanSummary {
+  const validationIssues = enforceValidation(validateLoanInputs(inputs), options);
+  const trace = createTrace(options);
+  
   const monthlyPayment = calculateMonthlyPayment(
     inputs.principal,
     inputs.interestRate,
@@ -87,39 +309,410 @@ export function calculateLoanAmortization(inputs: LoanInputs): LoanSummary {
   let totalInterest = 0;
   let totalPrincipal = 0;
   const monthlyRate = inputs.interestRate / 100 / 12;
+  const firstPaymentDate = resolveFirstPaymentDate(inputs);
+  
+  trace.add({
+    name: 'monthlyRate',
+    description: 'Monthly interest rate',
+    formula: 'r = annual rate ÷ 100 ÷ 12',
+    inputs: { annualRate: inputs.interestRate },
+    result: monthlyRate
+  });
+  trace.add({
+    name: 'monthlyPayment',
+    description: 'Fixed monthly payment that repays the loan over the term',
+    formula: monthlyRate === 0 ? 'M = P ÷ n' : 'M = P × r(1 + r)^n ÷ ((1 + r)^n − 1)',
+    inputs: { principal: inputs.principal, monthlyRate, termMonths: inputs.termMonths },
+    intermediates: { growthFactor: Math.pow(1 + monthlyRate, inputs.termMonths) },
+    result: traceRound(monthlyPayment)
+  });
+  
+  const period = resolvePaymentPeriod(inputs.paymentFrequency ?? 'monthly', inputs.principal, inputs.interestRate, inputs.termMonths, monthlyPayment);
+  const frequency = period.frequency;
+  const periodicPayment = period.periodicPayment;
+  if (frequency !== 'monthly') {
+    trace.add({
+      name: 'periodicPayment',
+      description: `Payment due each ${frequency} period`,
+      formula: isAcceleratedFrequency(frequency)
+        ? 'monthly payment ÷ 2 (bi-weekly) or ÷ 4 (weekly)'
+        : 'PMT = P × r(1 + r)^n ÷ ((1 + r)^n − 1), r = annual rate ÷ payments per year',
+      inputs: { principal: inputs.principal, annualRate: inputs.interestRate, paymentsPerYear: period.paymentsPerYear },
+      intermediates: { periodicRate: period.periodicRate, numberOfPayments: period.numberOfPayments },
+      result: traceRound(periodicPayment)
+    });
+  }
+  
+  // Interest-only, balloon, graduated or set payments (monthly only)
+  const structure = inputs.structure
+    ? resolveLoanStructure(inputs.structure, inputs.principal, inputs.interestRate, inputs.termMonths)
+    : undefined;
+  
+  // Rate changes (monthly only); keeping the payment lets a level or
+  // interest-only loan run past its term
+  const rateChanges = inputs.rateChanges ?? [];
+  const variable = hasRateChanges(inputs.rateChanges);
+  const ratePolicy = inputs.rateChangePolicy ?? 'reamortize';
+  const extendable = variable && ratePolicy === 'keep-payment' && (!structure || structure.type === 'interest-only');
+  const numberOfPayments = (structure ? structure.numberOfPayments : period.numberOfPayments) +
+    (extendable ? MAX_TERM_EXTENSION_MONTHS : 0);
+  if (structure) {
+    trace.add({
+      name: 'structuredPayment',
+      description: `First scheduled payment of the ${structure.type} loan`,
+      formula: {
+        'interest-only': 'I = P × r, then M = B × r(1 + r)^n ÷ ((1 + r)^n − 1) over the remaining term',
+        'balloon': 'M = P × r(1 + r)^n ÷ ((1 + r)^n − 1), remaining balance due with the balloon payment',
+        'graduated': 'P₁ = P ÷ Σ (1 + g)^year_k ÷ (1 + r)^k',
+        'payment-override': 'payment as set, remaining balance due with the last payment'
+      }[structure.type],
+      inputs: { principal: inputs.principal, monthlyRate, termMonths: inputs.termMonths, structure: structure.type },
+      intermediates: {
+        numberOfPayments: structure.numberOfPayments,
+        interestOnlyMonths: structure.interestOnlyMonths,
+        annualIncrease: structure.annualIncrease,
+        increaseYears: structure.increaseYears
+      },
+      result: traceRound(structure.initialPayment)
+    });
+  }
+  
+  const prepayments = Array.isArray(inputs.prepayments) ? inputs.prepayments : [];
+  let totalPrepaid = 0;
+  let previousDate: CalendarDate | undefined;
+  let scheduledPayment = structure ? structure.initialPayment : periodicPayment;
+  let maxPayment = 0;
+  let peakBalance = balance;
+  let balloonPayment = 0;
+  let currentRate: number = inputs.interestRate;
+  const appliedChanges: AppliedRateChange[] = [];
+  let negativeAmortizationMonths = 0;
+  let firstNegativeAmortizationMonth: number | null = null;
+  
+  // Daily accrual from disbursement, then from each payment's actual date
+  const dayCount = inputs.dayCount;
+  const paymentDates = inputs.paymentDates ?? [];
+  const disbursementDate = (inputs.disbursementDate !== undefined ? parseCalendarDate(inputs.disbursementDate) : undefined)
+    ?? paymentDueDate(firstPaymentDate, 0, frequency);
+  let accrualStart = disbursementDate;
+  let totalDays = 0;
+  let latePayments = 0;
+  let earlyPayments = 0;
   
-  for (let month = 1; month <= inputs.termMonths; month++) {
-    const interestPayment = balance * monthlyRate;
-    let principalPayment = monthlyPayment - interestPayment;
+  for (let month = 1; month <= numberOfPayments && balance > 0.005; month++) {
+    const paymentDate = paymentDueDate(firstPaymentDate, month, frequency);
+    
+    // A new rate from this payment on, re-amortized to the original maturity unless the payment is kept
+    const rateChange = variable ? rateChangeAt(rateChanges, month) : undefined;
+    if (rateChange) {
+      currentRate = rateChange.rate;
+    }
+    const periodicRate = currentRate / 100 / period.paymentsPerYear;
+    if (rateChange && ratePolicy === 'reamortize' && (!structure || structure.type === 'interest-only' || structure.type === 'balloon')) {
+      scheduledPayment = calculatePeriodicPayment(balance, periodicRate, inputs.termMonths - month + 1);
+    }
+    
+    const paidDate = dayCount ? actualPaymentDate(paymentDates, month) ?? paymentDate : paymentDate;
+    const days = dayCount ? Math.max(0, accrualDays(dayCount, accrualStart, paidDate)) : 0;
+    const interestPayment = dayCount
+      ? accruedInterest(balance, currentRate, dayCount, accrualStart, paidDate)
+      : balance * periodicRate;
+    if (structure) {
+      scheduledPayment = structuredPayment(structure, month, balance, scheduledPayment, periodicRate);
+    }
+    if (dayCount) {
+      // Statement amounts are in cents
+      scheduledPayment = Math.round(scheduledPayment * 100) / 100;
+      const daysOff = daysBetween(paymentDate, paidDate);
+      latePayments += daysOff > 0 ? 1 : 0;
+      earlyPayments += daysOff < 0 ? 1 : 0;
+      totalDays += days;
+      accrualStart = paidDate;
+    }
+    if (rateChange) {
+      appliedChanges.push({
+        month,
+        date: formatISODate(paymentDate),
+        rate: currentRate,
+        payment: Math.round(scheduledPayment * 100) / 100,
+        interest: Math.round(interestPayment * 100) / 100
+      });
+    }
+    if (variable && month < numberOfPayments && scheduledPayment < interestPayment - 0.005) {
+      negativeAmortizationMonths++;
+      firstNegativeAmortizationMonth = firstNegativeAmortizationMonth ?? month;
+    }
+    let principalPayment = scheduledPayment - interestPayment;
     
-    // Last payment adjustment for rounding
-    if (month === inputs.termMonths) {
+    // Last payment adjustment for rounding (and any balloon)
+    if (month === numberOfPayments) {
       principalPayment = balance;
     }
     
+    // Extra principal, never more than what is left
+    const firstInMonth = previousDate?.month !== paymentDate.month || previousDate.year !== paymentDate.year;
+    const prepayment = Math.max(0, Math.min(
+      prepaymentForMonth(prepayments, month, firstInMonth ? paymentDate.month : undefined, scheduledPayment),
+      balance - principalPayment
+    ));
+    previousDate = paymentDate;
+    principalPayment = Math.min(principalPayment + prepayment, balance);
+    
     balance -= principalPayment;
     totalInterest += interestPayment;
     totalPrincipal += principalPayment;
+    totalPrepaid += prepayment;
+    
+    // The last payment of a structured or variable-rate loan includes any balloon
+    const amountDue = interestPayment + principalPayment - prepayment;
+    peakBalance = Math.max(peakBalance, balance);
+    if (month === numberOfPayments && amountDue - scheduledPayment > 0.005) {
+      balloonPayment = amountDue - scheduledPayment;
+    }
+    if (structure) {
+      if (month < numberOfPayments || balloonPayment === 0) {
+        maxPayment = Math.max(maxPayment, Math.min(scheduledPayment, amountDue));
+      }
+    }
     
     schedule.push({
       month,
-      year: Math.floor((month - 1) / 12) + 1,
-      payment: Math.round(monthlyPayment * 100) / 100,
+      year: Math.floor((month - 1) / period.paymentsPerYear) + 1,
+      date: formatISODate(paymentDate),
+      payment: Math.round((structure || variable || dayCount ? amountDue : Math.min(periodicPayment, amountDue)) * 100) / 100,
+      prepayment: Math.round(prepayment * 100) / 100,
       principal: Math.round(principalPayment * 100) / 100,
       interest: Math.round(interestPayment * 100) / 100,
       balance: Math.max(0, Math.round(balance * 100) / 100),
       totalInterest: Math.round(totalInterest * 100) / 100,
-      totalPrincipal: Math.round(totalPrincipal * 100) / 100
+      totalPrincipal: Math.round(totalPrincipal * 100) / 100,
+      ...(dayCount ? { days } : {}),
+      ...(paidDate !== paymentDate ? { paidDate: formatISODate(paidDate) } : {})
+    });
+  }
+  
+  trace.add({
+    name: 'totalInterest',
+    description: 'Interest paid over the life of the loan (sum of each month\'s balance × r)',
+    formula: 'Σ interest = Σ balance × r',
+    inputs: { payments: inputs.termMonths, monthlyRate },
+    intermediates: { firstMonthInterest: schedule.length > 0 ? schedule[0].interest : 0 },
+    result: traceRound(totalInterest)
+  });
+  
+  // Rate path, term extension and negative amortization of a variable-rate loan
+  let variableRate: VariableRateSummary | undefined;
+  if (variable) {
+    const payoffMonth = schedule.length;
+    const monthsExtended = Math.max(0, payoffMonth - inputs.termMonths);
+    const warnings: string[] = [];
+    if (firstNegativeAmortizationMonth !== null) {
+      warnings.push(
+        `From payment ${firstNegativeAmortizationMonth} the payment no longer covers the interest; ` +
+        `unpaid interest is added to the balance on ${negativeAmortizationMonths} payments.`
+      );
+    }
+    if (monthsExtended > 0) {
+      warnings.push(`Keeping the payment extends the loan by ${monthsExtended} months.`);
+    }
+    if (extendable && balloonPayment > 0) {
+      warnings.push(
+        `The payment does not repay the loan within ${MAX_TERM_EXTENSION_MONTHS} months of the original term; ` +
+        `$${Math.round(balloonPayment).toLocaleString()} is due with the last payment.`
+      );
+    }
+    
+    variableRate = {
+      policy: ratePolicy,
+      rateChanges: appliedChanges,
+      finalRate: currentRate,
+      payoffMonth,
+      monthsExtended,
+      negativeAmortizationMonths,
+      firstNegativeAmortizationMonth,
+      peakBalance: Math.round(peakBalance * 100) / 100,
+      warnings
+    };
+    
+    trace.add({
+      name: 'rateChanges',
+      description: ratePolicy === 'reamortize'
+        ? 'Rate changes, with the payment re-amortized to the original maturity at each'
+        : 'Rate changes, with the payment kept and the term adjusted',
+      formula: ratePolicy === 'reamortize'
+        ? 'M = B × r(1 + r)^n ÷ ((1 + r)^n − 1), n = payments left to maturity'
+        : 'interest = B × new r; shortfall below interest added to B',
+      inputs: { policy: ratePolicy, rateChanges: rateChanges.length, termMonths: inputs.termMonths },
+      intermediates: {
+        finalRate: currentRate,
+        monthsExtended,
+        negativeAmortizationMonths,
+        peakBalance: traceRound(peakBalance)
+      },
+      result: payoffMonth
+    });
+  }
+  
+  // Daily accrual against the rate ÷ payments per year and against paying on time
+  let dayCountSummary: DayCountSummary | undefined;
+  if (comparisons && dayCount) {
+    const periodic = buildLoanAmortization({
+      ...inputs,
+      dayCount: undefined,
+      disbursementDate: undefined,
+      paymentDates: undefined
+    }, {}, false);
+    const onTime = paymentDates.length > 0
+      ? buildLoanAmortization({ ...inputs, paymentDates: undefined }, {}, false)
+      : undefined;
+    // Compare to the cent (the summaries round interest to dollars)
+    const interestOf = (result: LoanSummary) => result.schedule[result.schedule.length - 1]?.totalInterest ?? 0;
+    dayCountSummary = {
+      convention: dayCount,
+      disbursementDate: formatISODate(disbursementDate),
+      totalDays,
+      latePayments,
+      earlyPayments,
+      interestVsPeriodic: Math.round((totalInterest - interestOf(periodic)) * 100) / 100,
+      paymentTimingInterest: onTime ? Math.round((totalInterest - interestOf(onTime)) * 100) / 100 : 0
+    };
+    
+    trace.add({
+      name: 'dailyInterest',
+      description: `Interest accrued daily (${dayCount}) between payment dates, rounded to the cent`,
+      formula: `interest = balance × rate × days ÷ ${DAY_COUNT_BASIS[dayCount]}`,
+      inputs: {
+        convention: dayCount,
+        disbursementDate: dayCountSummary.disbursementDate,
+        latePayments,
+        earlyPayments
+      },
+      intermediates: {
+        firstPeriodDays: schedule[0]?.days ?? 0,
+        totalDays,
+        periodicTotalInterest: interestOf(periodic),
+        paymentTimingInterest: dayCountSummary.paymentTimingInterest
+      },
+      result: dayCountSummary.interestVsPeriodic
+    });
+  }
+  
+  // Payment range and balloon of a structured loan
+  let structureSummary: LoanStructureSummary | undefined;
+  if (structure) {
+    structureSummary = {
+      type: structure.type,
+      initialPayment: Math.round(structure.initialPayment * 100) / 100,
+      maxPayment: Math.round(maxPayment * 100) / 100,
+      balloonPayment: Math.round(balloonPayment * 100) / 100,
+      balloonMonth: balloonPayment > 0 ? schedule.length : null,
+      peakBalance: Math.round(peakBalance * 100) / 100
+    };
+  }
+  
+  // Compare against the same loan without prepayments
+  let prepayment: PrepaymentSummary | undefined;
+  if (comparisons && hasPrepayments(inputs.prepayments)) {
+    const baseline = buildLoanAmortization({ ...inputs, prepayments: undefined }, {}, false);
+    prepayment = {
+      totalPrepaid: Math.round(totalPrepaid * 100) / 100,
+      interestSaved: Math.round(baseline.totalInterest - totalInterest),
+      monthsSaved: baseline.schedule.length - schedule.length,
+      payoffMonth: schedule.length,
+      baselineTotalInterest: baseline.totalInterest,
+      baselineMonths: baseline.schedule.length
+    };
+    
+    trace.add({
+      name: 'prepaymentSavings',
+      description: 'Interest saved and months cut by the prepayments',
+      formula: 'interest without prepayments − interest with them',
+      inputs: { totalPrepaid: traceRound(totalPrepaid), prepayments: prepayments.length },
+      intermediates: {
+        baselineTotalInterest: baseline.totalInterest,
+        baselineMonths: baseline.schedule.length,
+        payoffMonth: schedule.length
+      },
+      result: prepayment.interestSaved
+    });
+  }
+  
+  // Compare against the same loan paid monthly
+  let frequencyComparison: FrequencyComparison | undefined;
+  if (comparisons && frequency !== 'monthly') {
+    const baseline = buildLoanAmortization({ ...inputs, paymentFrequency: undefined }, {}, false);
+    frequencyComparison = compareWithMonthly(
+      period,
+      { numberOfPayments: schedule.length, payoffDate: schedule[schedule.length - 1]?.date ?? '', totalInterest },
+      {
+        monthlyPayment: baseline.monthlyPayment,
+        numberOfPayments: baseline.schedule.length,
+        payoffDate: baseline.schedule[baseline.schedule.length - 1]?.date ?? '',
+        totalInterest: baseline.totalInterest
+      }
+    );
+    
+    trace.add({
+      name: 'frequencySavings',
+      description: `Interest saved and months cut by paying ${frequency} instead of monthly`,
+      formula: 'monthly interest − interest at this frequency',
+      inputs: { frequency, periodicPayment: traceRound(periodicPayment), monthlyPayment: baseline.monthlyPayment },
+      intermediates: {
+        baselineTotalInterest: baseline.totalInterest,
+        payoffDate: frequencyComparison.payoffDate,
+        baselinePayoffDate: frequencyComparison.baselinePayoffDate,
+        monthsSaved: frequencyComparison.monthsSaved
+      },
+      result: frequencyComparison.interestSaved
+    });
+  }
+  
+  // Truth in Lending APR on the contractual schedule
+  let apr: APRResult | undefined;
+  if (comparisons && inputs.prepaidFinanceCharges) {
+    const contract = hasPrepayments(inputs.prepayments)
+      ? buildLoanAmortization({ ...inputs, prepayments: undefined }, {}, false).schedule
+      : schedule;
+    apr = calculateAPRFromPayments(
+      inputs.principal,
+      inputs.interestRate,
+      contract.map(entry => entry.payment),
+      inputs.prepaidFinanceCharges,
+      period.paymentsPerYear
+    );
+    
+    trace.add({
+      name: 'apr',
+      description: 'Annual percentage rate: the rate at which the payments repay the amount financed',
+      formula: 'amount financed = Σ payment_k ÷ (1 + i)^k, APR = i × payments per year',
+      inputs: {
+        principal: inputs.principal,
+        prepaidFinanceCharges: apr.prepaidFinanceCharges,
+        payments: contract.length
+      },
+      intermediates: {
+        amountFinanced: apr.amountFinanced,
+        totalOfPayments: apr.totalOfPayments,
+        financeCharge: apr.financeCharge
+      },
+      result: apr.apr,
+      source: 'Regulation Z (12 CFR 1026.22), actuarial method'
     });
   }
   
-  return {
-    monthlyPayment: Math.round(monthlyPayment * 100) / 100,
-    totalPayments: Math.round(monthlyPayment * inputs.termMonths),
+  return withTrace(withValidationIssues({
+    monthlyPayment: Math.round((structure ? structure.initialPayment : monthlyPayment) * 100) / 100,
+    totalPayments: Math.round(totalInterest + totalPrincipal),
     totalInterest: Math.round(totalInterest),
     totalPrincipal: Math.round(totalPrincipal),
+    ...(prepayment ? { prepayment } : {}),
+    ...(frequencyComparison ? { frequency: frequencyComparison } : {}),
+    ...(apr ? { apr } : {}),
+    ...(structureSummary ? { structure: structureSummary } : {}),
+    ...(variableRate ? { variableRate } : {}),
+    ...(dayCountSummary ? { dayCount: dayCountSummary } : {}),
     schedule
-  };
+  }, validationIssues), trace);
 }
 
 /**
@@ -0,0 +1,316 @@
+/**
+ * Loan Structures
+ *
+ * Payment structures other than a fixed, fully amortizing payment for the
+ * loan calculator:
+ * - interest-only: interest alone for the first months, then the balance
+ *   amortizes over the rest of the term
+ * - balloon: payments amortize over the full term, but the remaining
+ *   balance is due with an earlier payment
+ * - graduated: payments rise by a fixed percentage each year for a number
+ *   of years, then stay level; early payments can be below the interest
+ *   due, so the balance grows at first (negative amortization)
+ * - payment-override: a payment chosen by the borrower; whatever is left at
+ *   the end of the term is due with the last payment
+ *
+ * Structured loans are paid monthly. Months are payment numbers (1 = first
+ * payment) and rates are percentages (6.5 = 6.5%), like the loan calculator.
+ */
+
+import {
+  type ValidationIssue,
+  checkNumber,
+  checkOneOf,
+  checkCondition
+} from '../utils/validation.js';
+import { type Percent } from '../utils/rates.js';
+import { calculatePeriodicPayment } from './paymentFrequency.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Interest-only period followed by amortization
+ */
+export interface InterestOnlyStructure {
+  type: 'interest-only';
+  /** Payments of interest only before amortization starts */
+  interestOnlyMonths: number;
+}
+
+/**
+ * Balloon loan: the balance is due before the amortization term ends
+ */
+export interface BalloonStructure {
+  type: 'balloon';
+  /** Payment the remaining balance is due with (e.g., 84 for a 7-year balloon) */
+  balloonMonth: number;
+}
+
+/**
+ * Graduated-payment loan (e.g., FHA Section 245)
+ */
+export interface GraduatedStructure {
+  type: 'graduated';
+  /** Yearly payment increase (7.5 = 7.5%) */
+  annualIncrease: Percent;
+  /** Years the payment keeps rising (default: 5) */
+  increaseYears?: number;
+}
+
+/**
+ * Payment set by the borrower instead of the amortizing payment
+ */
+export interface PaymentOverrideStructure {
+  type: 'payment-override';
+  /** Monthly payment */
+  payment: number;
+}
+
+/**
+ * Payment structure of a loan
+ */
+export type LoanStructure =
+  | InterestOnlyStructure
+  | BalloonStructure
+  | GraduatedStructure
+  | PaymentOverrideStructure;
+
+/**
+ * Loan structure with the schedule terms worked out
+ */
+export interface ResolvedLoanStructure {
+  type: LoanStructure['type'];
+  /** Interest rate per month (decimal) */
+  monthlyRate: number;
+  /** Payments until the loan ends (the balloon month for balloon loans) */
+  numberOfPayments: number;
+  /** Payment due with payment 1 */
+  initialPayment: number;
+  /** Interest-only payments (0 unless interest-only) */
+  interestOnlyMonths: number;
+  /** Payments the balance amortizes over once interest-only ends */
+  amortizationMonths: number;
+  /** Yearly payment increase (percent, 0 unless graduated) */
+  annualIncrease: number;
+  /** Years the payment rises (0 unless graduated) */
+  increaseYears: number;
+}
+
+/**
+ * Loan structure details reported with the loan summary
+ */
+export interface LoanStructureSummary {
+  type: LoanStructure['type'];
+  /** Scheduled payment 1 */
+  initialPayment: number;
+  /** Largest scheduled payment, not counting a final balloon */
+  maxPayment: number;
+  /** Balance due with the last payment beyond its scheduled payment (0 if none) */
+  balloonPayment: number;
+  /** Payment the balloon is due with (null without one) */
+  balloonMonth: number | null;
+  /** Highest balance reached (above the principal with negative amortization) */
+  peakBalance: number;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Default years a graduated payment keeps rising */
+export const DEFAULT_GRADUATED_INCREASE_YEARS = 5;
+
+// ============================================================================
+// Functions
+// ============================================================================
+
+/**
+ * Validate a loan structure
+ *
+ * @param structure - Loan structure
+ * @param termMonths - Loan term in months
+ * @param field - Path of the structure in the calculator inputs
+ * @returns Validation issues (empty when the structure is valid)
+ */
+export function validateLoanStructure(
+  structure: LoanStructure,
+  termMonths: number,
+  field: string = 'structure'
+): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  if (!checkOneOf(issues, `${field}.type`, structure.type, ['interest-only', 'balloon', 'graduated', 'payment-override'] as const)) {
+    return issues;
+  }
+
+  const maxMonth = Number.isFinite(termMonths) && termMonths > 0 ? termMonths : undefined;
+  switch (structure.type) {
+    case 'interest-only': {
+      const valid = checkNumber(issues, `${field}.interestOnlyMonths`, structure.interestOnlyMonths, { min: 1, integer: true });
+      if (valid && maxMonth !== undefined) {
+        checkCondition(
+          issues,
+          structure.interestOnlyMonths < maxMonth,
+          `${field}.interestOnlyMonths`,
+          'invalid_relationship',
+          'Interest-only period must end before the loan term'
+        );
+      }
+      break;
+    }
+    case 'balloon':
+      checkNumber(issues, `${field}.balloonMonth`, structure.balloonMonth, { min: 1, max: maxMonth, integer: true });
+      break;
+    case 'graduated':
+      checkNumber(issues, `${field}.annualIncrease`, structure.annualIncrease, { min: 0, max: 100 });
+      checkNumber(issues, `${field}.increaseYears`, structure.increaseYears, {
+        min: 1,
+        max: maxMonth !== undefined ? Math.ceil(maxMonth / 12) : undefined,
+        integer: true,
+        required: false
+      });
+      break;
+    case 'payment-override':
+      checkNumber(issues, `${field}.payment`, structure.payment, { min: 0, exclusiveMin: true });
+      break;
+  }
+  return issues;
+}
+
+/**
+ * Payment multiplier of a graduated loan for a payment
+ */
+function graduatedFactor(annualIncrease: number, increaseYears: number, month: number): number {
+  const increases = Math.min(Math.floor((month - 1) / 12), increaseYears);
+  return Math.pow(1 + annualIncrease / 100, increases);
+}
+
+/**
+ * First payment of a graduated loan
+ *
+ * The payment rises by the yearly increase for `increaseYears` years and
+ * then stays level. The first payment is set so the payments repay the
+ * loan over the term:
+ *
+ *   P = principal ÷ Σ factor_k ÷ (1 + r)^k
+ *
+ * @param principal - Loan amount
+ * @param annualRate - Annual interest rate as percentage
+ * @param termMonths - Term in months
+ * @param annualIncrease - Yearly payment increase as percentage
+ * @param increaseYears - Years the payment rises
+ * @returns Payment 1
+ */
+export function calculateGraduatedPayment(
+  principal: number,
+  annualRate: number,
+  termMonths: number,
+  annualIncrease: number,
+  increaseYears: number = DEFAULT_GRADUATED_INCREASE_YEARS
+): number {
+  const monthlyRate = annualRate / 100 / 12;
+  let presentValue = 0;
+  let discount = 1;
+  for (let month = 1; month <= termMonths; month++) {
+    discount /= 1 + monthlyRate;
+    presentValue += graduatedFactor(annualIncrease, increaseYears, month) * discount;
+  }
+  return presentValue > 0 ? principal / presentValue : 0;
+}
+
+/**
+ * Work out the schedule terms of a loan structure
+ *
+ * @param structure - Loan structure
+ * @param principal - Loan amount
+ * @param annualRate - Annual interest rate as percentage
+ * @param termMonths - Term in months
+ * @returns Payments, interest-only period and graduation terms
+ */
+export function resolveLoanStructure(
+  structure: LoanStructure,
+  principal: number,
+  annualRate: number,
+  termMonths: number
+): ResolvedLoanStructure {
+  const monthlyRate = annualRate / 100 / 12;
+  const resolved: ResolvedLoanStructure = {
+    type: structure.type,
+    monthlyRate,
+    numberOfPayments: termMonths,
+    initialPayment: calculatePeriodicPayment(principal, monthlyRate, termMonths),
+    interestOnlyMonths: 0,
+    amortizationMonths: termMonths,
+    annualIncrease: 0,
+    increaseYears: 0
+  };
+
+  switch (structure.type) {
+    case 'interest-only':
+      resolved.interestOnlyMonths = structure.interestOnlyMonths;
+      resolved.amortizationMonths = termMonths - structure.interestOnlyMonths;
+      resolved.initialPayment = principal * monthlyRate;
+      break;
+    case 'balloon':
+      resolved.numberOfPayments = Math.min(structure.balloonMonth, termMonths);
+      break;
+    case 'graduated':
+      resolved.annualIncrease = structure.annualIncrease;
+      resolved.increaseYears = structure.increaseYears ?? DEFAULT_GRADUATED_INCREASE_YEARS;
+      resolved.initialPayment = calculateGraduatedPayment(
+        principal,
+        annualRate,
+        termMonths,
+        resolved.annualIncrease,
+        resolved.increaseYears
+      );
+      break;
+    case 'payment-override':
+      resolved.initialPayment = structure.payment;
+      break;
+  }
+
+  return resolved;
+}
+
+/**
+ * Scheduled payment (before prepayments) under a loan structure
+ *
+ * Interest-only payments follow the balance, so prepayments lower them;
+ * the amortizing payment is set from the balance when interest-only ends.
+ * Other payments stay as they were, apart from graduated increases. The
+ * last payment also clears any remaining balance (the balloon).
+ *
+ * @param structure - Resolved loan structure
+ * @param month - Payment number (1-indexed)
+ * @param balance - Balance before the payment
+ * @param previousPayment - Scheduled payment for the month before
+ *   (`initialPayment` for payment 1)
+ * @param monthlyRate - Interest rate for the month, when it has changed
+ *   (default: the loan's rate)
+ * @returns Payment due
+ */
+export function structuredPayment(
+  structure: ResolvedLoanStructure,
+  month: number,
+  balance: number,
+  previousPayment: number,
+  monthlyRate: number = structure.monthlyRate
+): number {
+  switch (structure.type) {
+    case 'interest-only':
+      if (month <= structure.interestOnlyMonths) {
+        return balance * monthlyRate;
+      }
+      if (month === structure.interestOnlyMonths + 1) {
+        return calculatePeriodicPayment(balance, monthlyRate, structure.amortizationMonths);
+      }
+      return previousPayment;
+    case 'graduated':
+      return structure.initialPayment * graduatedFactor(structure.annualIncrease, structure.increaseYears, month);
+    case 'balloon':
+    case 'payment-override':
+      return previousPayment;
+  }
+}
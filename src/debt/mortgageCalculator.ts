@@ -2,31 +2,142 @@
  * Mortgage Calculator
  * 
  * Comprehensive mortgage calculator including principal & interest,
- * property taxes, homeowners insurance, PMI, and HOA fees.
+ * property taxes, homeowners insurance, PMI, and HOA fees, for fixed-rate
+ * and adjustable-rate (ARM) loans.
  */
 
+import {
+  type ValidationIssue,
+  checkNumber,
+  checkOneOf,
+  checkCondition,
+  checkDate,
+  enforceValidation,
+  withValidationIssues
+} from '../utils/validation.js';
+import { type Percent, type WithExplicitRates, normalizeRateFields } from '../utils/rates.js';
+import {
+  type DateInput,
+  type CalendarDate,
+  formatISODate,
+  monthlyPaymentDate,
+  resolveFirstPaymentDate
+} from '../utils/dates.js';
+import {
+  type PaymentFrequency,
+  type FrequencyComparison,
+  PAYMENT_FREQUENCIES,
+  isAcceleratedFrequency,
+  paymentsForTerm,
+  resolvePaymentPeriod,
+  paymentDueDate,
+  compareWithMonthly
+} from './paymentFrequency.js';
+import {
+  type ARMTerms,
+  type ARMRateTerms,
+  type ARMRateReset,
+  type ARMSummary,
+  resolveARMTerms,
+  validateARMTerms,
+  isARMResetMonth,
+  armIndexAt,
+  adjustARMRate,
+  calculateARMWorstCasePayment
+} from './adjustableRate.js';
+import {
+  type Prepayment,
+  type PrepaymentSummary,
+  hasPrepayments,
+  prepaymentForMonth,
+  validatePrepayments
+} from './prepayments.js';
+import {
+  type PMIOptions,
+  type PMIRateOptions,
+  type PMIRemovalReason,
+  type PMISummary,
+  resolvePMIOptions,
+  validatePMIOptions,
+  pmiRemovalReason,
+  appreciatedHomeValue
+} from './pmi.js';
+import {
+  type PrepaidFinanceCharges,
+  type APRResult,
+  calculateAPRFromPayments,
+  validatePrepaidFinanceCharges
+} from './apr.js';
+import { calculateMonthlyPayment } from './loanCalculator.js';
+import { type CalculatorOptions, type TraceStep, createTrace, withTrace, traceRound } from '../utils/trace.js';
+
 export interface MortgageInputs {
   homePrice: number;
   downPayment: number;
-  interestRate: number; // Annual percentage
+  interestRate: Percent; // Annual percentage
   loanTermYears: number;
-  propertyTaxRate: number; // Annual percentage of home value
+  propertyTaxRate: Percent; // Annual percentage of home value
   homeInsurance: number; // Annual cost
   hoaFees: number; // Monthly cost
-  extraPayment?: number; // Optional extra monthly payment
+  extraPayment?: number; // Optional extra monthly payment (spread over the periods of a month)
+  prepayments?: Prepayment[]; // Lump sums, recurring or annual extras, percent-of-payment
+  paymentFrequency?: PaymentFrequency; // Default: 'monthly' (ARMs are monthly only)
+  firstPaymentDate?: DateInput; // Default: one month after today
+  today?: DateInput; // Default: the current date
+  arm?: ARMTerms | ARMRateTerms; // Adjustable rate (interestRate is then the initial rate)
+  pmi?: PMIOptions | PMIRateOptions; // How PMI is removed (default: on request at 80%)
+  recast?: MortgageRecast; // Lump sum that re-amortizes the loan at a lower payment
+  prepaidFinanceCharges?: PrepaidFinanceCharges; // Fees for the APR (origination, points, upfront MI, ...)
 }
 
-export interface MortgageAmortizationEntry {
+/**
+ * Mortgage recast: a lump sum paid toward principal, after which the lender
+ * re-amortizes the balance over the remaining term at the same rate
+ */
+export interface MortgageRecast {
+  month: number; // Payment number the lump sum is paid with
+  amount: number; // Lump sum applied to principal
+  fee?: number; // Lender's recast fee (default: 0)
+}
+
+/**
+ * Effect of a recast on the mortgage
+ */
+export interface RecastSummary {
   month: number;
+  date: string; // Due date of the payment the lump sum is paid with (ISO)
+  amount: number; // Lump sum applied
+  fee: number;
+  paymentBefore: number; // P&I before the recast
+  paymentAfter: number; // P&I from the next payment on
+  paymentReduction: number;
+  interestSaved: number; // Interest without the recast − interest with it
+}
+
+/**
+ * Rate fields of MortgageInputs and the convention they use
+ */
+export const MORTGAGE_RATE_FIELDS = { interestRate: 'percent', propertyTaxRate: 'percent' } as const;
+
+/**
+ * Mortgage inputs with rates as { percent: 6.5 } or { rate: 0.065 }
+ */
+export type MortgageRateInputs = WithExplicitRates<MortgageInputs, typeof MORTGAGE_RATE_FIELDS>;
+
+export interface MortgageAmortizationEntry {
+  month: number; // Payment number (the month when paying monthly)
   year: number;
-  payment: number; // P&I only
-  principal: number;
+  date: string; // Payment due date (ISO, e.g. '2026-03-01')
+  payment: number; // P&I only, per period
+  rate: number; // Annual rate in effect (percent)
+  prepayment: number; // Extra principal (extraPayment and prepayments)
+  principal: number; // Including any prepayment
   interest: number;
   taxes: number;
   insurance: number;
   pmi: number;
   hoa: number;
-  totalPayment: number; // Including all costs
+  totalPayment: number; // Including all costs (taxes, insurance, PMI and HOA per period)
   balance: number;
   totalInterest: number;
   totalPrincipal: number;
@@ -47,9 +158,20 @@ export interface MortgageSummary {
   totalInterest: number;
   totalCost: number;
   requiresPMI: boolean;
+  arm?: ARMSummary; // Present for adjustable-rate loans
+  prepayment?: PrepaymentSummary; // Present when extra payments are made
+  frequency?: FrequencyComparison; // Present for non-monthly payments
+  pmi?: PMISummary; // Present when PMI is required
+  recast?: RecastSummary; // Present when the loan is recast
+  apr?: APRResult; // Present when prepaidFinanceCharges are given
   schedule: MortgageAmortizationEntry[];
+  validationIssues?: ValidationIssue[];
+  trace?: TraceStep[];
 }
 
+/** Annual PMI rate as a fraction of the loan amount */
+const PMI_ANNUAL_RATE = 0.0075;
+
 /**
  * Calculate monthly PMI amount
  * 
@@ -69,10 +191,70 @@ function calculateMonthlyPMI(loanAmount: number, homeValue: number): number {
   }
   
   // PMI rate: 0.75% annually
-  const annualPMI = loanAmount * 0.0075;
+  const annualPMI = loanAmount * PMI_ANNUAL_RATE;
   return annualPMI / 12;
 }
 
+/**
+ * Validate mortgage inputs
+ * 
+ * @param rateInputs - Mortgage parameters
+ * @returns Validation issues (empty when inputs are valid)
+ */
+export function validateMortgageInputs(rateInputs: MortgageInputs | MortgageRateInputs): ValidationIssue[] {
+  const inputs = normalizeRateFields(rateInputs, MORTGAGE_RATE_FIELDS);
+  const issues: ValidationIssue[] = [];
+  const homePriceValid = checkNumber(issues, 'homePrice', inputs.homePrice, { min: 0, exclusiveMin: true });
+  const downPaymentValid = checkNumber(issues, 'downPayment', inputs.downPayment, { min: 0 });
+  if (homePriceValid && downPaymentValid) {
+    checkCondition(
+      issues,
+      inputs.downPayment <= inputs.homePrice,
+      'downPayment',
+      'invalid_relationship',
+      'Down payment cannot exceed the home price'
+    );
+  }
+  checkNumber(issues, 'interestRate', inputs.interestRate, { min: 0, max: 100 });
+  checkNumber(issues, 'loanTermYears', inputs.loanTermYears, { min: 0, exclusiveMin: true, max: 50 });
+  checkNumber(issues, 'propertyTaxRate', inputs.propertyTaxRate, { min: 0, max: 100 });
+  checkNumber(issues, 'homeInsurance', inputs.homeInsurance, { min: 0 });
+  checkNumber(issues, 'hoaFees', inputs.hoaFees, { min: 0, label: 'HOA fees' });
+  checkNumber(issues, 'extraPayment', inputs.extraPayment, { min: 0, required: false });
+  checkDate(issues, 'firstPaymentDate', inputs.firstPaymentDate);
+  checkDate(issues, 'today', inputs.today);
+  const frequencyValid = checkOneOf(issues, 'paymentFrequency', inputs.paymentFrequency, PAYMENT_FREQUENCIES, false);
+  if (inputs.arm !== undefined) {
+    issues.push(...validateARMTerms(inputs.arm, inputs.loanTermYears * 12));
+    checkCondition(
+      issues,
+      !frequencyValid || inputs.paymentFrequency === 'monthly',
+      'paymentFrequency',
+      'invalid_relationship',
+      'Adjustable-rate mortgages are paid monthly'
+    );
+  }
+  const payments = paymentsForTerm(inputs.loanTermYears * 12, inputs.paymentFrequency);
+  issues.push(...validatePrepayments(inputs.prepayments, payments));
+  if (inputs.pmi !== undefined) {
+    issues.push(...validatePMIOptions(inputs.pmi));
+  }
+  if (inputs.prepaidFinanceCharges !== undefined) {
+    issues.push(...validatePrepaidFinanceCharges(inputs.prepaidFinanceCharges));
+  }
+  if (inputs.recast !== undefined) {
+    checkNumber(issues, 'recast.month', inputs.recast.month, {
+      min: 1,
+      max: Number.isFinite(payments) && payments > 0 ? payments : undefined,
+      integer: true,
+      label: 'Recast month'
+    });
+    checkNumber(issues, 'recast.amount', inputs.recast.amount, { min: 0, label: 'Recast amount' });
+    checkNumber(issues, 'recast.fee', inputs.recast.fee, { min: 0, required: false, label: 'Recast fee' });
+  }
+  return issues;
+}
+
 /**
  * Calculate comprehensive mortgage amortization with all costs
  * 
@@ -80,28 +262,68 @@ function calculateMonthlyPMI(loanAmount: number, homeValue: number): number {
  * - Principal & Interest (standard amortization)
  * - Property Taxes (based on home value)
  * - Homeowners Insurance
- * - PMI (if down payment < 20%, removed when equity reaches 20%)
+ * - PMI (if down payment < 20%), removed under the Homeowners Protection
+ *   Act: on request at 80% of the original value, automatically at 78% on
+ *   the original schedule or at the midpoint of the term, or on a
+ *   reappraisal with `pmi.cancellation: 'reappraisal'`
  * - HOA Fees
- * - Extra Payments (reduces principal faster)
+ * - Extra Payments (reduces principal faster): a constant `extraPayment`
+ *   and/or a `prepayments` plan, with interest saved and months cut
+ *   reported against the schedule without them
+ * - Adjustable rates: with `arm`, the rate resets after the fixed period and
+ *   the payment is recomputed over the remaining term at each reset
+ * - Payment frequency: bi-weekly, accelerated bi-weekly, semi-monthly or
+ *   weekly schedules, compared against paying monthly
+ * - Recast: a lump sum (plus the lender's fee) after which the payment is
+ *   re-amortized over the remaining term
+ * - APR: with `prepaidFinanceCharges`, the Truth in Lending APR of the
+ *   scheduled P&I and PMI payments (extra payments and recast left out)
  * 
  * @param inputs - Mortgage parameters
+ * @param options - Validation options (strict mode throws on invalid inputs)
+ *   and `trace` to return the calculation steps
  * @returns Complete mortgage summary and amortization schedule
  */
-export function calculateMortgage(inputs: MortgageInputs): MortgageSummary {
+export function calculateMortgage(
+  inputs: MortgageInputs,
+  options?: CalculatorOptions
+): MortgageSummary;
+/**
+ * Same as above, with rates as { percent } or { rate } (see MORTGAGE_RATE_FIELDS)
+ */
+export function calculateMortgage(
+  inputs: MortgageRateInputs,
+  options?: CalculatorOptions
+): MortgageSummary;
+export function calculateMortgage(
+  rateInputs: MortgageInputs | MortgageRateInputs,
+  options: CalculatorOptions = {}
+): MortgageSummary {
+  return buildMortgage(normalizeRateFields(rateInputs, MORTGAGE_RATE_FIELDS), options, true);
+}
+
+/**
+ * Build the mortgage schedule and summary
+ * 
+ * The baselines that comparisons are measured against are built with
+ * `comparisons` off, so they don't run comparisons of their own.
+ */
+function buildMortgage(
+  inputs: MortgageInputs,
+  options: CalculatorOptions,
+  comparisons: boolean
+): MortgageSummary {
+  const validationIssues = enforceValidation(validateMortgageInputs(inputs), options);
+  const trace = createTrace(options);
+  
   const loanAmount = inputs.homePrice - inputs.downPayment;
   const downPaymentPercentage = (inputs.downPayment / inputs.homePrice) * 100;
   const monthlyRate = inputs.interestRate / 100 / 12;
   const termMonths = inputs.loanTermYears * 12;
+  const arm = inputs.arm ? resolveARMTerms(inputs.arm) : undefined;
   
-  // Calculate base P&I payment
-  let monthlyPI: number;
-  if (inputs.interestRate === 0) {
-    monthlyPI = loanAmount / termMonths;
-  } else {
-    monthlyPI = loanAmount *
-      (monthlyRate * Math.pow(1 + monthlyRate, termMonths)) /
-      (Math.pow(1 + monthlyRate, termMonths) - 1);
-  }
+  // Calculate base P&I payment (the initial payment for an ARM)
+  const monthlyPI = calculateMonthlyPayment(loanAmount, inputs.interestRate, termMonths);
   
   // Calculate monthly costs
   const monthlyTaxes = (inputs.homePrice * inputs.propertyTaxRate / 100) / 12;
@@ -110,52 +332,182 @@ export function calculateMortgage(inputs: MortgageInputs): MortgageSummary {
   let monthlyPMI = calculateMonthlyPMI(loanAmount, inputs.homePrice);
   const requiresPMI = monthlyPMI > 0;
   
+  trace.add({
+    name: 'loanAmount',
+    description: 'Amount borrowed',
+    formula: 'loan = home price − down payment',
+    inputs: { homePrice: inputs.homePrice, downPayment: inputs.downPayment },
+    intermediates: { downPaymentPercentage: traceRound(downPaymentPercentage, 1) },
+    result: loanAmount
+  });
+  trace.add({
+    name: 'monthlyPrincipalInterest',
+    description: 'Monthly principal and interest payment',
+    formula: inputs.interestRate === 0 ? 'M = P ÷ n' : 'M = P × r(1 + r)^n ÷ ((1 + r)^n − 1)',
+    inputs: { principal: loanAmount, annualRate: inputs.interestRate, termMonths },
+    intermediates: { monthlyRate },
+    result: traceRound(monthlyPI)
+  });
+  trace.add({
+    name: 'monthlyTaxes',
+    description: 'Monthly property tax',
+    formula: 'home price × property tax rate ÷ 100 ÷ 12',
+    inputs: { homePrice: inputs.homePrice, propertyTaxRate: inputs.propertyTaxRate },
+    result: traceRound(monthlyTaxes)
+  });
+  trace.add({
+    name: 'monthlyInsurance',
+    description: 'Monthly homeowners insurance',
+    formula: 'annual insurance ÷ 12',
+    inputs: { homeInsurance: inputs.homeInsurance },
+    result: traceRound(monthlyInsurance)
+  });
+  trace.add({
+    name: 'monthlyPMI',
+    description: requiresPMI
+      ? 'Private mortgage insurance, required because the down payment is under 20%'
+      : 'No private mortgage insurance: the down payment is at least 20%',
+    formula: 'loan × PMI rate ÷ 12 (when down payment < 20%)',
+    inputs: { loanAmount, downPaymentPercentage: traceRound(downPaymentPercentage, 1) },
+    result: traceRound(monthlyPMI),
+    source: `PMI_ANNUAL_RATE (${PMI_ANNUAL_RATE * 100}%)`
+  });
+  
+  // Payment period (one month unless paying more often)
+  const period = resolvePaymentPeriod(inputs.paymentFrequency ?? 'monthly', loanAmount, inputs.interestRate, termMonths, monthlyPI);
+  const frequency = period.frequency;
+  const periodShare = 12 / period.paymentsPerYear;
+  if (frequency !== 'monthly') {
+    trace.add({
+      name: 'periodicPayment',
+      description: `Principal and interest due each ${frequency} period`,
+      formula: isAcceleratedFrequency(frequency)
+        ? 'monthly payment ÷ 2 (bi-weekly) or ÷ 4 (weekly)'
+        : 'PMT = P × r(1 + r)^n ÷ ((1 + r)^n − 1), r = annual rate ÷ payments per year',
+      inputs: { principal: loanAmount, annualRate: inputs.interestRate, paymentsPerYear: period.paymentsPerYear },
+      intermediates: { periodicRate: period.periodicRate, numberOfPayments: period.numberOfPayments },
+      result: traceRound(period.periodicPayment)
+    });
+  }
+  
   const schedule: MortgageAmortizationEntry[] = [];
   let balance = loanAmount;
   let totalInterest = 0;
   let totalPrincipal = 0;
   let month = 0;
+  const firstPaymentDate = resolveFirstPaymentDate(inputs);
+  
+  // Rate and P&I payment in effect (change only at ARM resets)
+  let currentRate: number = inputs.interestRate;
+  let currentPI = period.periodicPayment;
+  let totalPIPayments = 0;
+  let totalPrepaid = 0;
+  const resets: ARMRateReset[] = [];
+  const prepayments = Array.isArray(inputs.prepayments) ? inputs.prepayments : [];
+  let previousDate: CalendarDate | undefined;
+  
+  // Balance on the original schedule (no extra payments), for automatic PMI termination
+  let scheduledBalance = loanAmount;
+  let scheduledPI = currentPI;
+  const pmiOptions = resolvePMIOptions(inputs.pmi);
+  let pmiRemoval: { month: number; date: string; reason: PMIRemovalReason; loanToValue: number; appraisedValue?: number } | undefined;
   
-  while (balance > 0.01 && month < termMonths) {
+  const recast = inputs.recast;
+  let recastSummary: Omit<RecastSummary, 'interestSaved'> | undefined;
+  
+  while (balance > 0.01 && month < period.numberOfPayments) {
     month++;
     
-    // Calculate interest for this month
-    const interestPayment = balance * monthlyRate;
-    let principalPayment = monthlyPI - interestPayment;
-    
-    // Add extra payment to principal
-    if (inputs.extraPayment) {
-      principalPayment += inputs.extraPayment;
+    // Reset an ARM's rate and re-amortize the balance over the remaining term
+    if (arm && isARMResetMonth(arm, month)) {
+      const index = armIndexAt(arm, resets.length + 1);
+      currentRate = adjustARMRate(arm, inputs.interestRate, currentRate, index, resets.length + 1);
+      currentPI = calculateMonthlyPayment(balance, currentRate, termMonths - month + 1);
+      scheduledPI = calculateMonthlyPayment(scheduledBalance, currentRate, termMonths - month + 1);
+      resets.push({
+        month,
+        date: formatISODate(monthlyPaymentDate(firstPaymentDate, month)),
+        index: index === null ? null : Math.round(index * 1000) / 1000,
+        rate: Math.round(currentRate * 1000) / 1000,
+        payment: Math.round(currentPI * 100) / 100
+      });
     }
     
+    // Calculate interest for this period
+    const interestPayment = balance * (currentRate / 100 / period.paymentsPerYear);
+    let principalPayment = currentPI - interestPayment;
+    
+    // Add extra payments to principal
+    const paymentDate = paymentDueDate(firstPaymentDate, month, frequency);
+    const firstInMonth = previousDate?.month !== paymentDate.month || previousDate.year !== paymentDate.year;
+    const recastAmount = recast && month === recast.month ? recast.amount : 0;
+    const extra = (inputs.extraPayment ?? 0) * periodShare +
+      prepaymentForMonth(prepayments, month, firstInMonth ? paymentDate.month : undefined, currentPI) +
+      recastAmount;
+    previousDate = paymentDate;
+    const prepayment = Math.max(0, Math.min(extra, balance - principalPayment));
+    principalPayment += extra;
+    
     // Don't pay more than remaining balance
     principalPayment = Math.min(principalPayment, balance);
     
     balance -= principalPayment;
     totalInterest += interestPayment;
     totalPrincipal += principalPayment;
+    totalPrepaid += Math.max(0, prepayment - recastAmount);
+    
+    const periodRate = currentRate / 100 / period.paymentsPerYear;
+    scheduledBalance -= Math.min(scheduledPI - scheduledBalance * periodRate, scheduledBalance);
     
     // Calculate equity
     const equity = inputs.homePrice - balance;
     const equityPercentage = (equity / inputs.homePrice) * 100;
     
-    // Remove PMI once equity reaches 20%
-    if (equityPercentage >= 20) {
-      monthlyPMI = 0;
+    // Remove PMI under the Homeowners Protection Act (or on a reappraisal),
+    // from the next payment on: this one is still charged
+    const periodPMI = monthlyPMI * periodShare;
+    if (monthlyPMI > 0) {
+      const monthsElapsed = month * periodShare;
+      const reason = pmiRemovalReason(pmiOptions, {
+        paymentNumber: month,
+        monthsElapsed,
+        termMonths,
+        balance,
+        scheduledBalance,
+        originalValue: inputs.homePrice
+      });
+      if (reason) {
+        monthlyPMI = 0;
+        const value = reason === 'reappraisal'
+          ? appreciatedHomeValue(inputs.homePrice, pmiOptions.homeAppreciationRate, monthsElapsed)
+          : inputs.homePrice;
+        pmiRemoval = {
+          month: month + 1,
+          date: formatISODate(paymentDueDate(firstPaymentDate, month + 1, frequency)),
+          reason,
+          loanToValue: Math.round(balance / value * 1000) / 10,
+          ...(reason === 'reappraisal' ? { appraisedValue: Math.round(value) } : {})
+        };
+      }
     }
     
-    const totalMonthly = monthlyPI + monthlyTaxes + monthlyInsurance + monthlyPMI + monthlyHOA;
+    const totalMonthly = currentPI + monthlyTaxes * periodShare + monthlyInsurance * periodShare +
+      periodPMI + monthlyHOA * periodShare;
+    totalPIPayments += currentPI;
     
     schedule.push({
       month,
-      year: Math.floor((month - 1) / 12) + 1,
-      payment: Math.round(monthlyPI * 100) / 100,
+      year: Math.floor((month - 1) / period.paymentsPerYear) + 1,
+      date: formatISODate(paymentDate),
+      payment: Math.round(currentPI * 100) / 100,
+      rate: Math.round(currentRate * 1000) / 1000,
+      prepayment: Math.round(prepayment * 100) / 100,
       principal: Math.round(principalPayment * 100) / 100,
       interest: Math.round(interestPayment * 100) / 100,
-      taxes: Math.round(monthlyTaxes * 100) / 100,
-      insurance: Math.round(monthlyInsurance * 100) / 100,
-      pmi: Math.round(monthlyPMI * 100) / 100,
-      hoa: Math.round(monthlyHOA * 100) / 100,
+      taxes: Math.round(monthlyTaxes * periodShare * 100) / 100,
+      insurance: Math.round(monthlyInsurance * periodShare * 100) / 100,
+      pmi: Math.round(periodPMI * 100) / 100,
+      hoa: Math.round(monthlyHOA * periodShare * 100) / 100,
       totalPayment: Math.round(totalMonthly * 100) / 100,
       balance: Math.max(0, Math.round(balance * 100) / 100),
       totalInterest: Math.round(totalInterest * 100) / 100,
@@ -163,21 +515,283 @@ export function calculateMortgage(inputs: MortgageInputs): MortgageSummary {
       equity: Math.round(equity * 100) / 100,
       equityPercentage: Math.round(equityPercentage * 10) / 10
     });
+    
+    // Re-amortize the balance over the remaining term after a recast
+    if (recastAmount > 0 && balance > 0.01) {
+      const remainingMonths = (period.numberOfPayments - month) * periodShare;
+      const paymentBefore = currentPI;
+      currentPI = resolvePaymentPeriod(
+        frequency,
+        balance,
+        currentRate,
+        remainingMonths,
+        calculateMonthlyPayment(balance, currentRate, remainingMonths)
+      ).periodicPayment;
+      recastSummary = {
+        month,
+        date: formatISODate(paymentDate),
+        amount: Math.round(Math.min(recastAmount, prepayment) * 100) / 100,
+        fee: recast?.fee ?? 0,
+        paymentBefore: Math.round(paymentBefore * 100) / 100,
+        paymentAfter: Math.round(currentPI * 100) / 100,
+        paymentReduction: Math.round((paymentBefore - currentPI) * 100) / 100
+      };
+    }
   }
   
   // Calculate initial monthly PMI for summary
   const initialMonthlyPMI = calculateMonthlyPMI(loanAmount, inputs.homePrice);
   const initialTotalMonthly = monthlyPI + monthlyTaxes + monthlyInsurance + initialMonthlyPMI + monthlyHOA;
   
+  trace.add({
+    name: 'totalMonthlyPayment',
+    description: 'First month\'s total housing payment',
+    formula: 'P&I + taxes + insurance + PMI + HOA',
+    inputs: {
+      principalInterest: traceRound(monthlyPI),
+      taxes: traceRound(monthlyTaxes),
+      insurance: traceRound(monthlyInsurance),
+      pmi: traceRound(initialMonthlyPMI),
+      hoa: traceRound(monthlyHOA)
+    },
+    result: traceRound(initialTotalMonthly)
+  });
+  
+  // Report when PMI ended and what it cost
+  let pmiSummary: PMISummary | undefined;
+  if (requiresPMI) {
+    const pmiPayments = schedule.filter(entry => entry.pmi > 0);
+    pmiSummary = {
+      cancellation: pmiOptions.cancellation,
+      monthlyPMI: Math.round(initialMonthlyPMI * 100) / 100,
+      totalPMI: Math.round(pmiPayments.reduce((sum, entry) => sum + entry.pmi, 0) * 100) / 100,
+      paymentsWithPMI: pmiPayments.length,
+      removalMonth: pmiRemoval?.month ?? null,
+      removalDate: pmiRemoval?.date ?? null,
+      removalReason: pmiRemoval?.reason ?? null,
+      loanToValueAtRemoval: pmiRemoval?.loanToValue ?? null,
+      ...(pmiRemoval?.appraisedValue !== undefined ? { appraisedValue: pmiRemoval.appraisedValue } : {})
+    };
+    
+    trace.add({
+      name: 'pmiRemoval',
+      description: 'PMI ends under the Homeowners Protection Act (or on a reappraisal)',
+      formula: 'payment after the first one where balance ≤ 80% of home price (on request), ' +
+        'scheduled balance ≤ 78% (automatic) or the term is half over',
+      inputs: {
+        homePrice: inputs.homePrice,
+        cancellation: pmiOptions.cancellation,
+        requestBalance: inputs.homePrice * 0.8,
+        automaticBalance: inputs.homePrice * 0.78,
+        ...(pmiOptions.cancellation === 'reappraisal' ? { homeAppreciationRate: pmiOptions.homeAppreciationRate } : {})
+      },
+      intermediates: { reason: pmiSummary.removalReason, loanToValue: pmiSummary.loanToValueAtRemoval },
+      result: pmiSummary.removalMonth,
+      source: 'PMI_REQUEST_LTV, PMI_AUTOMATIC_LTV, PMI_REAPPRAISAL_RULES'
+    });
+  }
+  
+  // Report the reset path and worst case for an ARM
+  let armSummary: ARMSummary | undefined;
+  if (arm) {
+    const worstCase = calculateARMWorstCasePayment(loanAmount, inputs.interestRate, termMonths, arm);
+    const maxScheduledPayment = resets.reduce((max, reset) => Math.max(max, reset.payment), monthlyPI);
+    armSummary = {
+      product: arm.product,
+      initialRate: inputs.interestRate,
+      fullyIndexedRate: Math.round((arm.index + arm.margin) * 1000) / 1000,
+      maxRate: inputs.interestRate + arm.lifetimeCap,
+      minRate: arm.floor,
+      scenario: arm.indexPath && arm.indexPath.length > 0 ? 'path' : arm.stressScenario,
+      resets,
+      maxScheduledPayment: Math.round(maxScheduledPayment * 100) / 100,
+      worstCasePayment: Math.round(worstCase.payment * 100) / 100,
+      worstCasePaymentMonth: worstCase.month
+    };
+    
+    trace.add({
+      name: 'armRateResets',
+      description: 'ARM rate at each reset, with the payment re-amortized over the remaining term',
+      formula: 'rate = index + margin, within previous rate ± cap, floor and initial rate + lifetime cap',
+      inputs: {
+        product: arm.product,
+        index: arm.index,
+        margin: arm.margin,
+        initialAdjustmentCap: arm.initialAdjustmentCap,
+        periodicCap: arm.periodicCap,
+        lifetimeCap: arm.lifetimeCap,
+        floor: arm.floor,
+        scenario: armSummary.scenario
+      },
+      intermediates: {
+        resets: resets.length,
+        firstResetMonth: resets[0]?.month ?? null,
+        firstResetRate: resets[0]?.rate ?? null,
+        firstResetPayment: resets[0]?.payment ?? null
+      },
+      result: armSummary.maxScheduledPayment,
+      source: `ARM_PRODUCTS['${arm.product}']`
+    });
+    trace.add({
+      name: 'armWorstCasePayment',
+      description: 'Highest P&I payment if the rate rises as fast as the caps allow',
+      inputs: { initialRate: inputs.interestRate, maxRate: armSummary.maxRate, termMonths },
+      intermediates: { month: worstCase.month },
+      result: armSummary.worstCasePayment
+    });
+  }
+  
+  // Compare extra payments against the same mortgage without them
+  let prepaymentSummary: PrepaymentSummary | undefined;
+  if (comparisons && (inputs.extraPayment || hasPrepayments(inputs.prepayments))) {
+    const baseline = buildMortgage({ ...inputs, extraPayment: undefined, prepayments: undefined }, {}, false);
+    prepaymentSummary = {
+      totalPrepaid: Math.round(totalPrepaid * 100) / 100,
+      interestSaved: Math.round(baseline.totalInterest - totalInterest),
+      monthsSaved: baseline.schedule.length - schedule.length,
+      payoffMonth: schedule.length,
+      baselineTotalInterest: baseline.totalInterest,
+      baselineMonths: baseline.schedule.length
+    };
+    
+    trace.add({
+      name: 'prepaymentSavings',
+      description: 'Interest saved and months cut by the extra payments',
+      formula: 'interest without extra payments − interest with them',
+      inputs: {
+        extraPayment: inputs.extraPayment ?? 0,
+        prepayments: prepayments.length,
+        totalPrepaid: traceRound(totalPrepaid)
+      },
+      intermediates: {
+        baselineTotalInterest: baseline.totalInterest,
+        baselineMonths: baseline.schedule.length,
+        payoffMonth: schedule.length
+      },
+      result: prepaymentSummary.interestSaved
+    });
+  }
+  
+  // Compare against the same mortgage paid monthly
+  let frequencyComparison: FrequencyComparison | undefined;
+  if (comparisons && frequency !== 'monthly') {
+    const baseline = buildMortgage({ ...inputs, paymentFrequency: undefined }, {}, false);
+    frequencyComparison = compareWithMonthly(
+      period,
+      { numberOfPayments: schedule.length, payoffDate: schedule[schedule.length - 1]?.date ?? '', totalInterest },
+      {
+        monthlyPayment: monthlyPI,
+        numberOfPayments: baseline.schedule.length,
+        payoffDate: baseline.schedule[baseline.schedule.length - 1]?.date ?? '',
+        totalInterest: baseline.totalInterest
+      }
+    );
+    
+    trace.add({
+      name: 'frequencySavings',
+      description: `Interest saved and months cut by paying ${frequency} instead of monthly`,
+      formula: 'monthly interest − interest at this frequency',
+      inputs: { frequency, periodicPayment: traceRound(period.periodicPayment), monthlyPayment: traceRound(monthlyPI) },
+      intermediates: {
+        baselineTotalInterest: baseline.totalInterest,
+        payoffDate: frequencyComparison.payoffDate,
+        baselinePayoffDate: frequencyComparison.baselinePayoffDate,
+        monthsSaved: frequencyComparison.monthsSaved
+      },
+      result: frequencyComparison.interestSaved
+    });
+  }
+  
+  // Truth in Lending APR on the contractual schedule: P&I plus PMI, no extra payments
+  let apr: APRResult | undefined;
+  if (comparisons && inputs.prepaidFinanceCharges) {
+    const contract = inputs.extraPayment || hasPrepayments(inputs.prepayments) || inputs.recast
+      ? buildMortgage({ ...inputs, extraPayment: undefined, prepayments: undefined, recast: undefined }, {}, false).schedule
+      : schedule;
+    apr = calculateAPRFromPayments(
+      loanAmount,
+      inputs.interestRate,
+      contract.map(entry => Math.min(entry.payment, entry.interest + entry.principal) + entry.pmi),
+      inputs.prepaidFinanceCharges,
+      period.paymentsPerYear
+    );
+    
+    trace.add({
+      name: 'apr',
+      description: 'Annual percentage rate: the rate at which the P&I and PMI payments repay the amount financed',
+      formula: 'amount financed = Σ payment_k ÷ (1 + i)^k, APR = i × payments per year',
+      inputs: {
+        loanAmount,
+        prepaidFinanceCharges: apr.prepaidFinanceCharges,
+        payments: contract.length
+      },
+      intermediates: {
+        amountFinanced: apr.amountFinanced,
+        totalOfPayments: apr.totalOfPayments,
+        financeCharge: apr.financeCharge
+      },
+      result: apr.apr,
+      source: 'Regulation Z (12 CFR 1026.22), actuarial method'
+    });
+  }
+  
+  // Compare the recast against the same mortgage without it
+  let recastResult: RecastSummary | undefined;
+  if (comparisons && recastSummary) {
+    const baseline = buildMortgage({ ...inputs, recast: undefined }, {}, false);
+    recastResult = {
+      ...recastSummary,
+      interestSaved: Math.round(baseline.totalInterest - totalInterest)
+    };
+    
+    trace.add({
+      name: 'recast',
+      description: 'Payment re-amortized over the remaining term after the recast lump sum',
+      formula: 'PMT = balance after lump sum × r(1 + r)^n ÷ ((1 + r)^n − 1), n = remaining payments',
+      inputs: { month: recastResult.month, amount: recastResult.amount, fee: recastResult.fee },
+      intermediates: {
+        paymentBefore: recastResult.paymentBefore,
+        baselineTotalInterest: baseline.totalInterest,
+        interestSaved: recastResult.interestSaved
+      },
+      result: recastResult.paymentAfter
+    });
+  }
+  
   // Calculate total cost over life of loan
-  const totalPIPayments = monthlyPI * schedule.length;
-  const totalTaxPayments = monthlyTaxes * schedule.length;
-  const totalInsurancePayments = monthlyInsurance * schedule.length;
+  const totalTaxPayments = monthlyTaxes * periodShare * schedule.length;
+  const totalInsurancePayments = monthlyInsurance * periodShare * schedule.length;
   const totalPMIPayments = schedule.reduce((sum, entry) => sum + entry.pmi, 0);
-  const totalHOAPayments = monthlyHOA * schedule.length;
-  const totalCost = totalPIPayments + totalTaxPayments + totalInsurancePayments + totalPMIPayments + totalHOAPayments;
+  const totalHOAPayments = monthlyHOA * periodShare * schedule.length;
+  const recastFee = recastSummary?.fee ?? 0;
+  const totalCost = totalPIPayments + totalTaxPayments + totalInsurancePayments + totalPMIPayments + totalHOAPayments +
+    recastFee;
+  
+  trace.add({
+    name: 'totalInterest',
+    description: 'Interest paid over the life of the loan',
+    formula: 'Σ balance × r',
+    inputs: { payments: schedule.length, extraPayment: inputs.extraPayment ?? 0 },
+    result: traceRound(totalInterest)
+  });
+  trace.add({
+    name: 'totalCost',
+    description: 'Total of all payments over the life of the loan',
+    formula: recastResult
+      ? 'Σ P&I + taxes + insurance + PMI + HOA + recast fee'
+      : 'Σ P&I + taxes + insurance + PMI + HOA',
+    inputs: {
+      principalInterest: traceRound(totalPIPayments),
+      taxes: traceRound(totalTaxPayments),
+      insurance: traceRound(totalInsurancePayments),
+      pmi: traceRound(totalPMIPayments),
+      hoa: traceRound(totalHOAPayments),
+      ...(recastResult ? { recastFee } : {})
+    },
+    result: traceRound(totalCost)
+  });
   
-  return {
+  return withTrace(withValidationIssues({
     loanAmount: Math.round(loanAmount),
     downPaymentAmount: Math.round(inputs.downPayment),
     downPaymentPercentage: Math.round(downPaymentPercentage * 10) / 10,
@@ -190,8 +804,14 @@ export function calculateMortgage(inputs: MortgageInputs): MortgageSummary {
     totalInterest: Math.round(totalInterest),
     totalCost: Math.round(totalCost),
     requiresPMI,
+    ...(armSummary ? { arm: armSummary } : {}),
+    ...(prepaymentSummary ? { prepayment: prepaymentSummary } : {}),
+    ...(frequencyComparison ? { frequency: frequencyComparison } : {}),
+    ...(pmiSummary ? { pmi: pmiSummary } : {}),
+    ...(recastResult ? { recast: recastResult } : {}),
+    ...(apr ? { apr } : {}),
     schedule
-  };
+  }, validationIssues), trace);
 }
 
 /**
@@ -0,0 +1,243 @@
+/**
+ * Payment Frequencies
+ *
+ * Payment periods other than monthly for the loan and mortgage schedules:
+ * - bi-weekly: 26 payments a year, amortized at the annual rate ÷ 26 over
+ *   the term (about the same yearly outlay as monthly)
+ * - accelerated-bi-weekly: half the monthly payment every two weeks, so 26
+ *   half-payments add up to 13 monthly payments a year
+ * - semi-monthly: 24 payments a year, twice a month
+ * - weekly: 52 payments a year, amortized at the annual rate ÷ 52
+ * - accelerated-weekly: a quarter of the monthly payment every week
+ *
+ * Interest accrues each period on the balance at the annual rate divided by
+ * the number of payments per year.
+ */
+
+import {
+  type CalendarDate,
+  addDays,
+  addMonths,
+  monthsBetween,
+  parseCalendarDate
+} from '../utils/dates.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * How often loan payments are made
+ */
+export type PaymentFrequency =
+  | 'monthly'
+  | 'bi-weekly'
+  | 'accelerated-bi-weekly'
+  | 'semi-monthly'
+  | 'weekly'
+  | 'accelerated-weekly';
+
+/**
+ * Payment period terms for a loan at a given frequency
+ */
+export interface PaymentPeriod {
+  frequency: PaymentFrequency;
+  paymentsPerYear: number;
+  /** Interest rate per period (decimal) */
+  periodicRate: number;
+  /** Payment due each period */
+  periodicPayment: number;
+  /** Payments over the full term (accelerated schedules pay off sooner) */
+  numberOfPayments: number;
+}
+
+/**
+ * Schedule at a frequency against the same loan paid monthly
+ */
+export interface FrequencyComparison {
+  frequency: PaymentFrequency;
+  paymentsPerYear: number;
+  periodicPayment: number;
+  /** Total paid per year at this frequency */
+  annualPayment: number;
+  /** Payments made until payoff */
+  numberOfPayments: number;
+  /** Due date of the final payment (ISO) */
+  payoffDate: string;
+  totalInterest: number;
+  baselineMonthlyPayment: number;
+  baselineNumberOfPayments: number;
+  baselinePayoffDate: string;
+  baselineTotalInterest: number;
+  /** Monthly interest − interest at this frequency */
+  interestSaved: number;
+  /** Whole months between the two payoff dates */
+  monthsSaved: number;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/**
+ * Payments per year for each frequency
+ */
+export const PAYMENTS_PER_YEAR: Record<PaymentFrequency, number> = {
+  'monthly': 12,
+  'bi-weekly': 26,
+  'accelerated-bi-weekly': 26,
+  'semi-monthly': 24,
+  'weekly': 52,
+  'accelerated-weekly': 52
+};
+
+/**
+ * Supported payment frequencies
+ */
+export const PAYMENT_FREQUENCIES = Object.keys(PAYMENTS_PER_YEAR) as PaymentFrequency[];
+
+// ============================================================================
+// Functions
+// ============================================================================
+
+/**
+ * Whether a frequency pays a fixed share of the monthly payment
+ */
+export function isAcceleratedFrequency(frequency: PaymentFrequency): boolean {
+  return frequency === 'accelerated-bi-weekly' || frequency === 'accelerated-weekly';
+}
+
+/**
+ * Number of payments over a term at a frequency
+ *
+ * @param termMonths - Term in months
+ * @param frequency - Payment frequency (unknown values count as monthly)
+ */
+export function paymentsForTerm(termMonths: number, frequency: PaymentFrequency = 'monthly'): number {
+  const paymentsPerYear = PAYMENTS_PER_YEAR[frequency] ?? 12;
+  return Math.round(termMonths * paymentsPerYear / 12);
+}
+
+/**
+ * Payment that repays a loan over a number of periods
+ *
+ * Formula: PMT = P × r(1 + r)^n / ((1 + r)^n − 1), with r the periodic rate
+ *
+ * @param principal - Loan amount
+ * @param periodicRate - Interest rate per period (decimal)
+ * @param payments - Number of payments
+ * @returns Payment per period
+ */
+export function calculatePeriodicPayment(principal: number, periodicRate: number, payments: number): number {
+  if (periodicRate === 0) {
+    return principal / payments;
+  }
+  const growth = Math.pow(1 + periodicRate, payments);
+  return principal * (periodicRate * growth) / (growth - 1);
+}
+
+/**
+ * Resolve the payment period terms at a frequency
+ *
+ * Accelerated frequencies split the monthly payment; the others amortize
+ * the loan over the same term at the periodic rate.
+ *
+ * @param frequency - Payment frequency (unknown values count as monthly)
+ * @param principal - Loan amount
+ * @param annualRate - Annual interest rate as percentage
+ * @param termMonths - Term in months
+ * @param monthlyPayment - Payment on the monthly schedule
+ * @returns Periodic rate, payment and number of payments
+ */
+export function resolvePaymentPeriod(
+  frequency: PaymentFrequency,
+  principal: number,
+  annualRate: number,
+  termMonths: number,
+  monthlyPayment: number
+): PaymentPeriod {
+  if (!PAYMENT_FREQUENCIES.includes(frequency)) {
+    frequency = 'monthly';
+  }
+  const paymentsPerYear = PAYMENTS_PER_YEAR[frequency];
+  const periodicRate = annualRate / 100 / paymentsPerYear;
+  const numberOfPayments = paymentsForTerm(termMonths, frequency);
+
+  let periodicPayment: number;
+  if (frequency === 'monthly') {
+    periodicPayment = monthlyPayment;
+  } else if (isAcceleratedFrequency(frequency)) {
+    periodicPayment = monthlyPayment / (frequency === 'accelerated-weekly' ? 4 : 2);
+  } else {
+    periodicPayment = calculatePeriodicPayment(principal, periodicRate, numberOfPayments);
+  }
+
+  return { frequency, paymentsPerYear, periodicRate, periodicPayment, numberOfPayments };
+}
+
+/**
+ * Due date of a payment at a frequency
+ *
+ * Weekly and bi-weekly payments fall every 7 or 14 days. Semi-monthly
+ * payments fall on the first payment's day of the month and 15 days later.
+ *
+ * @param firstPaymentDate - Due date of payment 1
+ * @param paymentNumber - Payment number (1-indexed)
+ * @param frequency - Payment frequency (unknown values count as monthly)
+ * @returns Due date
+ */
+export function paymentDueDate(
+  firstPaymentDate: CalendarDate,
+  paymentNumber: number,
+  frequency: PaymentFrequency
+): CalendarDate {
+  const index = paymentNumber - 1;
+  switch (frequency) {
+    case 'semi-monthly': {
+      const monthStart = addMonths(firstPaymentDate, Math.floor(index / 2));
+      return index % 2 === 0 ? monthStart : addDays(monthStart, 15);
+    }
+    case 'bi-weekly':
+    case 'accelerated-bi-weekly':
+      return addDays(firstPaymentDate, index * 14);
+    case 'weekly':
+    case 'accelerated-weekly':
+      return addDays(firstPaymentDate, index * 7);
+    case 'monthly':
+    default:
+      return addMonths(firstPaymentDate, index);
+  }
+}
+
+/**
+ * Compare a schedule at a frequency against the monthly schedule
+ *
+ * @param period - Payment period terms at the frequency
+ * @param schedule - Payments made, payoff date and interest at the frequency
+ * @param baseline - The same for the monthly schedule
+ * @returns Interest saved and months cut by the frequency
+ */
+export function compareWithMonthly(
+  period: PaymentPeriod,
+  schedule: { numberOfPayments: number; payoffDate: string; totalInterest: number },
+  baseline: { monthlyPayment: number; numberOfPayments: number; payoffDate: string; totalInterest: number }
+): FrequencyComparison {
+  const payoff = parseCalendarDate(schedule.payoffDate);
+  const baselinePayoff = parseCalendarDate(baseline.payoffDate);
+
+  return {
+    frequency: period.frequency,
+    paymentsPerYear: period.paymentsPerYear,
+    periodicPayment: Math.round(period.periodicPayment * 100) / 100,
+    annualPayment: Math.round(period.periodicPayment * period.paymentsPerYear * 100) / 100,
+    numberOfPayments: schedule.numberOfPayments,
+    payoffDate: schedule.payoffDate,
+    totalInterest: Math.round(schedule.totalInterest),
+    baselineMonthlyPayment: Math.round(baseline.monthlyPayment * 100) / 100,
+    baselineNumberOfPayments: baseline.numberOfPayments,
+    baselinePayoffDate: baseline.payoffDate,
+    baselineTotalInterest: Math.round(baseline.totalInterest),
+    interestSaved: Math.round(baseline.totalInterest - schedule.totalInterest),
+    monthsSaved: payoff && baselinePayoff ? monthsBetween(payoff, baselinePayoff) : 0
+  };
+}
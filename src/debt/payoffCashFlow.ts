@@ -0,0 +1,179 @@
+/**
+ * Debt Payoff Cash Flow
+ *
+ * Extra cash for the debt payoff calculator that changes over time:
+ * - extra payment changes: a new monthly extra amount from a given
+ *   payment on, such as a raise or a few months with nothing to spare
+ * - windfalls: one-time amounts, such as a tax refund or bonus, sent to a
+ *   chosen debt or to the strategy's current target
+ *
+ * A windfall left over once its debt is paid off goes to the next debt in
+ * the payoff order. Months are payment numbers (1 = first payment), like
+ * the debt calculator.
+ */
+
+import {
+  type ValidationIssue,
+  checkNumber,
+  checkCondition
+} from '../utils/validation.js';
+import { type Debt } from './debtPayoff.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * A new monthly extra payment from a given payment on
+ */
+export interface ExtraPaymentChange {
+  /** First payment the new amount applies to */
+  month: number;
+  /** Extra paid each month from then on (0 to pause) */
+  amount: number;
+}
+
+/**
+ * One-time extra payment
+ */
+export interface Windfall {
+  /** Payment number the windfall is paid with */
+  month: number;
+  amount: number;
+  /** Debt it goes to (default: the strategy's current target) */
+  debtId?: string;
+  /** Name used in the trace (e.g., 'Tax refund') */
+  label?: string;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Last payment the debt payoff calculator simulates (50 years) */
+export const MAX_PAYOFF_MONTHS = 600;
+
+// ============================================================================
+// Functions
+// ============================================================================
+
+/**
+ * Validate an extra payment schedule
+ *
+ * @param changes - Extra payment changes
+ * @param field - Path of the schedule in the calculator inputs
+ * @returns Validation issues (empty when the schedule is valid)
+ */
+export function validateExtraPaymentChanges(
+  changes: readonly ExtraPaymentChange[] | undefined,
+  field: string = 'extraPayments'
+): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  if (changes === undefined) {
+    return issues;
+  }
+  if (!checkCondition(issues, Array.isArray(changes), field, 'invalid_option', 'Extra payment changes must be a list')) {
+    return issues;
+  }
+
+  let previousMonth: number | undefined;
+  changes.forEach((change, i) => {
+    const path = `${field}[${i}]`;
+    const monthValid = checkNumber(issues, `${path}.month`, change.month, { min: 1, max: MAX_PAYOFF_MONTHS, integer: true });
+    checkNumber(issues, `${path}.amount`, change.amount, { min: 0 });
+    if (monthValid) {
+      if (previousMonth !== undefined) {
+        checkCondition(
+          issues,
+          change.month > previousMonth,
+          `${path}.month`,
+          'invalid_relationship',
+          'Extra payment changes must be listed in order, one per month'
+        );
+      }
+      previousMonth = change.month;
+    }
+  });
+
+  return issues;
+}
+
+/**
+ * Validate windfalls
+ *
+ * @param windfalls - One-time extra payments
+ * @param debts - Debts being paid off (for targeted windfalls)
+ * @param field - Path of the list in the calculator inputs
+ * @returns Validation issues (empty when the list is valid)
+ */
+export function validateWindfalls(
+  windfalls: readonly Windfall[] | undefined,
+  debts: readonly Debt[],
+  field: string = 'windfalls'
+): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  if (windfalls === undefined) {
+    return issues;
+  }
+  if (!checkCondition(issues, Array.isArray(windfalls), field, 'invalid_option', 'Windfalls must be a list')) {
+    return issues;
+  }
+
+  const ids = new Set(debts.map(d => d.id));
+  windfalls.forEach((windfall, i) => {
+    const path = `${field}[${i}]`;
+    checkNumber(issues, `${path}.month`, windfall.month, { min: 1, max: MAX_PAYOFF_MONTHS, integer: true });
+    checkNumber(issues, `${path}.amount`, windfall.amount, { min: 0 });
+    if (windfall.debtId !== undefined) {
+      checkCondition(
+        issues,
+        ids.has(windfall.debtId),
+        `${path}.debtId`,
+        'invalid_option',
+        `No debt has the id '${windfall.debtId}'`
+      );
+    }
+  });
+
+  return issues;
+}
+
+/**
+ * Monthly extra payment in effect for a payment
+ *
+ * @param extraPayment - Extra payment until the first change
+ * @param changes - Extra payment changes, in order
+ * @param month - Payment number (1-indexed)
+ * @returns Extra payment for the month
+ */
+export function extraPaymentForMonth(
+  extraPayment: number,
+  changes: readonly ExtraPaymentChange[],
+  month: number
+): number {
+  let amount = extraPayment;
+  for (const change of changes) {
+    if (change.month > month) {
+      break;
+    }
+    amount = change.amount;
+  }
+  return amount;
+}
+
+/**
+ * Windfalls paid with a payment
+ */
+export function windfallsForMonth(windfalls: readonly Windfall[], month: number): Windfall[] {
+  return windfalls.filter(windfall => windfall.month === month);
+}
+
+/**
+ * Whether a plan has any extra payment change or windfall
+ */
+export function hasCashFlowChanges(
+  changes: readonly ExtraPaymentChange[] | undefined,
+  windfalls: readonly Windfall[] | undefined
+): boolean {
+  return (changes !== undefined && changes.length > 0) || (windfalls !== undefined && windfalls.length > 0);
+}
@@ -0,0 +1,204 @@
+/**
+ * Debt Payoff Orderings
+ *
+ * The order in which the debt payoff calculator sends extra payments to
+ * debts. Minimums are paid on every debt; the extra payment (and each
+ * minimum freed when a debt is paid off) goes to the first debt in the
+ * order that still has a balance:
+ * - avalanche: highest interest rate first (least interest)
+ * - snowball: smallest balance first (quick wins)
+ * - highest-interest-dollars: largest monthly interest charge first
+ *   (balance × rate)
+ * - cash-flow-index: lowest balance ÷ minimum payment first, freeing the
+ *   most monthly cash flow per dollar paid
+ * - hybrid: snowball through the smallest few debts, then avalanche
+ * - custom: an order chosen by the user
+ *
+ * Orders are set from the starting balances and do not change during the
+ * payoff. Rates are percentages (22.9 = 22.9%), like the debt calculator.
+ */
+
+import {
+  type ValidationIssue,
+  checkNumber,
+  checkOneOf,
+  checkCondition
+} from '../utils/validation.js';
+import { type Debt } from './debtPayoff.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Orderings set by a rule
+ */
+export type PayoffStrategyName = 'avalanche' | 'snowball' | 'highest-interest-dollars' | 'cash-flow-index';
+
+/**
+ * Snowball through the smallest debts, then avalanche the rest
+ */
+export interface HybridStrategy {
+  type: 'hybrid';
+  /** Smallest debts paid off first, before switching to avalanche */
+  snowballDebts: number;
+  /** Name used in comparisons (default: 'snowball 2 then avalanche') */
+  label?: string;
+}
+
+/**
+ * Debts in an order chosen by the user
+ */
+export interface CustomOrderStrategy {
+  type: 'custom';
+  /** Debt ids, first paid first; debts left out follow in avalanche order */
+  order: string[];
+  /** Name used in comparisons (default: 'custom') */
+  label?: string;
+}
+
+/**
+ * How extra payments are ordered across debts
+ */
+export type PayoffStrategy = PayoffStrategyName | HybridStrategy | CustomOrderStrategy;
+
+/**
+ * Kind of ordering a payoff used
+ */
+export type PayoffStrategyType = PayoffStrategyName | 'hybrid' | 'custom' | 'optimized';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/**
+ * Orderings set by a rule
+ */
+export const PAYOFF_STRATEGY_NAMES: readonly PayoffStrategyName[] = [
+  'avalanche',
+  'snowball',
+  'highest-interest-dollars',
+  'cash-flow-index'
+];
+
+// ============================================================================
+// Functions
+// ============================================================================
+
+/**
+ * Kind of a payoff strategy
+ */
+export function payoffStrategyType(strategy: PayoffStrategy): PayoffStrategyType {
+  return typeof strategy === 'string' ? strategy : strategy.type;
+}
+
+/**
+ * Name of a payoff strategy for comparisons
+ */
+export function payoffStrategyLabel(strategy: PayoffStrategy): string {
+  if (typeof strategy === 'string') {
+    return strategy;
+  }
+  if (strategy.label !== undefined) {
+    return strategy.label;
+  }
+  return strategy.type === 'hybrid' ? `snowball ${strategy.snowballDebts} then avalanche` : 'custom';
+}
+
+/**
+ * Validate a payoff strategy
+ *
+ * @param strategy - Payoff strategy
+ * @param debts - Debts being paid off (for custom orders and hybrid counts)
+ * @param field - Path of the strategy in the calculator inputs
+ * @returns Validation issues (empty when the strategy is valid)
+ */
+export function validatePayoffStrategy(
+  strategy: PayoffStrategy,
+  debts: readonly Debt[],
+  field: string = 'strategy'
+): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  if (typeof strategy !== 'object' || strategy === null) {
+    checkOneOf(issues, field, strategy, PAYOFF_STRATEGY_NAMES);
+    return issues;
+  }
+  if (!checkOneOf(issues, `${field}.type`, strategy.type, ['hybrid', 'custom'] as const)) {
+    return issues;
+  }
+
+  if (strategy.type === 'hybrid') {
+    checkNumber(issues, `${field}.snowballDebts`, strategy.snowballDebts, { min: 0, max: debts.length, integer: true });
+    return issues;
+  }
+
+  if (!checkCondition(issues, Array.isArray(strategy.order), `${field}.order`, 'invalid_option', 'Order must be a list of debt ids')) {
+    return issues;
+  }
+  const ids = new Set(debts.map(d => d.id));
+  strategy.order.forEach((id, i) => {
+    const known = checkCondition(
+      issues,
+      ids.has(id),
+      `${field}.order[${i}]`,
+      'invalid_option',
+      `No debt has the id '${id}'`
+    );
+    if (known) {
+      checkCondition(
+        issues,
+        strategy.order.indexOf(id) === i,
+        `${field}.order[${i}]`,
+        'invalid_relationship',
+        `Debt '${id}' is listed more than once`
+      );
+    }
+  });
+  return issues;
+}
+
+/**
+ * Sort debts into payoff order
+ *
+ * @param debts - Debts to order (not modified)
+ * @param strategy - Payoff strategy
+ * @returns The debts, first paid first
+ */
+export function orderDebts<T extends Debt>(debts: readonly T[], strategy: PayoffStrategy): T[] {
+  const byRate = (list: readonly T[]) => [...list].sort((a, b) => b.interestRate - a.interestRate);
+  const byBalance = (list: readonly T[]) => [...list].sort((a, b) => a.balance - b.balance);
+
+  if (typeof strategy === 'string') {
+    switch (strategy) {
+      case 'avalanche':
+        return byRate(debts);
+      case 'highest-interest-dollars':
+        return [...debts].sort((a, b) => b.balance * b.interestRate - a.balance * a.interestRate);
+      case 'cash-flow-index':
+        return [...debts].sort((a, b) => cashFlowIndex(a) - cashFlowIndex(b) || 0);
+      default:
+        return byBalance(debts);
+    }
+  }
+
+  if (strategy.type === 'hybrid') {
+    const snowball = byBalance(debts).slice(0, strategy.snowballDebts);
+    return [...snowball, ...byRate(debts.filter(d => !snowball.includes(d)))];
+  }
+
+  const listed = (Array.isArray(strategy.order) ? strategy.order : [])
+    .map(id => debts.find(d => d.id === id))
+    .filter((d, i, all): d is T => d !== undefined && all.indexOf(d) === i);
+  return [...listed, ...byRate(debts.filter(d => !listed.includes(d)))];
+}
+
+/**
+ * Cash flow index of a debt: balance ÷ minimum payment
+ *
+ * A low index means the minimum is large for the balance, so paying the
+ * debt off frees a lot of monthly cash flow. Debts without a minimum
+ * payment come last.
+ */
+export function cashFlowIndex(debt: Debt): number {
+  return debt.minimumPayment > 0 ? debt.balance / debt.minimumPayment : Infinity;
+}
@@ -0,0 +1,213 @@
+/**
+ * Private Mortgage Insurance (PMI) Termination
+ *
+ * When PMI comes off a conventional loan under the Homeowners Protection
+ * Act of 1998 (HPA):
+ * - Borrower request: the balance reaches 80% of the original value
+ *   (through scheduled payments or prepayments)
+ * - Automatic termination: the balance is scheduled to reach 78% of the
+ *   original value under the original amortization schedule
+ * - Final termination: the month after the midpoint of the term, whatever
+ *   the balance
+ *
+ * Lenders can also cancel PMI on a new appraisal. Following Fannie Mae
+ * servicing rules, the balance must be at most 75% of the appraised value
+ * after two years, or 80% after five.
+ *
+ * The original value is the home price. Rates are percentages (3 = 3%),
+ * like the mortgage calculator.
+ */
+
+import {
+  type ValidationIssue,
+  checkNumber,
+  checkOneOf
+} from '../utils/validation.js';
+import { type Percent, type WithExplicitRates, normalizeRateFields } from '../utils/rates.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * How the borrower gets PMI removed
+ * - request: asks the lender as soon as the balance reaches 80% (default)
+ * - automatic: waits for automatic or final termination
+ * - reappraisal: asks at 80%, or earlier with a new appraisal once the
+ *   home has appreciated enough
+ */
+export type PMICancellation = 'request' | 'automatic' | 'reappraisal';
+
+/**
+ * Why PMI ended
+ */
+export type PMIRemovalReason = 'borrower-request' | 'automatic' | 'midpoint' | 'reappraisal';
+
+/**
+ * PMI options for the mortgage calculator
+ */
+export interface PMIOptions {
+  /** How PMI is removed (default: 'request') */
+  cancellation?: PMICancellation;
+  /** Annual home price appreciation used for reappraisals (default: 3) */
+  homeAppreciationRate?: Percent;
+}
+
+/**
+ * Rate fields of PMIOptions and the convention they use
+ */
+export const PMI_RATE_FIELDS = { homeAppreciationRate: 'percent' } as const;
+
+/**
+ * PMI options with rates as { percent: 3 } or { rate: 0.03 }
+ */
+export type PMIRateOptions = WithExplicitRates<PMIOptions, typeof PMI_RATE_FIELDS>;
+
+/**
+ * PMI options with defaults filled in
+ */
+export interface ResolvedPMIOptions {
+  cancellation: PMICancellation;
+  homeAppreciationRate: number;
+}
+
+/**
+ * Loan position after a payment, used to test for PMI removal
+ */
+export interface PMIPosition {
+  /** Payment number (1-indexed) */
+  paymentNumber: number;
+  /** Months since the loan began */
+  monthsElapsed: number;
+  /** Term in months */
+  termMonths: number;
+  /** Balance after the payment */
+  balance: number;
+  /** Balance after the payment under the original amortization schedule */
+  scheduledBalance: number;
+  /** Home price at origination */
+  originalValue: number;
+}
+
+/**
+ * PMI details reported with the mortgage summary
+ */
+export interface PMISummary {
+  cancellation: PMICancellation;
+  /** PMI at origination, per month */
+  monthlyPMI: number;
+  /** Total PMI paid over the loan */
+  totalPMI: number;
+  /** Payments that included PMI */
+  paymentsWithPMI: number;
+  /** First payment without PMI (null if PMI never ends) */
+  removalMonth: number | null;
+  /** Due date of that payment (ISO) */
+  removalDate: string | null;
+  removalReason: PMIRemovalReason | null;
+  /** Balance ÷ value when PMI ended (%, appraised value for reappraisals) */
+  loanToValueAtRemoval: number | null;
+  /** Appraised value at removal (reappraisals only) */
+  appraisedValue?: number;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Loan-to-value (% of original value) at which the borrower can request cancellation */
+export const PMI_REQUEST_LTV = 80;
+
+/** Scheduled loan-to-value (% of original value) at which PMI ends automatically */
+export const PMI_AUTOMATIC_LTV = 78;
+
+/**
+ * Loan-to-value limits (% of appraised value) for cancellation on a new
+ * appraisal, by months since origination
+ */
+export const PMI_REAPPRAISAL_RULES: readonly { minMonths: number; maxLoanToValue: number }[] = [
+  { minMonths: 60, maxLoanToValue: 80 },
+  { minMonths: 24, maxLoanToValue: 75 }
+];
+
+/** Default annual home price appreciation for reappraisals (percent) */
+export const DEFAULT_HOME_APPRECIATION_RATE = 3;
+
+// ============================================================================
+// Functions
+// ============================================================================
+
+/**
+ * Fill in defaults and convert explicit rates
+ *
+ * @param options - PMI options as entered
+ * @returns Options with every field set
+ */
+export function resolvePMIOptions(options: PMIOptions | PMIRateOptions = {}): ResolvedPMIOptions {
+  const normalized = normalizeRateFields(options, PMI_RATE_FIELDS);
+  return {
+    cancellation: normalized.cancellation ?? 'request',
+    homeAppreciationRate: normalized.homeAppreciationRate ?? DEFAULT_HOME_APPRECIATION_RATE
+  };
+}
+
+/**
+ * Validate PMI options
+ *
+ * @param rateOptions - PMI options
+ * @param field - Path of the options in the calculator inputs
+ * @returns Validation issues (empty when the options are valid)
+ */
+export function validatePMIOptions(
+  rateOptions: PMIOptions | PMIRateOptions,
+  field: string = 'pmi'
+): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const options = normalizeRateFields(rateOptions, PMI_RATE_FIELDS);
+  checkOneOf(issues, `${field}.cancellation`, options.cancellation, ['request', 'automatic', 'reappraisal'] as const, false);
+  checkNumber(issues, `${field}.homeAppreciationRate`, options.homeAppreciationRate, { min: -50, max: 50, required: false });
+  return issues;
+}
+
+/**
+ * Home value after appreciation
+ *
+ * @param originalValue - Home price at origination
+ * @param annualRate - Annual appreciation (percent)
+ * @param monthsElapsed - Months since origination
+ */
+export function appreciatedHomeValue(originalValue: number, annualRate: number, monthsElapsed: number): number {
+  return originalValue * Math.pow(1 + annualRate / 100, monthsElapsed / 12);
+}
+
+/**
+ * Whether PMI ends after a payment, and why
+ *
+ * Final termination applies whatever the cancellation option; a request
+ * (or reappraisal) ends PMI no later than automatic termination would.
+ *
+ * @param options - Resolved PMI options
+ * @param position - Loan position after the payment
+ * @returns Reason PMI ends, or null while it continues
+ */
+export function pmiRemovalReason(options: ResolvedPMIOptions, position: PMIPosition): PMIRemovalReason | null {
+  const { balance, scheduledBalance, originalValue, monthsElapsed } = position;
+
+  if (options.cancellation !== 'automatic' && balance <= originalValue * PMI_REQUEST_LTV / 100) {
+    return 'borrower-request';
+  }
+  if (scheduledBalance <= originalValue * PMI_AUTOMATIC_LTV / 100) {
+    return 'automatic';
+  }
+  if (monthsElapsed >= position.termMonths / 2) {
+    return 'midpoint';
+  }
+  if (options.cancellation === 'reappraisal') {
+    const rule = PMI_REAPPRAISAL_RULES.find(r => monthsElapsed >= r.minMonths);
+    const value = appreciatedHomeValue(originalValue, options.homeAppreciationRate, monthsElapsed);
+    if (rule && balance <= value * rule.maxLoanToValue / 100) {
+      return 'reappraisal';
+    }
+  }
+  return null;
+}
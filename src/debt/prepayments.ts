@@ -0,0 +1,238 @@
+/**
+ * Prepayment Plans
+ *
+ * Extra principal payments on top of the scheduled payment, shared by the
+ * loan and mortgage calculators. A plan is a list of prepayments, each
+ * one of:
+ * - lump-sum: a one-time amount with a given payment
+ * - recurring: a fixed amount every month (or every few months) between a
+ *   start and end payment
+ * - annual: a yearly amount (e.g., a bonus) with the first payment due in
+ *   a given calendar month
+ * - percent-of-payment: a share of the scheduled payment, such as paying
+ *   10% more each month
+ *
+ * Amounts from every entry that applies to a payment are added together.
+ * Months are payment numbers (1 = first payment).
+ */
+
+import {
+  type ValidationIssue,
+  checkNumber,
+  checkOneOf,
+  checkCondition
+} from '../utils/validation.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * One-time extra payment
+ */
+export interface LumpSumPrepayment {
+  type: 'lump-sum';
+  /** Payment number the lump sum is paid with */
+  month: number;
+  amount: number;
+}
+
+/**
+ * Fixed extra payment repeated on a regular interval
+ */
+export interface RecurringPrepayment {
+  type: 'recurring';
+  amount: number;
+  /** First payment number (default: 1) */
+  startMonth?: number;
+  /** Last payment number (default: the end of the loan) */
+  endMonth?: number;
+  /** Months between extra payments (default: 1 = every payment) */
+  everyMonths?: number;
+}
+
+/**
+ * Yearly extra payment, such as a bonus or tax refund
+ */
+export interface AnnualPrepayment {
+  type: 'annual';
+  amount: number;
+  /** Calendar month of the payment it is paid with (1-12; the first payment due that month) */
+  monthOfYear: number;
+  /** First payment number it can apply to (default: 1) */
+  startMonth?: number;
+  /** Last payment number it can apply to (default: the end of the loan) */
+  endMonth?: number;
+}
+
+/**
+ * Extra payment as a percentage of the scheduled payment
+ */
+export interface PercentOfPaymentPrepayment {
+  type: 'percent-of-payment';
+  /** Percentage of the scheduled payment (10 = pay 10% more) */
+  percent: number;
+  /** First payment number (default: 1) */
+  startMonth?: number;
+  /** Last payment number (default: the end of the loan) */
+  endMonth?: number;
+}
+
+/**
+ * A prepayment in a plan
+ */
+export type Prepayment =
+  | LumpSumPrepayment
+  | RecurringPrepayment
+  | AnnualPrepayment
+  | PercentOfPaymentPrepayment;
+
+/**
+ * Effect of prepayments against the same loan without them
+ */
+export interface PrepaymentSummary {
+  /** Extra principal paid in total */
+  totalPrepaid: number;
+  /** Interest without prepayments − interest with them */
+  interestSaved: number;
+  /** Payments without prepayments − payments with them */
+  monthsSaved: number;
+  /** Number of the final payment with prepayments */
+  payoffMonth: number;
+  /** Interest over the loan without prepayments */
+  baselineTotalInterest: number;
+  /** Number of payments without prepayments */
+  baselineMonths: number;
+}
+
+// ============================================================================
+// Functions
+// ============================================================================
+
+/**
+ * Whether a month falls within an optional start/end window
+ */
+function inWindow(month: number, startMonth: number = 1, endMonth: number = Infinity): boolean {
+  return month >= startMonth && month <= endMonth;
+}
+
+/**
+ * Extra principal due with a payment
+ *
+ * @param plan - Prepayment plan
+ * @param month - Payment number (1-indexed)
+ * @param calendarMonth - Calendar month the payment is due in (1-12), or
+ *   undefined when an earlier payment was already due that month
+ * @param scheduledPayment - Scheduled payment for the month (for percent-of-payment)
+ * @returns Total extra payment from every entry that applies
+ */
+export function prepaymentForMonth(
+  plan: readonly Prepayment[],
+  month: number,
+  calendarMonth: number | undefined,
+  scheduledPayment: number
+): number {
+  let total = 0;
+
+  for (const prepayment of plan) {
+    switch (prepayment.type) {
+      case 'lump-sum':
+        if (month === prepayment.month) {
+          total += prepayment.amount;
+        }
+        break;
+      case 'recurring': {
+        const start = prepayment.startMonth ?? 1;
+        const every = prepayment.everyMonths ?? 1;
+        if (inWindow(month, start, prepayment.endMonth) && (month - start) % every === 0) {
+          total += prepayment.amount;
+        }
+        break;
+      }
+      case 'annual':
+        if (calendarMonth === prepayment.monthOfYear && inWindow(month, prepayment.startMonth, prepayment.endMonth)) {
+          total += prepayment.amount;
+        }
+        break;
+      case 'percent-of-payment':
+        if (inWindow(month, prepayment.startMonth, prepayment.endMonth)) {
+          total += scheduledPayment * prepayment.percent / 100;
+        }
+        break;
+    }
+  }
+
+  return total;
+}
+
+/**
+ * Validate a prepayment plan
+ *
+ * @param plan - Prepayment plan
+ * @param termMonths - Loan term in months (months past the term are flagged)
+ * @param field - Path of the plan in the calculator inputs
+ * @returns Validation issues (empty when the plan is valid)
+ */
+export function validatePrepayments(
+  plan: readonly Prepayment[] | undefined,
+  termMonths: number,
+  field: string = 'prepayments'
+): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  if (plan === undefined) {
+    return issues;
+  }
+  if (!checkCondition(issues, Array.isArray(plan), field, 'invalid_option', 'Prepayments must be a list')) {
+    return issues;
+  }
+
+  const maxMonth = Number.isFinite(termMonths) && termMonths > 0 ? termMonths : undefined;
+  const checkMonth = (path: string, value: unknown, required: boolean) =>
+    checkNumber(issues, path, value, { min: 1, max: maxMonth, integer: true, required });
+
+  plan.forEach((prepayment, i) => {
+    const path = `${field}[${i}]`;
+    if (!checkOneOf(issues, `${path}.type`, prepayment.type, ['lump-sum', 'recurring', 'annual', 'percent-of-payment'] as const)) {
+      return;
+    }
+
+    if (prepayment.type === 'percent-of-payment') {
+      checkNumber(issues, `${path}.percent`, prepayment.percent, { min: 0, max: 1000 });
+    } else {
+      checkNumber(issues, `${path}.amount`, prepayment.amount, { min: 0 });
+    }
+
+    if (prepayment.type === 'lump-sum') {
+      checkMonth(`${path}.month`, prepayment.month, true);
+      return;
+    }
+
+    if (prepayment.type === 'annual') {
+      checkNumber(issues, `${path}.monthOfYear`, prepayment.monthOfYear, { min: 1, max: 12, integer: true });
+    }
+    if (prepayment.type === 'recurring') {
+      checkNumber(issues, `${path}.everyMonths`, prepayment.everyMonths, { min: 1, integer: true, required: false });
+    }
+
+    const startValid = checkMonth(`${path}.startMonth`, prepayment.startMonth, false);
+    const endValid = checkMonth(`${path}.endMonth`, prepayment.endMonth, false);
+    if (startValid && endValid) {
+      checkCondition(
+        issues,
+        prepayment.endMonth! >= prepayment.startMonth!,
+        `${path}.endMonth`,
+        'invalid_relationship',
+        'End month cannot be before start month'
+      );
+    }
+  });
+
+  return issues;
+}
+
+/**
+ * Whether a plan contains any prepayment
+ */
+export function hasPrepayments(plan: readonly Prepayment[] | undefined): boolean {
+  return Array.isArray(plan) && plan.length > 0;
+}
@@ -0,0 +1,400 @@
+/**
+ * Refinance Calculator
+ *
+ * Compares keeping an existing loan against one or more refinance offers
+ * (new rate, term, points, closing costs, cash-out, costs rolled into the
+ * loan). For each offer it reports the monthly savings, the break-even
+ * month, the lifetime interest difference and the net present value of
+ * refinancing at the caller's discount rate.
+ *
+ * Both loans are scheduled with the mortgage calculator, so payments, PMI
+ * and rounding match calculateMortgage.
+ */
+
+import {
+  type ValidationIssue,
+  checkNumber,
+  checkCondition,
+  checkDate,
+  enforceValidation,
+  withValidationIssues
+} from '../utils/validation.js';
+import { type Percent } from '../utils/rates.js';
+import {
+  type DateInput,
+  formatISODate,
+  monthlyPaymentDate,
+  resolveFirstPaymentDate
+} from '../utils/dates.js';
+import { type CalculatorOptions, type TraceStep, createTrace, withTrace, traceRound } from '../utils/trace.js';
+import { type MortgageAmortizationEntry, type MortgageSummary, calculateMortgage } from './mortgageCalculator.js';
+
+export interface ExistingLoan {
+  originalPrincipal: number;
+  interestRate: Percent; // Annual percentage
+  termMonths: number; // Original term
+  paymentsMade: number;
+  currentBalance?: number; // Default: scheduled balance after paymentsMade (an entered balance is re-amortized over the remaining term)
+}
+
+export interface RefinanceOffer {
+  name?: string; // Default: 'Offer 1', 'Offer 2', ...
+  interestRate: Percent; // Annual percentage
+  termMonths: number;
+  points?: number; // Discount points, % of the new loan amount (1 = 1%)
+  closingCosts?: number; // Lender and third-party fees
+  cashOut?: number; // Cash taken out on top of the current balance
+  rollCostsIntoLoan?: boolean; // Finance points and closing costs (default: pay at closing)
+}
+
+export interface RefinanceInputs {
+  currentLoan: ExistingLoan;
+  offers: RefinanceOffer[];
+  homeValue?: number; // Current home value: either loan above 80% of it pays PMI (default: no PMI)
+  discountRate?: Percent; // Annual percentage for NPV (default: 5)
+  horizonMonths?: number; // Months you expect to keep the loan (default: until both are paid off)
+  firstPaymentDate?: DateInput; // First payment on the new loan (default: one month after today)
+  today?: DateInput; // Default: the current date
+}
+
+export interface ExistingLoanSummary {
+  balance: number;
+  monthlyPayment: number; // Principal and interest, plus PMI when charged
+  remainingMonths: number;
+  remainingInterest: number;
+  remainingPayments: number;
+}
+
+export interface RefinanceAnalysis {
+  name: string;
+  newLoanAmount: number;
+  newMonthlyPayment: number; // Principal and interest, plus PMI when charged
+  monthlySavings: number; // Current payment − new payment (negative when the payment rises)
+  pointsCost: number;
+  closingCosts: number;
+  upfrontCosts: number; // Paid at closing
+  financedCosts: number; // Rolled into the loan
+  cashOut: number;
+  simpleBreakEvenMonths: number | null; // Total costs ÷ monthly savings (null when the payment does not drop)
+  breakEvenMonth: number | null; // First month the refinance is ahead, counting payments, costs and balances
+  breakEvenDate: string | null; // Due date of the break-even payment (ISO)
+  totalInterest: number; // Interest over the new loan's term
+  lifetimeInterestDifference: number; // Remaining interest on the current loan − new loan interest
+  npv: number; // Net present value of refinancing at the discount rate
+  isWorthwhile: boolean; // NPV above zero
+}
+
+export interface RefinanceResult {
+  currentLoan: ExistingLoanSummary;
+  offers: RefinanceAnalysis[];
+  bestOffer: string | null; // Offer with the highest positive NPV
+  discountRate: number;
+  summary: string;
+  validationIssues?: ValidationIssue[];
+  trace?: TraceStep[];
+}
+
+/** Default annual discount rate for NPV (percent) */
+const DEFAULT_DISCOUNT_RATE = 5;
+
+/**
+ * Validate refinance inputs
+ *
+ * @param inputs - Current loan and refinance offers
+ * @returns Validation issues (empty when inputs are valid)
+ */
+export function validateRefinanceInputs(inputs: RefinanceInputs): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const loan = inputs.currentLoan ?? ({} as ExistingLoan);
+
+  checkNumber(issues, 'currentLoan.originalPrincipal', loan.originalPrincipal, { min: 0, exclusiveMin: true });
+  checkNumber(issues, 'currentLoan.interestRate', loan.interestRate, { min: 0, max: 100 });
+  const termValid = checkNumber(issues, 'currentLoan.termMonths', loan.termMonths, { min: 0, exclusiveMin: true, integer: true, max: 600 });
+  const paymentsValid = checkNumber(issues, 'currentLoan.paymentsMade', loan.paymentsMade, { min: 0, integer: true });
+  if (termValid && paymentsValid) {
+    checkCondition(
+      issues,
+      loan.paymentsMade < loan.termMonths,
+      'currentLoan.paymentsMade',
+      'invalid_relationship',
+      'Payments made must be fewer than the loan term'
+    );
+  }
+  checkNumber(issues, 'currentLoan.currentBalance', loan.currentBalance, { min: 0, required: false });
+
+  if (checkCondition(issues, Array.isArray(inputs.offers) && inputs.offers.length > 0, 'offers', 'empty', 'Add at least one refinance offer')) {
+    inputs.offers.forEach((offer, i) => {
+      checkNumber(issues, `offers[${i}].interestRate`, offer.interestRate, { min: 0, max: 100 });
+      checkNumber(issues, `offers[${i}].termMonths`, offer.termMonths, { min: 0, exclusiveMin: true, integer: true, max: 600 });
+      checkNumber(issues, `offers[${i}].points`, offer.points, { min: 0, max: 20, required: false });
+      checkNumber(issues, `offers[${i}].closingCosts`, offer.closingCosts, { min: 0, required: false });
+      checkNumber(issues, `offers[${i}].cashOut`, offer.cashOut, { min: 0, required: false });
+    });
+  }
+
+  checkNumber(issues, 'homeValue', inputs.homeValue, { min: 0, exclusiveMin: true, required: false });
+  checkNumber(issues, 'discountRate', inputs.discountRate, { min: 0, max: 100, required: false });
+  checkNumber(issues, 'horizonMonths', inputs.horizonMonths, { min: 1, integer: true, required: false });
+  checkDate(issues, 'firstPaymentDate', inputs.firstPaymentDate);
+  checkDate(issues, 'today', inputs.today);
+  return issues;
+}
+
+/**
+ * Schedule a loan with the mortgage calculator
+ *
+ * Taxes, insurance and HOA fees are the same whichever loan is kept, so
+ * they are left out. Without a home value, the home is valued at twice the
+ * loan so no PMI is charged.
+ */
+function scheduleLoan(
+  principal: number,
+  interestRate: number,
+  termMonths: number,
+  inputs: Pick<RefinanceInputs, 'homeValue' | 'firstPaymentDate' | 'today'>
+): MortgageSummary {
+  const homePrice = Math.max(inputs.homeValue ?? principal * 2, principal);
+  return calculateMortgage({
+    homePrice,
+    downPayment: homePrice - principal,
+    interestRate,
+    loanTermYears: termMonths / 12,
+    propertyTaxRate: 0,
+    homeInsurance: 0,
+    hoaFees: 0,
+    firstPaymentDate: inputs.firstPaymentDate,
+    today: inputs.today
+  });
+}
+
+/**
+ * Amount paid with a scheduled payment: principal, interest and PMI (the
+ * final payment is only the payoff amount)
+ */
+function amountPaid(entry: MortgageAmortizationEntry | undefined): number {
+  return entry ? entry.principal + entry.interest + entry.pmi : 0;
+}
+
+/**
+ * Compare an existing loan against refinance offers
+ *
+ * For each offer:
+ * - New loan = current balance + cash-out (+ points and closing costs when
+ *   rolled in; points are charged on the new loan amount)
+ * - Monthly savings = current payment − new payment
+ * - Break-even month: first month in which cumulative payment savings, minus
+ *   costs paid at closing, plus cash-out, plus the difference between the
+ *   two remaining balances is at least zero. Unlike the simple
+ *   costs ÷ savings rule, this credits a shorter term for faster equity
+ *   and charges financed costs and a longer term for the higher balance.
+ * - NPV: cash-out minus costs paid at closing, plus each month's payment
+ *   difference discounted at the discount rate (monthly compounding). When
+ *   `horizonMonths` ends before both loans are paid off, the difference in
+ *   payoff balances at the horizon is included.
+ *
+ * @param inputs - Current loan, offers, discount rate and optional horizon
+ * @param options - Validation options (strict mode throws on invalid inputs)
+ *   and `trace` to return the calculation steps
+ * @returns Current loan summary and an analysis of each offer
+ *
+ * @example
+ * ```typescript
+ * const result = calculateRefinance({
+ *   currentLoan: { originalPrincipal: 400000, interestRate: 7.25, termMonths: 360, paymentsMade: 24 },
+ *   offers: [
+ *     { name: '30-year', interestRate: 6.25, termMonths: 360, closingCosts: 5000 },
+ *     { name: '15-year', interestRate: 5.5, termMonths: 180, points: 1, closingCosts: 5000 }
+ *   ]
+ * });
+ *
+ * console.log(result.offers[0].breakEvenMonth); // Month the 30-year refinance pays for itself
+ * ```
+ */
+export function calculateRefinance(
+  inputs: RefinanceInputs,
+  options: CalculatorOptions = {}
+): RefinanceResult {
+  const validationIssues = enforceValidation(validateRefinanceInputs(inputs), options);
+  const trace = createTrace(options);
+
+  const loan = inputs.currentLoan;
+  const discountRate = inputs.discountRate ?? DEFAULT_DISCOUNT_RATE;
+  const monthlyDiscountRate = discountRate / 100 / 12;
+  const firstPaymentDate = resolveFirstPaymentDate(inputs);
+
+  // Existing loan: balance today, then the rest of its schedule
+  const originalSchedule = loan.currentBalance === undefined
+    ? scheduleLoan(loan.originalPrincipal, loan.interestRate, loan.termMonths, {}).schedule
+    : [];
+  const currentBalance = loan.currentBalance ?? (
+    loan.paymentsMade > 0 ? originalSchedule[loan.paymentsMade - 1]?.balance ?? 0 : loan.originalPrincipal
+  );
+  const current = scheduleLoan(currentBalance, loan.interestRate, loan.termMonths - loan.paymentsMade, inputs).schedule;
+  const currentPayment = amountPaid(current[0]);
+  const remainingMonths = current.length;
+  const remainingInterest = current.reduce((sum, entry) => sum + entry.interest, 0);
+  const remainingPayments = current.reduce((sum, entry) => sum + amountPaid(entry), 0);
+
+  trace.add({
+    name: 'currentBalance',
+    description: loan.currentBalance !== undefined
+      ? 'Current balance as entered'
+      : 'Scheduled balance after the payments made',
+    formula: loan.currentBalance !== undefined ? undefined : 'mortgage schedule balance after the payments made',
+    inputs: {
+      originalPrincipal: loan.originalPrincipal,
+      interestRate: loan.interestRate,
+      termMonths: loan.termMonths,
+      paymentsMade: loan.paymentsMade
+    },
+    intermediates: { monthlyPayment: traceRound(currentPayment) },
+    result: traceRound(currentBalance)
+  });
+  trace.add({
+    name: 'currentRemainingInterest',
+    description: 'Interest left to pay if the current loan is kept',
+    formula: 'Σ interest over the remaining mortgage schedule',
+    inputs: { balance: traceRound(currentBalance), interestRate: loan.interestRate, monthlyPayment: traceRound(currentPayment) },
+    intermediates: { remainingMonths },
+    result: traceRound(remainingInterest)
+  });
+
+  const offers: RefinanceAnalysis[] = (Array.isArray(inputs.offers) ? inputs.offers : []).map((offer, i) => {
+    const name = offer.name ?? `Offer ${i + 1}`;
+    const points = offer.points ?? 0;
+    const closingCosts = offer.closingCosts ?? 0;
+    const cashOut = offer.cashOut ?? 0;
+
+    // Points are charged on the new loan amount, so financing them grosses up the loan
+    const baseAmount = currentBalance + cashOut;
+    const newLoanAmount = offer.rollCostsIntoLoan
+      ? (baseAmount + closingCosts) / (1 - points / 100)
+      : baseAmount;
+    const pointsCost = newLoanAmount * points / 100;
+    const financedCosts = offer.rollCostsIntoLoan ? pointsCost + closingCosts : 0;
+    const upfrontCosts = offer.rollCostsIntoLoan ? 0 : pointsCost + closingCosts;
+
+    const newLoan = scheduleLoan(newLoanAmount, offer.interestRate, offer.termMonths, inputs);
+    const newPayment = amountPaid(newLoan.schedule[0]);
+    const monthlySavings = currentPayment - newPayment;
+
+    // Step both loans forward together
+    const horizon = Math.min(
+      Math.max(remainingMonths, newLoan.schedule.length),
+      inputs.horizonMonths ?? Infinity
+    );
+    let oldBalance = currentBalance;
+    let newBalance = newLoanAmount;
+    let cumulativeSavings = 0;
+    let npv = cashOut - upfrontCosts;
+    let breakEvenMonth: number | null = null;
+
+    for (let month = 1; month <= horizon; month++) {
+      const oldPayment = amountPaid(current[month - 1]);
+      const newPaymentDue = amountPaid(newLoan.schedule[month - 1]);
+      oldBalance = current[month - 1]?.balance ?? 0;
+      newBalance = newLoan.schedule[month - 1]?.balance ?? 0;
+
+      const saving = oldPayment - newPaymentDue;
+      cumulativeSavings += saving;
+      npv += saving / Math.pow(1 + monthlyDiscountRate, month);
+
+      const position = cashOut - upfrontCosts + cumulativeSavings + (oldBalance - newBalance);
+      if (breakEvenMonth === null && position >= -0.005) {
+        breakEvenMonth = month;
+      }
+    }
+
+    // Settle both loans at the horizon when it cuts them short
+    npv += (oldBalance - newBalance) / Math.pow(1 + monthlyDiscountRate, horizon);
+
+    const totalInterest = newLoan.totalInterest;
+    const totalCosts = pointsCost + closingCosts;
+    const simpleBreakEvenMonths = monthlySavings > 0 ? Math.ceil(totalCosts / monthlySavings) : null;
+
+    trace.add({
+      name: `offers[${i}].newLoanAmount`,
+      description: offer.rollCostsIntoLoan
+        ? `${name}: current balance plus cash-out, with points and closing costs financed`
+        : `${name}: current balance plus cash-out`,
+      formula: offer.rollCostsIntoLoan
+        ? 'loan = (balance + cash-out + closing costs) ÷ (1 − points ÷ 100)'
+        : 'loan = balance + cash-out',
+      inputs: { currentBalance: traceRound(currentBalance), cashOut, closingCosts, points },
+      intermediates: { pointsCost: traceRound(pointsCost), upfrontCosts: traceRound(upfrontCosts) },
+      result: traceRound(newLoanAmount)
+    });
+    trace.add({
+      name: `offers[${i}].monthlySavings`,
+      description: `${name}: drop in the monthly payment`,
+      formula: 'current payment − new payment',
+      inputs: {
+        currentPayment: traceRound(currentPayment),
+        newLoanAmount: traceRound(newLoanAmount),
+        interestRate: offer.interestRate,
+        termMonths: offer.termMonths
+      },
+      intermediates: { newPayment: traceRound(newPayment) },
+      result: traceRound(monthlySavings)
+    });
+    trace.add({
+      name: `offers[${i}].breakEvenMonth`,
+      description: `${name}: first month the refinance is ahead`,
+      formula: 'cash-out − upfront costs + Σ payment savings + (current balance − new balance) ≥ 0',
+      inputs: { upfrontCosts: traceRound(upfrontCosts), financedCosts: traceRound(financedCosts), cashOut },
+      intermediates: { simpleBreakEvenMonths },
+      result: breakEvenMonth
+    });
+    trace.add({
+      name: `offers[${i}].npv`,
+      description: `${name}: present value of refinancing`,
+      formula: 'cash-out − upfront costs + Σ payment savings ÷ (1 + d ÷ 12)^month + balance difference at the horizon',
+      inputs: { discountRate, horizonMonths: horizon },
+      result: traceRound(npv)
+    });
+
+    return {
+      name,
+      newLoanAmount: Math.round(newLoanAmount * 100) / 100,
+      newMonthlyPayment: Math.round(newPayment * 100) / 100,
+      monthlySavings: Math.round(monthlySavings * 100) / 100,
+      pointsCost: Math.round(pointsCost * 100) / 100,
+      closingCosts: Math.round(closingCosts * 100) / 100,
+      upfrontCosts: Math.round(upfrontCosts * 100) / 100,
+      financedCosts: Math.round(financedCosts * 100) / 100,
+      cashOut,
+      simpleBreakEvenMonths,
+      breakEvenMonth,
+      breakEvenDate: breakEvenMonth === null
+        ? null
+        : formatISODate(monthlyPaymentDate(firstPaymentDate, breakEvenMonth)),
+      totalInterest: Math.round(totalInterest),
+      lifetimeInterestDifference: Math.round(remainingInterest - totalInterest),
+      npv: Math.round(npv),
+      isWorthwhile: npv > 0
+    };
+  });
+
+  const best = offers
+    .filter(offer => offer.isWorthwhile)
+    .reduce<RefinanceAnalysis | null>((top, offer) => (top === null || offer.npv > top.npv ? offer : top), null);
+
+  const summary = best
+    ? `${best.name} is the best offer: worth $${best.npv.toLocaleString()} today at a ${discountRate}% discount rate` +
+      (best.breakEvenMonth !== null ? `, breaking even after ${best.breakEvenMonth} months.` : '.')
+    : 'None of the offers beats keeping your current loan at this discount rate.';
+
+  return withTrace(withValidationIssues({
+    currentLoan: {
+      balance: Math.round(currentBalance * 100) / 100,
+      monthlyPayment: Math.round(currentPayment * 100) / 100,
+      remainingMonths,
+      remainingInterest: Math.round(remainingInterest),
+      remainingPayments: Math.round(remainingPayments)
+    },
+    offers,
+    bestOffer: best ? best.name : null,
+    discountRate,
+    summary
+  }, validationIssues), trace);
+}
@@ -0,0 +1,439 @@
+/**
+ * Student Loan Repayment Calculator
+ *
+ * Projects federal Direct Loan repayment on the standard, graduated,
+ * extended and income-driven plans (see studentLoanPlans), and compares
+ * the total cost of each.
+ *
+ * Income-driven payments are recalculated every 12 payments from the
+ * borrower's AGI and family size, with AGI and the poverty guideline
+ * growing each year. Any balance left when the plan's forgiveness term is
+ * reached is forgiven; the forgiven amount is taxed as ordinary income at
+ * federal rates unless told otherwise. In PSLF mode the balance is
+ * forgiven tax-free after 120 qualifying payments on the standard or an
+ * income-driven plan.
+ *
+ * Unpaid interest does not accrue interest. Payments go to the month's
+ * interest, then unpaid interest, then principal.
+ */
+
+import {
+  type ValidationIssue,
+  checkNumber,
+  checkOneOf,
+  checkDate,
+  enforceValidation,
+  withValidationIssues
+} from '../utils/validation.js';
+import { type Percent } from '../utils/rates.js';
+import {
+  type DateInput,
+  monthlyPaymentDate,
+  resolveFirstPaymentDate,
+  toDate
+} from '../utils/dates.js';
+import { type CalculatorOptions, type TraceStep, createTrace, withTrace, traceRound } from '../utils/trace.js';
+import {
+  type FilingStatusInput,
+  DEFAULT_TAX_YEAR,
+  calculateOrdinaryIncomeTax,
+  getStandardDeduction
+} from '../tax/federalTax.js';
+import { calculateMonthlyPayment } from './loanCalculator.js';
+import {
+  type PovertyGuidelineRegion,
+  type StudentLoanPlan,
+  IDR_PLAN_RULES,
+  PSLF_QUALIFYING_PAYMENTS,
+  STANDARD_TERM_MONTHS,
+  EXTENDED_PLAN_MIN_BALANCE,
+  STUDENT_LOAN_PLANS,
+  STUDENT_LOAN_PLAN_LABELS,
+  fixedPlanPayment,
+  graduatedSchedule,
+  idrForgivenessMonths,
+  idrIncomePayment,
+  isIDRPlan,
+  povertyGuideline
+} from './studentLoanPlans.js';
+
+export interface StudentLoanInputs {
+  balance: number; // Principal owed
+  accruedInterest?: number; // Unpaid interest already owed (default: 0)
+  interestRate: Percent; // Weighted average annual rate
+  originalBalance?: number; // When repayment began, for SAVE forgiveness (default: balance + accrued interest)
+  undergraduatePercent?: Percent; // Share of the original balance that is undergraduate loans (default: 100)
+  agi?: number; // Adjusted gross income (required for income-driven plans)
+  familySize?: number; // Household size for the poverty guideline (required for income-driven plans)
+  incomeGrowth?: Percent; // Annual AGI growth (default: 3)
+  guidelineGrowth?: Percent; // Annual poverty guideline growth (default: 2)
+  region?: PovertyGuidelineRegion; // Default: 'contiguous'
+  povertyGuidelineYear?: number; // Default: DEFAULT_POVERTY_GUIDELINE_YEAR
+  qualifyingPayments?: number; // Payments already counted toward IDR forgiveness or PSLF (default: 0)
+  pslf?: boolean; // Working toward Public Service Loan Forgiveness
+  forgivenessTaxable?: boolean; // Tax the forgiven balance as income (default: true; PSLF is never taxed)
+  filingStatus?: FilingStatusInput; // For the tax on forgiveness (default: 'single')
+  firstPaymentDate?: DateInput; // Default: one month after today
+  today?: DateInput; // Default: the current date
+}
+
+export interface StudentLoanYear {
+  year: number; // 1 = first 12 payments
+  agi: number; // Projected AGI
+  monthlyPayment: number; // First payment of the year
+  paid: number;
+  interest: number; // Interest charged
+  interestWaived: number; // Interest the payment left unpaid and the plan did not charge (SAVE)
+  unpaidInterest: number; // Owed at year end
+  balance: number; // Principal + unpaid interest at year end
+}
+
+export interface StudentLoanPlanResult {
+  plan: StudentLoanPlan;
+  label: string;
+  monthlyPayment: number; // First payment
+  highestMonthlyPayment: number;
+  months: number; // Payments until payoff or forgiveness
+  totalPaid: number;
+  totalInterest: number; // Interest charged
+  interestWaived: number;
+  interestCapitalized: number;
+  forgiven: boolean;
+  forgivenAmount: number;
+  forgivenessTax: number; // Federal tax on the forgiven amount
+  totalCost: number; // Total paid + tax on forgiveness
+  endDate: Date; // Due date of the final payment (payoff or forgiveness)
+  pslfEligible: boolean; // Payments on the plan count toward PSLF
+  years: StudentLoanYear[];
+  warnings: string[];
+  validationIssues?: ValidationIssue[];
+  trace?: TraceStep[];
+}
+
+export interface StudentLoanComparison {
+  results: StudentLoanPlanResult[]; // In the order the plans were given
+  ranking: StudentLoanPlan[]; // Lowest total cost first
+  lowestTotalCost: StudentLoanPlan | null;
+  lowestMonthlyPayment: StudentLoanPlan | null;
+  fastestPayoff: StudentLoanPlan | null;
+  validationIssues?: ValidationIssue[];
+}
+
+/** Payments simulated at most (50 years) */
+const MAX_STUDENT_LOAN_MONTHS = 600;
+
+/**
+ * Validate student loan inputs
+ *
+ * @param inputs - Loan, income and forgiveness details
+ * @param incomeRequired - Require AGI and family size (income-driven plans)
+ * @returns Validation issues (empty when inputs are valid)
+ */
+export function validateStudentLoanInputs(
+  inputs: StudentLoanInputs,
+  incomeRequired: boolean = true
+): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+
+  checkNumber(issues, 'balance', inputs.balance, { min: 0, exclusiveMin: true });
+  checkNumber(issues, 'accruedInterest', inputs.accruedInterest, { min: 0, required: false });
+  checkNumber(issues, 'interestRate', inputs.interestRate, { min: 0, max: 100 });
+  checkNumber(issues, 'originalBalance', inputs.originalBalance, { min: 0, exclusiveMin: true, required: false });
+  checkNumber(issues, 'undergraduatePercent', inputs.undergraduatePercent, { min: 0, max: 100, required: false });
+  checkNumber(issues, 'agi', inputs.agi, { min: 0, required: incomeRequired, label: 'AGI' });
+  checkNumber(issues, 'familySize', inputs.familySize, { min: 1, max: 30, integer: true, required: incomeRequired });
+  checkNumber(issues, 'incomeGrowth', inputs.incomeGrowth, { min: -50, max: 100, required: false });
+  checkNumber(issues, 'guidelineGrowth', inputs.guidelineGrowth, { min: -50, max: 100, required: false });
+  checkOneOf(issues, 'region', inputs.region, ['contiguous', 'alaska', 'hawaii'] as const, false);
+  checkNumber(issues, 'povertyGuidelineYear', inputs.povertyGuidelineYear, { min: 1900, max: 2200, integer: true, required: false });
+  checkNumber(issues, 'qualifyingPayments', inputs.qualifyingPayments, { min: 0, max: 300, integer: true, required: false });
+  checkOneOf(
+    issues,
+    'filingStatus',
+    inputs.filingStatus,
+    ['single', 'married_jointly', 'married_separately', 'head_of_household', 'married_joint', 'married_separate'] as const,
+    false
+  );
+  checkDate(issues, 'firstPaymentDate', inputs.firstPaymentDate);
+  checkDate(issues, 'today', inputs.today);
+
+  return issues;
+}
+
+/**
+ * Project repayment of federal student loans on one plan
+ *
+ * - Standard and extended: level payments over 10 or 25 years
+ * - Graduated: payments rising every 2 years over 10 years
+ * - Income-driven: discretionary income × the plan's share ÷ 12, set every
+ *   12 payments; IBR and PAYE never pay more than the 10-year standard
+ *   payment, and ICR never more than the 12-year level payment
+ * - Forgiveness: balance left after the plan's term (or 120 payments in
+ *   PSLF mode); tax = federal tax on AGI + forgiven − tax on AGI
+ *
+ * @param inputs - Loan, income and forgiveness details
+ * @param plan - Repayment plan
+ * @param options - Validation options (strict mode throws on invalid inputs)
+ *   and `trace` to return the calculation steps
+ * @returns Payments, interest, forgiveness, total cost and a yearly breakdown
+ *
+ * @example
+ * ```typescript
+ * const save = calculateStudentLoanRepayment(
+ *   { balance: 60000, interestRate: 6.5, agi: 55000, familySize: 1, undergraduatePercent: 50 },
+ *   'save'
+ * );
+ * console.log(save.monthlyPayment, save.forgivenAmount, save.totalCost);
+ * ```
+ */
+export function calculateStudentLoanRepayment(
+  inputs: StudentLoanInputs,
+  plan: StudentLoanPlan,
+  options: CalculatorOptions = {}
+): StudentLoanPlanResult {
+  const issues = validateStudentLoanInputs(inputs, STUDENT_LOAN_PLANS.includes(plan) && isIDRPlan(plan));
+  checkOneOf(issues, 'plan', plan, STUDENT_LOAN_PLANS);
+  const validationIssues = enforceValidation(issues, options);
+  const trace = createTrace(options);
+
+  const firstPaymentDate = resolveFirstPaymentDate(inputs);
+  const rate = inputs.interestRate;
+  const monthlyRate = rate / 100 / 12;
+  let principal = inputs.balance;
+  let unpaidInterest = inputs.accruedInterest ?? 0;
+  const startingBalance = principal + unpaidInterest;
+  const undergraduatePercent = inputs.undergraduatePercent ?? 100;
+  const incomeGrowth = inputs.incomeGrowth ?? 3;
+  const guidelineGrowth = inputs.guidelineGrowth ?? 2;
+  const baseGuideline = povertyGuideline(inputs.familySize ?? 1, inputs.region, inputs.povertyGuidelineYear);
+
+  const idrRules = isIDRPlan(plan) ? IDR_PLAN_RULES[plan] : undefined;
+  const pslfEligible = plan === 'standard' || idrRules !== undefined;
+  const pslf = inputs.pslf === true && pslfEligible;
+  const forgivenessMonths = pslf
+    ? PSLF_QUALIFYING_PAYMENTS
+    : isIDRPlan(plan)
+      ? idrForgivenessMonths(plan, inputs.originalBalance ?? startingBalance, undergraduatePercent)
+      : Infinity;
+  const paymentsToForgiveness = Math.max(0, forgivenessMonths - (inputs.qualifyingPayments ?? 0));
+
+  const standardPayment = calculateMonthlyPayment(startingBalance, rate, STANDARD_TERM_MONTHS);
+  const alternativePayment = idrRules?.alternativeTermMonths
+    ? calculateMonthlyPayment(startingBalance, rate, idrRules.alternativeTermMonths)
+    : Infinity;
+  const graduated = plan === 'graduated' ? graduatedSchedule(startingBalance, rate) : undefined;
+
+  const years: StudentLoanYear[] = [];
+  let month = 0;
+  let agi = inputs.agi ?? 0;
+  let idrPayment = 0;
+  let atCap = false;
+  let highestPayment = 0;
+  let totalPaid = 0;
+  let totalInterest = 0;
+  let interestWaived = 0;
+  let interestCapitalized = 0;
+
+  while (principal + unpaidInterest > 0.005 && month < paymentsToForgiveness && month < MAX_STUDENT_LOAN_MONTHS) {
+    month++;
+    const yearIndex = Math.floor((month - 1) / 12);
+
+    // Income-driven payments are set once a year
+    if ((month - 1) % 12 === 0) {
+      agi = (inputs.agi ?? 0) * Math.pow(1 + incomeGrowth / 100, yearIndex);
+      if (idrRules && isIDRPlan(plan)) {
+        const guideline = baseGuideline * Math.pow(1 + guidelineGrowth / 100, yearIndex);
+        idrPayment = Math.min(idrIncomePayment(plan, agi, guideline, undergraduatePercent), alternativePayment);
+        const reachedCap = idrRules.capAtStandardPayment && idrPayment >= standardPayment;
+        if (reachedCap) {
+          idrPayment = standardPayment;
+          // IBR capitalizes unpaid interest when the payment reaches the cap
+          if (!atCap && idrRules.capitalizesAtCap && unpaidInterest > 0) {
+            principal += unpaidInterest;
+            interestCapitalized += unpaidInterest;
+            unpaidInterest = 0;
+          }
+        }
+        atCap = reachedCap;
+      }
+      years.push({
+        year: yearIndex + 1,
+        agi: Math.round(agi),
+        monthlyPayment: 0,
+        paid: 0,
+        interest: 0,
+        interestWaived: 0,
+        unpaidInterest: 0,
+        balance: 0
+      });
+    }
+
+    const scheduled = isIDRPlan(plan) ? idrPayment : fixedPlanPayment(plan, startingBalance, rate, month, graduated);
+    const interest = principal * monthlyRate;
+    const payment = Math.min(scheduled, principal + unpaidInterest + interest);
+
+    // Month's interest, then unpaid interest, then principal
+    const toInterest = Math.min(payment, interest);
+    const shortfall = interest - toInterest;
+    const waived = idrRules?.waivesUnpaidInterest ? shortfall : 0;
+    unpaidInterest += shortfall - waived;
+    const toUnpaid = Math.min(payment - toInterest, unpaidInterest);
+    unpaidInterest -= toUnpaid;
+    principal -= payment - toInterest - toUnpaid;
+
+    totalPaid += payment;
+    totalInterest += interest - waived;
+    interestWaived += waived;
+    highestPayment = Math.max(highestPayment, payment);
+
+    const year = years[years.length - 1];
+    if ((month - 1) % 12 === 0) {
+      year.monthlyPayment = Math.round(payment * 100) / 100;
+    }
+    year.paid += payment;
+    year.interest += interest - waived;
+    year.interestWaived += waived;
+    year.unpaidInterest = unpaidInterest;
+    year.balance = principal + unpaidInterest;
+  }
+
+  const remaining = Math.max(0, principal + unpaidInterest);
+  const forgiven = remaining > 0.005 && month >= paymentsToForgiveness;
+  const forgivenAmount = forgiven ? remaining : 0;
+  const taxable = forgiven && !pslf && inputs.forgivenessTaxable !== false;
+  const filingStatus = inputs.filingStatus ?? 'single';
+  const taxableIncome = Math.max(0, agi - getStandardDeduction(filingStatus, DEFAULT_TAX_YEAR));
+  const forgivenessTax = taxable
+    ? calculateOrdinaryIncomeTax(taxableIncome + forgivenAmount, filingStatus, DEFAULT_TAX_YEAR).tax -
+      calculateOrdinaryIncomeTax(taxableIncome, filingStatus, DEFAULT_TAX_YEAR).tax
+    : 0;
+  const totalCost = totalPaid + forgivenessTax;
+
+  const warnings: string[] = [];
+  if (plan === 'extended' && startingBalance <= EXTENDED_PLAN_MIN_BALANCE) {
+    warnings.push(`The extended plan requires more than $${EXTENDED_PLAN_MIN_BALANCE.toLocaleString()} in Direct Loans.`);
+  }
+  if (inputs.pslf === true && !pslfEligible) {
+    warnings.push(`Payments on the ${STUDENT_LOAN_PLAN_LABELS[plan]} plan do not count toward PSLF.`);
+  }
+  if (interestCapitalized > 0) {
+    warnings.push(`$${Math.round(interestCapitalized).toLocaleString()} of unpaid interest is capitalized when the payment reaches the standard payment cap.`);
+  }
+  if (remaining > 0.005 && !forgiven) {
+    warnings.push(`$${Math.round(remaining).toLocaleString()} is still owed after ${MAX_STUDENT_LOAN_MONTHS / 12} years.`);
+  }
+
+  trace.add({
+    name: 'monthlyPayment',
+    description: idrRules
+      ? 'First income-driven payment: share of AGI above the protected share of the poverty guideline'
+      : `First payment on the ${STUDENT_LOAN_PLAN_LABELS[plan]} plan`,
+    formula: idrRules
+      ? 'max(0, AGI − guideline × protected %) × income % ÷ 12, capped by the plan'
+      : plan === 'graduated'
+        ? 'first payment × step factor every 24 months pays the balance off in 120 months'
+        : 'balance × r ÷ (1 − (1 + r)^−n)',
+    inputs: idrRules
+      ? {
+          agi: inputs.agi ?? 0,
+          povertyGuideline: baseGuideline,
+          protectedPercent: idrRules.povertyGuidelinePercent,
+          incomePercent: idrRules.incomePercent,
+          standardPayment: traceRound(standardPayment)
+        }
+      : { balance: traceRound(startingBalance), interestRate: rate },
+    intermediates: graduated ? { stepFactor: traceRound(graduated.stepFactor) } : undefined,
+    result: years.length > 0 ? years[0].monthlyPayment : 0
+  });
+
+  if (forgiven) {
+    trace.add({
+      name: 'forgiveness',
+      description: pslf
+        ? 'Balance forgiven tax-free after 120 qualifying payments (PSLF)'
+        : 'Balance forgiven at the end of the plan, taxed as ordinary income',
+      formula: 'tax(AGI − standard deduction + forgiven) − tax(AGI − standard deduction)',
+      inputs: {
+        paymentsMade: month,
+        qualifyingPayments: inputs.qualifyingPayments ?? 0,
+        agi: traceRound(agi),
+        filingStatus
+      },
+      intermediates: { forgivenAmount: traceRound(forgivenAmount) },
+      result: traceRound(forgivenessTax)
+    });
+  }
+
+  trace.add({
+    name: 'totalCost',
+    description: 'Everything paid on the loans, plus any tax on forgiveness',
+    formula: 'Σ payments + forgiveness tax',
+    inputs: { totalPaid: traceRound(totalPaid), forgivenessTax: traceRound(forgivenessTax) },
+    intermediates: { totalInterest: traceRound(totalInterest), interestWaived: traceRound(interestWaived), months: month },
+    result: traceRound(totalCost)
+  });
+
+  return withTrace(withValidationIssues({
+    plan,
+    label: STUDENT_LOAN_PLAN_LABELS[plan],
+    monthlyPayment: years.length > 0 ? years[0].monthlyPayment : 0,
+    highestMonthlyPayment: Math.round(highestPayment * 100) / 100,
+    months: month,
+    totalPaid: Math.round(totalPaid),
+    totalInterest: Math.round(totalInterest),
+    interestWaived: Math.round(interestWaived),
+    interestCapitalized: Math.round(interestCapitalized),
+    forgiven,
+    forgivenAmount: Math.round(forgivenAmount),
+    forgivenessTax: Math.round(forgivenessTax),
+    totalCost: Math.round(totalCost),
+    endDate: toDate(monthlyPaymentDate(firstPaymentDate, Math.max(1, month))),
+    pslfEligible,
+    years: years.map(y => ({
+      ...y,
+      paid: Math.round(y.paid * 100) / 100,
+      interest: Math.round(y.interest * 100) / 100,
+      interestWaived: Math.round(y.interestWaived * 100) / 100,
+      unpaidInterest: Math.round(y.unpaidInterest * 100) / 100,
+      balance: Math.round(Math.max(0, y.balance) * 100) / 100
+    })),
+    warnings
+  }, validationIssues), trace);
+}
+
+/**
+ * Compare federal student loan repayment plans by total cost
+ *
+ * Each plan is projected with calculateStudentLoanRepayment. Total cost
+ * includes tax on any forgiven balance, so a plan with forgiveness can
+ * cost less than one that pays the loans off.
+ *
+ * @param inputs - Loan, income and forgiveness details
+ * @param plans - Plans to compare (default: every plan)
+ * @param options - Validation options (strict mode throws on invalid inputs)
+ * @returns Each plan's projection and the plans ranked by total cost
+ */
+export function compareStudentLoanPlans(
+  inputs: StudentLoanInputs,
+  plans: readonly StudentLoanPlan[] = STUDENT_LOAN_PLANS,
+  options: CalculatorOptions = {}
+): StudentLoanComparison {
+  const issues = validateStudentLoanInputs(inputs, plans.some(plan => STUDENT_LOAN_PLANS.includes(plan) && isIDRPlan(plan)));
+  plans.forEach((plan, i) => checkOneOf(issues, `plans[${i}]`, plan, STUDENT_LOAN_PLANS));
+  const validationIssues = enforceValidation(issues, options);
+
+  const results = plans
+    .filter(plan => STUDENT_LOAN_PLANS.includes(plan))
+    .map(plan => calculateStudentLoanRepayment(inputs, plan));
+
+  const best = (better: (a: StudentLoanPlanResult, b: StudentLoanPlanResult) => boolean): StudentLoanPlan | null =>
+    results.reduce<StudentLoanPlanResult | null>((top, r) => (top === null || better(r, top) ? r : top), null)?.plan ?? null;
+
+  return withValidationIssues({
+    results,
+    ranking: [...results].sort((a, b) => a.totalCost - b.totalCost).map(r => r.plan),
+    lowestTotalCost: best((a, b) => a.totalCost < b.totalCost),
+    lowestMonthlyPayment: best((a, b) => a.monthlyPayment < b.monthlyPayment),
+    fastestPayoff: best((a, b) => a.months < b.months)
+  }, validationIssues);
+}
@@ -0,0 +1,413 @@
+/**
+ * Federal Student Loan Repayment Plans
+ *
+ * Payment rules for Direct Loan repayment plans:
+ * - standard: level payments over 10 years
+ * - graduated: payments that rise every 2 years and pay the loan off in
+ *   10 years, starting at no less than the monthly interest and ending at
+ *   no more than 3 times the first payment
+ * - extended: level payments over 25 years (for more than $30,000 in
+ *   Direct Loans)
+ * - income-driven (IBR, PAYE, SAVE, ICR): a share of discretionary
+ *   income, recalculated every year, with any balance forgiven after 20 or
+ *   25 years of payments
+ *
+ * Discretionary income is adjusted gross income (AGI) above a multiple of
+ * the HHS poverty guideline for the family size. Capitalization follows
+ * the rules in effect since July 2023: only IBR adds unpaid interest to the
+ * principal, when the borrower's payment reaches the 10-year standard
+ * payment cap. SAVE does not charge interest its payment leaves unpaid.
+ *
+ * Rates are percentages (6.53 = 6.53%), like the loan calculator.
+ *
+ * @see https://studentaid.gov/manage-loans/repayment/plans
+ * @see https://aspe.hhs.gov/topics/poverty-economic-mobility/poverty-guidelines
+ */
+
+import { type Percent } from '../utils/rates.js';
+import { calculateMonthlyPayment } from './loanCalculator.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Plans with fixed payment schedules
+ */
+export type FixedStudentLoanPlan = 'standard' | 'graduated' | 'extended';
+
+/**
+ * Income-driven repayment plans
+ *
+ * 'ibr' is IBR for borrowers with loans before July 1, 2014; 'ibr-new' is
+ * IBR for new borrowers on or after that date.
+ */
+export type IDRPlan = 'ibr' | 'ibr-new' | 'paye' | 'save' | 'icr';
+
+/**
+ * Federal student loan repayment plan
+ */
+export type StudentLoanPlan = FixedStudentLoanPlan | IDRPlan;
+
+/**
+ * Poverty guideline table that applies to the borrower
+ */
+export type PovertyGuidelineRegion = 'contiguous' | 'alaska' | 'hawaii';
+
+/**
+ * HHS poverty guideline for one region and year
+ */
+export interface PovertyGuideline {
+  /** Guideline for a family of one */
+  base: number;
+  /** Added for each additional family member */
+  perAdditionalPerson: number;
+}
+
+/**
+ * Payment and forgiveness rules for an income-driven plan
+ */
+export interface IDRPlanRules {
+  /** Share of discretionary income paid each year */
+  incomePercent: Percent;
+  /** Share for graduate loans, weighted by the graduate share of the original balance (SAVE) */
+  graduateIncomePercent?: Percent;
+  /** Income protected from payments, as a % of the poverty guideline */
+  povertyGuidelinePercent: Percent;
+  /** Payments before the remaining balance is forgiven */
+  forgivenessMonths: number;
+  /** Forgiveness when any of the original balance is graduate loans (SAVE) */
+  graduateForgivenessMonths?: number;
+  /** Payment never exceeds the 10-year standard payment when the borrower entered the plan */
+  capAtStandardPayment: boolean;
+  /** Alternative payment that is used when lower: 12-year level payment (ICR) */
+  alternativeTermMonths?: number;
+  /** Unpaid interest is added to the principal when the payment reaches the cap */
+  capitalizesAtCap: boolean;
+  /** Interest the payment does not cover is not charged */
+  waivesUnpaidInterest: boolean;
+}
+
+/**
+ * Rising payment schedule for the graduated plan
+ */
+export interface GraduatedSchedule {
+  /** Payment for the first 2 years */
+  firstPayment: number;
+  /** Each payment step ÷ the step before it */
+  stepFactor: number;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/**
+ * Supported repayment plans
+ */
+export const STUDENT_LOAN_PLANS: readonly StudentLoanPlan[] = [
+  'standard',
+  'graduated',
+  'extended',
+  'ibr',
+  'ibr-new',
+  'paye',
+  'save',
+  'icr'
+];
+
+/**
+ * Names of the repayment plans
+ */
+export const STUDENT_LOAN_PLAN_LABELS: Record<StudentLoanPlan, string> = {
+  'standard': 'Standard (10 years)',
+  'graduated': 'Graduated (10 years)',
+  'extended': 'Extended (25 years)',
+  'ibr': 'IBR (before July 2014)',
+  'ibr-new': 'IBR (new borrowers)',
+  'paye': 'PAYE',
+  'save': 'SAVE',
+  'icr': 'ICR'
+};
+
+/**
+ * Rules for each income-driven plan
+ */
+export const IDR_PLAN_RULES: Record<IDRPlan, IDRPlanRules> = {
+  'ibr': {
+    incomePercent: 15,
+    povertyGuidelinePercent: 150,
+    forgivenessMonths: 300,
+    capAtStandardPayment: true,
+    capitalizesAtCap: true,
+    waivesUnpaidInterest: false
+  },
+  'ibr-new': {
+    incomePercent: 10,
+    povertyGuidelinePercent: 150,
+    forgivenessMonths: 240,
+    capAtStandardPayment: true,
+    capitalizesAtCap: true,
+    waivesUnpaidInterest: false
+  },
+  'paye': {
+    incomePercent: 10,
+    povertyGuidelinePercent: 150,
+    forgivenessMonths: 240,
+    capAtStandardPayment: true,
+    capitalizesAtCap: false,
+    waivesUnpaidInterest: false
+  },
+  'save': {
+    incomePercent: 5,
+    graduateIncomePercent: 10,
+    povertyGuidelinePercent: 225,
+    forgivenessMonths: 240,
+    graduateForgivenessMonths: 300,
+    capAtStandardPayment: false,
+    capitalizesAtCap: false,
+    waivesUnpaidInterest: true
+  },
+  'icr': {
+    incomePercent: 20,
+    povertyGuidelinePercent: 100,
+    forgivenessMonths: 300,
+    capAtStandardPayment: false,
+    alternativeTermMonths: 144,
+    capitalizesAtCap: false,
+    waivesUnpaidInterest: false
+  }
+};
+
+/**
+ * HHS poverty guidelines by year and region
+ *
+ * To add a year, add its guidelines here and update
+ * DEFAULT_POVERTY_GUIDELINE_YEAR if it should become the default.
+ */
+export const POVERTY_GUIDELINES: Readonly<Record<number, Record<PovertyGuidelineRegion, PovertyGuideline>>> = {
+  2024: {
+    contiguous: { base: 15060, perAdditionalPerson: 5380 },
+    alaska: { base: 18810, perAdditionalPerson: 6730 },
+    hawaii: { base: 17310, perAdditionalPerson: 6190 }
+  },
+  2025: {
+    contiguous: { base: 15650, perAdditionalPerson: 5500 },
+    alaska: { base: 19550, perAdditionalPerson: 6880 },
+    hawaii: { base: 17990, perAdditionalPerson: 6325 }
+  }
+};
+
+/** Poverty guideline year used when none is specified */
+export const DEFAULT_POVERTY_GUIDELINE_YEAR = 2025;
+
+/** Payments on the standard plan */
+export const STANDARD_TERM_MONTHS = 120;
+
+/** Payments on the extended plan */
+export const EXTENDED_TERM_MONTHS = 300;
+
+/** Direct Loan balance the extended plan requires more than */
+export const EXTENDED_PLAN_MIN_BALANCE = 30000;
+
+/** Months between graduated payment increases */
+export const GRADUATED_STEP_MONTHS = 24;
+
+/** Largest graduated payment ÷ the first */
+export const GRADUATED_MAX_PAYMENT_RATIO = 3;
+
+/** Qualifying payments before Public Service Loan Forgiveness */
+export const PSLF_QUALIFYING_PAYMENTS = 120;
+
+/** Income-driven payments below this are $0 */
+export const IDR_ZERO_PAYMENT_THRESHOLD = 5;
+
+/** Income-driven payments from the zero threshold up to this are raised to it */
+export const IDR_MINIMUM_PAYMENT = 10;
+
+/** SAVE forgiveness for an original balance up to this amount */
+export const SAVE_SHORT_FORGIVENESS_BALANCE = 12000;
+
+/** SAVE forgiveness at or below the short-forgiveness balance */
+export const SAVE_SHORT_FORGIVENESS_MONTHS = 120;
+
+// ============================================================================
+// Functions
+// ============================================================================
+
+/**
+ * Whether a plan is income-driven
+ */
+export function isIDRPlan(plan: StudentLoanPlan): plan is IDRPlan {
+  return plan in IDR_PLAN_RULES;
+}
+
+/**
+ * Get the supported poverty guideline years (ascending)
+ */
+export function getPovertyGuidelineYears(): number[] {
+  return Object.keys(POVERTY_GUIDELINES).map(Number).sort((a, b) => a - b);
+}
+
+/**
+ * HHS poverty guideline for a family
+ *
+ * Years not in the table fall back to the closest supported year (the
+ * latest year at or before the request, otherwise the earliest year).
+ *
+ * @param familySize - People in the household
+ * @param region - Guideline table (default: the 48 contiguous states and DC)
+ * @param year - Guideline year (default: DEFAULT_POVERTY_GUIDELINE_YEAR)
+ * @returns Annual poverty guideline
+ */
+export function povertyGuideline(
+  familySize: number,
+  region: PovertyGuidelineRegion = 'contiguous',
+  year: number = DEFAULT_POVERTY_GUIDELINE_YEAR
+): number {
+  const years = getPovertyGuidelineYears();
+  const earlier = years.filter(y => y <= year);
+  const table = POVERTY_GUIDELINES[earlier.length > 0 ? earlier[earlier.length - 1] : years[0]][region];
+  return table.base + table.perAdditionalPerson * Math.max(0, familySize - 1);
+}
+
+/**
+ * Income above the share of the poverty guideline a plan protects
+ *
+ * @param agi - Adjusted gross income
+ * @param guideline - Poverty guideline for the family
+ * @param guidelinePercent - Protected share of the guideline (e.g., 150)
+ * @returns Discretionary income (never negative)
+ */
+export function discretionaryIncome(agi: number, guideline: number, guidelinePercent: Percent): number {
+  return Math.max(0, agi - guideline * guidelinePercent / 100);
+}
+
+/**
+ * Monthly payment on an income-driven plan before any cap
+ *
+ * Payments under $5 are $0 and payments from $5 to $10 are $10.
+ *
+ * @param plan - Income-driven plan
+ * @param agi - Adjusted gross income
+ * @param guideline - Poverty guideline for the family
+ * @param undergraduatePercent - Share of the original balance that is undergraduate loans (SAVE)
+ * @returns Monthly payment
+ */
+export function idrIncomePayment(
+  plan: IDRPlan,
+  agi: number,
+  guideline: number,
+  undergraduatePercent: Percent = 100
+): number {
+  const rules = IDR_PLAN_RULES[plan];
+  const incomePercent = rules.graduateIncomePercent === undefined
+    ? rules.incomePercent
+    : (rules.incomePercent * undergraduatePercent + rules.graduateIncomePercent * (100 - undergraduatePercent)) / 100;
+  const payment = discretionaryIncome(agi, guideline, rules.povertyGuidelinePercent) * incomePercent / 100 / 12;
+  if (payment < IDR_ZERO_PAYMENT_THRESHOLD) {
+    return 0;
+  }
+  return Math.max(payment, IDR_MINIMUM_PAYMENT);
+}
+
+/**
+ * Payments before an income-driven plan forgives the balance
+ *
+ * SAVE forgives an original balance of $12,000 or less after 10 years,
+ * plus 1 year for each $1,000 above it, up to the plan's usual term.
+ *
+ * @param plan - Income-driven plan
+ * @param originalBalance - Balance when repayment began
+ * @param undergraduatePercent - Share of the original balance that is undergraduate loans
+ * @returns Months of payments
+ */
+export function idrForgivenessMonths(
+  plan: IDRPlan,
+  originalBalance: number,
+  undergraduatePercent: Percent = 100
+): number {
+  const rules = IDR_PLAN_RULES[plan];
+  const months = undergraduatePercent < 100 && rules.graduateForgivenessMonths !== undefined
+    ? rules.graduateForgivenessMonths
+    : rules.forgivenessMonths;
+  if (plan !== 'save') {
+    return months;
+  }
+  const extraYears = Math.ceil(Math.max(0, originalBalance - SAVE_SHORT_FORGIVENESS_BALANCE) / 1000);
+  return Math.min(months, SAVE_SHORT_FORGIVENESS_MONTHS + extraYears * 12);
+}
+
+/**
+ * Rising payments for the graduated plan
+ *
+ * Payments step up every 2 years by the same factor. The largest step
+ * (the last payment is at most 3 times the first) gives the lowest first
+ * payment; if that first payment would not cover the monthly interest,
+ * it starts at the interest and the steps are made smaller.
+ *
+ * @param balance - Balance to repay
+ * @param annualRate - Annual interest rate as percentage
+ * @param termMonths - Payments (default: 10 years)
+ * @returns First payment and step factor
+ */
+export function graduatedSchedule(
+  balance: number,
+  annualRate: number,
+  termMonths: number = STANDARD_TERM_MONTHS
+): GraduatedSchedule {
+  const monthlyRate = annualRate / 100 / 12;
+  const steps = Math.ceil(termMonths / GRADUATED_STEP_MONTHS);
+
+  // The balance left at the end is linear in the first payment, so solve for it directly
+  const firstPaymentFor = (stepFactor: number): number => {
+    let paidValue = 0;
+    for (let month = 1; month <= termMonths; month++) {
+      const step = Math.floor((month - 1) / GRADUATED_STEP_MONTHS);
+      paidValue += Math.pow(stepFactor, step) * Math.pow(1 + monthlyRate, termMonths - month);
+    }
+    return balance * Math.pow(1 + monthlyRate, termMonths) / paidValue;
+  };
+
+  const maxFactor = Math.pow(GRADUATED_MAX_PAYMENT_RATIO, 1 / Math.max(1, steps - 1));
+  const interest = balance * monthlyRate;
+  const firstPayment = firstPaymentFor(maxFactor);
+  if (firstPayment >= interest) {
+    return { firstPayment, stepFactor: maxFactor };
+  }
+
+  let low = 1;
+  let high = maxFactor;
+  for (let i = 0; i < 60; i++) {
+    const mid = (low + high) / 2;
+    if (firstPaymentFor(mid) > interest) {
+      low = mid;
+    } else {
+      high = mid;
+    }
+  }
+  return { firstPayment: firstPaymentFor(low), stepFactor: low };
+}
+
+/**
+ * Scheduled payment on a fixed plan
+ *
+ * @param plan - Fixed plan
+ * @param balance - Balance when repayment began
+ * @param annualRate - Annual interest rate as percentage
+ * @param month - Payment number (1-indexed)
+ * @param graduated - Graduated schedule (required for the graduated plan)
+ * @returns Payment due
+ */
+export function fixedPlanPayment(
+  plan: FixedStudentLoanPlan,
+  balance: number,
+  annualRate: number,
+  month: number,
+  graduated?: GraduatedSchedule
+): number {
+  if (plan === 'graduated' && graduated) {
+    return graduated.firstPayment * Math.pow(graduated.stepFactor, Math.floor((month - 1) / GRADUATED_STEP_MONTHS));
+  }
+  return calculateMonthlyPayment(balance, annualRate, plan === 'extended' ? EXTENDED_TERM_MONTHS : STANDARD_TERM_MONTHS);
+}
@@ -0,0 +1,153 @@
+/**
+ * Variable-Rate Loans
+ *
+ * Rate change timelines for loans whose rate moves, such as HELOCs and
+ * private student loans. Each change sets a new annual rate from a given
+ * payment on. When the rate changes, the payment is either:
+ * - reamortize: recomputed so the loan still pays off at its original
+ *   maturity (the default)
+ * - keep-payment: left as it is, so the term stretches when the rate
+ *   rises (or shrinks when it falls)
+ *
+ * Keeping the payment after a large rise can leave it below the interest
+ * due; the shortfall is added to the balance (negative amortization).
+ *
+ * Months are payment numbers (1 = first payment) and rates are
+ * percentages (6.5 = 6.5%), like the loan calculator.
+ */
+
+import {
+  type ValidationIssue,
+  checkNumber,
+  checkCondition
+} from '../utils/validation.js';
+import { type Percent } from '../utils/rates.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * A new interest rate from a given payment on
+ */
+export interface RateChange {
+  /** First payment the new rate applies to */
+  month: number;
+  /** New annual rate */
+  rate: Percent;
+}
+
+/**
+ * What happens to the payment when the rate changes
+ */
+export type RateChangePolicy = 'reamortize' | 'keep-payment';
+
+/**
+ * A rate change as it applied to the schedule
+ */
+export interface AppliedRateChange {
+  month: number;
+  /** Due date of the first payment at the new rate (ISO) */
+  date: string;
+  rate: number;
+  /** Scheduled payment at the new rate */
+  payment: number;
+  /** Interest due on the first payment at the new rate */
+  interest: number;
+}
+
+/**
+ * Variable-rate details reported with the loan summary
+ */
+export interface VariableRateSummary {
+  policy: RateChangePolicy;
+  /** Rate changes reached before the loan was paid off */
+  rateChanges: AppliedRateChange[];
+  /** Rate in effect at payoff */
+  finalRate: number;
+  /** Number of the final payment */
+  payoffMonth: number;
+  /** Payments beyond the original term (keep-payment only) */
+  monthsExtended: number;
+  /** Payments that did not cover the interest due */
+  negativeAmortizationMonths: number;
+  /** First such payment (null if every payment covered the interest) */
+  firstNegativeAmortizationMonth: number | null;
+  /** Highest balance reached */
+  peakBalance: number;
+  /** Negative amortization, term extension and unpaid balance warnings */
+  warnings: string[];
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Payments a keep-payment schedule may run past the original term */
+export const MAX_TERM_EXTENSION_MONTHS = 360;
+
+// ============================================================================
+// Functions
+// ============================================================================
+
+/**
+ * Validate a rate change timeline
+ *
+ * @param changes - Rate changes
+ * @param termMonths - Loan term in months (changes past the term are flagged)
+ * @param field - Path of the timeline in the calculator inputs
+ * @returns Validation issues (empty when the timeline is valid)
+ */
+export function validateRateChanges(
+  changes: readonly RateChange[] | undefined,
+  termMonths: number,
+  field: string = 'rateChanges'
+): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  if (changes === undefined) {
+    return issues;
+  }
+  if (!checkCondition(issues, Array.isArray(changes), field, 'invalid_option', 'Rate changes must be a list')) {
+    return issues;
+  }
+
+  const maxMonth = Number.isFinite(termMonths) && termMonths > 0 ? termMonths : undefined;
+  let previousMonth: number | undefined;
+  changes.forEach((change, i) => {
+    const path = `${field}[${i}]`;
+    const monthValid = checkNumber(issues, `${path}.month`, change.month, { min: 1, max: maxMonth, integer: true });
+    checkNumber(issues, `${path}.rate`, change.rate, { min: 0, max: 100 });
+    if (monthValid) {
+      if (previousMonth !== undefined) {
+        checkCondition(
+          issues,
+          change.month > previousMonth,
+          `${path}.month`,
+          'invalid_relationship',
+          'Rate changes must be listed in order, one per month'
+        );
+      }
+      previousMonth = change.month;
+    }
+  });
+
+  return issues;
+}
+
+/**
+ * Rate change taking effect with a payment
+ *
+ * @param changes - Rate changes
+ * @param month - Payment number (1-indexed)
+ * @returns The change, or undefined when the rate stays the same
+ */
+export function rateChangeAt(changes: readonly RateChange[], month: number): RateChange | undefined {
+  return changes.find(change => change.month === month);
+}
+
+/**
+ * Whether a timeline contains any rate change
+ */
+export function hasRateChanges(changes: readonly RateChange[] | undefined): boolean {
+  return changes !== undefined && changes.length > 0;
+}
@@ -16,6 +16,17 @@
  * @see https://www.npmjs.com/package/@deanfinancials/calculators
  */
 
+import {
+  type ValidationIssue,
+  checkNumber,
+  checkDecimalRate,
+  checkOneOf,
+  checkCondition,
+  enforceValidation,
+  withValidationIssues
+} from '../utils/validation.js';
+import { type CalculatorOptions, type TraceStep, createTrace, withTrace, traceRound } from '../utils/trace.js';
+
 // ============================================================================
 // PART 1: Types, Interfaces, and Core Mathematical Functions
 // ============================================================================
@@ -326,6 +337,11 @@ export interface CoastFIREResult {
     riskTolerance: CoastFIRERiskTolerance;
     partTimeIncome: number;
   };
+  
+  /** Input validation issues (present only when issues were found) */
+  validationIssues?: ValidationIssue[];
+  /** Calculation steps (present only with { trace: true }) */
+  trace?: TraceStep[];
 }
 
 // ============================================================================
@@ -1287,11 +1303,63 @@ export function generateCoastFIREWarnings(
 // Main Calculation Function
 // ============================================================================
 
+/**
+ * Validate Coast FIRE calculator inputs
+ * 
+ * @param inputs - Coast FIRE calculation inputs
+ * @returns Validation issues (empty when inputs are valid)
+ */
+export function validateCoastFIREInputs(inputs: CoastFIREInputs): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  
+  const currentAgeValid = checkNumber(issues, 'currentAge', inputs.currentAge, { min: 0, max: 120 });
+  const retirementAgeValid = checkNumber(issues, 'targetRetirementAge', inputs.targetRetirementAge, { min: 0, max: 120 });
+  if (currentAgeValid && retirementAgeValid) {
+    checkCondition(
+      issues,
+      inputs.targetRetirementAge > inputs.currentAge,
+      'targetRetirementAge',
+      'invalid_relationship',
+      'Target retirement age must be greater than current age'
+    );
+  }
+  if (checkNumber(issues, 'partTimeEndAge', inputs.partTimeEndAge, { min: 0, max: 120, required: false }) && currentAgeValid) {
+    checkCondition(
+      issues,
+      inputs.partTimeEndAge! >= inputs.currentAge,
+      'partTimeEndAge',
+      'invalid_relationship',
+      'Part-time end age cannot be less than current age'
+    );
+  }
+  
+  checkNumber(issues, 'currentSavings', inputs.currentSavings, { min: 0 });
+  checkNumber(issues, 'annualExpenses', inputs.annualExpenses, { min: 0, exclusiveMin: true });
+  checkNumber(issues, 'monthlySavings', inputs.monthlySavings, { min: 0, required: false });
+  checkDecimalRate(issues, 'expectedReturn', inputs.expectedReturn, { min: -1, required: false });
+  checkDecimalRate(issues, 'inflationRate', inputs.inflationRate, { min: -1, required: false });
+  checkDecimalRate(issues, 'safeWithdrawalRate', inputs.safeWithdrawalRate, { min: 0, exclusiveMin: true, required: false });
+  checkOneOf(issues, 'riskTolerance', inputs.riskTolerance, ['conservative', 'moderate', 'aggressive'] as const, false);
+  checkNumber(issues, 'partTimeIncome', inputs.partTimeIncome, { min: 0, required: false });
+  
+  return issues;
+}
+
 /**
  * Main Coast FIRE calculation function
  * Provides comprehensive analysis for Coast FIRE planning
+ * 
+ * @param inputs - Coast FIRE calculation inputs
+ * @param options - Validation options (strict mode throws on invalid inputs)
+ *   and `trace` to return the calculation steps
  */
-export function calculateCoastFIRE(inputs: CoastFIREInputs): CoastFIREResult {
+export function calculateCoastFIRE(
+  inputs: CoastFIREInputs,
+  options: CalculatorOptions = {}
+): CoastFIREResult {
+  const validationIssues = enforceValidation(validateCoastFIREInputs(inputs), options);
+  const trace = createTrace(options);
+  
   // Extract and validate inputs
   const {
     currentAge,
@@ -1320,8 +1388,45 @@ export function calculateCoastFIRE(inputs: CoastFIREInputs): CoastFIREResult {
   const coastFIREProgress = calculateProgress(currentSavings, coastFIRENumber);
   const gapToCoastFIRE = Math.max(0, coastFIRENumber - currentSavings);
 
+  trace.add({
+    name: 'realReturn',
+    description: 'Investment return after inflation',
+    formula: 'real return = (1 + nominal return) ÷ (1 + inflation) − 1',
+    inputs: { expectedReturn, inflationRate },
+    result: traceRound(realReturn, 6),
+  });
+  trace.add({
+    name: 'fireNumber',
+    description: 'Portfolio needed at retirement',
+    formula: 'FIRE number = annual expenses ÷ safe withdrawal rate',
+    inputs: { annualExpenses, safeWithdrawalRate },
+    result: traceRound(fireNumber),
+  });
+  trace.add({
+    name: 'coastFIRENumber',
+    description: 'Savings needed today to grow into the FIRE number with no more contributions',
+    formula: 'Coast FIRE = FIRE number ÷ (1 + real return)^years to retirement',
+    inputs: { fireNumber: traceRound(fireNumber), yearsToRetirement, realReturn: traceRound(realReturn, 6) },
+    result: traceRound(coastFIRENumber),
+  });
+  trace.add({
+    name: 'status',
+    description: 'Compare current savings with the Coast FIRE and FIRE numbers',
+    inputs: { currentSavings, coastFIRENumber: traceRound(coastFIRENumber), fireNumber: traceRound(fireNumber) },
+    intermediates: { coastFIREProgress: traceRound(coastFIREProgress, 1), gapToCoastFIRE: traceRound(gapToCoastFIRE) },
+    result: status,
+  });
+
   // Timeline analysis
   const whenCanICoast = calculateWhenCanICoast(inputs);
+  trace.add({
+    name: 'coastAge',
+    description: 'First age at which the growing balance meets that year\'s Coast FIRE number',
+    formula: 'balance = balance × (1 + real return) + monthly savings × 12, each year',
+    inputs: { currentAge, currentSavings, monthlySavings },
+    intermediates: { yearsToCoast: Number.isFinite(whenCanICoast.yearsToCoast) ? whenCanICoast.yearsToCoast : null },
+    result: Number.isFinite(whenCanICoast.coastAge) ? whenCanICoast.coastAge : null,
+  });
   const coastAgeAnalysis = analyzeCoastAgesByRetirement(inputs);
   const coastNumbersByAge = calculateCoastNumbersByAge(inputs);
 
@@ -1351,7 +1456,7 @@ export function calculateCoastFIRE(inputs: CoastFIREInputs): CoastFIREResult {
     summary = `You're ${coastFIREProgress.toFixed(1)}% of the way to Coast FIRE. Consider increasing your savings rate to reach Coast FIRE sooner.`;
   }
 
-  return {
+  return withTrace(withValidationIssues({
     // Core Results
     coastFIRENumber,
     fireNumber,
@@ -1393,7 +1498,7 @@ export function calculateCoastFIRE(inputs: CoastFIREInputs): CoastFIREResult {
       riskTolerance,
       partTimeIncome
     }
-  };
+  }, validationIssues), trace);
 }
 
 // ============================================================================
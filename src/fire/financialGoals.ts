@@ -23,6 +23,26 @@
  * @module fire/financialGoals
  */
 
+import {
+  type RandomSource,
+  MATH_RANDOM_SOURCE,
+  generateSeed,
+  resolveRandomSource,
+  sampleStandardNormal,
+  sampleIndex
+} from '../utils/random.js';
+import {
+  type ValidationIssue,
+  checkNumber,
+  checkDecimalRate,
+  checkOneOf,
+  checkCondition,
+  addIssue,
+  enforceValidation,
+  withValidationIssues
+} from '../utils/validation.js';
+import { type CalculatorOptions, type TraceStep, createTrace, withTrace, traceRound } from '../utils/trace.js';
+
 // =============================================================================
 // TYPES AND INTERFACES
 // =============================================================================
@@ -188,6 +208,10 @@ export interface FinancialGoalsInputs {
   // Bootstrap settings
   useBootstrap?: boolean;
   blockSize?: number; // For block bootstrap
+  
+  // Reproducibility
+  seed?: number;              // Seed for reproducible results (each run derives its own stream)
+  random?: RandomSource;      // Custom random source (overrides seed)
 }
 
 /**
@@ -336,7 +360,10 @@ export interface FinancialGoalsResult {
   modelUsed: SimulationModel;
   simulationCount: number;
   simulationYears: number;
+  seed?: number;                    // Seed used (pass back in inputs to reproduce); undefined with a custom random source
   computeTimeMs: number;
+  validationIssues?: ValidationIssue[]; // Input validation issues (present only when issues were found)
+  trace?: TraceStep[];
 }
 
 // =============================================================================
@@ -439,29 +466,35 @@ export const SCENARIO_COLORS = {
 /**
  * Generate a random number from standard normal distribution using Box-Muller
  */
-export function generateStandardNormal(): number {
-  const u1 = Math.random();
-  const u2 = Math.random();
-  return Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
+export function generateStandardNormal(random: RandomSource = MATH_RANDOM_SOURCE): number {
+  return sampleStandardNormal(random);
 }
 
 /**
  * Generate a random number from normal distribution
  */
-export function generateNormalReturn(mean: number, stdDev: number): number {
-  return mean + stdDev * generateStandardNormal();
+export function generateNormalReturn(
+  mean: number,
+  stdDev: number,
+  random: RandomSource = MATH_RANDOM_SOURCE
+): number {
+  return mean + stdDev * generateStandardNormal(random);
 }
 
 /**
  * Generate a random number from log-normal distribution
  */
-export function generateLogNormalReturn(mean: number, stdDev: number): number {
+export function generateLogNormalReturn(
+  mean: number,
+  stdDev: number,
+  random: RandomSource = MATH_RANDOM_SOURCE
+): number {
   // Convert arithmetic mean/std to log parameters
   const variance = stdDev * stdDev;
   const mu = Math.log(mean) - variance / 2;
   const sigma = Math.sqrt(Math.log(1 + variance / (mean * mean)));
   
-  return Math.exp(mu + sigma * generateStandardNormal()) - 1;
+  return Math.exp(mu + sigma * generateStandardNormal(random)) - 1;
 }
 
 /**
@@ -470,11 +503,12 @@ export function generateLogNormalReturn(mean: number, stdDev: number): number {
 export function generateTDistributionReturn(
   mean: number, 
   stdDev: number, 
-  degreesOfFreedom: number
+  degreesOfFreedom: number,
+  random: RandomSource = MATH_RANDOM_SOURCE
 ): number {
   // Generate t-distributed random variable
-  const z = generateStandardNormal();
-  const u = 2 * Math.random() - 1;
+  const z = generateStandardNormal(random);
+  const u = 2 * random.next() - 1;
   const chi2 = -2 * Math.log(Math.abs(u));
   const t = z / Math.sqrt(chi2 / degreesOfFreedom);
   
@@ -542,10 +576,11 @@ export function generateCorrelatedReturns(
   std1: number,
   mean2: number,
   std2: number,
-  corr: number
+  corr: number,
+  random: RandomSource = MATH_RANDOM_SOURCE
 ): [number, number] {
-  const z1 = generateStandardNormal();
-  const z2 = generateStandardNormal();
+  const z1 = generateStandardNormal(random);
+  const z2 = generateStandardNormal(random);
   
   // Cholesky decomposition for correlation
   const z2Correlated = corr * z1 + Math.sqrt(1 - corr * corr) * z2;
@@ -600,15 +635,16 @@ export function getAllocationAtYear(
  */
 export function generateHistoricalReturns(
   useBootstrap: boolean = false,
-  blockSize: number = 5
+  blockSize: number = 5,
+  random: RandomSource = MATH_RANDOM_SOURCE
 ): { stockReturn: number; bondReturn: number; cashReturn: number; inflation: number } {
   const data = HISTORICAL_DATA;
   
   if (useBootstrap && blockSize > 1) {
     // Block bootstrap - select a random starting point and use consecutive years
     const maxStart = data.stockReturns.length - blockSize;
-    const startIndex = Math.floor(Math.random() * maxStart);
-    const yearIndex = startIndex + Math.floor(Math.random() * blockSize);
+    const startIndex = sampleIndex(maxStart, random);
+    const yearIndex = startIndex + sampleIndex(blockSize, random);
     
     return {
       stockReturn: data.stockReturns[yearIndex],
@@ -619,7 +655,7 @@ export function generateHistoricalReturns(
   }
   
   // Simple random sampling
-  const randomIndex = Math.floor(Math.random() * data.stockReturns.length);
+  const randomIndex = sampleIndex(data.stockReturns.length, random);
   
   return {
     stockReturn: data.stockReturns[randomIndex],
@@ -638,22 +674,24 @@ export function generateForecastedReturns(
   bondReturn: number,
   bondVol: number,
   corr: number,
-  inflationRate: number
+  inflationRate: number,
+  random: RandomSource = MATH_RANDOM_SOURCE
 ): { stockReturn: number; bondReturn: number; cashReturn: number; inflation: number } {
   const [stockRet, bondRet] = generateCorrelatedReturns(
     stockReturn,
     stockVol,
     bondReturn,
     bondVol,
-    corr
+    corr,
+    random
   );
   
   return {
     stockReturn: stockRet,
     bondReturn: bondRet,
     cashReturn: DEFAULT_ASSET_ASSUMPTIONS.cash.expectedReturn + 
-      generateNormalReturn(0, DEFAULT_ASSET_ASSUMPTIONS.cash.volatility),
-    inflation: inflationRate + generateNormalReturn(0, 0.01) // Small inflation variance
+      generateNormalReturn(0, DEFAULT_ASSET_ASSUMPTIONS.cash.volatility, random),
+    inflation: inflationRate + generateNormalReturn(0, 0.01, random) // Small inflation variance
   };
 }
 
@@ -667,32 +705,33 @@ export function generateParameterizedReturns(
   bondVol: number,
   distribution: DistributionType,
   degreesOfFreedom: number,
-  inflationRate: number
+  inflationRate: number,
+  random: RandomSource = MATH_RANDOM_SOURCE
 ): { stockReturn: number; bondReturn: number; cashReturn: number; inflation: number } {
   let stockRet: number;
   let bondRet: number;
   
   switch (distribution) {
     case 'lognormal':
-      stockRet = generateLogNormalReturn(1 + stockReturn, stockVol) - 1;
-      bondRet = generateLogNormalReturn(1 + bondReturn, bondVol) - 1;
+      stockRet = generateLogNormalReturn(1 + stockReturn, stockVol, random) - 1;
+      bondRet = generateLogNormalReturn(1 + bondReturn, bondVol, random) - 1;
       break;
     case 't-distribution':
-      stockRet = generateTDistributionReturn(stockReturn, stockVol, degreesOfFreedom);
-      bondRet = generateTDistributionReturn(bondReturn, bondVol, degreesOfFreedom);
+      stockRet = generateTDistributionReturn(stockReturn, stockVol, degreesOfFreedom, random);
+      bondRet = generateTDistributionReturn(bondReturn, bondVol, degreesOfFreedom, random);
       break;
     case 'normal':
     default:
-      stockRet = generateNormalReturn(stockReturn, stockVol);
-      bondRet = generateNormalReturn(bondReturn, bondVol);
+      stockRet = generateNormalReturn(stockReturn, stockVol, random);
+      bondRet = generateNormalReturn(bondReturn, bondVol, random);
   }
   
   return {
     stockReturn: stockRet,
     bondReturn: bondRet,
     cashReturn: DEFAULT_ASSET_ASSUMPTIONS.cash.expectedReturn + 
-      generateNormalReturn(0, DEFAULT_ASSET_ASSUMPTIONS.cash.volatility),
-    inflation: inflationRate + generateNormalReturn(0, 0.01)
+      generateNormalReturn(0, DEFAULT_ASSET_ASSUMPTIONS.cash.volatility, random),
+    inflation: inflationRate + generateNormalReturn(0, 0.01, random)
   };
 }
 
@@ -702,10 +741,14 @@ export function generateParameterizedReturns(
 
 /**
  * Run a single simulation
+ * 
+ * When inputs.seed is set, each runId derives its own seeded stream, so any
+ * individual run can be replayed exactly without re-running the others.
  */
 export function runSingleSimulation(
   inputs: FinancialGoalsInputs,
-  runId: number
+  runId: number,
+  random: RandomSource = resolveRandomSource(inputs.random, inputs.seed, runId)
 ): SimulationRun {
   const yearlyData: YearlySimulationData[] = [];
   let portfolioValue = inputs.initialPortfolioValue;
@@ -733,7 +776,7 @@ export function runSingleSimulation(
     
     switch (inputs.simulationModel) {
       case 'historical':
-        returns = generateHistoricalReturns(inputs.useBootstrap, inputs.blockSize);
+        returns = generateHistoricalReturns(inputs.useBootstrap, inputs.blockSize, random);
         break;
       case 'forecasted':
       case 'statistical':
@@ -743,7 +786,8 @@ export function runSingleSimulation(
           inputs.expectedBondReturn ?? DEFAULT_ASSET_ASSUMPTIONS.bonds.expectedReturn,
           inputs.bondVolatility ?? DEFAULT_ASSET_ASSUMPTIONS.bonds.volatility,
           inputs.stockBondCorrelation ?? DEFAULT_ASSET_ASSUMPTIONS.stockBondCorrelation,
-          inputs.inflationRate ?? 0.025
+          inputs.inflationRate ?? 0.025,
+          random
         );
         break;
       case 'parameterized':
@@ -754,11 +798,12 @@ export function runSingleSimulation(
           inputs.bondVolatility ?? DEFAULT_ASSET_ASSUMPTIONS.bonds.volatility,
           inputs.distributionType ?? 'normal',
           inputs.degreesOfFreedom ?? 5,
-          inputs.inflationRate ?? 0.025
+          inputs.inflationRate ?? 0.025,
+          random
         );
         break;
       default:
-        returns = generateHistoricalReturns();
+        returns = generateHistoricalReturns(false, 5, random);
     }
     
     // Calculate blended portfolio return
@@ -1201,21 +1246,167 @@ export function generateWarnings(inputs: FinancialGoalsInputs): string[] {
 // MAIN CALCULATION FUNCTION
 // =============================================================================
 
+/**
+ * Validate a portfolio allocation (each weight 0-100, total 100)
+ */
+function validateAllocation(
+  issues: ValidationIssue[],
+  field: string,
+  allocation: PortfolioAllocationDef | undefined
+): void {
+  if (!allocation) {
+    addIssue(issues, field, 'required', 'Portfolio allocation is required');
+    return;
+  }
+  
+  let allValid = true;
+  for (const key of ['stocks', 'bonds', 'cash', 'other'] as const) {
+    allValid = checkNumber(issues, `${field}.${key}`, allocation[key], {
+      min: 0,
+      max: 100,
+      required: key !== 'other',
+    }) && allValid;
+  }
+  
+  if (allValid) {
+    const total = allocation.stocks + allocation.bonds + allocation.cash + (allocation.other ?? 0);
+    checkCondition(
+      issues,
+      Math.abs(total - 100) <= 0.01,
+      field,
+      'invalid_sum',
+      `Portfolio allocation totals ${total.toFixed(1)}% - must be 100%`
+    );
+  }
+}
+
+/**
+ * Validate Financial Goals simulation inputs
+ * 
+ * @param inputs - The simulation inputs
+ * @returns Validation issues (empty when inputs are valid)
+ */
+export function validateFinancialGoalsInputs(inputs: FinancialGoalsInputs): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  
+  checkNumber(issues, 'initialPortfolioValue', inputs.initialPortfolioValue, { min: 0 });
+  validateAllocation(issues, 'startingAllocation', inputs.startingAllocation);
+  
+  checkOneOf(issues, 'simulationModel', inputs.simulationModel, ['historical', 'forecasted', 'statistical', 'parameterized'] as const);
+  checkNumber(issues, 'simulationYears', inputs.simulationYears, { min: 0, max: 100, integer: true });
+  checkNumber(issues, 'numberOfSimulations', inputs.numberOfSimulations, { min: 0, max: 100000, integer: true });
+  
+  const currentAgeValid = checkNumber(issues, 'currentAge', inputs.currentAge, { min: 0, max: 120 });
+  const retirementAgeValid = checkNumber(issues, 'retirementAge', inputs.retirementAge, { min: 0, max: 120 });
+  const lifeExpectancyValid = checkNumber(issues, 'lifeExpectancy', inputs.lifeExpectancy, { min: 0, max: 120 });
+  if (currentAgeValid && retirementAgeValid) {
+    checkCondition(
+      issues,
+      inputs.retirementAge >= inputs.currentAge,
+      'retirementAge',
+      'invalid_relationship',
+      'Retirement age cannot be less than current age'
+    );
+  }
+  if (currentAgeValid && lifeExpectancyValid) {
+    checkCondition(
+      issues,
+      inputs.lifeExpectancy > inputs.currentAge,
+      'lifeExpectancy',
+      'invalid_relationship',
+      'Life expectancy must be greater than current age'
+    );
+  }
+  
+  checkNumber(issues, 'annualContribution', inputs.annualContribution, { min: 0 });
+  checkNumber(issues, 'annualWithdrawal', inputs.annualWithdrawal, { min: 0 });
+  checkDecimalRate(issues, 'contributionGrowthRate', inputs.contributionGrowthRate, { min: -1, required: false });
+  checkOneOf(issues, 'taxTreatment', inputs.taxTreatment, ['pre-tax', 'post-tax', 'mixed'] as const);
+  checkDecimalRate(issues, 'effectiveTaxRate', inputs.effectiveTaxRate, { min: 0, required: false });
+  checkOneOf(issues, 'inflationModel', inputs.inflationModel, ['historical', 'fixed', 'custom'] as const);
+  checkDecimalRate(issues, 'inflationRate', inputs.inflationRate, { min: -1, required: false });
+  
+  if (inputs.glidePath?.enabled) {
+    validateAllocation(issues, 'glidePath.startAllocation', inputs.glidePath.startAllocation);
+    validateAllocation(issues, 'glidePath.endAllocation', inputs.glidePath.endAllocation);
+    const startValid = checkNumber(issues, 'glidePath.startYear', inputs.glidePath.startYear, { min: 0 });
+    const endValid = checkNumber(issues, 'glidePath.endYear', inputs.glidePath.endYear, { min: 0 });
+    if (startValid && endValid) {
+      checkCondition(
+        issues,
+        inputs.glidePath.endYear >= inputs.glidePath.startYear,
+        'glidePath.endYear',
+        'invalid_relationship',
+        'Glide path end year cannot be before its start year'
+      );
+    }
+  }
+  
+  inputs.cashflowGoals?.forEach((goal, i) => {
+    checkNumber(issues, `cashflowGoals[${i}].amount`, goal.amount, { min: 0 });
+    const startValid = checkNumber(issues, `cashflowGoals[${i}].startYear`, goal.startYear, { min: 0 });
+    if (checkNumber(issues, `cashflowGoals[${i}].endYear`, goal.endYear, { min: 0, required: false }) && startValid) {
+      checkCondition(
+        issues,
+        goal.endYear! >= goal.startYear,
+        `cashflowGoals[${i}].endYear`,
+        'invalid_relationship',
+        'End year cannot be before start year'
+      );
+    }
+  });
+  
+  inputs.lifeStages?.forEach((stage, i) => {
+    const startValid = checkNumber(issues, `lifeStages[${i}].startAge`, stage.startAge, { min: 0, max: 120 });
+    const endValid = checkNumber(issues, `lifeStages[${i}].endAge`, stage.endAge, { min: 0, max: 120 });
+    if (startValid && endValid) {
+      checkCondition(
+        issues,
+        stage.endAge >= stage.startAge,
+        `lifeStages[${i}].endAge`,
+        'invalid_relationship',
+        'End age cannot be before start age'
+      );
+    }
+    checkNumber(issues, `lifeStages[${i}].annualSpending`, stage.annualSpending, { min: 0 });
+  });
+  
+  checkDecimalRate(issues, 'expectedStockReturn', inputs.expectedStockReturn, { min: -1, required: false });
+  checkDecimalRate(issues, 'expectedBondReturn', inputs.expectedBondReturn, { min: -1, required: false });
+  checkDecimalRate(issues, 'stockVolatility', inputs.stockVolatility, { min: 0, required: false });
+  checkDecimalRate(issues, 'bondVolatility', inputs.bondVolatility, { min: 0, required: false });
+  checkNumber(issues, 'stockBondCorrelation', inputs.stockBondCorrelation, { min: -1, max: 1, required: false });
+  checkNumber(issues, 'degreesOfFreedom', inputs.degreesOfFreedom, { min: 2, exclusiveMin: true, required: false });
+  checkOneOf(issues, 'rebalancingFrequency', inputs.rebalancingFrequency, ['monthly', 'quarterly', 'annually', 'none'] as const, false);
+  checkNumber(issues, 'blockSize', inputs.blockSize, { min: 1, integer: true, required: false });
+  
+  return issues;
+}
+
 /**
  * Main Financial Goals calculation function
  * 
  * @param inputs - The simulation inputs
+ * @param options - Validation options (strict mode throws on invalid inputs)
+ *   and `trace` to return the calculation steps
  * @returns Complete simulation results with analysis
  */
-export function calculateFinancialGoals(inputs: FinancialGoalsInputs): FinancialGoalsResult {
+export function calculateFinancialGoals(
+  inputs: FinancialGoalsInputs,
+  options: CalculatorOptions = {}
+): FinancialGoalsResult {
+  const validationIssues = enforceValidation(validateFinancialGoalsInputs(inputs), options);
+  const trace = createTrace(options);
+  
   const startTime = Date.now();
   
   // Validate and normalize inputs
   const warnings = generateWarnings(inputs);
   
-  // Set defaults
+  // Set defaults (a seed is always chosen so the result can be reproduced)
   const normalizedInputs: FinancialGoalsInputs = {
     ...inputs,
+    seed: inputs.seed ?? (inputs.random ? undefined : generateSeed()),
     numberOfSimulations: inputs.numberOfSimulations || 10000,
     simulationYears: inputs.simulationYears || (inputs.lifeExpectancy - inputs.currentAge),
     inflationRate: inputs.inflationRate ?? 0.025,
@@ -1282,6 +1473,33 @@ export function calculateFinancialGoals(inputs: FinancialGoalsInputs): Financial
     percentileOutcomes
   };
   
+  trace.add({
+    name: 'successRate',
+    description: 'Share of simulated lifetimes in which the portfolio never ran out',
+    formula: 'success rate = successful runs ÷ total runs',
+    inputs: {
+      simulationModel: normalizedInputs.simulationModel,
+      numberOfSimulations: normalizedInputs.numberOfSimulations,
+      simulationYears: normalizedInputs.simulationYears,
+      inflationRate: normalizedInputs.inflationRate ?? null,
+      seed: normalizedInputs.seed ?? null,
+    },
+    intermediates: { successfulRuns: successfulRuns.length, failedRuns: failedRuns.length },
+    result: traceRound(successRate, 4),
+  });
+  trace.add({
+    name: 'finalValueDistribution',
+    description: 'Percentiles of the ending portfolio value across all runs',
+    inputs: { runs: finalValues.length },
+    intermediates: {
+      p10: traceRound(percentileOutcomes.p10),
+      p25: traceRound(percentileOutcomes.p25),
+      p75: traceRound(percentileOutcomes.p75),
+      p90: traceRound(percentileOutcomes.p90),
+    },
+    result: traceRound(percentileOutcomes.p50),
+  });
+  
   // Sequence risk analysis
   let sequenceRiskAnalysis: SequenceRiskAnalysis | undefined;
   if (inputs.analyzeSequenceRisk) {
@@ -1297,7 +1515,7 @@ export function calculateFinancialGoals(inputs: FinancialGoalsInputs): Financial
   
   const computeTimeMs = Date.now() - startTime;
   
-  return {
+  return withTrace(withValidationIssues({
     successRate,
     medianFinalValue: percentileOutcomes.p50,
     averageFinalValue: mean(finalValues),
@@ -1311,8 +1529,9 @@ export function calculateFinancialGoals(inputs: FinancialGoalsInputs): Financial
     modelUsed: normalizedInputs.simulationModel,
     simulationCount: normalizedInputs.numberOfSimulations,
     simulationYears: normalizedInputs.simulationYears,
+    seed: normalizedInputs.seed,
     computeTimeMs
-  };
+  }, validationIssues), trace);
 }
 
 // =============================================================================
@@ -9,6 +9,18 @@
  * @see https://www.npmjs.com/package/@deanfinancials/calculators
  */
 
+import {
+  type ValidationIssue,
+  checkNumber,
+  checkDecimalRate,
+  checkOneOf,
+  checkCondition,
+  enforceValidation,
+  withValidationIssues
+} from '../utils/validation.js';
+import { type Rate, type WithExplicitRates, normalizeRateFields } from '../utils/rates.js';
+import { type CalculatorOptions, type TraceStep, createTrace, withTrace, traceRound } from '../utils/trace.js';
+
 // ============================================================================
 // Types
 // ============================================================================
@@ -43,22 +55,22 @@ export interface FIREInputs {
   lifeExpectancy?: number;
   /** Current annual gross income */
   annualIncome: number;
-  /** Expected annual income growth rate (default: 2%) */
-  incomeGrowthRate?: number;
+  /** Expected annual income growth rate as decimal (default: 0.02) */
+  incomeGrowthRate?: Rate;
   /** Current total invested assets */
   currentSavings: number;
   /** Annual expenses in retirement (post-tax) */
   annualExpenses: number;
-  /** Expected inflation rate (default: 3%) */
-  inflationRate?: number;
-  /** Expected nominal investment return (default: 7%) */
-  expectedReturn?: number;
-  /** Safe withdrawal rate (default: 4%) */
-  safeWithdrawalRate?: number;
+  /** Expected inflation rate as decimal (default: 0.03) */
+  inflationRate?: Rate;
+  /** Expected nominal investment return as decimal (default: 0.07) */
+  expectedReturn?: Rate;
+  /** Safe withdrawal rate as decimal (default: 0.04) */
+  safeWithdrawalRate?: Rate;
   /** Monthly savings amount (alternative to savings rate) */
   monthlySavings?: number;
-  /** Savings rate as percentage of gross income (alternative to monthly savings) */
-  savingsRate?: number;
+  /** Savings rate as decimal of gross income (alternative to monthly savings) */
+  savingsRate?: Rate;
   /** Type of FIRE goal (default: regular) */
   fireType?: FIREType;
   /** Expected Social Security annual benefit (0 if not applicable) */
@@ -77,6 +89,22 @@ export interface FIREInputs {
   partTimeYears?: number;
 }
 
+/**
+ * Rate fields of FIREInputs and the convention they use
+ */
+export const FIRE_RATE_FIELDS = {
+  incomeGrowthRate: 'rate',
+  inflationRate: 'rate',
+  expectedReturn: 'rate',
+  safeWithdrawalRate: 'rate',
+  savingsRate: 'rate',
+} as const;
+
+/**
+ * FIRE inputs with rates as { percent: 7 } or { rate: 0.07 }
+ */
+export type FIRERateInputs = WithExplicitRates<FIREInputs, typeof FIRE_RATE_FIELDS>;
+
 /**
  * Yearly projection data point
  */
@@ -286,6 +314,10 @@ export interface FIREResult {
   summary: string;
   /** Time until financial freedom */
   timeUntilFreedom: string;
+  /** Input validation issues (present only when issues were found) */
+  validationIssues?: ValidationIssue[];
+  /** Calculation steps (present only with { trace: true }) */
+  trace?: TraceStep[];
 }
 
 // ============================================================================
@@ -908,14 +940,100 @@ export function generateWarnings(
   return warnings;
 }
 
+// ============================================================================
+// Input Validation
+// ============================================================================
+
+/**
+ * Validate FIRE calculator inputs
+ * 
+ * @param rateInputs - FIRE calculation inputs
+ * @returns Validation issues (empty when inputs are valid)
+ */
+export function validateFIREInputs(rateInputs: FIREInputs | FIRERateInputs): ValidationIssue[] {
+  const inputs = normalizeRateFields(rateInputs, FIRE_RATE_FIELDS);
+  const issues: ValidationIssue[] = [];
+  
+  const ageValid = checkNumber(issues, 'currentAge', inputs.currentAge, { min: 0, max: 120 });
+  if (checkNumber(issues, 'targetRetirementAge', inputs.targetRetirementAge, { min: 0, max: 120, required: false }) && ageValid) {
+    checkCondition(
+      issues,
+      inputs.targetRetirementAge! >= inputs.currentAge,
+      'targetRetirementAge',
+      'invalid_relationship',
+      'Target retirement age cannot be less than current age'
+    );
+  }
+  if (checkNumber(issues, 'lifeExpectancy', inputs.lifeExpectancy, { min: 0, max: 120, required: false }) && ageValid) {
+    checkCondition(
+      issues,
+      inputs.lifeExpectancy! > inputs.currentAge,
+      'lifeExpectancy',
+      'invalid_relationship',
+      'Life expectancy must be greater than current age'
+    );
+  }
+  
+  checkNumber(issues, 'annualIncome', inputs.annualIncome, { min: 0 });
+  checkNumber(issues, 'currentSavings', inputs.currentSavings, { min: 0 });
+  checkNumber(issues, 'annualExpenses', inputs.annualExpenses, { min: 0, exclusiveMin: true });
+  checkNumber(issues, 'monthlySavings', inputs.monthlySavings, { min: 0, required: false });
+  checkDecimalRate(issues, 'savingsRate', inputs.savingsRate, { min: 0, required: false });
+  checkDecimalRate(issues, 'incomeGrowthRate', inputs.incomeGrowthRate, { min: -1, required: false });
+  checkDecimalRate(issues, 'inflationRate', inputs.inflationRate, { min: -1, required: false });
+  checkDecimalRate(issues, 'expectedReturn', inputs.expectedReturn, { min: -1, required: false });
+  if (checkDecimalRate(issues, 'safeWithdrawalRate', inputs.safeWithdrawalRate, { min: 0, exclusiveMin: true, required: false })) {
+    checkCondition(
+      issues,
+      inputs.safeWithdrawalRate! <= 0.1,
+      'safeWithdrawalRate',
+      'above_maximum',
+      'Withdrawal rates above 10% are very likely to deplete the portfolio',
+      'warning'
+    );
+  }
+  checkOneOf(issues, 'fireType', inputs.fireType, ['lean', 'regular', 'fat', 'coast', 'barista'] as const, false);
+  checkNumber(issues, 'socialSecurityBenefit', inputs.socialSecurityBenefit, { min: 0, required: false });
+  checkNumber(issues, 'socialSecurityStartAge', inputs.socialSecurityStartAge, { min: 62, max: 70, required: false });
+  checkNumber(issues, 'pensionBenefit', inputs.pensionBenefit, { min: 0, required: false });
+  checkNumber(issues, 'pensionStartAge', inputs.pensionStartAge, { min: 0, max: 120, required: false });
+  checkNumber(issues, 'partTimeIncome', inputs.partTimeIncome, { min: 0, required: false });
+  checkNumber(issues, 'partTimeYears', inputs.partTimeYears, { min: 0, required: false });
+  
+  return issues;
+}
+
 // ============================================================================
 // Main Calculator Function
 // ============================================================================
 
 /**
  * Calculate comprehensive FIRE analysis
+ * 
+ * @param inputs - FIRE calculation inputs
+ * @param options - Validation options (strict mode throws on invalid inputs)
+ *   and `trace` to return the calculation steps
+ * @returns Complete FIRE analysis
+ */
+export function calculateFIRE(
+  inputs: FIREInputs,
+  options?: CalculatorOptions
+): FIREResult;
+/**
+ * Same as above, with rates as { percent } or { rate } (see FIRE_RATE_FIELDS)
  */
-export function calculateFIRE(inputs: FIREInputs): FIREResult {
+export function calculateFIRE(
+  inputs: FIRERateInputs,
+  options?: CalculatorOptions
+): FIREResult;
+export function calculateFIRE(
+  rateInputs: FIREInputs | FIRERateInputs,
+  options: CalculatorOptions = {}
+): FIREResult {
+  const inputs = normalizeRateFields(rateInputs, FIRE_RATE_FIELDS);
+  const validationIssues = enforceValidation(validateFIREInputs(inputs), options);
+  const trace = createTrace(options);
+  
   const {
     currentAge,
     targetRetirementAge,
@@ -972,6 +1090,51 @@ export function calculateFIRE(inputs: FIREInputs): FIREResult {
   
   // Calculate total contributions and returns
   const realReturn = (1 + expectedReturn) / (1 + inflationRate) - 1;
+  
+  trace.add({
+    name: 'annualSavings',
+    description: monthlySavings !== undefined
+      ? 'Annual savings from the monthly amount'
+      : savingsRate !== undefined
+      ? 'Annual savings from the savings rate'
+      : 'Annual savings as income minus expenses',
+    formula: monthlySavings !== undefined
+      ? 'monthly savings × 12'
+      : savingsRate !== undefined
+      ? 'annual income × savings rate'
+      : 'max(0, income − expenses)',
+    inputs: {
+      annualIncome,
+      annualExpenses,
+      monthlySavings: monthlySavings ?? null,
+      savingsRate: savingsRate ?? null,
+    },
+    intermediates: { effectiveSavingsRate: traceRound(effectiveSavingsRate, 1) },
+    result: traceRound(annualSavings),
+  });
+  trace.add({
+    name: 'fireNumber',
+    description: 'Portfolio whose safe withdrawal covers annual expenses',
+    formula: 'FIRE number = annual expenses × expense multiplier ÷ safe withdrawal rate',
+    inputs: { annualExpenses, expenseMultiplier: EXPENSE_MULTIPLIERS[fireType], safeWithdrawalRate },
+    result: traceRound(fireNumber),
+    source: `EXPENSE_MULTIPLIERS.${fireType}`,
+  });
+  trace.add({
+    name: 'realReturn',
+    description: 'Investment return after inflation (keeps projections in today\'s dollars)',
+    formula: 'real return = (1 + nominal return) ÷ (1 + inflation) − 1',
+    inputs: { expectedReturn, inflationRate },
+    result: traceRound(realReturn, 6),
+  });
+  trace.add({
+    name: 'yearsToFire',
+    description: 'Years until savings plus real growth reach the FIRE number',
+    formula: 'count years while balance × (1 + real return) + annual savings < FIRE number',
+    inputs: { currentSavings, annualSavings: traceRound(annualSavings), fireNumber: traceRound(fireNumber) },
+    intermediates: { fireAge },
+    result: yearsToFire,
+  });
   let runningBalance = currentSavings;
   let totalContributions = 0;
   let totalReturns = 0;
@@ -990,12 +1153,29 @@ export function calculateFIRE(inputs: FIREInputs): FIREResult {
   const portfolioLifespan = retirementYears;
   const successProbability = estimateSuccessProbability(safeWithdrawalRate, retirementYears);
   
+  trace.add({
+    name: 'safeAnnualWithdrawal',
+    description: 'Annual income the FIRE portfolio supports',
+    formula: 'FIRE number × safe withdrawal rate',
+    inputs: { fireNumber: traceRound(fireNumber), safeWithdrawalRate },
+    intermediates: { retirementYears, successProbability },
+    result: traceRound(safeAnnualWithdrawal),
+  });
+  
   // Coast FIRE analysis
   const traditionalRetirementAge = 65;
   const yearsToTraditional = Math.max(1, traditionalRetirementAge - currentAge);
   const coastTarget = calculateCoastFIRETarget(fireNumber, yearsToTraditional, expectedReturn, inflationRate);
   const coastAchieved = currentSavings >= coastTarget;
   
+  trace.add({
+    name: 'coastTarget',
+    description: 'Savings needed today to reach the FIRE number by 65 with no more contributions',
+    formula: 'FIRE number ÷ (1 + real return)^(years to 65)',
+    inputs: { fireNumber: traceRound(fireNumber), yearsToTraditional, realReturn: traceRound(realReturn, 6) },
+    result: traceRound(coastTarget),
+  });
+  
   let coastAge = currentAge;
   let yearsToCoast = 0;
   if (!coastAchieved) {
@@ -1082,6 +1262,15 @@ export function calculateFIRE(inputs: FIREInputs): FIREResult {
       }
     }
     stressTestScore = Math.max(0, stressTestScore);
+    
+    trace.add({
+      name: 'stressTestScore',
+      description: 'Score from replaying historical crises from the FIRE date (−15 per failure, −5 per deep drawdown)',
+      inputs: { scenarios: stressTests.length, safeAnnualWithdrawal: traceRound(safeAnnualWithdrawal) },
+      intermediates: Object.fromEntries(stressTests.map(test => [test.name, test.survived])),
+      result: stressTestScore,
+      source: 'HISTORICAL_CRISES',
+    });
   }
   
   // Generate sensitivity analysis
@@ -1116,7 +1305,7 @@ export function calculateFIRE(inputs: FIREInputs): FIREResult {
     ? '1 year'
     : `${yearsToFire} years`;
   
-  return {
+  return withTrace(withValidationIssues({
     fireNumber,
     yearsToFire,
     fireAge,
@@ -1145,7 +1334,7 @@ export function calculateFIRE(inputs: FIREInputs): FIREResult {
     warnings,
     summary,
     timeUntilFreedom
-  };
+  }, validationIssues), trace);
 }
 
 // ============================================================================
@@ -12,6 +12,16 @@
  * @see https://www.npmjs.com/package/@deanfinancials/calculators
  */
 
+import {
+  type ValidationIssue,
+  checkNumber,
+  checkDecimalRate,
+  checkCondition,
+  enforceValidation,
+  withValidationIssues
+} from '../utils/validation.js';
+import { type CalculatorOptions, type TraceStep, createTrace, withTrace, traceRound } from '../utils/trace.js';
+
 // ============================================================================
 // Types
 // ============================================================================
@@ -256,6 +266,11 @@ export interface SavingsRateResult {
   summary: string;
   /** Time to FI formatted */
   timeToFI: string;
+  
+  /** Input validation issues (present only when issues were found) */
+  validationIssues?: ValidationIssue[];
+  /** Calculation steps (present only with { trace: true }) */
+  trace?: TraceStep[];
 }
 
 // ============================================================================
@@ -896,14 +911,73 @@ export function generateWarnings(
   return warnings;
 }
 
+// ============================================================================
+// Input Validation
+// ============================================================================
+
+/**
+ * Validate savings rate inputs
+ * 
+ * @param inputs - Savings rate inputs
+ * @returns Validation issues (empty when inputs are valid)
+ */
+export function validateSavingsRateInputs(inputs: SavingsRateInputs): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  
+  const grossValid = checkNumber(issues, 'grossIncome', inputs.grossIncome, { min: 0, exclusiveMin: true });
+  const netValid = checkNumber(issues, 'netIncome', inputs.netIncome, { min: 0, exclusiveMin: true });
+  checkNumber(issues, 'annualExpenses', inputs.annualExpenses, { min: 0 });
+  if (grossValid && netValid) {
+    checkCondition(
+      issues,
+      inputs.netIncome <= inputs.grossIncome,
+      'netIncome',
+      'invalid_relationship',
+      'Net income cannot be greater than gross income'
+    );
+  }
+  
+  for (const field of [
+    'contribution401k',
+    'employerMatch',
+    'traditionalIRA',
+    'rothIRA',
+    'roth401k',
+    'hsaContributions',
+    'taxableSavings',
+    'otherSavings',
+    'currentNetWorth',
+  ] as const) {
+    checkNumber(issues, field, inputs[field], { min: 0, required: false });
+  }
+  
+  checkDecimalRate(issues, 'expectedReturn', inputs.expectedReturn, { min: -1, required: false });
+  checkDecimalRate(issues, 'withdrawalRate', inputs.withdrawalRate, { min: 0, exclusiveMin: true, required: false });
+  checkDecimalRate(issues, 'expenseGrowthRate', inputs.expenseGrowthRate, { min: -1, required: false });
+  checkDecimalRate(issues, 'incomeGrowthRate', inputs.incomeGrowthRate, { min: -1, required: false });
+  checkNumber(issues, 'currentAge', inputs.currentAge, { min: 0, max: 120, required: false });
+  
+  return issues;
+}
+
 // ============================================================================
 // Main Calculator Function
 // ============================================================================
 
 /**
  * Calculate comprehensive savings rate analysis
+ * 
+ * @param inputs - Savings rate inputs
+ * @param options - Validation options (strict mode throws on invalid inputs)
+ *   and `trace` to return the calculation steps
  */
-export function calculateSavingsRate(inputs: SavingsRateInputs): SavingsRateResult {
+export function calculateSavingsRate(
+  inputs: SavingsRateInputs,
+  options: CalculatorOptions = {}
+): SavingsRateResult {
+  const validationIssues = enforceValidation(validateSavingsRateInputs(inputs), options);
+  const trace = createTrace(options);
+  
   const {
     grossIncome,
     netIncome,
@@ -947,6 +1021,39 @@ export function calculateSavingsRate(inputs: SavingsRateInputs): SavingsRateResu
   // Already FI?
   const alreadyFI = currentNetWorth >= fireNumber;
   
+  trace.add({
+    name: 'totalSavings',
+    description: 'Total annual savings (net income minus expenses when no savings are entered)',
+    inputs: { netIncome, annualExpenses },
+    intermediates: {
+      preTaxRetirement: savingsBreakdown.preTaxRetirement,
+      taxableSavings: savingsBreakdown.taxableSavings,
+    },
+    result: traceRound(totalSavings),
+  });
+  trace.add({
+    name: 'savingsRate',
+    description: 'Post-tax-adjusted savings rate, counting pre-tax contributions as income',
+    formula: 'savings rate = total savings ÷ (net income + pre-tax contributions)',
+    inputs: { totalSavings: traceRound(totalSavings), netIncome, preTaxContributions: savingsBreakdown.preTaxRetirement },
+    intermediates: Object.fromEntries(ratesByMethod.map(r => [r.method, traceRound(r.rate, 4)])),
+    result: traceRound(savingsRate, 4),
+  });
+  trace.add({
+    name: 'fireNumber',
+    description: 'Portfolio whose withdrawals cover annual expenses',
+    formula: 'FIRE number = annual expenses ÷ withdrawal rate',
+    inputs: { annualExpenses, withdrawalRate },
+    result: traceRound(fireNumber),
+  });
+  trace.add({
+    name: 'yearsToFI',
+    description: 'Years of saving at this rate until the portfolio covers spending',
+    formula: 'count years while balance × (1 + return) + savings rate < (1 − savings rate) ÷ withdrawal rate',
+    inputs: { savingsRate: traceRound(savingsRate, 4), currentNetWorth, expectedReturn, withdrawalRate },
+    result: Number.isFinite(yearsToFI) ? yearsToFI : null,
+  });
+  
   // Get benchmarks
   const benchmarks = getBenchmarksWithStatus(savingsRate);
   const { currentTier, nextTier } = getCurrentAndNextTier(savingsRate, benchmarks);
@@ -1004,7 +1111,7 @@ export function calculateSavingsRate(inputs: SavingsRateInputs): SavingsRateResu
     ? 'Less than 1 year'
     : `${yearsToFI.toFixed(1)} years`;
   
-  return {
+  return withTrace(withValidationIssues({
     savingsRate,
     savingsRatePercent: savingsRate * 100,
     ratesByMethod,
@@ -1028,7 +1135,7 @@ export function calculateSavingsRate(inputs: SavingsRateInputs): SavingsRateResu
     warnings,
     summary,
     timeToFI
-  };
+  }, validationIssues), trace);
 }
 
 // ============================================================================
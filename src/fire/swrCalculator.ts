@@ -9,6 +9,24 @@
  * @see https://www.npmjs.com/package/@deanfinancials/calculators
  */
 
+import {
+  type RandomSource,
+  MATH_RANDOM_SOURCE,
+  generateSeed,
+  resolveRandomSource,
+  sampleStandardNormal
+} from '../utils/random.js';
+import {
+  type ValidationIssue,
+  checkNumber,
+  checkDecimalRate,
+  checkOneOf,
+  checkCondition,
+  enforceValidation,
+  withValidationIssues
+} from '../utils/validation.js';
+import { type CalculatorOptions, type TraceStep, createTrace, withTrace, traceRound } from '../utils/trace.js';
+
 // ============================================================================
 // Types
 // ============================================================================
@@ -75,6 +93,10 @@ export interface SWRInputs {
   supplementalIncome?: number;
   /** Age when supplemental income begins */
   supplementalIncomeStartYear?: number;
+  /** Seed for reproducible Monte Carlo results (each simulation derives its own stream) */
+  seed?: number;
+  /** Custom random source for Monte Carlo sampling (overrides seed) */
+  random?: RandomSource;
 }
 
 /**
@@ -304,6 +326,12 @@ export interface SWRResult {
   warnings: string[];
   /** Summary text */
   summary: string;
+  /** Seed used for Monte Carlo sampling (pass back in inputs to reproduce) */
+  seed?: number;
+  /** Input validation issues (present only when issues were found) */
+  validationIssues?: ValidationIssue[];
+  /** Calculation steps (present only with { trace: true }) */
+  trace?: TraceStep[];
 }
 
 // ============================================================================
@@ -411,11 +439,13 @@ export function getBlendedReturn(
 /**
  * Generate a random return using normal distribution
  */
-export function generateRandomReturn(mean: number, stdDev: number): number {
+export function generateRandomReturn(
+  mean: number,
+  stdDev: number,
+  random: RandomSource = MATH_RANDOM_SOURCE
+): number {
   // Box-Muller transform for normal distribution
-  const u1 = Math.random();
-  const u2 = Math.random();
-  const z = Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
+  const z = sampleStandardNormal(random);
   return mean + stdDev * z;
 }
 
@@ -666,6 +696,7 @@ export function runMonteCarloSimulation(
   } = inputs;
   
   const { mean, stdDev } = EXPECTED_RETURNS[allocation];
+  const random = resolveRandomSource(inputs.random, inputs.seed, simulationId);
   
   const yearlyData: SWRYearlyData[] = [];
   let balance = portfolioValue;
@@ -682,7 +713,7 @@ export function runMonteCarloSimulation(
     const startBalance = balance;
     
     // Generate random return
-    const returnRate = generateRandomReturn(mean, stdDev);
+    const returnRate = generateRandomReturn(mean, stdDev, random);
     
     // Calculate supplemental income
     const suppIncome = year >= supplementalIncomeStartYear ? supplementalIncome : 0;
@@ -1179,14 +1210,84 @@ function generateWarnings(
   return warnings;
 }
 
+// ============================================================================
+// Input Validation
+// ============================================================================
+
+/**
+ * Validate Safe Withdrawal Rate calculator inputs
+ * 
+ * @param inputs - SWR calculation inputs
+ * @returns Validation issues (empty when inputs are valid)
+ */
+export function validateSWRInputs(inputs: SWRInputs): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  
+  const portfolioValid = checkNumber(issues, 'portfolioValue', inputs.portfolioValue, { min: 0, exclusiveMin: true });
+  const withdrawalValid = checkNumber(issues, 'annualWithdrawal', inputs.annualWithdrawal, { min: 0 });
+  if (portfolioValid && withdrawalValid) {
+    checkCondition(
+      issues,
+      inputs.annualWithdrawal <= inputs.portfolioValue,
+      'annualWithdrawal',
+      'invalid_relationship',
+      'Annual withdrawal exceeds the portfolio value',
+      'warning'
+    );
+  }
+  
+  checkNumber(issues, 'retirementYears', inputs.retirementYears, { min: 1, max: 100, integer: true, required: false });
+  checkOneOf(issues, 'allocation', inputs.allocation, ['100-0', '75-25', '60-40', '50-50', '25-75', '0-100'] as const, false);
+  checkOneOf(issues, 'strategy', inputs.strategy, ['fixed', 'percentage', 'guardrails', 'dynamic', 'floor-ceiling'] as const, false);
+  checkOneOf(issues, 'simulationMethod', inputs.simulationMethod, ['historical', 'monte-carlo'] as const, false);
+  checkDecimalRate(issues, 'inflationRate', inputs.inflationRate, { min: -1, required: false });
+  checkNumber(issues, 'monteCarloRuns', inputs.monteCarloRuns, { min: 1, max: 100000, integer: true, required: false });
+  checkDecimalRate(issues, 'upperGuardrail', inputs.upperGuardrail, { min: 0, required: false });
+  checkDecimalRate(issues, 'lowerGuardrail', inputs.lowerGuardrail, { min: 0, required: false });
+  checkDecimalRate(issues, 'guardrailAdjustment', inputs.guardrailAdjustment, { min: 0, required: false });
+  
+  const floorValid = checkNumber(issues, 'floorWithdrawal', inputs.floorWithdrawal, { min: 0, required: false });
+  const ceilingValid = checkNumber(issues, 'ceilingWithdrawal', inputs.ceilingWithdrawal, { min: 0, required: false });
+  if (floorValid && ceilingValid) {
+    checkCondition(
+      issues,
+      inputs.ceilingWithdrawal! >= inputs.floorWithdrawal!,
+      'ceilingWithdrawal',
+      'invalid_relationship',
+      'Ceiling withdrawal cannot be less than floor withdrawal'
+    );
+  }
+  
+  checkNumber(issues, 'supplementalIncome', inputs.supplementalIncome, { min: 0, required: false });
+  checkNumber(issues, 'supplementalIncomeStartYear', inputs.supplementalIncomeStartYear, { min: 0, required: false });
+  
+  return issues;
+}
+
 // ============================================================================
 // Main Calculator Function
 // ============================================================================
 
 /**
  * Calculate comprehensive Safe Withdrawal Rate analysis
+ * 
+ * @param swrInputs - SWR calculation inputs
+ * @param options - Validation options (strict mode throws on invalid inputs)
+ *   and `trace` to return the calculation steps
  */
-export function calculateSWR(inputs: SWRInputs): SWRResult {
+export function calculateSWR(
+  swrInputs: SWRInputs,
+  options: CalculatorOptions = {}
+): SWRResult {
+  const validationIssues = enforceValidation(validateSWRInputs(swrInputs), options);
+  const trace = createTrace(options);
+  
+  // Fix the seed up front so every sub-analysis can be reproduced from the result
+  const inputs: SWRInputs = {
+    ...swrInputs,
+    seed: swrInputs.seed ?? (swrInputs.random ? undefined : generateSeed())
+  };
+  
   const {
     portfolioValue,
     annualWithdrawal,
@@ -1200,6 +1301,14 @@ export function calculateSWR(inputs: SWRInputs): SWRResult {
   // Calculate withdrawal rate
   const withdrawalRate = annualWithdrawal / portfolioValue;
   
+  trace.add({
+    name: 'withdrawalRate',
+    description: 'First-year withdrawal as a share of the portfolio',
+    formula: 'withdrawal rate = annual withdrawal ÷ portfolio value',
+    inputs: { annualWithdrawal, portfolioValue },
+    result: traceRound(withdrawalRate, 4),
+  });
+  
   // Run all simulations
   const simulations = runAllSimulations(inputs);
   
@@ -1213,6 +1322,22 @@ export function calculateSWR(inputs: SWRInputs): SWRResult {
   const medianFinalBalance = percentile(finalBalances, 50);
   const stdDev = standardDeviation(finalBalances);
   
+  trace.add({
+    name: 'successRate',
+    description: simulationMethod === 'historical'
+      ? 'Share of historical start years in which the portfolio lasted'
+      : 'Share of Monte Carlo runs in which the portfolio lasted',
+    formula: 'success rate = surviving simulations ÷ total simulations × 100',
+    inputs: { allocation, strategy, retirementYears, inflationRate, seed: inputs.seed ?? null },
+    intermediates: {
+      successfulSimulations: successfulSims.length,
+      totalSimulations: simulations.length,
+      medianFinalBalance: traceRound(medianFinalBalance),
+    },
+    result: traceRound(successRate, 1),
+    source: simulationMethod === 'historical' ? 'HISTORICAL_RETURNS' : `EXPECTED_RETURNS['${allocation}']`,
+  });
+  
   const percentileOutcomes = {
     p10: percentile(finalBalances, 10),
     p25: percentile(finalBalances, 25),
@@ -1232,6 +1357,14 @@ export function calculateSWR(inputs: SWRInputs): SWRResult {
   // Recommended withdrawal rate based on horizon
   const recommendedWithdrawalRate = retirementYears <= 30 ? 0.04 : retirementYears <= 40 ? 0.035 : 0.03;
   
+  trace.add({
+    name: 'maxSafeWithdrawalRate',
+    description: 'Highest compared withdrawal rate with at least 95% success (3% when none qualifies)',
+    inputs: { ratesCompared: withdrawalRateComparison.length },
+    intermediates: { recommendedWithdrawalRate },
+    result: maxSafeWithdrawalRate,
+  });
+  
   // Time horizon comparison
   const timeHorizonComparison = calculateTimeHorizonComparison(inputs);
   
@@ -1276,7 +1409,7 @@ export function calculateSWR(inputs: SWRInputs): SWRResult {
     ? `Your ${formatPercent(withdrawalRate)} withdrawal rate has a ${successRate.toFixed(0)}% success rate. This is moderately risky - consider reducing withdrawals or expenses.`
     : `Your ${formatPercent(withdrawalRate)} withdrawal rate has only a ${successRate.toFixed(0)}% success rate. Significant adjustments are recommended.`;
   
-  return {
+  return withTrace(withValidationIssues({
     withdrawalRate,
     withdrawalRateLabel: formatPercent(withdrawalRate),
     successRate,
@@ -1300,8 +1433,9 @@ export function calculateSWR(inputs: SWRInputs): SWRResult {
     whatIfScenarios,
     recommendations,
     warnings,
-    summary
-  };
+    summary,
+    seed: inputs.seed
+  }, validationIssues), trace);
 }
 
 // ============================================================================
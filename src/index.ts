@@ -6,6 +6,123 @@
  * allowing for public verification of accuracy.
  */
 
+// Shared Utilities
+export {
+  type RandomSource,
+  MATH_RANDOM_SOURCE,
+  createSeededRandom,
+  deriveSeed,
+  generateSeed,
+  resolveRandomSource,
+  sampleStandardNormal,
+  sampleIndex
+} from './utils/random.js';
+
+export {
+  type ValidationSeverity,
+  type ValidationCode,
+  type ValidationIssue,
+  type ValidationOptions,
+  type NumberRule,
+  ValidationError,
+  fieldLabel,
+  addIssue,
+  checkNumber,
+  checkDecimalRate,
+  checkDate,
+  checkOneOf,
+  checkCondition,
+  hasValidationErrors,
+  enforceValidation,
+  withValidationIssues
+} from './utils/validation.js';
+
+export {
+  type Percent,
+  type Rate,
+  type RateConvention,
+  type ExplicitRate,
+  type RateFieldSpec,
+  type WithExplicitRates,
+  percent,
+  rate,
+  isExplicitRate,
+  toPercent,
+  toRate,
+  toConvention,
+  normalizeRateFields
+} from './utils/rates.js';
+
+export {
+  type DateInput,
+  type CalendarDate,
+  type ScheduleDateOptions,
+  daysInMonth,
+  parseCalendarDate,
+  resolveToday,
+  addMonths,
+  addDays,
+  daysBetween,
+  monthsBetween,
+  formatISODate,
+  toDate,
+  resolveFirstPaymentDate,
+  monthlyPaymentDate
+} from './utils/dates.js';
+
+export {
+  type TraceValue,
+  type TraceStep,
+  type TraceOptions,
+  type CalculatorOptions,
+  type CalculationTrace,
+  createTrace,
+  withTrace,
+  traceRound
+} from './utils/trace.js';
+
+// Federal Tax Engine (shared by paycheck, Roth, RMD and dividend calculators)
+export {
+  type FilingStatus,
+  type FilingStatusInput,
+  type FederalTaxBracket,
+  type FICAConfig,
+  type NIITConfig,
+  type FederalTaxYearConfig,
+  type FederalTaxInputs,
+  type FederalTaxResult,
+  FEDERAL_TAX_YEARS,
+  DEFAULT_TAX_YEAR,
+  normalizeFilingStatus,
+  getSupportedTaxYears,
+  getTaxYearConfig,
+  getOrdinaryBrackets,
+  getStandardDeduction,
+  findBracket,
+  applyBrackets,
+  calculateOrdinaryIncomeTax,
+  calculateCapitalGainsTax,
+  calculateNetInvestmentIncomeTax,
+  calculateSocialSecurityWageTax,
+  calculateAdditionalMedicareTax,
+  calculateMedicareWageTax,
+  calculateFederalIncomeTax
+} from './tax/federalTax.js';
+
+// State Tax Engine (progressive state brackets, deductions and exemptions)
+export {
+  type USState,
+  type StateTaxBracket,
+  type StateTaxInfo,
+  type StateTaxInputs,
+  type StateTaxResult,
+  STATE_TAX_INFO,
+  getStateBrackets,
+  getStateDeductions,
+  calculateStateIncomeTax,
+  calculateStateTaxOnAdditionalIncome
+} from './tax/stateTax.js';
+
 // Retirement Calculators
 export * from './retirement/retirement.js';
 export * from './retirement/withdrawalStrategy.js';
@@ -16,11 +133,13 @@ export * from './retirement/fourZeroOneKVsIRA.js';
 export {
   type RetirementAccountType,
   type RMDInputs,
+  type RMDRateInputs,
   type YearlyRMDProjection,
   type RMDResult,
   type MultiAccountRMDResult,
   type TaxImpactEstimate,
   type QCDAnalysis,
+  RMD_RATE_FIELDS,
   UNIFORM_LIFETIME_TABLE,
   JOINT_LIFE_TABLE,
   RMD_REQUIRED_ACCOUNTS,
@@ -32,6 +151,7 @@ export {
   getDistributionPeriod,
   calculateSingleYearRMD,
   formatRMDDeadline,
+  validateRMDInputs,
   calculateRMD,
   calculateMultipleAccountRMDs,
   estimateRMDTaxImpact,
@@ -60,6 +180,7 @@ export {
   generateProjections,
   calculateBreakEven as calculateBreakEvenRoth,
   calculateOptimalConversion,
+  validateRothConversionInputs,
   calculateRothConversion,
   quickConversionTax,
   calculateBracketFillingAmount,
@@ -69,53 +190,355 @@ export {
 // Debt Calculators
 export {
   type Debt,
+  type DebtPayoffPlan,
+  type DebtPayoffOptions,
   type PayoffResult,
   type MonthlySnapshot as DebtPayoffMonthlySnapshot,
   type DebtSnapshot,
+  type PayoffGoal,
+  type OptimizedPayoffResult,
+  type RankedPayoffStrategy,
+  type PayoffComparison,
+  MAX_EXHAUSTIVE_DEBTS,
+  validateDebtPayoffInputs,
   calculateDebtPayoff,
-  comparePayoffStrategies
+  comparePayoffStrategies,
+  optimizeDebtPayoff
 } from './debt/debtPayoff.js';
 
+export {
+  type PayoffStrategyName,
+  type HybridStrategy,
+  type CustomOrderStrategy,
+  type PayoffStrategy,
+  type PayoffStrategyType,
+  PAYOFF_STRATEGY_NAMES,
+  payoffStrategyType,
+  payoffStrategyLabel,
+  validatePayoffStrategy,
+  orderDebts,
+  cashFlowIndex
+} from './debt/payoffOrder.js';
+
+export {
+  type ExtraPaymentChange,
+  type Windfall,
+  MAX_PAYOFF_MONTHS,
+  validateExtraPaymentChanges,
+  validateWindfalls,
+  extraPaymentForMonth,
+  windfallsForMonth,
+  hasCashFlowChanges
+} from './debt/payoffCashFlow.js';
+
 export {
   type DebtItem,
   type DTIResult,
-  calculateDTI
+  type VAResidualInputs,
+  type MortgageQualificationInputs,
+  type ProgramQualification,
+  type MortgageQualificationResult,
+  validateDTIInputs,
+  calculateDTI,
+  validateMortgageQualificationInputs,
+  calculateMortgageQualification
 } from './debt/debtToIncomeRatio.js';
 
+export {
+  type SteadyIncome,
+  type AveragedIncome,
+  type IncomeSource,
+  type QualifyingIncomeLine,
+  type StudentLoanPaymentRule,
+  type VARegion,
+  LOAN_PROGRAMS,
+  LOAN_PROGRAM_LABELS,
+  STUDENT_LOAN_PAYMENT_RULES,
+  VA_RESIDUAL_INCOME,
+  VA_RESIDUAL_INCOME_SMALL_LOAN,
+  VA_REGIONS,
+  VA_RESIDUAL_LOAN_THRESHOLD,
+  VA_RESIDUAL_ADDITIONAL_MEMBER,
+  VA_RESIDUAL_ADDITIONAL_MEMBER_SMALL_LOAN,
+  VA_MAINTENANCE_PER_SQUARE_FOOT,
+  VA_RESIDUAL_INCOME_MARGIN,
+  INCOME_AVERAGING_YEARS,
+  isAveragedIncome,
+  qualifyingIncome,
+  qualifyingStudentLoanPayment,
+  vaResidualIncomeRequired
+} from './debt/lenderPrograms.js';
+
 export {
   type CreditCardInputs,
+  type CreditCardRateInputs,
   type PayoffScenario,
   type MonthlySnapshot as CreditCardMonthlySnapshot,
-  calculateCreditCardPayoff
+  type FixedPaymentPlan,
+  type TargetMonthsPlan,
+  type TargetDatePlan,
+  type PercentOfBalancePlan,
+  type CreditCardPaymentPlan,
+  type CreditCardStrategyResult,
+  type CreditCardStrategyComparison,
+  CREDIT_CARD_RATE_FIELDS,
+  validateCreditCardInputs,
+  calculateCreditCardPayoff,
+  solveCreditCardPayment,
+  validateCreditCardPaymentPlans,
+  compareCreditCardStrategies
 } from './debt/creditCardPayoff.js';
 
+export {
+  type BalanceBucketType,
+  type PromotionalRate,
+  type BalanceBucket,
+  type BucketState,
+  type BucketSnapshot,
+  type BucketSummary,
+  BALANCE_BUCKET_LABELS,
+  DEFERRED_INTEREST_ALLOCATION_MONTHS,
+  validatePromotion,
+  validateBalanceBuckets,
+  createBucketState,
+  isInPromotion,
+  bucketRate,
+  allocateCardPayment,
+  summarizeBucket
+} from './debt/creditCardBuckets.js';
+
+export {
+  type CardInterestMethod,
+  type StatementCycle,
+  DEFAULT_GRACE_PERIOD_DAYS,
+  MIN_GRACE_PERIOD_DAYS,
+  MAX_GRACE_PERIOD_DAYS,
+  CARD_DAYS_IN_YEAR,
+  CARD_INTEREST_METHODS,
+  statementCycle,
+  averageDailyBalance,
+  cycleInterest
+} from './debt/creditCardStatement.js';
+
 export {
   type LoanInputs,
+  type LoanRateInputs,
   type AmortizationSchedule,
   type LoanSummary,
+  LOAN_RATE_FIELDS,
   calculateMonthlyPayment,
+  validateLoanInputs,
   calculateLoanAmortization,
   calculateRemainingBalance
 } from './debt/loanCalculator.js';
 
+export {
+  type InterestOnlyStructure,
+  type BalloonStructure,
+  type GraduatedStructure,
+  type PaymentOverrideStructure,
+  type LoanStructure,
+  type ResolvedLoanStructure,
+  type LoanStructureSummary,
+  DEFAULT_GRADUATED_INCREASE_YEARS,
+  validateLoanStructure,
+  calculateGraduatedPayment,
+  resolveLoanStructure,
+  structuredPayment
+} from './debt/loanStructure.js';
+
+export {
+  type RateChange,
+  type RateChangePolicy,
+  type AppliedRateChange,
+  type VariableRateSummary,
+  MAX_TERM_EXTENSION_MONTHS,
+  validateRateChanges,
+  rateChangeAt,
+  hasRateChanges
+} from './debt/variableRate.js';
+
+export {
+  type DayCountConvention,
+  type ActualPayment,
+  type DayCountSummary,
+  DAY_COUNT_BASIS,
+  DAY_COUNT_CONVENTIONS,
+  accrualDays,
+  accruedInterest,
+  validatePaymentDates,
+  actualPaymentDate
+} from './debt/dayCount.js';
+
 export {
   type MortgageInputs,
+  type MortgageRateInputs,
   type MortgageAmortizationEntry,
   type MortgageSummary,
+  type MortgageRecast,
+  type RecastSummary,
+  MORTGAGE_RATE_FIELDS,
+  validateMortgageInputs,
   calculateMortgage,
   calculateAffordableHome
 } from './debt/mortgageCalculator.js';
 
+export {
+  type PaymentFrequency,
+  type PaymentPeriod,
+  type FrequencyComparison,
+  PAYMENTS_PER_YEAR,
+  PAYMENT_FREQUENCIES,
+  isAcceleratedFrequency,
+  paymentsForTerm,
+  calculatePeriodicPayment,
+  resolvePaymentPeriod,
+  paymentDueDate,
+  compareWithMonthly
+} from './debt/paymentFrequency.js';
+
+export {
+  type LumpSumPrepayment,
+  type RecurringPrepayment,
+  type AnnualPrepayment,
+  type PercentOfPaymentPrepayment,
+  type Prepayment,
+  type PrepaymentSummary,
+  prepaymentForMonth,
+  validatePrepayments,
+  hasPrepayments
+} from './debt/prepayments.js';
+
+export {
+  type PMICancellation,
+  type PMIRemovalReason,
+  type PMIOptions,
+  type PMIRateOptions,
+  type ResolvedPMIOptions,
+  type PMIPosition,
+  type PMISummary,
+  PMI_RATE_FIELDS,
+  PMI_REQUEST_LTV,
+  PMI_AUTOMATIC_LTV,
+  PMI_REAPPRAISAL_RULES,
+  DEFAULT_HOME_APPRECIATION_RATE,
+  resolvePMIOptions,
+  validatePMIOptions,
+  appreciatedHomeValue,
+  pmiRemovalReason
+} from './debt/pmi.js';
+
+export {
+  type PrepaidFinanceCharges,
+  type APRResult,
+  totalPrepaidFinanceCharges,
+  validatePrepaidFinanceCharges,
+  rateFromPaymentStream,
+  calculateAPRFromPayments,
+  calculateLevelPaymentAPR
+} from './debt/apr.js';
+
+export {
+  type ARMProduct,
+  type ARMStressScenario,
+  type ARMProductTerms,
+  type ARMTerms,
+  type ARMRateTerms,
+  type ResolvedARMTerms,
+  type ARMRateReset,
+  type ARMSummary,
+  ARM_PRODUCTS,
+  ARM_RATE_FIELDS,
+  ARM_STRESS_INDEX_STEP,
+  resolveARMTerms,
+  validateARMTerms,
+  isARMResetMonth,
+  armIndexAt,
+  adjustARMRate,
+  calculateARMWorstCasePayment
+} from './debt/adjustableRate.js';
+
+export {
+  type ExistingLoan,
+  type RefinanceOffer,
+  type RefinanceInputs,
+  type ExistingLoanSummary,
+  type RefinanceAnalysis,
+  type RefinanceResult,
+  validateRefinanceInputs,
+  calculateRefinance
+} from './debt/refinanceCalculator.js';
+
+export {
+  type PersonalLoanOffer,
+  type HELOCOffer,
+  type BalanceTransferOffer,
+  type ConsolidationOffer,
+  type DebtConsolidationInputs,
+  type CurrentDebtsSummary,
+  type PromotionRisk,
+  type ConsolidationAnalysis,
+  type DebtConsolidationResult,
+  validateDebtConsolidationInputs,
+  calculateDebtConsolidation
+} from './debt/debtConsolidation.js';
+
+export {
+  type StudentLoanInputs,
+  type StudentLoanYear,
+  type StudentLoanPlanResult,
+  type StudentLoanComparison,
+  validateStudentLoanInputs,
+  calculateStudentLoanRepayment,
+  compareStudentLoanPlans
+} from './debt/studentLoan.js';
+
+export {
+  type FixedStudentLoanPlan,
+  type IDRPlan,
+  type StudentLoanPlan,
+  type PovertyGuidelineRegion,
+  type PovertyGuideline,
+  type IDRPlanRules,
+  type GraduatedSchedule,
+  STUDENT_LOAN_PLANS,
+  STUDENT_LOAN_PLAN_LABELS,
+  IDR_PLAN_RULES,
+  POVERTY_GUIDELINES,
+  DEFAULT_POVERTY_GUIDELINE_YEAR,
+  STANDARD_TERM_MONTHS,
+  EXTENDED_TERM_MONTHS,
+  EXTENDED_PLAN_MIN_BALANCE,
+  GRADUATED_STEP_MONTHS,
+  GRADUATED_MAX_PAYMENT_RATIO,
+  PSLF_QUALIFYING_PAYMENTS,
+  IDR_ZERO_PAYMENT_THRESHOLD,
+  IDR_MINIMUM_PAYMENT,
+  SAVE_SHORT_FORGIVENESS_BALANCE,
+  SAVE_SHORT_FORGIVENESS_MONTHS,
+  isIDRPlan,
+  getPovertyGuidelineYears,
+  povertyGuideline,
+  discretionaryIncome,
+  idrIncomePayment,
+  idrForgivenessMonths,
+  graduatedSchedule,
+  fixedPlanPayment
+} from './debt/studentLoanPlans.js';
+
 // Investment Calculators
 export {
   type CompoundingFrequency,
   type ContributionTiming,
   type CompoundInterestInputs,
+  type CompoundInterestRateInputs,
   type YearlyBreakdown,
   type CompoundInterestResult,
+  COMPOUND_INTEREST_RATE_FIELDS,
   getPeriodsPerYear,
   calculateEffectiveAnnualRate,
   calculateYearsToDouble,
+  validateCompoundInterestInputs,
   calculateCompoundInterest,
   compareCompoundInterestScenarios
 } from './investment/compoundInterest.js';
@@ -139,6 +562,7 @@ export {
   LIABILITY_COLORS,
   ASSET_CATEGORY_NAMES,
   LIABILITY_CATEGORY_NAMES,
+  validateNetWorthInputs,
   calculateNetWorth,
   quickNetWorth,
   calculateTargetNetWorth,
@@ -151,6 +575,7 @@ export {
   type CDCompoundingFrequency,
   type CDTermMonths,
   type CDInputs,
+  type CDRateInputs,
   type CDMonthlyBreakdown,
   type CDResult,
   type CDLadderRung,
@@ -160,11 +585,13 @@ export {
   type EarlyWithdrawalPenalty,
   type CDScenario,
   type CDComparisonResult,
+  CD_RATE_FIELDS,
   TYPICAL_PENALTIES,
   TYPICAL_CD_RATES,
   getCompoundingPeriodsPerYear,
   apyToApr,
   aprToApy,
+  validateCDInputs,
   calculateCD,
   buildCDLadder,
   calculateEarlyWithdrawal,
@@ -192,6 +619,7 @@ export {
   estimateOrdinaryTaxRate,
   calculateDividendTaxBreakdown,
   assessDividendStability,
+  validateDividendIncomeInputs,
   calculateDividendIncome,
   quickDividendYield,
   calculateRequiredInvestment,
@@ -204,11 +632,14 @@ export {
   type SavingsGoalType,
   type ContributionFrequency,
   type SavingsGoalInputs,
+  type SavingsGoalRateInputs,
   type YearlyProgress,
   type GoalMilestone,
   type SavingsScenario,
   type SavingsGoalResult,
+  SAVINGS_GOAL_RATE_FIELDS,
   getContributionPeriodsPerYear,
+  validateSavingsGoalInputs,
   calculateSavingsGoal,
   calculateTimeToGoal,
   calculateEmergencyFundGoal,
@@ -229,6 +660,7 @@ export {
   type RiskAssessment,
   type EmergencyFundResult,
   EXPENSE_CATEGORY_NAMES,
+  validateEmergencyFundInputs,
   calculateEmergencyFund,
   quickEmergencyFund,
   timeToEmergencyFund,
@@ -240,6 +672,7 @@ export {
   type FIREType,
   type WithdrawalStrategy,
   type FIREInputs,
+  type FIRERateInputs,
   type YearlyFIREProjection,
   type FIREMilestone,
   type StressTestScenario as FIREStressTestScenario,
@@ -247,6 +680,7 @@ export {
   type BaristaFIREAnalysis,
   type SensitivityAnalysis,
   type FIREResult,
+  FIRE_RATE_FIELDS,
   HISTORICAL_CRISES,
   FIRE_MULTIPLIERS,
   EXPENSE_MULTIPLIERS,
@@ -262,6 +696,7 @@ export {
   generateSensitivityAnalysis as generateFIRESensitivityAnalysis,
   generateRecommendations as generateFIRERecommendations,
   generateWarnings as generateFIREWarnings,
+  validateFIREInputs,
   calculateFIRE,
   quickFIRENumber,
   quickYearsToFire,
@@ -296,6 +731,7 @@ export {
   generateScenarios,
   generateInsights as generateSavingsInsights,
   generateWarnings as generateSavingsWarnings,
+  validateSavingsRateInputs,
   calculateSavingsRate as calculateSavingsRateAnalysis,
   quickSavingsRate,
   monthlySavingsForRate,
@@ -333,6 +769,7 @@ export {
   calculateTimeHorizonComparison,
   analyzeSequenceRisk,
   generateWhatIfScenarios,
+  validateSWRInputs,
   calculateSWR,
   quickWithdrawalRate,
   quickSuccessRate,
@@ -359,6 +796,7 @@ export {
   BUDGET_RULES,
   BUDGET_CATEGORY_COLORS,
   SUBCATEGORY_NAMES,
+  validateBudgetInputs,
   calculateBudget,
   quickBudget,
   categoryBudget,
@@ -372,12 +810,14 @@ export {
   type LoanTermYears,
   type ComfortLevel,
   type HomeAffordabilityInputs,
+  type HomeAffordabilityRateInputs,
   type MonthlyPaymentBreakdown,
   type DTIAnalysis,
   type LoanComparison,
   type StressTestScenario,
   type AffordabilityZone,
   type HomeAffordabilityResult,
+  HOME_AFFORDABILITY_RATE_FIELDS,
   DTI_LIMITS,
   MIN_DOWN_PAYMENT,
   PMI_RATES,
@@ -388,17 +828,29 @@ export {
   calculateFHAMIP,
   calculateMonthlyMortgagePayment,
   calculateMaxLoanFromPayment,
+  validateHomeAffordabilityInputs,
   calculateHomeAffordability,
   quickAffordabilityEstimate,
   calculateDebtImpact
 } from './budget/homeAffordability.js';
 
+// Discount Points Calculator
+export {
+  type RateSheetOption,
+  type DiscountPointsInputs,
+  type PointsHorizonCost,
+  type PointsOptionAnalysis,
+  type PointsRecommendation,
+  type DiscountPointsResult,
+  DEFAULT_POINTS_HORIZONS,
+  validateDiscountPointsInputs,
+  calculateDiscountPoints
+} from './budget/discountPoints.js';
+
 // Paycheck Calculator
 export {
   type PayType,
   type PayFrequency,
-  type FilingStatus,
-  type USState,
   type PreTaxDeductions,
   type PostTaxDeductions,
   type PaycheckInputs,
@@ -413,9 +865,9 @@ export {
   STANDARD_DEDUCTIONS_2025,
   FICA_2024,
   FICA_2025,
-  STATE_TAX_INFO,
   NO_INCOME_TAX_STATES,
   STATE_NAMES,
+  validatePaycheckInputs,
   calculatePaycheck,
   quickPaycheckEstimate,
   hourlyToAnnual,
@@ -476,6 +928,7 @@ export {
   generateRecommendations as generateFinancialGoalsRecommendations,
   generateWarnings as generateFinancialGoalsWarnings,
   // Main Calculation
+  validateFinancialGoalsInputs,
   calculateFinancialGoals,
   // Quick Utilities
   quickSuccessProbability,
@@ -529,6 +982,7 @@ export {
   generateCoastFIRERecommendations,
   generateCoastFIREWarnings,
   // Main Calculation
+  validateCoastFIREInputs,
   calculateCoastFIRE,
   // Quick Utilities
   quickCoastFIRENumber,
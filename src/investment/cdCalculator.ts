@@ -13,6 +13,26 @@
  * @module investment/cdCalculator
  */
 
+import {
+  type ValidationIssue,
+  checkNumber,
+  checkDecimalRate,
+  checkOneOf,
+  checkCondition,
+  checkDate,
+  enforceValidation,
+  withValidationIssues,
+} from '../utils/validation.js';
+import { type Rate, type WithExplicitRates, normalizeRateFields } from '../utils/rates.js';
+import {
+  type DateInput,
+  addMonths,
+  formatISODate,
+  parseCalendarDate,
+  resolveToday,
+} from '../utils/dates.js';
+import { type CalculatorOptions, type TraceStep, createTrace, withTrace, traceRound } from '../utils/trace.js';
+
 // =============================================================================
 // Types
 // =============================================================================
@@ -34,25 +54,46 @@ export interface CDInputs {
   /** Initial deposit amount */
   principal: number;
   /** Annual Percentage Yield (APY) as a decimal (e.g., 0.05 for 5%) */
-  apy: number;
+  apy: Rate;
   /** Term length in months */
   termMonths: number;
   /** Compounding frequency (default: daily) */
   compoundingFrequency?: CDCompoundingFrequency;
   /** Optional: Federal tax rate as decimal for after-tax calculations */
-  federalTaxRate?: number;
+  federalTaxRate?: Rate;
   /** Optional: State tax rate as decimal for after-tax calculations */
-  stateTaxRate?: number;
-  /** Optional: Expected inflation rate for real return calculations */
-  inflationRate?: number;
+  stateTaxRate?: Rate;
+  /** Optional: Expected inflation rate as decimal for real return calculations */
+  inflationRate?: Rate;
+  /** Date the CD is opened (default: today) */
+  openDate?: DateInput;
+  /** Date to treat as today (default: the current date) */
+  today?: DateInput;
 }
 
+/**
+ * Rate fields of CDInputs and the convention they use
+ */
+export const CD_RATE_FIELDS = {
+  apy: 'rate',
+  federalTaxRate: 'rate',
+  stateTaxRate: 'rate',
+  inflationRate: 'rate',
+} as const;
+
+/**
+ * CD inputs with rates as { percent: 5 } or { rate: 0.05 }
+ */
+export type CDRateInputs = WithExplicitRates<CDInputs, typeof CD_RATE_FIELDS>;
+
 /**
  * Monthly breakdown of CD growth
  */
 export interface CDMonthlyBreakdown {
   /** Month number (1-indexed) */
   month: number;
+  /** Date the month ends (ISO, e.g. '2026-03-01') */
+  date: string;
   /** Starting balance for the month */
   startingBalance: number;
   /** Interest earned during the month */
@@ -73,6 +114,8 @@ export interface CDResult {
   apy: number;
   /** Term in months */
   termMonths: number;
+  /** Maturity date (ISO, e.g. '2027-03-01') */
+  maturityDate: string;
   /** Final balance at maturity */
   maturityValue: number;
   /** Total interest earned */
@@ -97,6 +140,10 @@ export interface CDResult {
   realReturn?: number;
   /** Inflation-adjusted maturity value (if inflation rate provided) */
   realMaturityValue?: number;
+  /** Input validation issues (present only when issues were found) */
+  validationIssues?: ValidationIssue[];
+  /** Calculation steps (present only with { trace: true }) */
+  trace?: TraceStep[];
 }
 
 /**
@@ -294,6 +341,48 @@ function calculateCompoundInterest(
   return principal * Math.pow(1 + apr / periodsPerYear, totalPeriods);
 }
 
+// =============================================================================
+// Input Validation
+// =============================================================================
+
+/**
+ * Validate CD inputs
+ * 
+ * @param rateInputs - CD calculation inputs
+ * @returns Validation issues (empty when inputs are valid)
+ */
+export function validateCDInputs(rateInputs: CDInputs | CDRateInputs): ValidationIssue[] {
+  const inputs = normalizeRateFields(rateInputs, CD_RATE_FIELDS);
+  const issues: ValidationIssue[] = [];
+
+  checkNumber(issues, 'principal', inputs.principal, { min: 0, exclusiveMin: true });
+  checkDecimalRate(issues, 'apy', inputs.apy, { min: 0, label: 'APY' });
+  checkNumber(issues, 'termMonths', inputs.termMonths, { min: 0, exclusiveMin: true, max: 600 });
+  checkOneOf(
+    issues,
+    'compoundingFrequency',
+    inputs.compoundingFrequency,
+    ['daily', 'monthly', 'quarterly', 'semi-annually', 'annually'] as const,
+    false
+  );
+  const federalValid = checkDecimalRate(issues, 'federalTaxRate', inputs.federalTaxRate, { min: 0, required: false });
+  const stateValid = checkDecimalRate(issues, 'stateTaxRate', inputs.stateTaxRate, { min: 0, required: false });
+  if (federalValid && stateValid) {
+    checkCondition(
+      issues,
+      inputs.federalTaxRate! + inputs.stateTaxRate! < 1,
+      'stateTaxRate',
+      'invalid_relationship',
+      'Combined federal and state tax rates must be less than 100%'
+    );
+  }
+  checkDecimalRate(issues, 'inflationRate', inputs.inflationRate, { min: -1, exclusiveMin: true, required: false });
+  checkDate(issues, 'openDate', inputs.openDate);
+  checkDate(issues, 'today', inputs.today);
+
+  return issues;
+}
+
 // =============================================================================
 // Main Functions
 // =============================================================================
@@ -301,10 +390,33 @@ function calculateCompoundInterest(
 /**
  * Calculate CD maturity value and returns
  * 
+ * The monthly breakdown and maturity date count calendar months from
+ * `openDate` (default: today).
+ * 
  * @param inputs - CD calculation inputs
+ * @param options - Validation options (strict mode throws on invalid inputs)
+ *   and `trace` to return the calculation steps
  * @returns Complete CD calculation result
  */
-export function calculateCD(inputs: CDInputs): CDResult {
+export function calculateCD(
+  inputs: CDInputs,
+  options?: CalculatorOptions
+): CDResult;
+/**
+ * Same as above, with rates as { percent } or { rate } (see CD_RATE_FIELDS)
+ */
+export function calculateCD(
+  inputs: CDRateInputs,
+  options?: CalculatorOptions
+): CDResult;
+export function calculateCD(
+  rateInputs: CDInputs | CDRateInputs,
+  options: CalculatorOptions = {}
+): CDResult {
+  const inputs = normalizeRateFields(rateInputs, CD_RATE_FIELDS);
+  const validationIssues = enforceValidation(validateCDInputs(inputs), options);
+  const trace = createTrace(options);
+
   const {
     principal,
     apy,
@@ -314,6 +426,8 @@ export function calculateCD(inputs: CDInputs): CDResult {
     stateTaxRate,
     inflationRate,
   } = inputs;
+  const openDate = (inputs.openDate !== undefined ? parseCalendarDate(inputs.openDate) : undefined)
+    ?? resolveToday(inputs.today);
 
   // Validate inputs
   if (principal <= 0) {
@@ -341,6 +455,29 @@ export function calculateCD(inputs: CDInputs): CDResult {
   // Calculate effective annual rate (should match APY for verification)
   const effectiveAnnualRate = Math.pow(1 + apr / periodsPerYear, periodsPerYear) - 1;
   
+  trace.add({
+    name: 'apr',
+    description: 'Nominal rate that compounds to the quoted APY',
+    formula: 'APR = n × ((1 + APY)^(1/n) − 1)',
+    inputs: { apy, compoundingFrequency, periodsPerYear },
+    result: apr,
+  });
+  trace.add({
+    name: 'maturityValue',
+    description: 'Balance at maturity',
+    formula: 'A = P × (1 + APR/n)^periods',
+    inputs: { principal, apr, periodsPerYear, termMonths },
+    intermediates: { totalPeriods },
+    result: traceRound(maturityValue),
+  });
+  trace.add({
+    name: 'totalInterest',
+    description: 'Interest earned by maturity',
+    formula: 'maturity value − principal',
+    inputs: { maturityValue: traceRound(maturityValue), principal },
+    result: traceRound(totalInterest),
+  });
+
   // Calculate average interest per period
   const interestPerYear = totalInterest / termYears;
   const interestPerMonth = totalInterest / termMonths;
@@ -360,6 +497,7 @@ export function calculateCD(inputs: CDInputs): CDResult {
     
     monthlyBreakdown.push({
       month,
+      date: formatISODate(addMonths(openDate, month)),
       startingBalance,
       interestEarned,
       endingBalance,
@@ -374,6 +512,7 @@ export function calculateCD(inputs: CDInputs): CDResult {
     principal,
     apy,
     termMonths,
+    maturityDate: formatISODate(addMonths(openDate, Math.round(termMonths))),
     maturityValue,
     totalInterest,
     apr,
@@ -389,6 +528,15 @@ export function calculateCD(inputs: CDInputs): CDResult {
     const taxOnInterest = totalInterest * combinedTaxRate;
     const afterTaxInterest = totalInterest - taxOnInterest;
     
+    trace.add({
+      name: 'afterTaxInterest',
+      description: 'Interest left after federal and state income tax',
+      formula: 'interest × (1 − (federal rate + state rate))',
+      inputs: { totalInterest: traceRound(totalInterest), federalTaxRate: federalTaxRate ?? 0, stateTaxRate: stateTaxRate ?? 0 },
+      intermediates: { taxOnInterest: traceRound(taxOnInterest) },
+      result: traceRound(afterTaxInterest),
+    });
+
     result.taxOnInterest = taxOnInterest;
     result.afterTaxInterest = afterTaxInterest;
     result.afterTaxMaturityValue = principal + afterTaxInterest;
@@ -401,11 +549,19 @@ export function calculateCD(inputs: CDInputs): CDResult {
     const realReturnRate = (1 + nominalReturn) / Math.pow(1 + inflationRate, termYears) - 1;
     const realMaturityValue = principal * (1 + realReturnRate);
     
+    trace.add({
+      name: 'realReturn',
+      description: 'Return after inflation over the term',
+      formula: '(1 + nominal return) ÷ (1 + inflation)^years − 1',
+      inputs: { nominalReturn, inflationRate, termYears },
+      result: realReturnRate,
+    });
+
     result.realReturn = realReturnRate;
     result.realMaturityValue = realMaturityValue;
   }
 
-  return result;
+  return withTrace(withValidationIssues(result, validationIssues), trace);
 }
 
 /**
@@ -17,6 +17,16 @@
  * - e = Euler's number (~2.71828)
  */
 
+import {
+  type ValidationIssue,
+  checkNumber,
+  checkOneOf,
+  enforceValidation,
+  withValidationIssues,
+} from '../utils/validation.js';
+import { type Percent, type WithExplicitRates, normalizeRateFields } from '../utils/rates.js';
+import { type CalculatorOptions, type TraceStep, createTrace, withTrace, traceRound } from '../utils/trace.js';
+
 /**
  * Compounding frequency options
  */
@@ -34,7 +44,7 @@ export interface CompoundInterestInputs {
   /** Initial investment amount */
   principal: number;
   /** Annual interest rate as a percentage (e.g., 7 for 7%) */
-  annualRate: number;
+  annualRate: Percent;
   /** Investment duration in years */
   years: number;
   /** Monthly contribution amount (optional, defaults to 0) */
@@ -45,6 +55,16 @@ export interface CompoundInterestInputs {
   contributionTiming?: ContributionTiming;
 }
 
+/**
+ * Rate fields of CompoundInterestInputs and the convention they use
+ */
+export const COMPOUND_INTEREST_RATE_FIELDS = { annualRate: 'percent' } as const;
+
+/**
+ * Compound interest inputs with rates as { percent: 7 } or { rate: 0.07 }
+ */
+export type CompoundInterestRateInputs = WithExplicitRates<CompoundInterestInputs, typeof COMPOUND_INTEREST_RATE_FIELDS>;
+
 /**
  * Year-by-year breakdown of investment growth
  */
@@ -79,6 +99,10 @@ export interface CompoundInterestResult {
   yearsToDouble: number;
   /** Year-by-year breakdown */
   yearlyBreakdown: YearlyBreakdown[];
+  /** Input validation issues (present only when issues were found) */
+  validationIssues?: ValidationIssue[];
+  /** Calculation steps (present only with { trace: true }) */
+  trace?: TraceStep[];
 }
 
 /**
@@ -141,6 +165,32 @@ export function calculateYearsToDouble(annualRate: number): number {
   return 72 / annualRate;
 }
 
+/**
+ * Validate compound interest inputs
+ * 
+ * @param rateInputs - Calculation parameters
+ * @returns Validation issues (empty when inputs are valid)
+ */
+export function validateCompoundInterestInputs(rateInputs: CompoundInterestInputs | CompoundInterestRateInputs): ValidationIssue[] {
+  const inputs = normalizeRateFields(rateInputs, COMPOUND_INTEREST_RATE_FIELDS);
+  const issues: ValidationIssue[] = [];
+
+  checkNumber(issues, 'principal', inputs.principal, { min: 0 });
+  checkNumber(issues, 'annualRate', inputs.annualRate, { min: 0, max: 100 });
+  checkNumber(issues, 'years', inputs.years, { min: 0, exclusiveMin: true, max: 200 });
+  checkNumber(issues, 'monthlyContribution', inputs.monthlyContribution, { min: 0, required: false });
+  checkOneOf(
+    issues,
+    'compoundingFrequency',
+    inputs.compoundingFrequency,
+    ['daily', 'monthly', 'quarterly', 'semi-annually', 'annually', 'continuously'] as const,
+    false
+  );
+  checkOneOf(issues, 'contributionTiming', inputs.contributionTiming, ['beginning', 'end'] as const, false);
+
+  return issues;
+}
+
 /**
  * Calculate compound interest with optional regular contributions
  * 
@@ -148,6 +198,8 @@ export function calculateYearsToDouble(annualRate: number): number {
  * Returns detailed year-by-year breakdown for visualization.
  * 
  * @param inputs - Calculation parameters
+ * @param options - Validation options (strict mode throws on invalid inputs)
+ *   and `trace` to return the calculation steps
  * @returns Complete calculation results with yearly breakdown
  * 
  * @example
@@ -165,8 +217,24 @@ export function calculateYearsToDouble(annualRate: number): number {
  * ```
  */
 export function calculateCompoundInterest(
-  inputs: CompoundInterestInputs
+  inputs: CompoundInterestInputs,
+  options?: CalculatorOptions
+): CompoundInterestResult;
+/**
+ * Same as above, with rates as { percent } or { rate } (see COMPOUND_INTEREST_RATE_FIELDS)
+ */
+export function calculateCompoundInterest(
+  inputs: CompoundInterestRateInputs,
+  options?: CalculatorOptions
+): CompoundInterestResult;
+export function calculateCompoundInterest(
+  rateInputs: CompoundInterestInputs | CompoundInterestRateInputs,
+  options: CalculatorOptions = {}
 ): CompoundInterestResult {
+  const inputs = normalizeRateFields(rateInputs, COMPOUND_INTEREST_RATE_FIELDS);
+  const validationIssues = enforceValidation(validateCompoundInterestInputs(inputs), options);
+  const trace = createTrace(options);
+
   const {
     principal,
     annualRate,
@@ -274,14 +342,54 @@ export function calculateCompoundInterest(
   const effectiveAnnualRate = calculateEffectiveAnnualRate(annualRate, compoundingFrequency);
   const yearsToDouble = calculateYearsToDouble(annualRate);
 
-  return {
+  trace.add({
+    name: 'finalBalance',
+    description: compoundingFrequency === 'continuously'
+      ? 'Balance with continuous compounding; each year\'s contributions are added at the start of the year'
+      : `Balance with ${compoundingFrequency} compounding and contributions at the ${contributionTiming} of each period`,
+    formula: compoundingFrequency === 'continuously'
+      ? 'A = (balance + annual contribution) × e^r, year by year'
+      : 'A = P(1 + r/n)^(nt) + PMT/n × ((1 + r/n)^(nt) − 1) ÷ (r/n)',
+    inputs: {
+      principal,
+      annualRate,
+      years,
+      monthlyContribution,
+      periodsPerYear: getPeriodsPerYear(compoundingFrequency),
+    },
+    intermediates: { rateDecimal: r, annualContribution: PMT },
+    result: traceRound(finalBalance),
+  });
+  trace.add({
+    name: 'totalInterest',
+    description: 'Growth beyond the money contributed',
+    formula: 'interest = final balance − (principal + PMT × years)',
+    inputs: { finalBalance: traceRound(finalBalance), totalContributions },
+    result: traceRound(totalInterest),
+  });
+  trace.add({
+    name: 'effectiveAnnualRate',
+    description: 'Annual yield after compounding (APY)',
+    formula: compoundingFrequency === 'continuously' ? 'APY = e^r − 1' : 'APY = (1 + r/n)^n − 1',
+    inputs: { annualRate, compoundingFrequency },
+    result: traceRound(effectiveAnnualRate, 4),
+  });
+  trace.add({
+    name: 'yearsToDouble',
+    description: 'Approximate years for money to double',
+    formula: 'Rule of 72: years ≈ 72 ÷ annual rate',
+    inputs: { annualRate },
+    result: traceRound(yearsToDouble, 1),
+  });
+
+  return withTrace(withValidationIssues({
     finalBalance,
     totalContributions,
     totalInterest,
     effectiveAnnualRate,
     yearsToDouble,
     yearlyBreakdown,
-  };
+  }, validationIssues), trace);
 }
 
 /**
@@ -15,10 +15,32 @@
  * - DRIP compounds by purchasing additional shares with dividends
  */
 
+import {
+  type FilingStatus,
+  DEFAULT_TAX_YEAR,
+  getTaxYearConfig,
+  normalizeFilingStatus,
+  getStandardDeduction,
+  findBracket,
+  calculateOrdinaryIncomeTax,
+  calculateCapitalGainsTax,
+  calculateNetInvestmentIncomeTax
+} from '../tax/federalTax.js';
+import { type USState, STATE_TAX_INFO, calculateStateTaxOnAdditionalIncome } from '../tax/stateTax.js';
+import {
+  type ValidationIssue,
+  checkNumber,
+  checkOneOf,
+  enforceValidation,
+  withValidationIssues,
+} from '../utils/validation.js';
+import { type CalculatorOptions, type TraceStep, createTrace, withTrace, traceRound } from '../utils/trace.js';
+
 /**
  * Tax filing status for dividend tax calculations
+ * (accepts both 'married_joint' and the shared 'married_jointly' spelling)
  */
-export type DividendTaxFilingStatus = 'single' | 'married_joint' | 'married_separate' | 'head_of_household';
+export type DividendTaxFilingStatus = 'single' | 'married_joint' | 'married_separate' | 'head_of_household' | FilingStatus;
 
 /**
  * Dividend payment frequency
@@ -58,6 +80,10 @@ export interface DividendIncomeInputs {
   qualifiedDividendPercentage?: number;
   /** State income tax rate as percentage (0-13) */
   stateTaxRate?: number;
+  /** State of residence - when set, state tax uses the state's progressive brackets instead of stateTaxRate */
+  state?: USState;
+  /** Tax year for federal brackets (default: DEFAULT_TAX_YEAR) */
+  taxYear?: number;
 }
 
 /**
@@ -122,6 +148,8 @@ export interface DividendTaxBreakdown {
   qualifiedDividendTax: number;
   /** Federal tax on ordinary dividends */
   ordinaryDividendTax: number;
+  /** Net Investment Income Tax (3.8%) on dividends */
+  netInvestmentIncomeTax: number;
   /** State tax on all dividends */
   stateTax: number;
   /** Total tax on dividends */
@@ -177,6 +205,10 @@ export interface DividendIncomeResult {
     target: number;
     yearsToReach: number | null;
   }[];
+  /** Input validation issues (present only when issues were found) */
+  validationIssues?: ValidationIssue[];
+  /** Calculation steps (present only with { trace: true }) */
+  trace?: TraceStep[];
 }
 
 /**
@@ -241,77 +273,60 @@ export function calculateAnnualDividendIncome(
   return shares * annualDividendPerShare;
 }
 
-/**
- * 2024 Qualified Dividend Tax Brackets (same as long-term capital gains)
- */
-const QUALIFIED_DIVIDEND_BRACKETS_2024: Record<DividendTaxFilingStatus, { threshold15: number; threshold20: number }> = {
-  single: { threshold15: 47025, threshold20: 518900 },
-  married_joint: { threshold15: 94050, threshold20: 583750 },
-  married_separate: { threshold15: 47025, threshold20: 291850 },
-  head_of_household: { threshold15: 63000, threshold20: 551350 },
-};
-
-/**
- * 2024 Ordinary Income Tax Brackets (simplified for dividend calculations)
- */
-const ORDINARY_INCOME_BRACKETS_2024: Record<DividendTaxFilingStatus, number[]> = {
-  single: [0.10, 0.12, 0.22, 0.24, 0.32, 0.35, 0.37],
-  married_joint: [0.10, 0.12, 0.22, 0.24, 0.32, 0.35, 0.37],
-  married_separate: [0.10, 0.12, 0.22, 0.24, 0.32, 0.35, 0.37],
-  head_of_household: [0.10, 0.12, 0.22, 0.24, 0.32, 0.35, 0.37],
-};
-
 /**
  * Calculate qualified dividend tax rate based on income level
  * 
+ * Uses the shared long-term capital gains brackets (0%, 15%, 20%).
+ * 
  * @param taxableIncome - Estimated taxable income
  * @param filingStatus - Tax filing status
+ * @param taxYear - Tax year (default: DEFAULT_TAX_YEAR)
  * @returns Tax rate as decimal (0, 0.15, or 0.20)
  */
 export function getQualifiedDividendTaxRate(
   taxableIncome: number,
-  filingStatus: DividendTaxFilingStatus
+  filingStatus: DividendTaxFilingStatus,
+  taxYear: number = DEFAULT_TAX_YEAR
 ): number {
-  const brackets = QUALIFIED_DIVIDEND_BRACKETS_2024[filingStatus];
-  
-  if (taxableIncome <= brackets.threshold15) {
-    return 0; // 0% bracket
-  } else if (taxableIncome <= brackets.threshold20) {
-    return 0.15; // 15% bracket
-  } else {
-    return 0.20; // 20% bracket
-  }
+  const brackets = getTaxYearConfig(taxYear).capitalGainsBrackets[normalizeFilingStatus(filingStatus)];
+  return findBracket(taxableIncome, brackets).rate;
 }
 
 /**
- * Estimate ordinary income tax rate (simplified)
+ * Estimate ordinary income tax rate
  * 
  * @param taxableIncome - Estimated taxable income
  * @param filingStatus - Tax filing status
- * @returns Estimated marginal tax rate as decimal
+ * @param taxYear - Tax year (default: DEFAULT_TAX_YEAR)
+ * @returns Marginal tax rate as decimal
  */
 export function estimateOrdinaryTaxRate(
   taxableIncome: number,
-  filingStatus: DividendTaxFilingStatus
+  filingStatus: DividendTaxFilingStatus,
+  taxYear: number = DEFAULT_TAX_YEAR
 ): number {
-  // Simplified marginal rate estimation
-  if (taxableIncome <= 11600) return 0.10;
-  if (taxableIncome <= 47150) return 0.12;
-  if (taxableIncome <= 100525) return 0.22;
-  if (taxableIncome <= 191950) return 0.24;
-  if (taxableIncome <= 243725) return 0.32;
-  if (taxableIncome <= 609350) return 0.35;
-  return 0.37;
+  return calculateOrdinaryIncomeTax(taxableIncome, filingStatus, taxYear).marginalRate;
 }
 
 /**
  * Calculate tax-adjusted dividend income
  * 
+ * Dividends are stacked on top of other taxable income:
+ * - Ordinary dividends are taxed at ordinary rates (incremental tax)
+ * - Qualified dividends are taxed at 0/15/20% on top of all ordinary income
+ * - NIIT (3.8%) applies to dividends above the MAGI threshold
+ *   (MAGI approximated as taxable income plus dividends)
+ * - State tax is the progressive increase when a state is given
+ *   (taxable income plus the federal standard deduction approximates state
+ *   gross income), otherwise the flat stateTaxRate percentage
+ * 
  * @param grossDividendIncome - Total dividend income before taxes
  * @param qualifiedPercentage - Percentage of dividends that are qualified (0-100)
- * @param taxableIncome - Estimated total taxable income
+ * @param taxableIncome - Estimated taxable income excluding the dividends
  * @param filingStatus - Tax filing status
  * @param stateTaxRate - State income tax rate as percentage
+ * @param taxYear - Tax year (default: DEFAULT_TAX_YEAR)
+ * @param state - State of residence for progressive state tax (optional)
  * @returns Tax breakdown with net income
  */
 export function calculateDividendTaxBreakdown(
@@ -319,19 +334,44 @@ export function calculateDividendTaxBreakdown(
   qualifiedPercentage: number,
   taxableIncome: number,
   filingStatus: DividendTaxFilingStatus,
-  stateTaxRate: number = 0
+  stateTaxRate: number = 0,
+  taxYear: number = DEFAULT_TAX_YEAR,
+  state?: USState
 ): DividendTaxBreakdown {
   const qualifiedDividends = grossDividendIncome * (qualifiedPercentage / 100);
   const ordinaryDividends = grossDividendIncome - qualifiedDividends;
   
-  const qualifiedRate = getQualifiedDividendTaxRate(taxableIncome, filingStatus);
-  const ordinaryRate = estimateOrdinaryTaxRate(taxableIncome, filingStatus);
+  // Ordinary dividends: incremental ordinary tax
+  const ordinaryIncome = taxableIncome + ordinaryDividends;
+  const ordinaryDividendTax =
+    calculateOrdinaryIncomeTax(ordinaryIncome, filingStatus, taxYear).tax -
+    calculateOrdinaryIncomeTax(taxableIncome, filingStatus, taxYear).tax;
   
-  const qualifiedDividendTax = qualifiedDividends * qualifiedRate;
-  const ordinaryDividendTax = ordinaryDividends * ordinaryRate;
-  const stateTax = grossDividendIncome * (stateTaxRate / 100);
+  // Qualified dividends: stacked on top of all ordinary income
+  const qualifiedDividendTax = calculateCapitalGainsTax(
+    ordinaryIncome,
+    qualifiedDividends,
+    filingStatus,
+    taxYear
+  ).tax;
+  
+  const netInvestmentIncomeTax = calculateNetInvestmentIncomeTax(
+    taxableIncome + grossDividendIncome,
+    grossDividendIncome,
+    filingStatus,
+    taxYear
+  );
+  const stateTax = state
+    ? calculateStateTaxOnAdditionalIncome(
+        state,
+        taxableIncome + getStandardDeduction(filingStatus, taxYear),
+        grossDividendIncome,
+        filingStatus,
+        taxYear
+      ).tax
+    : grossDividendIncome * (stateTaxRate / 100);
   
-  const totalTax = qualifiedDividendTax + ordinaryDividendTax + stateTax;
+  const totalTax = qualifiedDividendTax + ordinaryDividendTax + netInvestmentIncomeTax + stateTax;
   const netDividendIncome = grossDividendIncome - totalTax;
   const effectiveTaxRate = grossDividendIncome > 0 ? (totalTax / grossDividendIncome) * 100 : 0;
   
@@ -341,6 +381,7 @@ export function calculateDividendTaxBreakdown(
     ordinaryDividends,
     qualifiedDividendTax,
     ordinaryDividendTax,
+    netInvestmentIncomeTax,
     stateTax,
     totalTax,
     netDividendIncome,
@@ -443,6 +484,44 @@ export function assessDividendStability(
   };
 }
 
+/**
+ * Validate dividend income inputs
+ * 
+ * @param inputs - Calculation parameters
+ * @returns Validation issues (empty when inputs are valid)
+ */
+export function validateDividendIncomeInputs(inputs: DividendIncomeInputs): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  
+  checkNumber(issues, 'initialInvestment', inputs.initialInvestment, { min: 0 });
+  checkNumber(issues, 'sharePrice', inputs.sharePrice, { min: 0, exclusiveMin: true });
+  checkNumber(issues, 'annualDividendPerShare', inputs.annualDividendPerShare, { min: 0 });
+  checkNumber(issues, 'dividendGrowthRate', inputs.dividendGrowthRate, { min: -100, max: 100, required: false });
+  checkNumber(issues, 'priceAppreciationRate', inputs.priceAppreciationRate, { min: -100, max: 100, required: false });
+  checkNumber(issues, 'years', inputs.years, { min: 0, exclusiveMin: true, max: 100 });
+  checkNumber(issues, 'monthlyContribution', inputs.monthlyContribution, { min: 0, required: false });
+  checkOneOf(
+    issues,
+    'dividendFrequency',
+    inputs.dividendFrequency,
+    ['monthly', 'quarterly', 'semi-annually', 'annually'] as const,
+    false
+  );
+  checkOneOf(
+    issues,
+    'taxFilingStatus',
+    inputs.taxFilingStatus,
+    ['single', 'married_joint', 'married_separate', 'married_jointly', 'married_separately', 'head_of_household'] as const,
+    false
+  );
+  checkNumber(issues, 'qualifiedDividendPercentage', inputs.qualifiedDividendPercentage, { min: 0, max: 100, required: false });
+  checkNumber(issues, 'stateTaxRate', inputs.stateTaxRate, { min: 0, max: 100, required: false });
+  checkOneOf(issues, 'state', inputs.state, Object.keys(STATE_TAX_INFO) as USState[], false);
+  checkNumber(issues, 'taxYear', inputs.taxYear, { integer: true, required: false });
+  
+  return issues;
+}
+
 /**
  * Calculate comprehensive dividend income projections
  * 
@@ -454,11 +533,17 @@ export function assessDividendStability(
  * - Tax calculations
  * 
  * @param inputs - Calculation parameters
+ * @param options - Validation options (strict mode throws on invalid inputs)
+ *   and `trace` to return the calculation steps
  * @returns Complete dividend income results with projections
  */
 export function calculateDividendIncome(
-  inputs: DividendIncomeInputs
+  inputs: DividendIncomeInputs,
+  options: CalculatorOptions = {}
 ): DividendIncomeResult {
+  const validationIssues = enforceValidation(validateDividendIncomeInputs(inputs), options);
+  const trace = createTrace(options);
+  
   const {
     initialInvestment,
     sharePrice,
@@ -472,6 +557,8 @@ export function calculateDividendIncome(
     taxFilingStatus,
     qualifiedDividendPercentage = 100,
     stateTaxRate = 0,
+    state,
+    taxYear = DEFAULT_TAX_YEAR,
   } = inputs;
 
   // Validate inputs
@@ -502,6 +589,28 @@ export function calculateDividendIncome(
     annualDividendPerShare,
   };
 
+  trace.add({
+    name: 'startingShares',
+    description: 'Shares bought with the initial investment',
+    formula: 'shares = initial investment ÷ share price',
+    inputs: { initialInvestment, sharePrice },
+    result: currentShares,
+  });
+  trace.add({
+    name: 'dividendYield',
+    description: 'Current dividend yield',
+    formula: 'yield = annual dividend per share ÷ share price × 100',
+    inputs: { annualDividendPerShare, sharePrice },
+    result: traceRound(currentYield.dividendYield, 4),
+  });
+  trace.add({
+    name: 'startingAnnualIncome',
+    description: 'Annual dividend income today',
+    formula: 'shares × annual dividend per share',
+    inputs: { shares: currentShares, annualDividendPerShare },
+    result: traceRound(currentYield.annualDividendIncome),
+  });
+
   const projections: YearlyDividendProjection[] = [];
   
   // Year-by-year projection
@@ -578,6 +687,24 @@ export function calculateDividendIncome(
     ? ((finalAnnualDividendIncome - currentYield.annualDividendIncome) / currentYield.annualDividendIncome) * 100
     : 0;
   
+  trace.add({
+    name: 'finalAnnualDividendIncome',
+    description: reinvestDividends
+      ? `Annual income after ${years} years of dividend growth, contributions and reinvested dividends`
+      : `Annual income after ${years} years of dividend growth and contributions`,
+    formula: 'final shares × dividend per share × (1 + dividend growth)^(years − 1)',
+    inputs: { dividendGrowthRate, priceAppreciationRate, monthlyContribution, paymentsPerYear, reinvestDividends },
+    intermediates: { finalShares: currentShares, finalDividendPerShare: currentDividendPerShare },
+    result: traceRound(finalAnnualDividendIncome),
+  });
+  trace.add({
+    name: 'annualizedReturn',
+    description: 'Compound annual return on everything contributed',
+    formula: '((portfolio value + dividends taken as cash) ÷ contributions)^(1/years) − 1',
+    inputs: { totalValue: traceRound(totalValue), cumulativeContributions, years },
+    result: traceRound(annualizedReturn, 4),
+  });
+
   // Calculate income milestones
   const incomeMilestones = [500, 1000, 2000, 5000, 10000].map(target => {
     const yearReached = projections.find(p => {
@@ -600,11 +727,32 @@ export function calculateDividendIncome(
       qualifiedDividendPercentage,
       estimatedTaxableIncome,
       taxFilingStatus,
-      stateTaxRate
+      stateTaxRate,
+      taxYear,
+      state
     );
+    trace.add({
+      name: 'taxBreakdown',
+      description: 'Tax on the final year of dividends, stacked on $75,000 of other taxable income',
+      formula: 'qualified at capital gains rates + ordinary at income tax rates + NIIT + state tax',
+      inputs: {
+        grossDividendIncome: traceRound(finalAnnualDividendIncome),
+        qualifiedDividendPercentage,
+        estimatedTaxableIncome,
+        filingStatus: taxFilingStatus,
+      },
+      intermediates: {
+        qualifiedDividendTax: traceRound(taxBreakdown.qualifiedDividendTax),
+        ordinaryDividendTax: traceRound(taxBreakdown.ordinaryDividendTax),
+        netInvestmentIncomeTax: traceRound(taxBreakdown.netInvestmentIncomeTax),
+        stateTax: traceRound(taxBreakdown.stateTax),
+      },
+      result: traceRound(taxBreakdown.totalTax),
+      source: state ? `FEDERAL_TAX_YEARS[${taxYear}], STATE_TAX_INFO.${state}` : `FEDERAL_TAX_YEARS[${taxYear}]`,
+    });
   }
   
-  return {
+  return withTrace(withValidationIssues({
     currentYield,
     projections,
     finalPortfolioValue,
@@ -617,7 +765,7 @@ export function calculateDividendIncome(
     taxBreakdown,
     incomeGrowthPercentage,
     incomeMilestones,
-  };
+  }, validationIssues), trace);
 }
 
 /**
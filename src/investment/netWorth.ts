@@ -16,6 +16,16 @@
  * - Net worth growth projections
  */
 
+import {
+  type ValidationIssue,
+  addIssue,
+  checkNumber,
+  checkOneOf,
+  enforceValidation,
+  withValidationIssues,
+} from '../utils/validation.js';
+import { type CalculatorOptions, type TraceStep, createTrace, withTrace, traceRound } from '../utils/trace.js';
+
 // ============================================================================
 // TYPES
 // ============================================================================
@@ -250,6 +260,10 @@ export interface NetWorthResult {
   projections: YearlyProjection[];
   /** Whether net worth is positive */
   isPositive: boolean;
+  /** Input validation issues (present only when issues were found) */
+  validationIssues?: ValidationIssue[];
+  /** Calculation steps (present only with { trace: true }) */
+  trace?: TraceStep[];
 }
 
 // ============================================================================
@@ -504,6 +518,52 @@ function generateRecommendations(
   return recommendations.slice(0, 4); // Limit to 4 recommendations
 }
 
+// ============================================================================
+// INPUT VALIDATION
+// ============================================================================
+
+/**
+ * Validate net worth inputs
+ * 
+ * Individual entries are reported by index (e.g. 'liabilities[0].balance').
+ * 
+ * @param inputs - Asset and liability data along with optional user information
+ * @returns Validation issues (empty when inputs are valid)
+ */
+export function validateNetWorthInputs(inputs: NetWorthInputs): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  
+  if (!Array.isArray(inputs.assets)) {
+    addIssue(issues, 'assets', 'required', 'Assets list is required (use an empty list for none)');
+  }
+  if (!Array.isArray(inputs.liabilities)) {
+    addIssue(issues, 'liabilities', 'required', 'Liabilities list is required (use an empty list for none)');
+  }
+  
+  inputs.assets?.forEach((asset, i) => {
+    checkOneOf(issues, `assets[${i}].category`, asset.category, Object.keys(ASSET_CATEGORY_NAMES) as AssetCategory[]);
+    checkNumber(issues, `assets[${i}].value`, asset.value, { min: 0 });
+  });
+  inputs.liabilities?.forEach((liability, i) => {
+    checkOneOf(
+      issues,
+      `liabilities[${i}].category`,
+      liability.category,
+      Object.keys(LIABILITY_CATEGORY_NAMES) as LiabilityCategory[]
+    );
+    checkNumber(issues, `liabilities[${i}].balance`, liability.balance, { min: 0 });
+    checkNumber(issues, `liabilities[${i}].interestRate`, liability.interestRate, { min: 0, max: 100, required: false });
+    checkNumber(issues, `liabilities[${i}].monthlyPayment`, liability.monthlyPayment, { min: 0, required: false });
+  });
+  
+  checkNumber(issues, 'age', inputs.age, { min: 0, max: 120, required: false });
+  checkNumber(issues, 'annualIncome', inputs.annualIncome, { min: 0, required: false });
+  checkNumber(issues, 'expectedReturnRate', inputs.expectedReturnRate, { min: -100, max: 100, required: false });
+  checkNumber(issues, 'monthlySavingsRate', inputs.monthlySavingsRate, { min: 0, required: false });
+  
+  return issues;
+}
+
 // ============================================================================
 // MAIN CALCULATION FUNCTIONS
 // ============================================================================
@@ -512,6 +572,8 @@ function generateRecommendations(
  * Calculate complete net worth analysis
  * 
  * @param inputs - Asset and liability data along with optional user information
+ * @param options - Validation options (strict mode throws on invalid inputs)
+ *   and `trace` to return the calculation steps
  * @returns Complete net worth calculation with breakdowns and projections
  * 
  * @example
@@ -534,7 +596,13 @@ function generateRecommendations(
  * console.log(result.netWorth); // 160,000
  * ```
  */
-export function calculateNetWorth(inputs: NetWorthInputs): NetWorthResult {
+export function calculateNetWorth(
+  inputs: NetWorthInputs,
+  options: CalculatorOptions = {}
+): NetWorthResult {
+  const validationIssues = enforceValidation(validateNetWorthInputs(inputs), options);
+  const trace = createTrace(options);
+  
   const {
     assets,
     liabilities,
@@ -656,6 +724,28 @@ export function calculateNetWorth(inputs: NetWorthInputs): NetWorthResult {
 
   const netWorth = totalAssets - totalLiabilities;
 
+  trace.add({
+    name: 'totalAssets',
+    description: 'Sum of all asset values by category (negative values count as zero)',
+    formula: 'cash + investments + retirement + real estate + vehicles + other',
+    inputs: { ...assetSummary },
+    result: totalAssets,
+  });
+  trace.add({
+    name: 'totalLiabilities',
+    description: 'Sum of all debt balances by category',
+    formula: 'mortgage + auto + student + credit cards + personal + other',
+    inputs: { ...liabilitySummary },
+    result: totalLiabilities,
+  });
+  trace.add({
+    name: 'netWorth',
+    description: 'What you own minus what you owe',
+    formula: 'net worth = total assets − total liabilities',
+    inputs: { totalAssets, totalLiabilities },
+    result: netWorth,
+  });
+
   // Create asset allocation for visualization
   const assetAllocation: AssetAllocation[] = [];
   if (assetSummary.cash > 0) {
@@ -776,6 +866,20 @@ export function calculateNetWorth(inputs: NetWorthInputs): NetWorthResult {
     netWorth
   );
 
+  trace.add({
+    name: 'financialHealth',
+    description: 'Health score from debt, liquidity and income ratios',
+    formula: 'debt-to-asset = liabilities ÷ assets; liquidity = liquid assets ÷ assets; debt-to-income = liabilities ÷ income',
+    inputs: { totalAssets, totalLiabilities, liquidAssets, annualIncome: annualIncome ?? null },
+    intermediates: {
+      debtToAssetRatio: traceRound(debtToAssetRatio, 4),
+      liquidityRatio: traceRound(liquidityRatio, 4),
+      debtToIncomeRatio: debtToIncomeRatio === null ? null : traceRound(debtToIncomeRatio, 4),
+      score,
+    },
+    result: rating,
+  });
+
   const recommendations = generateRecommendations(
     netWorth,
     debtToAssetRatio,
@@ -811,6 +915,15 @@ export function calculateNetWorth(inputs: NetWorthInputs): NetWorthResult {
       status = 'at-median';
     }
 
+    trace.add({
+      name: 'ageComparison',
+      description: 'Percentile of net worth among households in the same age bracket',
+      inputs: { age, netWorth },
+      intermediates: { median: bracketData.median, p25: bracketData.p25, p75: bracketData.p75, p90: bracketData.p90 },
+      result: percentile,
+      source: `NET_WORTH_BY_AGE['${ageBracket}']`,
+    });
+
     ageComparison = {
       ageBracket: getAgeBracketLabel(ageBracket),
       percentile,
@@ -848,7 +961,15 @@ export function calculateNetWorth(inputs: NetWorthInputs): NetWorthResult {
     projectedLiabilities = Math.max(0, projectedLiabilities * 0.95);
   }
 
-  return {
+  trace.add({
+    name: 'projectedNetWorth',
+    description: 'Net worth in 10 years: assets grow with returns and savings, debts shrink 5% a year',
+    formula: 'assets × (1 + return) + annual savings; liabilities × 0.95 (each year)',
+    inputs: { expectedReturnRate, annualSavings, totalAssets, totalLiabilities },
+    result: traceRound(projections[10].projectedNetWorth),
+  });
+
+  return withTrace(withValidationIssues({
     netWorth,
     totalAssets,
     totalLiabilities,
@@ -862,7 +983,7 @@ export function calculateNetWorth(inputs: NetWorthInputs): NetWorthResult {
     ageComparison,
     projections,
     isPositive: netWorth >= 0,
-  };
+  }, validationIssues), trace);
 }
 
 /**
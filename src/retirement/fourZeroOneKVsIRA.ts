@@ -4,6 +4,14 @@
  * Compares tax-advantaged retirement accounts including employer match benefits.
  */
 
+import {
+  type ValidationIssue,
+  checkNumber,
+  enforceValidation,
+  withValidationIssues
+} from '../utils/validation.js';
+import { type CalculatorOptions, type TraceStep, createTrace, withTrace, traceRound } from '../utils/trace.js';
+
 export interface AccountInputs {
   monthlyContribution: number;
   employerMatchPercentage: number; // e.g., 50 for 50% match
@@ -22,6 +30,29 @@ export interface AccountComparison {
   afterTaxValue: number;
   employerMatch: number;
   totalContributions: number;
+  validationIssues?: ValidationIssue[];
+  trace?: TraceStep[];
+}
+
+/**
+ * Validate account comparison inputs
+ * 
+ * @param inputs - Account parameters
+ * @returns Validation issues (empty when inputs are valid)
+ */
+export function validateAccountInputs(inputs: AccountInputs): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  
+  checkNumber(issues, 'monthlyContribution', inputs.monthlyContribution, { min: 0 });
+  checkNumber(issues, 'employerMatchPercentage', inputs.employerMatchPercentage, { min: 0, max: 100 });
+  checkNumber(issues, 'employerMatchCap', inputs.employerMatchCap, { min: 0, max: 100 });
+  checkNumber(issues, 'annualSalary', inputs.annualSalary, { min: 0, exclusiveMin: true });
+  checkNumber(issues, 'years', inputs.years, { min: 0, max: 100 });
+  checkNumber(issues, 'expectedReturn', inputs.expectedReturn, { min: -100, max: 100 });
+  checkNumber(issues, 'currentTaxRate', inputs.currentTaxRate, { min: 0, max: 100 });
+  checkNumber(issues, 'retirementTaxRate', inputs.retirementTaxRate, { min: 0, max: 100 });
+  
+  return issues;
 }
 
 /**
@@ -67,12 +98,18 @@ function calculateEmployerMatch(inputs: AccountInputs): number {
  * 
  * @param inputs - Account parameters
  * @param accountType - Type of account
+ * @param options - Validation options (strict mode throws on invalid inputs)
+ *   and `trace` to return the calculation steps
  * @returns Account comparison results
  */
 export function calculateAccount(
   inputs: AccountInputs,
-  accountType: 'Traditional 401k' | 'Roth 401k' | 'Traditional IRA' | 'Roth IRA'
+  accountType: 'Traditional 401k' | 'Roth 401k' | 'Traditional IRA' | 'Roth IRA',
+  options: CalculatorOptions = {}
 ): AccountComparison {
+  const validationIssues = enforceValidation(validateAccountInputs(inputs), options);
+  const trace = createTrace(options);
+  
   const monthlyReturn = inputs.expectedReturn / 100 / 12;
   const months = inputs.years * 12;
   
@@ -107,27 +144,66 @@ export function calculateAccount(
     afterTaxValue = retirementValue; // Tax-free withdrawals
   }
   
-  return {
+  trace.add({
+    name: 'employeeContributionValue',
+    description: 'Future value of the monthly contributions',
+    formula: 'FV = PMT × ((1 + r)^n − 1) / r',
+    inputs: { monthlyContribution: inputs.monthlyContribution, expectedReturn: inputs.expectedReturn, months },
+    intermediates: { monthlyReturn: traceRound(monthlyReturn, 6) },
+    result: traceRound(employeeContributionValue),
+  });
+  trace.add({
+    name: 'employerMatchValue',
+    description: is401k
+      ? 'Future value of the employer match (up to the match cap)'
+      : 'IRAs have no employer match',
+    inputs: {
+      annualSalary: inputs.annualSalary,
+      employerMatchPercentage: inputs.employerMatchPercentage,
+      employerMatchCap: inputs.employerMatchCap,
+    },
+    result: traceRound(employerMatchValue),
+  });
+  trace.add({
+    name: 'afterTaxValue',
+    description: isTraditional
+      ? 'Traditional: contributions deducted now, withdrawals taxed in retirement'
+      : 'Roth: no deduction now, withdrawals tax-free',
+    formula: isTraditional ? 'retirement value × (1 − retirement tax rate ÷ 100)' : 'retirement value',
+    inputs: {
+      retirementValue: traceRound(retirementValue),
+      currentTaxRate: inputs.currentTaxRate,
+      retirementTaxRate: inputs.retirementTaxRate,
+    },
+    intermediates: { currentTaxSavings: traceRound(currentTaxSavings) },
+    result: traceRound(afterTaxValue),
+  });
+  
+  return withTrace(withValidationIssues({
     accountType,
     currentTaxSavings: Math.round(currentTaxSavings),
     retirementValue: Math.round(retirementValue),
     afterTaxValue: Math.round(afterTaxValue),
     employerMatch: Math.round(employerMatchValue),
     totalContributions: Math.round(totalContributions)
-  };
+  }, validationIssues), trace);
 }
 
 /**
  * Compare all account types side by side
  * 
  * @param inputs - Account parameters
+ * @param options - Validation options (strict mode throws on invalid inputs)
  * @returns Comparison of all four account types
  */
-export function compareAllAccounts(inputs: AccountInputs): AccountComparison[] {
+export function compareAllAccounts(
+  inputs: AccountInputs,
+  options: CalculatorOptions = {}
+): AccountComparison[] {
   return [
-    calculateAccount(inputs, 'Traditional 401k'),
-    calculateAccount(inputs, 'Roth 401k'),
-    calculateAccount(inputs, 'Traditional IRA'),
-    calculateAccount(inputs, 'Roth IRA')
+    calculateAccount(inputs, 'Traditional 401k', options),
+    calculateAccount(inputs, 'Roth 401k', options),
+    calculateAccount(inputs, 'Traditional IRA', options),
+    calculateAccount(inputs, 'Roth IRA', options)
   ];
 }
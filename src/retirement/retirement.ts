@@ -5,6 +5,15 @@
  * with monthly contributions and returns.
  */
 
+import {
+  type ValidationIssue,
+  checkNumber,
+  checkCondition,
+  enforceValidation,
+  withValidationIssues
+} from '../utils/validation.js';
+import { type CalculatorOptions, type TraceStep, createTrace, withTrace } from '../utils/trace.js';
+
 export interface RetirementScenario {
   currentAge: number;
   retirementAge: number;
@@ -26,6 +35,35 @@ export interface RetirementProjection {
   totalContributions: number;
   totalGains: number;
   yearlySnapshots: YearlySnapshot[];
+  validationIssues?: ValidationIssue[];
+  trace?: TraceStep[];
+}
+
+/**
+ * Validate a retirement scenario
+ * 
+ * @param scenario - Retirement scenario parameters
+ * @returns Validation issues (empty when inputs are valid)
+ */
+export function validateRetirementScenario(scenario: RetirementScenario): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  
+  const currentAgeValid = checkNumber(issues, 'currentAge', scenario.currentAge, { min: 0, max: 120 });
+  const retirementAgeValid = checkNumber(issues, 'retirementAge', scenario.retirementAge, { min: 0, max: 120 });
+  if (currentAgeValid && retirementAgeValid) {
+    checkCondition(
+      issues,
+      scenario.retirementAge >= scenario.currentAge,
+      'retirementAge',
+      'invalid_relationship',
+      'Retirement age cannot be less than current age'
+    );
+  }
+  checkNumber(issues, 'currentSavings', scenario.currentSavings, { min: 0 });
+  checkNumber(issues, 'monthlyContribution', scenario.monthlyContribution, { min: 0 });
+  checkNumber(issues, 'expectedReturn', scenario.expectedReturn, { min: -100, max: 100 });
+  
+  return issues;
 }
 
 /**
@@ -102,18 +140,46 @@ export function calculateDetailedProjection(scenario: RetirementScenario): Yearl
  * Calculate complete retirement projection with all details
  * 
  * @param scenario - Retirement scenario parameters
+ * @param options - Validation options (strict mode throws on invalid inputs)
+ *   and `trace` to return the calculation steps
  * @returns Complete projection with final balance and yearly breakdowns
  */
-export function calculateRetirementProjection(scenario: RetirementScenario): RetirementProjection {
+export function calculateRetirementProjection(
+  scenario: RetirementScenario,
+  options: CalculatorOptions = {}
+): RetirementProjection {
+  const validationIssues = enforceValidation(validateRetirementScenario(scenario), options);
+  const trace = createTrace(options);
+  
   const snapshots = calculateDetailedProjection(scenario);
   const finalSnapshot = snapshots[snapshots.length - 1];
   
-  return {
+  trace.add({
+    name: 'finalBalance',
+    description: 'Balance at retirement, compounding monthly with each month\'s contribution',
+    formula: 'balance = balance × (1 + annual return ÷ 12) + monthly contribution, each month',
+    inputs: {
+      currentSavings: scenario.currentSavings,
+      monthlyContribution: scenario.monthlyContribution,
+      expectedReturn: scenario.expectedReturn,
+      months: (scenario.retirementAge - scenario.currentAge) * 12,
+    },
+    result: finalSnapshot.balance,
+  });
+  trace.add({
+    name: 'totalGains',
+    description: 'Growth beyond the money put in',
+    formula: 'final balance − (current savings + contributions)',
+    inputs: { finalBalance: finalSnapshot.balance, totalContributions: finalSnapshot.contributions },
+    result: finalSnapshot.gains,
+  });
+  
+  return withTrace(withValidationIssues({
     finalBalance: finalSnapshot.balance,
     totalContributions: finalSnapshot.contributions,
     totalGains: finalSnapshot.gains,
     yearlySnapshots: snapshots
-  };
+  }, validationIssues), trace);
 }
 
 /**
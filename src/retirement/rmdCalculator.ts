@@ -20,6 +20,29 @@
  * @module retirement/rmdCalculator
  */
 
+import {
+  type FilingStatusInput,
+  DEFAULT_TAX_YEAR,
+  calculateOrdinaryIncomeTax
+} from '../tax/federalTax.js';
+import {
+  type ValidationIssue,
+  checkNumber,
+  checkDecimalRate,
+  checkOneOf,
+  checkCondition,
+  enforceValidation,
+  withValidationIssues
+} from '../utils/validation.js';
+import {
+  type ExplicitRate,
+  type Rate,
+  type WithExplicitRates,
+  normalizeRateFields,
+  toRate
+} from '../utils/rates.js';
+import { type CalculatorOptions, type TraceStep, createTrace, withTrace, traceRound } from '../utils/trace.js';
+
 // ============================================================================
 // IRS LIFE EXPECTANCY TABLES (Publication 590-B)
 // ============================================================================
@@ -160,7 +183,7 @@ export interface RMDInputs {
   /** Whether spouse is the sole beneficiary */
   spouseIsSoleBeneficiary?: boolean;
   /** Expected annual rate of return (decimal, e.g., 0.06 for 6%) */
-  expectedReturnRate?: number;
+  expectedReturnRate?: Rate;
   /** Number of years to project forward */
   projectionYears?: number;
   /** Type of retirement account */
@@ -169,6 +192,18 @@ export interface RMDInputs {
   calculationYear?: number;
 }
 
+/**
+ * Rate fields of RMDInputs and the convention they use
+ */
+export const RMD_RATE_FIELDS = {
+  expectedReturnRate: 'rate',
+} as const;
+
+/**
+ * RMD inputs with rates as { percent: 6 } or { rate: 0.06 }
+ */
+export type RMDRateInputs = WithExplicitRates<RMDInputs, typeof RMD_RATE_FIELDS>;
+
 /**
  * Single year projection in RMD schedule
  */
@@ -235,6 +270,10 @@ export interface RMDResult {
   rmdPercentage: number;
   /** Warnings or important notices */
   warnings: string[];
+  /** Input validation issues (present only when issues were found) */
+  validationIssues?: ValidationIssue[];
+  /** Calculation steps (present only with { trace: true }) */
+  trace?: TraceStep[];
 }
 
 // ============================================================================
@@ -316,6 +355,23 @@ export function getDistributionPeriod(
   return UNIFORM_LIFETIME_TABLE[72] || 27.4;
 }
 
+/**
+ * Name the table entry getDistributionPeriod draws on (for calculation traces)
+ */
+function distributionPeriodSource(
+  ownerAge: number,
+  spouseAge?: number,
+  useJointLifeTable?: boolean
+): string {
+  if (useJointLifeTable && spouseAge !== undefined && JOINT_LIFE_TABLE[ownerAge]?.[spouseAge]) {
+    return `JOINT_LIFE_TABLE[${ownerAge}][${spouseAge}]`;
+  }
+  if (UNIFORM_LIFETIME_TABLE[ownerAge] !== undefined) {
+    return `UNIFORM_LIFETIME_TABLE[${ownerAge}]`;
+  }
+  return ownerAge > 120 ? 'minimum distribution period (2.0)' : 'UNIFORM_LIFETIME_TABLE[72]';
+}
+
 /**
  * Calculate single year RMD
  */
@@ -339,6 +395,55 @@ export function formatRMDDeadline(year: number, isFirstYear: boolean): string {
   return `December 31, ${year}`;
 }
 
+// ============================================================================
+// INPUT VALIDATION
+// ============================================================================
+
+/**
+ * Validate RMD inputs
+ *
+ * @param rateInputs - RMD calculation inputs
+ * @returns Validation issues (empty when inputs are valid)
+ */
+export function validateRMDInputs(rateInputs: RMDInputs | RMDRateInputs): ValidationIssue[] {
+  const inputs = normalizeRateFields(rateInputs, RMD_RATE_FIELDS);
+  const issues: ValidationIssue[] = [];
+
+  const birthYearValid = checkNumber(issues, 'birthYear', inputs.birthYear, { min: 1900, max: 2100, integer: true });
+  checkNumber(issues, 'accountBalance', inputs.accountBalance, { min: 0 });
+  checkNumber(issues, 'spouseBirthYear', inputs.spouseBirthYear, { min: 1900, max: 2100, integer: true, required: false });
+  checkDecimalRate(issues, 'expectedReturnRate', inputs.expectedReturnRate, { min: -1, required: false });
+  checkNumber(issues, 'projectionYears', inputs.projectionYears, { min: 0, max: 100, integer: true, required: false });
+  checkOneOf(
+    issues,
+    'accountType',
+    inputs.accountType,
+    [
+      'traditional_ira',
+      'sep_ira',
+      'simple_ira',
+      '401k',
+      '403b',
+      '457b',
+      'roth_401k',
+      'inherited_ira',
+      'inherited_roth_ira',
+    ] as const,
+    false
+  );
+  if (checkNumber(issues, 'calculationYear', inputs.calculationYear, { integer: true, required: false }) && birthYearValid) {
+    checkCondition(
+      issues,
+      inputs.calculationYear! >= inputs.birthYear,
+      'calculationYear',
+      'invalid_relationship',
+      'Calculation year cannot be before the birth year'
+    );
+  }
+
+  return issues;
+}
+
 // ============================================================================
 // MAIN CALCULATION FUNCTION
 // ============================================================================
@@ -347,6 +452,8 @@ export function formatRMDDeadline(year: number, isFirstYear: boolean): string {
  * Calculate Required Minimum Distribution (RMD) and projections
  *
  * @param inputs - RMD calculation inputs
+ * @param options - Validation options (strict mode throws on invalid inputs)
+ *   and `trace` to return the calculation steps
  * @returns Complete RMD calculation results including projections
  *
  * @example
@@ -362,7 +469,25 @@ export function formatRMDDeadline(year: number, isFirstYear: boolean): string {
  * console.log(result.projections); // Year-by-year RMD schedule
  * ```
  */
-export function calculateRMD(inputs: RMDInputs): RMDResult {
+export function calculateRMD(
+  inputs: RMDInputs,
+  options?: CalculatorOptions
+): RMDResult;
+/**
+ * Same as above, with rates as { percent } or { rate } (see RMD_RATE_FIELDS)
+ */
+export function calculateRMD(
+  inputs: RMDRateInputs,
+  options?: CalculatorOptions
+): RMDResult;
+export function calculateRMD(
+  rateInputs: RMDInputs | RMDRateInputs,
+  options: CalculatorOptions = {}
+): RMDResult {
+  const inputs = normalizeRateFields(rateInputs, RMD_RATE_FIELDS);
+  const validationIssues = enforceValidation(validateRMDInputs(inputs), options);
+  const trace = createTrace(options);
+  
   const {
     birthYear,
     accountBalance,
@@ -438,6 +563,39 @@ export function calculateRMD(inputs: RMDInputs): RMDResult {
     );
   }
 
+  trace.add({
+    name: 'rmdStartAge',
+    description: 'Age RMDs begin for the birth year',
+    inputs: { birthYear, calculationYear },
+    intermediates: { currentAge, rmdStartYear, yearsUntilRMD },
+    result: rmdStartAge,
+    source: birthYear <= 1950 ? 'Pre-SECURE Act (72)' : birthYear <= 1959 ? 'SECURE Act 2.0 (73)' : 'SECURE Act 2.0 (75)',
+  });
+  trace.add({
+    name: 'distributionPeriod',
+    description: rmdRequired
+      ? 'Life expectancy divisor for the current age'
+      : 'Life expectancy divisor at the RMD start age',
+    inputs: {
+      age: rmdRequired ? currentAge : rmdStartAge,
+      spouseAge: spouseAge ?? null,
+      usingJointLifeTable,
+    },
+    result: distributionPeriod,
+    source: rmdRequired
+      ? distributionPeriodSource(currentAge, spouseAge, usingJointLifeTable)
+      : distributionPeriodSource(rmdStartAge, spouseAge ? spouseAge + yearsUntilRMD : undefined, usingJointLifeTable),
+  });
+  trace.add({
+    name: 'currentRMD',
+    description: rmdRequired && accountRequiresRMD
+      ? 'Required distribution this year'
+      : 'No distribution required this year',
+    formula: 'RMD = prior year-end balance ÷ distribution period',
+    inputs: { accountBalance, distributionPeriod, accountType },
+    result: traceRound(currentRMD),
+  });
+
   // First RMD deadline
   const firstRMDDeadline = formatRMDDeadline(rmdStartYear, true);
 
@@ -524,7 +682,7 @@ export function calculateRMD(inputs: RMDInputs): RMDResult {
     );
   }
 
-  return {
+  return withTrace(withValidationIssues({
     currentRMD,
     distributionPeriod,
     currentAge,
@@ -543,7 +701,7 @@ export function calculateRMD(inputs: RMDInputs): RMDResult {
     accountRequiresRMD,
     rmdPercentage,
     warnings,
-  };
+  }, validationIssues), trace);
 }
 
 /**
@@ -659,6 +817,7 @@ export function calculateMultipleAccountRMDs(
  * @param rmd - RMD amount
  * @param otherIncome - Other taxable income
  * @param filingStatus - Tax filing status
+ * @param taxYear - Tax year for federal brackets (default: DEFAULT_TAX_YEAR)
  * @returns Estimated tax impact
  */
 export interface TaxImpactEstimate {
@@ -675,57 +834,13 @@ export interface TaxImpactEstimate {
 export function estimateRMDTaxImpact(
   rmd: number,
   otherIncome: number = 0,
-  filingStatus: 'single' | 'married_joint' = 'single'
+  filingStatus: FilingStatusInput = 'single',
+  taxYear: number = DEFAULT_TAX_YEAR
 ): TaxImpactEstimate {
-  // 2024 Tax Brackets (simplified)
-  const brackets =
-    filingStatus === 'single'
-      ? [
-          { min: 0, max: 11600, rate: 0.1 },
-          { min: 11600, max: 47150, rate: 0.12 },
-          { min: 47150, max: 100525, rate: 0.22 },
-          { min: 100525, max: 191950, rate: 0.24 },
-          { min: 191950, max: 243725, rate: 0.32 },
-          { min: 243725, max: 609350, rate: 0.35 },
-          { min: 609350, max: Infinity, rate: 0.37 },
-        ]
-      : [
-          { min: 0, max: 23200, rate: 0.1 },
-          { min: 23200, max: 94300, rate: 0.12 },
-          { min: 94300, max: 201050, rate: 0.22 },
-          { min: 201050, max: 383900, rate: 0.24 },
-          { min: 383900, max: 487450, rate: 0.32 },
-          { min: 487450, max: 731200, rate: 0.35 },
-          { min: 731200, max: Infinity, rate: 0.37 },
-        ];
-
+  // RMD is stacked on top of other taxable income using the shared federal brackets
   const totalIncome = otherIncome + rmd;
-  let tax = 0;
-  let marginalRate = 0.1;
-
-  // Calculate tax on total income
-  for (const bracket of brackets) {
-    if (totalIncome > bracket.min) {
-      const taxableInBracket = Math.min(
-        totalIncome - bracket.min,
-        bracket.max - bracket.min
-      );
-      tax += taxableInBracket * bracket.rate;
-      marginalRate = bracket.rate;
-    }
-  }
-
-  // Calculate tax without RMD
-  let taxWithoutRMD = 0;
-  for (const bracket of brackets) {
-    if (otherIncome > bracket.min) {
-      const taxableInBracket = Math.min(
-        otherIncome - bracket.min,
-        bracket.max - bracket.min
-      );
-      taxWithoutRMD += taxableInBracket * bracket.rate;
-    }
-  }
+  const { tax, marginalRate } = calculateOrdinaryIncomeTax(totalIncome, filingStatus, taxYear);
+  const { tax: taxWithoutRMD } = calculateOrdinaryIncomeTax(otherIncome, filingStatus, taxYear);
 
   const federalTax = tax - taxWithoutRMD;
   const effectiveRate = rmd > 0 ? federalTax / rmd : 0;
@@ -758,10 +873,19 @@ export interface QCDAnalysis {
   notes: string[];
 }
 
+/**
+ * Analyze using a Qualified Charitable Distribution to satisfy an RMD
+ *
+ * @param birthYear - Account holder's birth year
+ * @param rmd - Required minimum distribution for the year
+ * @param marginalTaxRate - Marginal tax rate as decimal (0.22) or { percent: 22 }
+ * @param calculationYear - Year of the distribution
+ * @returns QCD eligibility and potential tax savings
+ */
 export function analyzeQCDOpportunity(
   birthYear: number,
   rmd: number,
-  marginalTaxRate: number = 0.22,
+  marginalTaxRate: Rate | ExplicitRate = 0.22,
   calculationYear: number = new Date().getFullYear()
 ): QCDAnalysis {
   const age = calculateAge(birthYear, calculationYear);
@@ -770,7 +894,7 @@ export function analyzeQCDOpportunity(
 
   const maxQCDAmount = 105000; // 2024 limit
   const rmdSatisfiedByQCD = Math.min(rmd, maxQCDAmount);
-  const potentialTaxSavings = rmdSatisfiedByQCD * marginalTaxRate;
+  const potentialTaxSavings = rmdSatisfiedByQCD * toRate(marginalTaxRate);
 
   const notes: string[] = [
     'QCD transfers must go directly from IRA to qualified charity.',
@@ -17,12 +17,38 @@
  * - Federal Tax Brackets (updated annually)
  */
 
+import {
+  type FilingStatus,
+  type FederalTaxBracket,
+  DEFAULT_TAX_YEAR,
+  FEDERAL_TAX_YEARS,
+  getOrdinaryBrackets,
+  getStandardDeduction,
+  findBracket,
+  calculateOrdinaryIncomeTax
+} from '../tax/federalTax.js';
+import { type USState, STATE_TAX_INFO, calculateStateTaxOnAdditionalIncome } from '../tax/stateTax.js';
+import {
+  type ValidationIssue,
+  checkNumber,
+  checkOneOf,
+  checkCondition,
+  enforceValidation,
+  withValidationIssues
+} from '../utils/validation.js';
+import { type CalculatorOptions, type TraceStep, createTrace, withTrace } from '../utils/trace.js';
+
 // =============================================================================
 // Types
 // =============================================================================
 
-/** Filing status for tax calculations */
-export type RothFilingStatus = 'single' | 'married_joint' | 'married_separate' | 'head_of_household';
+/**
+ * Filing status for tax calculations
+ * 
+ * Accepts the shared FilingStatus spellings ('married_jointly') as well as the
+ * original Roth spellings ('married_joint').
+ */
+export type RothFilingStatus = 'single' | 'married_joint' | 'married_separate' | 'head_of_household' | FilingStatus;
 
 /** Account type that can be converted to Roth */
 export type ConvertibleAccountType = 'traditional_ira' | '401k' | '403b' | '457b' | 'sep_ira' | 'simple_ira';
@@ -59,11 +85,17 @@ export interface RothConversionInputs {
   /** State income tax rate (percentage) - optional */
   stateTaxRate?: number;
   
+  /** State of residence - when set, state tax uses the state's progressive brackets instead of stateTaxRate */
+  state?: USState;
+  
   /** Current Roth IRA balance (optional) */
   currentRothBalance?: number;
   
   /** Account type being converted (optional, for display purposes) */
   accountType?: ConvertibleAccountType;
+  
+  /** Tax year for federal brackets (default: DEFAULT_TAX_YEAR) */
+  taxYear?: number;
 }
 
 /** Federal tax bracket information */
@@ -182,99 +214,62 @@ export interface RothConversionResult {
   
   /** Summary recommendation */
   recommendation: string;
+  
+  /** Input validation issues (present only when issues were found) */
+  validationIssues?: ValidationIssue[];
+  /** Calculation steps (present only with { trace: true }) */
+  trace?: TraceStep[];
 }
 
 // =============================================================================
-// Constants - 2024 Federal Tax Brackets
+// Constants - Federal Tax Brackets
 // =============================================================================
 
-/** 2024 Federal Tax Brackets by filing status */
-export const FEDERAL_TAX_BRACKETS_2024: Record<RothFilingStatus, TaxBracket[]> = {
-  single: [
-    { min: 0, max: 11600, rate: 10 },
-    { min: 11600, max: 47150, rate: 12 },
-    { min: 47150, max: 100525, rate: 22 },
-    { min: 100525, max: 191950, rate: 24 },
-    { min: 191950, max: 243725, rate: 32 },
-    { min: 243725, max: 609350, rate: 35 },
-    { min: 609350, max: Infinity, rate: 37 },
-  ],
-  married_joint: [
-    { min: 0, max: 23200, rate: 10 },
-    { min: 23200, max: 94300, rate: 12 },
-    { min: 94300, max: 201050, rate: 22 },
-    { min: 201050, max: 383900, rate: 24 },
-    { min: 383900, max: 487450, rate: 32 },
-    { min: 487450, max: 731200, rate: 35 },
-    { min: 731200, max: Infinity, rate: 37 },
-  ],
-  married_separate: [
-    { min: 0, max: 11600, rate: 10 },
-    { min: 11600, max: 47150, rate: 12 },
-    { min: 47150, max: 100525, rate: 22 },
-    { min: 100525, max: 191950, rate: 24 },
-    { min: 191950, max: 243725, rate: 32 },
-    { min: 243725, max: 365600, rate: 35 },
-    { min: 365600, max: Infinity, rate: 37 },
-  ],
-  head_of_household: [
-    { min: 0, max: 16550, rate: 10 },
-    { min: 16550, max: 63100, rate: 12 },
-    { min: 63100, max: 100500, rate: 22 },
-    { min: 100500, max: 191950, rate: 24 },
-    { min: 191950, max: 243700, rate: 32 },
-    { min: 243700, max: 609350, rate: 35 },
-    { min: 609350, max: Infinity, rate: 37 },
-  ],
-};
-
-/** 2025 Federal Tax Brackets (projected with inflation adjustment) */
-export const FEDERAL_TAX_BRACKETS_2025: Record<RothFilingStatus, TaxBracket[]> = {
-  single: [
-    { min: 0, max: 11925, rate: 10 },
-    { min: 11925, max: 48475, rate: 12 },
-    { min: 48475, max: 103350, rate: 22 },
-    { min: 103350, max: 197300, rate: 24 },
-    { min: 197300, max: 250525, rate: 32 },
-    { min: 250525, max: 626350, rate: 35 },
-    { min: 626350, max: Infinity, rate: 37 },
-  ],
-  married_joint: [
-    { min: 0, max: 23850, rate: 10 },
-    { min: 23850, max: 96950, rate: 12 },
-    { min: 96950, max: 206700, rate: 22 },
-    { min: 206700, max: 394600, rate: 24 },
-    { min: 394600, max: 501050, rate: 32 },
-    { min: 501050, max: 751600, rate: 35 },
-    { min: 751600, max: Infinity, rate: 37 },
-  ],
-  married_separate: [
-    { min: 0, max: 11925, rate: 10 },
-    { min: 11925, max: 48475, rate: 12 },
-    { min: 48475, max: 103350, rate: 22 },
-    { min: 103350, max: 197300, rate: 24 },
-    { min: 197300, max: 250525, rate: 32 },
-    { min: 250525, max: 375800, rate: 35 },
-    { min: 375800, max: Infinity, rate: 37 },
-  ],
-  head_of_household: [
-    { min: 0, max: 17000, rate: 10 },
-    { min: 17000, max: 64850, rate: 12 },
-    { min: 64850, max: 103350, rate: 22 },
-    { min: 103350, max: 197300, rate: 24 },
-    { min: 197300, max: 250500, rate: 32 },
-    { min: 250500, max: 626350, rate: 35 },
-    { min: 626350, max: Infinity, rate: 37 },
-  ],
-};
+/** Legacy Roth filing status keys used by the exported bracket tables */
+type LegacyRothFilingStatus = 'single' | 'married_joint' | 'married_separate' | 'head_of_household';
+
+/**
+ * Convert shared-engine brackets (decimal rates) to Roth brackets (percentage rates)
+ */
+function toPercentBrackets(brackets: FederalTaxBracket[]): TaxBracket[] {
+  return brackets.map(bracket => ({
+    min: bracket.min,
+    max: bracket.max,
+    rate: Math.round(bracket.rate * 10000) / 100,
+  }));
+}
+
+/**
+ * Re-key a shared-engine table by the legacy Roth filing status spellings
+ */
+function toLegacyStatusTable<T>(table: Record<FilingStatus, T>): Record<LegacyRothFilingStatus, T> {
+  return {
+    single: table['single'],
+    married_joint: table['married_jointly'],
+    married_separate: table['married_separately'],
+    head_of_household: table['head_of_household'],
+  };
+}
+
+/** 2024 Federal Tax Brackets by filing status (rates as percentages) */
+export const FEDERAL_TAX_BRACKETS_2024: Record<LegacyRothFilingStatus, TaxBracket[]> = toLegacyStatusTable({
+  'single': toPercentBrackets(FEDERAL_TAX_YEARS[2024].ordinaryBrackets['single']),
+  'married_jointly': toPercentBrackets(FEDERAL_TAX_YEARS[2024].ordinaryBrackets['married_jointly']),
+  'married_separately': toPercentBrackets(FEDERAL_TAX_YEARS[2024].ordinaryBrackets['married_separately']),
+  'head_of_household': toPercentBrackets(FEDERAL_TAX_YEARS[2024].ordinaryBrackets['head_of_household']),
+});
+
+/** 2025 Federal Tax Brackets by filing status (rates as percentages) */
+export const FEDERAL_TAX_BRACKETS_2025: Record<LegacyRothFilingStatus, TaxBracket[]> = toLegacyStatusTable({
+  'single': toPercentBrackets(FEDERAL_TAX_YEARS[2025].ordinaryBrackets['single']),
+  'married_jointly': toPercentBrackets(FEDERAL_TAX_YEARS[2025].ordinaryBrackets['married_jointly']),
+  'married_separately': toPercentBrackets(FEDERAL_TAX_YEARS[2025].ordinaryBrackets['married_separately']),
+  'head_of_household': toPercentBrackets(FEDERAL_TAX_YEARS[2025].ordinaryBrackets['head_of_household']),
+});
 
 /** Standard deductions for 2024 */
-export const STANDARD_DEDUCTIONS_2024: Record<RothFilingStatus, number> = {
-  single: 14600,
-  married_joint: 29200,
-  married_separate: 14600,
-  head_of_household: 21900,
-};
+export const STANDARD_DEDUCTIONS_2024: Record<LegacyRothFilingStatus, number> =
+  toLegacyStatusTable(FEDERAL_TAX_YEARS[2024].standardDeductions);
 
 // =============================================================================
 // Helper Functions
@@ -286,19 +281,10 @@ export const STANDARD_DEDUCTIONS_2024: Record<RothFilingStatus, number> = {
 export function getTaxBracket(
   income: number,
   filingStatus: RothFilingStatus,
-  year: 2024 | 2025 = 2024
+  year: number = DEFAULT_TAX_YEAR
 ): TaxBracket {
-  const brackets = year === 2024 
-    ? FEDERAL_TAX_BRACKETS_2024[filingStatus]
-    : FEDERAL_TAX_BRACKETS_2025[filingStatus];
-  
-  for (const bracket of brackets) {
-    if (income >= bracket.min && income < bracket.max) {
-      return bracket;
-    }
-  }
-  // Return top bracket if income exceeds all brackets
-  return brackets[brackets.length - 1];
+  const bracket = findBracket(income, getOrdinaryBrackets(filingStatus, year));
+  return toPercentBrackets([bracket])[0];
 }
 
 /**
@@ -307,30 +293,12 @@ export function getTaxBracket(
 export function calculateFederalTax(
   taxableIncome: number,
   filingStatus: RothFilingStatus,
-  year: 2024 | 2025 = 2024
+  year: number = DEFAULT_TAX_YEAR
 ): number {
   if (taxableIncome <= 0) return 0;
   
-  const brackets = year === 2024 
-    ? FEDERAL_TAX_BRACKETS_2024[filingStatus]
-    : FEDERAL_TAX_BRACKETS_2025[filingStatus];
-  
-  let totalTax = 0;
-  let remainingIncome = taxableIncome;
-  
-  for (const bracket of brackets) {
-    if (remainingIncome <= 0) break;
-    
-    const taxableInBracket = Math.min(
-      remainingIncome,
-      bracket.max - bracket.min
-    );
-    
-    totalTax += taxableInBracket * (bracket.rate / 100);
-    remainingIncome -= taxableInBracket;
-  }
-  
-  return Math.round(totalTax * 100) / 100;
+  const { tax } = calculateOrdinaryIncomeTax(taxableIncome, filingStatus, year);
+  return Math.round(tax * 100) / 100;
 }
 
 /**
@@ -340,7 +308,7 @@ export function getMarginalRate(
   currentIncome: number,
   additionalIncome: number,
   filingStatus: RothFilingStatus,
-  year: 2024 | 2025 = 2024
+  year: number = DEFAULT_TAX_YEAR
 ): number {
   const taxBefore = calculateFederalTax(currentIncome, filingStatus, year);
   const taxAfter = calculateFederalTax(currentIncome + additionalIncome, filingStatus, year);
@@ -357,7 +325,7 @@ export function getMarginalRate(
 export function getRoomInCurrentBracket(
   currentIncome: number,
   filingStatus: RothFilingStatus,
-  year: 2024 | 2025 = 2024
+  year: number = DEFAULT_TAX_YEAR
 ): number {
   const bracket = getTaxBracket(currentIncome, filingStatus, year);
   return Math.max(0, bracket.max - currentIncome);
@@ -374,19 +342,80 @@ function calculateFutureValue(
   return presentValue * Math.pow(1 + annualRate / 100, years);
 }
 
+// =============================================================================
+// Input Validation
+// =============================================================================
+
+/**
+ * Validate Roth conversion inputs
+ * 
+ * A conversion larger than the traditional balance is reported as a
+ * warning, since the calculator converts the full balance instead.
+ * 
+ * @param inputs - Roth conversion inputs
+ * @returns Validation issues (empty when inputs are valid)
+ */
+export function validateRothConversionInputs(inputs: RothConversionInputs): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  
+  checkNumber(issues, 'currentAge', inputs.currentAge, { min: 0, max: 120 });
+  checkNumber(issues, 'retirementAge', inputs.retirementAge, { min: 0, max: 120 });
+  const balanceValid = checkNumber(issues, 'traditionalBalance', inputs.traditionalBalance, { min: 0 });
+  const conversionValid = checkNumber(issues, 'conversionAmount', inputs.conversionAmount, { min: 0 });
+  if (balanceValid && conversionValid) {
+    checkCondition(
+      issues,
+      inputs.conversionAmount <= inputs.traditionalBalance,
+      'conversionAmount',
+      'invalid_relationship',
+      'Conversion amount exceeds the traditional balance - the full balance will be converted',
+      'warning'
+    );
+  }
+  checkNumber(issues, 'currentTaxableIncome', inputs.currentTaxableIncome, { min: 0 });
+  checkNumber(issues, 'retirementTaxableIncome', inputs.retirementTaxableIncome, { min: 0 });
+  checkOneOf(
+    issues,
+    'filingStatus',
+    inputs.filingStatus,
+    ['single', 'married_joint', 'married_separate', 'married_jointly', 'married_separately', 'head_of_household'] as const
+  );
+  checkNumber(issues, 'expectedReturnRate', inputs.expectedReturnRate, { min: -100, max: 100 });
+  checkNumber(issues, 'inflationRate', inputs.inflationRate, { min: -100, max: 100, required: false });
+  checkNumber(issues, 'stateTaxRate', inputs.stateTaxRate, { min: 0, max: 100, required: false });
+  checkOneOf(issues, 'state', inputs.state, Object.keys(STATE_TAX_INFO) as USState[], false);
+  checkNumber(issues, 'currentRothBalance', inputs.currentRothBalance, { min: 0, required: false });
+  checkOneOf(
+    issues,
+    'accountType',
+    inputs.accountType,
+    ['traditional_ira', '401k', '403b', '457b', 'sep_ira', 'simple_ira'] as const,
+    false
+  );
+  checkNumber(issues, 'taxYear', inputs.taxYear, { integer: true, required: false });
+  
+  return issues;
+}
+
 // =============================================================================
 // Main Calculation Functions
 // =============================================================================
 
 /**
  * Calculate the tax impact of a Roth conversion
+ * 
+ * When a state is given, state tax is the increase in progressive state tax
+ * from stacking the conversion on top of current income (current taxable
+ * income plus the federal standard deduction approximates state gross income).
+ * Otherwise the flat stateTaxRate percentage is applied to the conversion.
  */
 export function calculateTaxImpact(
   currentIncome: number,
   conversionAmount: number,
   filingStatus: RothFilingStatus,
   stateTaxRate: number = 0,
-  year: 2024 | 2025 = 2024
+  year: number = DEFAULT_TAX_YEAR,
+  state?: USState
 ): TaxImpact {
   // Get bracket info before and after
   const bracketBefore = getTaxBracket(currentIncome, filingStatus, year);
@@ -399,7 +428,15 @@ export function calculateTaxImpact(
   const federalTax = taxAfter - taxBefore;
   
   // Calculate state tax
-  const stateTax = conversionAmount * (stateTaxRate / 100);
+  const stateTax = state
+    ? calculateStateTaxOnAdditionalIncome(
+        state,
+        currentIncome + getStandardDeduction(filingStatus, year),
+        conversionAmount,
+        filingStatus,
+        year
+      ).tax
+    : conversionAmount * (stateTaxRate / 100);
   
   // Total tax
   const totalTax = federalTax + stateTax;
@@ -446,6 +483,7 @@ export function generateProjections(
     filingStatus,
     expectedReturnRate,
     currentRothBalance = 0,
+    taxYear = DEFAULT_TAX_YEAR,
   } = inputs;
   
   const projections: YearlyProjection[] = [];
@@ -464,7 +502,7 @@ export function generateProjections(
     const traditionalNoConversion = calculateFutureValue(traditionalBalance, expectedReturnRate, year);
     
     // Get estimated tax rate in retirement (using retirement income)
-    const retirementBracket = getTaxBracket(retirementTaxableIncome, filingStatus);
+    const retirementBracket = getTaxBracket(retirementTaxableIncome, filingStatus, taxYear);
     const retirementTaxRate = retirementBracket.rate / 100;
     
     // Traditional after-tax value (estimate)
@@ -540,14 +578,15 @@ export function calculateOptimalConversion(
     filingStatus,
     retirementTaxableIncome,
     stateTaxRate = 0,
+    taxYear = DEFAULT_TAX_YEAR,
   } = inputs;
   
   // Get current and retirement brackets
-  const currentBracket = getTaxBracket(currentTaxableIncome, filingStatus);
-  const retirementBracket = getTaxBracket(retirementTaxableIncome, filingStatus);
+  const currentBracket = getTaxBracket(currentTaxableIncome, filingStatus, taxYear);
+  const retirementBracket = getTaxBracket(retirementTaxableIncome, filingStatus, taxYear);
   
   // Calculate room in current bracket
-  const roomInBracket = getRoomInCurrentBracket(currentTaxableIncome, filingStatus);
+  const roomInBracket = getRoomInCurrentBracket(currentTaxableIncome, filingStatus, taxYear);
   
   // Strategy: Fill up current bracket if retirement tax rate is higher
   const maxInCurrentBracket = Math.min(roomInBracket, traditionalBalance);
@@ -579,7 +618,9 @@ export function calculateOptimalConversion(
     currentTaxableIncome,
     recommendedAmount,
     filingStatus,
-    stateTaxRate
+    stateTaxRate,
+    taxYear,
+    inputs.state
   );
   
   // Estimate long-term benefit (30-year horizon)
@@ -599,8 +640,20 @@ export function calculateOptimalConversion(
 
 /**
  * Main function: Calculate comprehensive Roth conversion analysis
+ * 
+ * @param inputs - Roth conversion inputs
+ * @param options - Validation options (strict mode throws on invalid inputs)
+ *   and `trace` to return the calculation steps
  */
-export function calculateRothConversion(inputs: RothConversionInputs): RothConversionResult {
+export function calculateRothConversion(
+  inputs: RothConversionInputs,
+  options: CalculatorOptions = {}
+): RothConversionResult {
+  const validationIssues = enforceValidation(validateRothConversionInputs(inputs), options);
+  const trace = createTrace(options);
+  
+  const taxYear = inputs.taxYear ?? DEFAULT_TAX_YEAR;
+  
   // Validate inputs
   const warnings: string[] = [];
   
@@ -622,9 +675,53 @@ export function calculateRothConversion(inputs: RothConversionInputs): RothConve
     inputs.currentTaxableIncome,
     inputs.conversionAmount,
     inputs.filingStatus,
-    inputs.stateTaxRate || 0
+    inputs.stateTaxRate || 0,
+    taxYear,
+    inputs.state
   );
   
+  trace.add({
+    name: 'federalTax',
+    description: 'Extra federal tax from adding the conversion to this year\'s income',
+    formula: 'tax(income + conversion) − tax(income)',
+    inputs: {
+      currentTaxableIncome: inputs.currentTaxableIncome,
+      conversionAmount: inputs.conversionAmount,
+      filingStatus: inputs.filingStatus,
+      taxYear,
+    },
+    intermediates: {
+      bracketBefore: taxImpact.bracketBefore,
+      bracketAfter: taxImpact.bracketAfter,
+      amountInCurrentBracket: taxImpact.amountInCurrentBracket,
+      amountInNextBracket: taxImpact.amountInNextBracket,
+    },
+    result: taxImpact.federalTax,
+    source: `FEDERAL_TAX_YEARS[${taxYear}].ordinaryBrackets`,
+  });
+  trace.add({
+    name: 'stateTax',
+    description: inputs.state
+      ? 'Extra state tax from the conversion under the state\'s brackets'
+      : 'State tax at the flat rate entered',
+    formula: inputs.state ? undefined : 'conversion amount × state tax rate ÷ 100',
+    inputs: {
+      conversionAmount: inputs.conversionAmount,
+      state: inputs.state ?? null,
+      stateTaxRate: inputs.stateTaxRate ?? null,
+    },
+    result: taxImpact.stateTax,
+    source: inputs.state ? `STATE_TAX_INFO.${inputs.state}` : undefined,
+  });
+  trace.add({
+    name: 'totalTax',
+    description: 'Tax due on the conversion this year',
+    formula: 'federal tax + state tax',
+    inputs: { federalTax: taxImpact.federalTax, stateTax: taxImpact.stateTax },
+    intermediates: { effectiveRate: taxImpact.effectiveRate, marginalRate: taxImpact.marginalRate },
+    result: taxImpact.totalTax,
+  });
+  
   // Generate projections
   const projections = generateProjections(inputs, taxImpact);
   
@@ -636,7 +733,7 @@ export function calculateRothConversion(inputs: RothConversionInputs): RothConve
   
   // Calculate scenarios
   const yearsToRetirement = inputs.retirementAge - inputs.currentAge;
-  const retirementBracket = getTaxBracket(inputs.retirementTaxableIncome, inputs.filingStatus);
+  const retirementBracket = getTaxBracket(inputs.retirementTaxableIncome, inputs.filingStatus, taxYear);
   const retirementTaxRate = retirementBracket.rate / 100;
   
   // No conversion scenario
@@ -648,7 +745,9 @@ export function calculateRothConversion(inputs: RothConversionInputs): RothConve
     inputs.currentTaxableIncome,
     inputs.traditionalBalance,
     inputs.filingStatus,
-    inputs.stateTaxRate || 0
+    inputs.stateTaxRate || 0,
+    taxYear,
+    inputs.state
   );
   const fullConversionRothValue = calculateFutureValue(
     inputs.traditionalBalance - fullConversionTax.totalTax + (inputs.currentRothBalance || 0),
@@ -669,17 +768,32 @@ export function calculateRothConversion(inputs: RothConversionInputs): RothConve
   );
   const partialTradAfterTax = partialTradValue * (1 - retirementTaxRate);
   
+  trace.add({
+    name: 'breakEven',
+    description: 'Years until the converted Roth balance overtakes keeping the money pre-tax',
+    inputs: {
+      expectedReturnRate: inputs.expectedReturnRate,
+      retirementTaxRate: retirementBracket.rate,
+      yearsToRetirement,
+    },
+    intermediates: {
+      netBenefitAtRetirement: breakEven.netBenefitAtRetirement,
+      lifetimeTaxSavings: breakEven.lifetimeTaxSavings,
+    },
+    result: breakEven.breakEvenAchievable ? breakEven.yearsToBreakEven : null,
+  });
+  
   // Generate recommendation
   let recommendation = '';
   if (optimal.isRecommended && breakEven.breakEvenAchievable) {
-    recommendation = `Consider converting $${optimal.recommendedAmount.toLocaleString()} to fill your ${getTaxBracket(inputs.currentTaxableIncome, inputs.filingStatus).rate}% bracket. Break-even in ${breakEven.yearsToBreakEven} years with potential ${breakEven.lifetimeTaxSavings > 0 ? 'savings' : 'cost'} of $${Math.abs(breakEven.lifetimeTaxSavings).toLocaleString()} over your lifetime.`;
+    recommendation = `Consider converting $${optimal.recommendedAmount.toLocaleString()} to fill your ${getTaxBracket(inputs.currentTaxableIncome, inputs.filingStatus, taxYear).rate}% bracket. Break-even in ${breakEven.yearsToBreakEven} years with potential ${breakEven.lifetimeTaxSavings > 0 ? 'savings' : 'cost'} of $${Math.abs(breakEven.lifetimeTaxSavings).toLocaleString()} over your lifetime.`;
   } else if (!optimal.isRecommended) {
     recommendation = `Conversion may not be optimal this year. Your current tax rate is higher than your expected retirement rate. Consider waiting for a lower-income year or if you expect tax rates to rise.`;
   } else {
     recommendation = `Conversion benefits are limited. Consider smaller conversions spread over multiple years to minimize tax impact.`;
   }
   
-  return {
+  return withTrace(withValidationIssues({
     inputs,
     taxImpact,
     breakEven,
@@ -701,7 +815,7 @@ export function calculateRothConversion(inputs: RothConversionInputs): RothConve
     },
     warnings,
     recommendation,
-  };
+  }, validationIssues), trace);
 }
 
 /**
@@ -5,6 +5,15 @@
  * official SSA rules for early/delayed claiming adjustments.
  */
 
+import {
+  type ValidationIssue,
+  checkNumber,
+  checkCondition,
+  enforceValidation,
+  withValidationIssues
+} from '../utils/validation.js';
+import { type CalculatorOptions, type TraceStep, createTrace, withTrace, traceRound } from '../utils/trace.js';
+
 export interface SocialSecurityInputs {
   fullRetirementAge: number; // FRA (66-67 depending on birth year)
   fullBenefitAmount: number; // Monthly benefit at FRA
@@ -22,6 +31,8 @@ export interface ClaimingStrategy {
   adjustmentPercentage: number;
   breakEvenAge: number | null;
   investedEndingBalance?: number;
+  validationIssues?: ValidationIssue[];
+  trace?: TraceStep[];
 }
 
 /**
@@ -94,13 +105,61 @@ export function calculateBenefitMultiplier(claimingAge: number, fullRetirementAg
   }
 }
 
+/**
+ * Validate Social Security claiming inputs
+ * 
+ * Benefits can be claimed from age 62; claiming after 70 earns no
+ * further delayed retirement credits and is reported as a warning.
+ * 
+ * @param inputs - Claiming strategy parameters
+ * @returns Validation issues (empty when inputs are valid)
+ */
+export function validateSocialSecurityInputs(inputs: SocialSecurityInputs): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  
+  checkNumber(issues, 'fullRetirementAge', inputs.fullRetirementAge, { min: 65, max: 67 });
+  checkNumber(issues, 'fullBenefitAmount', inputs.fullBenefitAmount, { min: 0 });
+  const claimingAgeValid = checkNumber(issues, 'claimingAge', inputs.claimingAge, { min: 62 });
+  if (claimingAgeValid) {
+    checkCondition(
+      issues,
+      inputs.claimingAge <= 70,
+      'claimingAge',
+      'above_maximum',
+      'Benefits stop growing at age 70 - claiming later only delays payments',
+      'warning'
+    );
+  }
+  if (checkNumber(issues, 'lifeExpectancy', inputs.lifeExpectancy, { min: 0, max: 120 }) && claimingAgeValid) {
+    checkCondition(
+      issues,
+      inputs.lifeExpectancy >= inputs.claimingAge,
+      'lifeExpectancy',
+      'invalid_relationship',
+      'Life expectancy cannot be less than claiming age'
+    );
+  }
+  checkNumber(issues, 'investmentReturn', inputs.investmentReturn, { min: -100, max: 100, required: false });
+  checkNumber(issues, 'investmentPercentage', inputs.investmentPercentage, { min: 0, max: 100, required: false });
+  
+  return issues;
+}
+
 /**
  * Calculate Social Security claiming strategy outcomes
  * 
  * @param inputs - Claiming strategy parameters
+ * @param options - Validation options (strict mode throws on invalid inputs)
+ *   and `trace` to return the calculation steps
  * @returns Detailed benefits calculation
  */
-export function calculateClaimingStrategy(inputs: SocialSecurityInputs): ClaimingStrategy {
+export function calculateClaimingStrategy(
+  inputs: SocialSecurityInputs,
+  options: CalculatorOptions = {}
+): ClaimingStrategy {
+  const validationIssues = enforceValidation(validateSocialSecurityInputs(inputs), options);
+  const trace = createTrace(options);
+  
   const multiplier = calculateBenefitMultiplier(inputs.claimingAge, inputs.fullRetirementAge);
   const monthlyBenefit = inputs.fullBenefitAmount * multiplier;
   const annualBenefit = monthlyBenefit * 12;
@@ -113,6 +172,35 @@ export function calculateClaimingStrategy(inputs: SocialSecurityInputs): Claimin
   // Calculate adjustment percentage for display
   const adjustmentPercentage = (multiplier - 1) * 100;
   
+  const monthsFromFRA = Math.round((inputs.claimingAge - inputs.fullRetirementAge) * 12);
+  trace.add({
+    name: 'benefitMultiplier',
+    description: monthsFromFRA < 0
+      ? 'Early claiming reduction: 5/9 of 1% for each of the first 36 months, 5/12 of 1% beyond'
+      : monthsFromFRA > 0
+      ? 'Delayed retirement credit: 2/3 of 1% per month, up to age 70'
+      : 'Claiming at full retirement age',
+    inputs: { claimingAge: inputs.claimingAge, fullRetirementAge: inputs.fullRetirementAge },
+    intermediates: { monthsFromFRA, adjustmentPercentage: traceRound(adjustmentPercentage, 1) },
+    result: traceRound(multiplier, 4),
+    source: 'SSA benefit reduction and delayed retirement credit rules',
+  });
+  trace.add({
+    name: 'monthlyBenefit',
+    description: 'Benefit at the chosen claiming age',
+    formula: 'full benefit amount × multiplier',
+    inputs: { fullBenefitAmount: inputs.fullBenefitAmount, multiplier: traceRound(multiplier, 4) },
+    result: traceRound(monthlyBenefit),
+  });
+  trace.add({
+    name: 'lifetimeBenefits',
+    description: 'Benefits received from the claiming age to life expectancy',
+    formula: 'monthly benefit × (life expectancy − claiming age) × 12',
+    inputs: { monthlyBenefit: traceRound(monthlyBenefit), lifeExpectancy: inputs.lifeExpectancy, claimingAge: inputs.claimingAge },
+    intermediates: { monthsReceiving },
+    result: traceRound(lifetimeBenefits),
+  });
+  
   let investedEndingBalance: number | undefined;
   
   // Optional: Calculate invested balance if investing portion of benefits
@@ -125,7 +213,7 @@ export function calculateClaimingStrategy(inputs: SocialSecurityInputs): Claimin
       (((1 + monthlyReturn) ** monthsReceiving - 1) / monthlyReturn);
   }
   
-  return {
+  return withTrace(withValidationIssues({
     claimingAge: inputs.claimingAge,
     monthlyBenefit: Math.round(monthlyBenefit),
     annualBenefit: Math.round(annualBenefit),
@@ -133,7 +221,7 @@ export function calculateClaimingStrategy(inputs: SocialSecurityInputs): Claimin
     adjustmentPercentage: Math.round(adjustmentPercentage * 10) / 10,
     breakEvenAge: null, // Calculated separately in comparison
     investedEndingBalance: investedEndingBalance ? Math.round(investedEndingBalance) : undefined
-  };
+  }, validationIssues), trace);
 }
 
 /**
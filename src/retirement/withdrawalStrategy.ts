@@ -5,6 +5,16 @@
  * fixed percentage and dynamic rules-based approaches.
  */
 
+import {
+  type ValidationIssue,
+  checkNumber,
+  checkOneOf,
+  checkCondition,
+  enforceValidation,
+  withValidationIssues
+} from '../utils/validation.js';
+import { type CalculatorOptions, type TraceStep, createTrace, withTrace, traceRound } from '../utils/trace.js';
+
 export interface WithdrawalInputs {
   startingBalance: number;
   withdrawalRate: number; // Annual withdrawal as percentage (e.g., 4 for 4%)
@@ -21,6 +31,8 @@ export interface WithdrawalResult {
   finalBalance: number;
   successProbability: number; // Based on historical success rates
   yearlySnapshots: WithdrawalSnapshot[];
+  validationIssues?: ValidationIssue[];
+  trace?: TraceStep[];
 }
 
 export interface WithdrawalSnapshot {
@@ -32,6 +44,35 @@ export interface WithdrawalSnapshot {
   cumulativeWithdrawn: number;
 }
 
+/**
+ * Validate withdrawal strategy inputs
+ * 
+ * @param inputs - Withdrawal strategy parameters
+ * @returns Validation issues (empty when inputs are valid)
+ */
+export function validateWithdrawalInputs(inputs: WithdrawalInputs): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  
+  checkNumber(issues, 'startingBalance', inputs.startingBalance, { min: 0 });
+  checkNumber(issues, 'withdrawalRate', inputs.withdrawalRate, { min: 0, max: 100 });
+  const currentAgeValid = checkNumber(issues, 'currentAge', inputs.currentAge, { min: 0, max: 120 });
+  const lifespanValid = checkNumber(issues, 'expectedLifespan', inputs.expectedLifespan, { min: 0, max: 120 });
+  if (currentAgeValid && lifespanValid) {
+    checkCondition(
+      issues,
+      inputs.expectedLifespan > inputs.currentAge,
+      'expectedLifespan',
+      'invalid_relationship',
+      'Expected lifespan must be greater than current age'
+    );
+  }
+  checkNumber(issues, 'inflationRate', inputs.inflationRate, { min: -100, max: 100 });
+  checkNumber(issues, 'expectedReturn', inputs.expectedReturn, { min: -100, max: 100 });
+  checkOneOf(issues, 'strategyType', inputs.strategyType, ['fixed', 'dynamic'] as const);
+  
+  return issues;
+}
+
 /**
  * Calculate retirement withdrawal strategy outcomes
  * 
@@ -39,9 +80,17 @@ export interface WithdrawalSnapshot {
  * Dynamic strategy: Recalculate withdrawal as percentage of current balance each year
  * 
  * @param inputs - Withdrawal strategy parameters
+ * @param options - Validation options (strict mode throws on invalid inputs)
+ *   and `trace` to return the calculation steps
  * @returns Detailed simulation results
  */
-export function calculateWithdrawalStrategy(inputs: WithdrawalInputs): WithdrawalResult {
+export function calculateWithdrawalStrategy(
+  inputs: WithdrawalInputs,
+  options: CalculatorOptions = {}
+): WithdrawalResult {
+  const validationIssues = enforceValidation(validateWithdrawalInputs(inputs), options);
+  const trace = createTrace(options);
+  
   const yearsInRetirement = inputs.expectedLifespan - inputs.currentAge;
   const annualReturn = inputs.expectedReturn / 100;
   const inflationRate = inputs.inflationRate / 100;
@@ -56,6 +105,14 @@ export function calculateWithdrawalStrategy(inputs: WithdrawalInputs): Withdrawa
   const initialWithdrawal = inputs.startingBalance * (inputs.withdrawalRate / 100);
   let currentWithdrawal = initialWithdrawal;
   
+  trace.add({
+    name: 'initialWithdrawal',
+    description: 'First-year withdrawal',
+    formula: 'starting balance × withdrawal rate ÷ 100',
+    inputs: { startingBalance: inputs.startingBalance, withdrawalRate: inputs.withdrawalRate },
+    result: traceRound(initialWithdrawal),
+  });
+  
   for (let year = 0; year < yearsInRetirement; year++) {
     const age = inputs.currentAge + year;
     const beginningBalance = balance;
@@ -115,13 +172,36 @@ export function calculateWithdrawalStrategy(inputs: WithdrawalInputs): Withdrawa
     successProbability = Math.min(successProbability, percentageOfLifespan * 100);
   }
   
-  return {
+  trace.add({
+    name: 'simulation',
+    description: inputs.strategyType === 'dynamic'
+      ? 'Withdraw the rate times the current balance each year, then apply the return'
+      : 'Raise the first withdrawal by inflation each year, then apply the return',
+    formula: 'balance = (balance − withdrawal) × (1 + return)',
+    inputs: {
+      strategyType: inputs.strategyType,
+      yearsInRetirement,
+      expectedReturn: inputs.expectedReturn,
+      inflationRate: inputs.inflationRate,
+    },
+    intermediates: { totalWithdrawn: traceRound(totalWithdrawn), depletionAge },
+    result: traceRound(balance),
+  });
+  trace.add({
+    name: 'successProbability',
+    description: 'Historical success rate for the withdrawal rate, capped by the share of years funded',
+    inputs: { withdrawalRate: inputs.withdrawalRate, depletionAge },
+    result: Math.round(successProbability),
+    source: 'Trinity Study (4% = 95%, 5% = 75%, 6% = 50%, 7%+ = 25%)',
+  });
+  
+  return withTrace(withValidationIssues({
     depletionAge,
     totalWithdrawn: Math.round(totalWithdrawn),
     finalBalance: Math.round(balance),
     successProbability: Math.round(successProbability),
     yearlySnapshots: snapshots
-  };
+  }, validationIssues), trace);
 }
 
 /**
@@ -0,0 +1,684 @@
+/**
+ * Federal Tax Engine
+ *
+ * Single source of truth for federal income tax rules shared by every
+ * calculator in the library (paycheck, Roth conversion, RMD, dividend).
+ * Tax parameters live in a registry keyed by tax year, so adding a new
+ * year is a one-place change and all calculators stay in agreement.
+ *
+ * Covers:
+ * - Ordinary income brackets and standard deductions
+ * - Long-term capital gains / qualified dividend rates (stacked on top of ordinary income)
+ * - Net Investment Income Tax (NIIT, IRC §1411)
+ * - FICA (Social Security and Medicare) including Additional Medicare Tax
+ *
+ * All rates in this module are decimals (0.22 = 22%).
+ *
+ * @module tax/federalTax
+ * @see https://www.irs.gov/filing/federal-income-tax-rates-and-brackets
+ * @see https://www.irs.gov/individuals/net-investment-income-tax
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Filing status for federal taxes
+ */
+export type FilingStatus =
+  | 'single'
+  | 'married_jointly'
+  | 'married_separately'
+  | 'head_of_household';
+
+/**
+ * Filing status as accepted by calculator inputs
+ *
+ * Some calculators historically spelled the married statuses
+ * 'married_joint' / 'married_separate'. Both spellings are accepted
+ * and normalized with normalizeFilingStatus().
+ */
+export type FilingStatusInput = FilingStatus | 'married_joint' | 'married_separate';
+
+/**
+ * A single tax bracket (rate as decimal)
+ */
+export interface FederalTaxBracket {
+  /** Lower bound of taxable income for this bracket */
+  min: number;
+  /** Upper bound of taxable income (Infinity for top bracket) */
+  max: number;
+  /** Marginal rate as decimal */
+  rate: number;
+}
+
+/**
+ * FICA parameters for a tax year
+ */
+export interface FICAConfig {
+  /** Social Security rate (employee portion) */
+  socialSecurityRate: number;
+  /** Social Security wage base limit */
+  socialSecurityLimit: number;
+  /** Medicare rate (employee portion) */
+  medicareRate: number;
+  /** Additional Medicare rate (0.9% on wages above threshold) */
+  additionalMedicareRate: number;
+  /** Additional Medicare thresholds by filing status (not inflation indexed) */
+  additionalMedicareThresholds: Record<FilingStatus, number>;
+}
+
+/**
+ * Net Investment Income Tax parameters
+ */
+export interface NIITConfig {
+  /** NIIT rate (3.8%) */
+  rate: number;
+  /** MAGI thresholds by filing status (not inflation indexed) */
+  thresholds: Record<FilingStatus, number>;
+}
+
+/**
+ * Complete federal tax parameters for one tax year
+ */
+export interface FederalTaxYearConfig {
+  /** Tax year these parameters apply to */
+  year: number;
+  /** Ordinary income brackets by filing status */
+  ordinaryBrackets: Record<FilingStatus, FederalTaxBracket[]>;
+  /** Standard deduction by filing status */
+  standardDeductions: Record<FilingStatus, number>;
+  /** Long-term capital gains / qualified dividend brackets (0%, 15%, 20%) by filing status */
+  capitalGainsBrackets: Record<FilingStatus, FederalTaxBracket[]>;
+  /** FICA parameters */
+  fica: FICAConfig;
+  /** Net Investment Income Tax parameters */
+  niit: NIITConfig;
+}
+
+/**
+ * Inputs for a complete federal tax calculation
+ */
+export interface FederalTaxInputs {
+  /** Filing status */
+  filingStatus: FilingStatusInput;
+  /** Tax year (default: DEFAULT_TAX_YEAR) */
+  taxYear?: number;
+  /** Gross ordinary income (wages, interest, IRA distributions, Roth conversions, non-qualified dividends) */
+  ordinaryIncome: number;
+  /** Qualified dividends (taxed at capital gains rates) */
+  qualifiedDividends?: number;
+  /** Net long-term capital gains (taxed at capital gains rates) */
+  longTermCapitalGains?: number;
+  /** Investment income already included in ordinaryIncome (interest, non-qualified dividends) - counts toward NIIT */
+  otherInvestmentIncome?: number;
+  /** Wages subject to Medicare tax (for Additional Medicare Tax) */
+  wages?: number;
+  /** Above-the-line adjustments (pre-tax 401(k), HSA, etc.) */
+  adjustments?: number;
+  /** Itemized deductions (the larger of itemized and standard is used) */
+  itemizedDeductions?: number;
+}
+
+/**
+ * Result of a complete federal tax calculation
+ */
+export interface FederalTaxResult {
+  /** Tax year of the parameters used */
+  taxYear: number;
+  /** Normalized filing status */
+  filingStatus: FilingStatus;
+  /** Total income before adjustments */
+  grossIncome: number;
+  /** Adjusted gross income */
+  adjustedGrossIncome: number;
+  /** Deduction taken (standard or itemized) */
+  deduction: number;
+  /** Whether the standard deduction was used */
+  usedStandardDeduction: boolean;
+  /** Total taxable income */
+  taxableIncome: number;
+  /** Taxable income taxed at ordinary rates */
+  ordinaryTaxableIncome: number;
+  /** Taxable income taxed at capital gains rates */
+  preferentialTaxableIncome: number;
+  /** Tax on ordinary taxable income */
+  ordinaryIncomeTax: number;
+  /** Tax on qualified dividends and long-term capital gains */
+  capitalGainsTax: number;
+  /** Net Investment Income Tax */
+  netInvestmentIncomeTax: number;
+  /** Additional Medicare Tax on wages */
+  additionalMedicareTax: number;
+  /** Total federal income tax (ordinary + capital gains + NIIT + additional Medicare) */
+  totalTax: number;
+  /** Marginal rate on the next dollar of ordinary income */
+  marginalOrdinaryRate: number;
+  /** Marginal rate on the next dollar of capital gains (excluding NIIT) */
+  marginalCapitalGainsRate: number;
+  /** Total tax / gross income */
+  effectiveRate: number;
+}
+
+// ============================================================================
+// Tax Year Registry
+// ============================================================================
+
+/**
+ * Additional Medicare Tax thresholds (statutory, not indexed for inflation)
+ */
+const ADDITIONAL_MEDICARE_THRESHOLDS: Record<FilingStatus, number> = {
+  'single': 200000,
+  'married_jointly': 250000,
+  'married_separately': 125000,
+  'head_of_household': 200000,
+};
+
+/**
+ * NIIT MAGI thresholds (statutory, not indexed for inflation)
+ */
+const NIIT_THRESHOLDS: Record<FilingStatus, number> = {
+  'single': 200000,
+  'married_jointly': 250000,
+  'married_separately': 125000,
+  'head_of_household': 200000,
+};
+
+/**
+ * Build capital gains brackets from the 15% and 20% rate thresholds
+ */
+function capitalGainsBrackets(threshold15: number, threshold20: number): FederalTaxBracket[] {
+  return [
+    { min: 0, max: threshold15, rate: 0 },
+    { min: threshold15, max: threshold20, rate: 0.15 },
+    { min: threshold20, max: Infinity, rate: 0.20 },
+  ];
+}
+
+/**
+ * 2024 federal tax parameters (for taxes filed in 2025)
+ *
+ * Source: IRS Rev. Proc. 2023-34
+ */
+const TAX_YEAR_2024: FederalTaxYearConfig = {
+  year: 2024,
+  ordinaryBrackets: {
+    'single': [
+      { min: 0, max: 11600, rate: 0.10 },
+      { min: 11600, max: 47150, rate: 0.12 },
+      { min: 47150, max: 100525, rate: 0.22 },
+      { min: 100525, max: 191950, rate: 0.24 },
+      { min: 191950, max: 243725, rate: 0.32 },
+      { min: 243725, max: 609350, rate: 0.35 },
+      { min: 609350, max: Infinity, rate: 0.37 },
+    ],
+    'married_jointly': [
+      { min: 0, max: 23200, rate: 0.10 },
+      { min: 23200, max: 94300, rate: 0.12 },
+      { min: 94300, max: 201050, rate: 0.22 },
+      { min: 201050, max: 383900, rate: 0.24 },
+      { min: 383900, max: 487450, rate: 0.32 },
+      { min: 487450, max: 731200, rate: 0.35 },
+      { min: 731200, max: Infinity, rate: 0.37 },
+    ],
+    'married_separately': [
+      { min: 0, max: 11600, rate: 0.10 },
+      { min: 11600, max: 47150, rate: 0.12 },
+      { min: 47150, max: 100525, rate: 0.22 },
+      { min: 100525, max: 191950, rate: 0.24 },
+      { min: 191950, max: 243725, rate: 0.32 },
+      { min: 243725, max: 365600, rate: 0.35 },
+      { min: 365600, max: Infinity, rate: 0.37 },
+    ],
+    'head_of_household': [
+      { min: 0, max: 16550, rate: 0.10 },
+      { min: 16550, max: 63100, rate: 0.12 },
+      { min: 63100, max: 100500, rate: 0.22 },
+      { min: 100500, max: 191950, rate: 0.24 },
+      { min: 191950, max: 243700, rate: 0.32 },
+      { min: 243700, max: 609350, rate: 0.35 },
+      { min: 609350, max: Infinity, rate: 0.37 },
+    ],
+  },
+  standardDeductions: {
+    'single': 14600,
+    'married_jointly': 29200,
+    'married_separately': 14600,
+    'head_of_household': 21900,
+  },
+  capitalGainsBrackets: {
+    'single': capitalGainsBrackets(47025, 518900),
+    'married_jointly': capitalGainsBrackets(94050, 583750),
+    'married_separately': capitalGainsBrackets(47025, 291850),
+    'head_of_household': capitalGainsBrackets(63000, 551350),
+  },
+  fica: {
+    socialSecurityRate: 0.062,
+    socialSecurityLimit: 168600,
+    medicareRate: 0.0145,
+    additionalMedicareRate: 0.009,
+    additionalMedicareThresholds: ADDITIONAL_MEDICARE_THRESHOLDS,
+  },
+  niit: {
+    rate: 0.038,
+    thresholds: NIIT_THRESHOLDS,
+  },
+};
+
+/**
+ * 2025 federal tax parameters (for taxes filed in 2026)
+ *
+ * Source: IRS Rev. Proc. 2024-40
+ */
+const TAX_YEAR_2025: FederalTaxYearConfig = {
+  year: 2025,
+  ordinaryBrackets: {
+    'single': [
+      { min: 0, max: 11925, rate: 0.10 },
+      { min: 11925, max: 48475, rate: 0.12 },
+      { min: 48475, max: 103350, rate: 0.22 },
+      { min: 103350, max: 197300, rate: 0.24 },
+      { min: 197300, max: 250525, rate: 0.32 },
+      { min: 250525, max: 626350, rate: 0.35 },
+      { min: 626350, max: Infinity, rate: 0.37 },
+    ],
+    'married_jointly': [
+      { min: 0, max: 23850, rate: 0.10 },
+      { min: 23850, max: 96950, rate: 0.12 },
+      { min: 96950, max: 206700, rate: 0.22 },
+      { min: 206700, max: 394600, rate: 0.24 },
+      { min: 394600, max: 501050, rate: 0.32 },
+      { min: 501050, max: 751600, rate: 0.35 },
+      { min: 751600, max: Infinity, rate: 0.37 },
+    ],
+    'married_separately': [
+      { min: 0, max: 11925, rate: 0.10 },
+      { min: 11925, max: 48475, rate: 0.12 },
+      { min: 48475, max: 103350, rate: 0.22 },
+      { min: 103350, max: 197300, rate: 0.24 },
+      { min: 197300, max: 250525, rate: 0.32 },
+      { min: 250525, max: 375800, rate: 0.35 },
+      { min: 375800, max: Infinity, rate: 0.37 },
+    ],
+    'head_of_household': [
+      { min: 0, max: 17000, rate: 0.10 },
+      { min: 17000, max: 64850, rate: 0.12 },
+      { min: 64850, max: 103350, rate: 0.22 },
+      { min: 103350, max: 197300, rate: 0.24 },
+      { min: 197300, max: 250500, rate: 0.32 },
+      { min: 250500, max: 626350, rate: 0.35 },
+      { min: 626350, max: Infinity, rate: 0.37 },
+    ],
+  },
+  standardDeductions: {
+    'single': 15000,
+    'married_jointly': 30000,
+    'married_separately': 15000,
+    'head_of_household': 22500,
+  },
+  capitalGainsBrackets: {
+    'single': capitalGainsBrackets(48350, 533400),
+    'married_jointly': capitalGainsBrackets(96700, 600050),
+    'married_separately': capitalGainsBrackets(48350, 300000),
+    'head_of_household': capitalGainsBrackets(64750, 566700),
+  },
+  fica: {
+    socialSecurityRate: 0.062,
+    socialSecurityLimit: 176100,
+    medicareRate: 0.0145,
+    additionalMedicareRate: 0.009,
+    additionalMedicareThresholds: ADDITIONAL_MEDICARE_THRESHOLDS,
+  },
+  niit: {
+    rate: 0.038,
+    thresholds: NIIT_THRESHOLDS,
+  },
+};
+
+/**
+ * Registry of federal tax parameters keyed by tax year
+ *
+ * To add a new tax year, add its FederalTaxYearConfig here and update
+ * DEFAULT_TAX_YEAR if it should become the default for all calculators.
+ */
+export const FEDERAL_TAX_YEARS: Readonly<Record<number, FederalTaxYearConfig>> = {
+  2024: TAX_YEAR_2024,
+  2025: TAX_YEAR_2025,
+};
+
+/**
+ * Tax year used by every calculator when none is specified
+ */
+export const DEFAULT_TAX_YEAR = 2025;
+
+// ============================================================================
+// Lookup Helpers
+// ============================================================================
+
+/**
+ * Normalize legacy filing status spellings
+ *
+ * @param status - Filing status in either spelling
+ * @returns Canonical FilingStatus
+ */
+export function normalizeFilingStatus(status: FilingStatusInput): FilingStatus {
+  switch (status) {
+    case 'married_joint':
+      return 'married_jointly';
+    case 'married_separate':
+      return 'married_separately';
+    default:
+      return status;
+  }
+}
+
+/**
+ * Get the list of tax years in the registry (ascending)
+ */
+export function getSupportedTaxYears(): number[] {
+  return Object.keys(FEDERAL_TAX_YEARS).map(Number).sort((a, b) => a - b);
+}
+
+/**
+ * Get the federal tax parameters for a tax year
+ *
+ * Years not in the registry fall back to the closest supported year
+ * (the latest year at or before the request, otherwise the earliest year).
+ *
+ * @param taxYear - Tax year (default: DEFAULT_TAX_YEAR)
+ * @returns Tax parameters for that year
+ */
+export function getTaxYearConfig(taxYear: number = DEFAULT_TAX_YEAR): FederalTaxYearConfig {
+  const exact = FEDERAL_TAX_YEARS[taxYear];
+  if (exact) {
+    return exact;
+  }
+
+  const years = getSupportedTaxYears();
+  const earlier = years.filter(year => year <= taxYear);
+  const fallbackYear = earlier.length > 0 ? earlier[earlier.length - 1] : years[0];
+  return FEDERAL_TAX_YEARS[fallbackYear];
+}
+
+/**
+ * Get ordinary income brackets for a filing status and year
+ */
+export function getOrdinaryBrackets(
+  filingStatus: FilingStatusInput,
+  taxYear: number = DEFAULT_TAX_YEAR
+): FederalTaxBracket[] {
+  return getTaxYearConfig(taxYear).ordinaryBrackets[normalizeFilingStatus(filingStatus)];
+}
+
+/**
+ * Get the standard deduction for a filing status and year
+ */
+export function getStandardDeduction(
+  filingStatus: FilingStatusInput,
+  taxYear: number = DEFAULT_TAX_YEAR
+): number {
+  return getTaxYearConfig(taxYear).standardDeductions[normalizeFilingStatus(filingStatus)];
+}
+
+/**
+ * Find the bracket that applies to the next dollar of income
+ *
+ * @param income - Taxable income
+ * @param brackets - Bracket table to search
+ * @returns Bracket containing the income (top bracket if above all)
+ */
+export function findBracket(income: number, brackets: FederalTaxBracket[]): FederalTaxBracket {
+  for (const bracket of brackets) {
+    if (income >= bracket.min && income < bracket.max) {
+      return bracket;
+    }
+  }
+  return income < 0 ? brackets[0] : brackets[brackets.length - 1];
+}
+
+/**
+ * Apply a progressive bracket table to an amount
+ *
+ * Formula: Tax = Σ (min(income, bracket.max) - bracket.min) × bracket.rate
+ *
+ * @param income - Amount to tax
+ * @param brackets - Bracket table
+ * @returns Tax owed
+ */
+export function applyBrackets(income: number, brackets: FederalTaxBracket[]): number {
+  if (income <= 0) return 0;
+
+  let tax = 0;
+  for (const bracket of brackets) {
+    if (income <= bracket.min) break;
+    tax += (Math.min(income, bracket.max) - bracket.min) * bracket.rate;
+  }
+  return tax;
+}
+
+// ============================================================================
+// Component Calculations
+// ============================================================================
+
+/**
+ * Calculate tax on ordinary taxable income
+ *
+ * @param taxableIncome - Ordinary taxable income (after deductions)
+ * @param filingStatus - Filing status
+ * @param taxYear - Tax year (default: DEFAULT_TAX_YEAR)
+ * @returns Tax and marginal rate on the next dollar
+ */
+export function calculateOrdinaryIncomeTax(
+  taxableIncome: number,
+  filingStatus: FilingStatusInput,
+  taxYear: number = DEFAULT_TAX_YEAR
+): { tax: number; marginalRate: number } {
+  const brackets = getOrdinaryBrackets(filingStatus, taxYear);
+  return {
+    tax: applyBrackets(taxableIncome, brackets),
+    marginalRate: findBracket(Math.max(0, taxableIncome), brackets).rate,
+  };
+}
+
+/**
+ * Calculate tax on qualified dividends and long-term capital gains
+ *
+ * Preferential income is "stacked" on top of ordinary taxable income:
+ * each dollar is taxed at the 0/15/20% rate for the bracket that the
+ * combined taxable income reaches at that point (IRS Qualified Dividends
+ * and Capital Gain Tax Worksheet).
+ *
+ * @param ordinaryTaxableIncome - Taxable income taxed at ordinary rates
+ * @param preferentialIncome - Qualified dividends + net long-term capital gains
+ * @param filingStatus - Filing status
+ * @param taxYear - Tax year (default: DEFAULT_TAX_YEAR)
+ * @returns Tax and marginal capital gains rate on the next dollar
+ */
+export function calculateCapitalGainsTax(
+  ordinaryTaxableIncome: number,
+  preferentialIncome: number,
+  filingStatus: FilingStatusInput,
+  taxYear: number = DEFAULT_TAX_YEAR
+): { tax: number; marginalRate: number } {
+  const brackets = getTaxYearConfig(taxYear).capitalGainsBrackets[normalizeFilingStatus(filingStatus)];
+  const base = Math.max(0, ordinaryTaxableIncome);
+  const top = base + Math.max(0, preferentialIncome);
+
+  return {
+    tax: applyBrackets(top, brackets) - applyBrackets(base, brackets),
+    marginalRate: findBracket(top, brackets).rate,
+  };
+}
+
+/**
+ * Calculate the Net Investment Income Tax
+ *
+ * Formula: NIIT = 3.8% × min(net investment income, MAGI - threshold)
+ *
+ * @param modifiedAGI - Modified adjusted gross income
+ * @param netInvestmentIncome - Net investment income
+ * @param filingStatus - Filing status
+ * @param taxYear - Tax year (default: DEFAULT_TAX_YEAR)
+ * @returns NIIT owed
+ */
+export function calculateNetInvestmentIncomeTax(
+  modifiedAGI: number,
+  netInvestmentIncome: number,
+  filingStatus: FilingStatusInput,
+  taxYear: number = DEFAULT_TAX_YEAR
+): number {
+  const niit = getTaxYearConfig(taxYear).niit;
+  const excessMAGI = Math.max(0, modifiedAGI - niit.thresholds[normalizeFilingStatus(filingStatus)]);
+  return Math.min(Math.max(0, netInvestmentIncome), excessMAGI) * niit.rate;
+}
+
+/**
+ * Calculate Social Security tax on wages
+ *
+ * @param wages - Wages subject to Social Security
+ * @param ytdWages - Wages already earned this year (default: 0)
+ * @param taxYear - Tax year (default: DEFAULT_TAX_YEAR)
+ * @returns Social Security tax owed
+ */
+export function calculateSocialSecurityWageTax(
+  wages: number,
+  ytdWages: number = 0,
+  taxYear: number = DEFAULT_TAX_YEAR
+): number {
+  const fica = getTaxYearConfig(taxYear).fica;
+
+  if (ytdWages >= fica.socialSecurityLimit) {
+    return 0;
+  }
+
+  const taxableWages = Math.min(Math.max(0, wages), fica.socialSecurityLimit - ytdWages);
+  return taxableWages * fica.socialSecurityRate;
+}
+
+/**
+ * Calculate Additional Medicare Tax (0.9% on wages above threshold)
+ *
+ * @param wages - Medicare wages
+ * @param filingStatus - Filing status
+ * @param taxYear - Tax year (default: DEFAULT_TAX_YEAR)
+ * @returns Additional Medicare Tax owed
+ */
+export function calculateAdditionalMedicareTax(
+  wages: number,
+  filingStatus: FilingStatusInput,
+  taxYear: number = DEFAULT_TAX_YEAR
+): number {
+  const fica = getTaxYearConfig(taxYear).fica;
+  const threshold = fica.additionalMedicareThresholds[normalizeFilingStatus(filingStatus)];
+  return Math.max(0, wages - threshold) * fica.additionalMedicareRate;
+}
+
+/**
+ * Calculate Medicare tax on wages (base + additional)
+ *
+ * @param wages - Medicare wages
+ * @param filingStatus - Filing status
+ * @param taxYear - Tax year (default: DEFAULT_TAX_YEAR)
+ * @returns Base and additional Medicare tax
+ */
+export function calculateMedicareWageTax(
+  wages: number,
+  filingStatus: FilingStatusInput,
+  taxYear: number = DEFAULT_TAX_YEAR
+): { baseTax: number; additionalTax: number } {
+  const fica = getTaxYearConfig(taxYear).fica;
+  return {
+    baseTax: Math.max(0, wages) * fica.medicareRate,
+    additionalTax: calculateAdditionalMedicareTax(wages, filingStatus, taxYear),
+  };
+}
+
+// ============================================================================
+// Main Calculator Function
+// ============================================================================
+
+/**
+ * Calculate total federal income tax liability
+ *
+ * Steps:
+ * 1. AGI = ordinary income + qualified dividends + LTCG - adjustments
+ * 2. Taxable income = AGI - max(standard deduction, itemized deductions)
+ * 3. Deductions reduce ordinary income first, then preferential income
+ * 4. Ordinary tax from ordinary brackets; capital gains tax stacked on top
+ * 5. NIIT on investment income above the MAGI threshold
+ * 6. Additional Medicare Tax on wages above the threshold
+ *
+ * @param inputs - Income and filing information
+ * @returns Complete federal tax breakdown
+ *
+ * @example
+ * ```typescript
+ * const result = calculateFederalIncomeTax({
+ *   filingStatus: 'married_jointly',
+ *   ordinaryIncome: 180000,
+ *   qualifiedDividends: 12000,
+ *   wages: 180000
+ * });
+ * console.log(result.totalTax, result.marginalOrdinaryRate);
+ * ```
+ */
+export function calculateFederalIncomeTax(inputs: FederalTaxInputs): FederalTaxResult {
+  const filingStatus = normalizeFilingStatus(inputs.filingStatus);
+  const config = getTaxYearConfig(inputs.taxYear);
+
+  const ordinaryIncome = Math.max(0, inputs.ordinaryIncome);
+  const preferentialIncome = Math.max(0, inputs.qualifiedDividends ?? 0) +
+    Math.max(0, inputs.longTermCapitalGains ?? 0);
+  const grossIncome = ordinaryIncome + preferentialIncome;
+  const adjustedGrossIncome = Math.max(0, grossIncome - (inputs.adjustments ?? 0));
+
+  const standardDeduction = config.standardDeductions[filingStatus];
+  const itemized = inputs.itemizedDeductions ?? 0;
+  const usedStandardDeduction = standardDeduction >= itemized;
+  const deduction = usedStandardDeduction ? standardDeduction : itemized;
+
+  const taxableIncome = Math.max(0, adjustedGrossIncome - deduction);
+  const preferentialTaxableIncome = Math.min(preferentialIncome, taxableIncome);
+  const ordinaryTaxableIncome = taxableIncome - preferentialTaxableIncome;
+
+  const ordinary = calculateOrdinaryIncomeTax(ordinaryTaxableIncome, filingStatus, config.year);
+  const capitalGains = calculateCapitalGainsTax(
+    ordinaryTaxableIncome,
+    preferentialTaxableIncome,
+    filingStatus,
+    config.year
+  );
+
+  const netInvestmentIncome = preferentialIncome + Math.max(0, inputs.otherInvestmentIncome ?? 0);
+  const netInvestmentIncomeTax = calculateNetInvestmentIncomeTax(
+    adjustedGrossIncome,
+    netInvestmentIncome,
+    filingStatus,
+    config.year
+  );
+
+  const additionalMedicareTax = calculateAdditionalMedicareTax(inputs.wages ?? 0, filingStatus, config.year);
+
+  const totalTax = ordinary.tax + capitalGains.tax + netInvestmentIncomeTax + additionalMedicareTax;
+
+  return {
+    taxYear: config.year,
+    filingStatus,
+    grossIncome,
+    adjustedGrossIncome,
+    deduction,
+    usedStandardDeduction,
+    taxableIncome,
+    ordinaryTaxableIncome,
+    preferentialTaxableIncome,
+    ordinaryIncomeTax: ordinary.tax,
+    capitalGainsTax: capitalGains.tax,
+    netInvestmentIncomeTax,
+    additionalMedicareTax,
+    totalTax,
+    marginalOrdinaryRate: ordinary.marginalRate,
+    marginalCapitalGainsRate: capitalGains.marginalRate,
+    effectiveRate: grossIncome > 0 ? totalTax / grossIncome : 0,
+  };
+}
@@ -0,0 +1,699 @@
+/**
+ * State Income Tax Engine
+ *
+ * Progressive state income tax for all 50 states and DC, shared by the
+ * paycheck, Roth conversion and dividend calculators. Each state carries
+ * its own bracket schedules by filing status, standard deduction,
+ * personal exemptions and personal exemption credits.
+ *
+ * Tables reflect tax year 2025 law. Modeling notes:
+ * - Local (city/county) income taxes are not included (e.g. NYC, MD counties, IN counties)
+ * - Deductions and exemptions that phase out with income use their full amount
+ * - Dependent exemptions and state-specific credits are not modeled
+ * - States that start from federal taxable income use the federal standard deduction
+ *
+ * All rates in this module are decimals (0.05 = 5%).
+ *
+ * @module tax/stateTax
+ * @see https://taxfoundation.org/data/all/state/state-income-tax-rates/
+ */
+
+import {
+  type FilingStatus,
+  type FilingStatusInput,
+  type FederalTaxBracket,
+  DEFAULT_TAX_YEAR,
+  normalizeFilingStatus,
+  getStandardDeduction,
+  findBracket,
+  applyBrackets
+} from './federalTax.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * US States (including DC)
+ */
+export type USState =
+  | 'AL' | 'AK' | 'AZ' | 'AR' | 'CA' | 'CO' | 'CT' | 'DE' | 'DC' | 'FL'
+  | 'GA' | 'HI' | 'ID' | 'IL' | 'IN' | 'IA' | 'KS' | 'KY' | 'LA' | 'ME'
+  | 'MD' | 'MA' | 'MI' | 'MN' | 'MS' | 'MO' | 'MT' | 'NE' | 'NV' | 'NH'
+  | 'NJ' | 'NM' | 'NY' | 'NC' | 'ND' | 'OH' | 'OK' | 'OR' | 'PA' | 'RI'
+  | 'SC' | 'SD' | 'TN' | 'TX' | 'UT' | 'VT' | 'VA' | 'WA' | 'WV' | 'WI' | 'WY';
+
+/**
+ * A single state tax bracket (rate as decimal)
+ */
+export type StateTaxBracket = FederalTaxBracket;
+
+/**
+ * Income tax rules for one state
+ */
+export interface StateTaxInfo {
+  /** Whether the state taxes wage income */
+  hasIncomeTax: boolean;
+  /** Single statutory rate for flat-tax states */
+  flatRate?: number;
+  /** Top marginal rate */
+  topRate?: number;
+  /** Bracket schedule for single filers (also used by statuses without their own schedule) */
+  brackets?: StateTaxBracket[];
+  /** Schedules for filing statuses that differ from the single schedule */
+  bracketsByFilingStatus?: Partial<Record<FilingStatus, StateTaxBracket[]>>;
+  /** State standard deduction by filing status, or 'federal' to use the federal standard deduction */
+  standardDeduction?: Record<FilingStatus, number> | 'federal';
+  /** Personal exemption deduction by filing status (taxpayer plus spouse when joint) */
+  personalExemption?: Record<FilingStatus, number>;
+  /** Nonrefundable personal exemption credit by filing status */
+  personalCredit?: Record<FilingStatus, number>;
+}
+
+/**
+ * Inputs for a state income tax calculation
+ */
+export interface StateTaxInputs {
+  /** State of residence */
+  state: USState;
+  /** State gross income before state deductions (wages after pre-tax deductions, IRA distributions, etc.) */
+  income: number;
+  /** Filing status (default: single) */
+  filingStatus?: FilingStatusInput;
+  /** Tax year, used for states that adopt the federal standard deduction (default: DEFAULT_TAX_YEAR) */
+  taxYear?: number;
+}
+
+/**
+ * Result of a state income tax calculation
+ */
+export interface StateTaxResult {
+  /** State */
+  state: USState;
+  /** Normalized filing status */
+  filingStatus: FilingStatus;
+  /** Whether the state taxes wage income */
+  hasIncomeTax: boolean;
+  /** State gross income */
+  income: number;
+  /** State standard deduction applied */
+  standardDeduction: number;
+  /** Personal exemptions applied */
+  personalExemption: number;
+  /** State taxable income */
+  taxableIncome: number;
+  /** Tax from the bracket schedule */
+  taxBeforeCredits: number;
+  /** Personal exemption credits applied */
+  credits: number;
+  /** State income tax owed */
+  tax: number;
+  /** Rate on the next dollar of income */
+  marginalRate: number;
+  /** Tax / income */
+  effectiveRate: number;
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Build a bracket schedule from bracket floors and their rates
+ *
+ * @param floors - Lower bound of each bracket, starting at 0
+ * @param rates - Rate for each bracket
+ */
+function schedule(floors: number[], rates: number[]): StateTaxBracket[] {
+  return rates.map((rate, i) => ({
+    min: floors[i],
+    max: i + 1 < floors.length ? floors[i + 1] : Infinity,
+    rate,
+  }));
+}
+
+/**
+ * Build a per-filing-status amount table
+ *
+ * Married filing separately defaults to the single amount, head of
+ * household defaults to the single amount unless the state sets its own.
+ */
+function byStatus(
+  single: number,
+  married: number,
+  headOfHousehold: number = single,
+  marriedSeparately: number = single
+): Record<FilingStatus, number> {
+  return {
+    'single': single,
+    'married_jointly': married,
+    'married_separately': marriedSeparately,
+    'head_of_household': headOfHousehold,
+  };
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/**
+ * State income tax rules (tax year 2025)
+ * States with no income tax on wages: AK, FL, NV, NH, SD, TN, TX, WA, WY
+ */
+export const STATE_TAX_INFO: Record<USState, StateTaxInfo> = {
+  'AL': {
+    hasIncomeTax: true,
+    topRate: 0.05,
+    brackets: schedule([0, 500, 3000], [0.02, 0.04, 0.05]),
+    bracketsByFilingStatus: {
+      'married_jointly': schedule([0, 1000, 6000], [0.02, 0.04, 0.05]),
+    },
+    standardDeduction: byStatus(3000, 8500, 5200, 4250),
+    personalExemption: byStatus(1500, 3000, 3000),
+  },
+  'AK': { hasIncomeTax: false },
+  'AZ': { hasIncomeTax: true, flatRate: 0.025, topRate: 0.025, standardDeduction: 'federal' },
+  'AR': {
+    hasIncomeTax: true,
+    topRate: 0.039,
+    brackets: schedule([0, 5500, 10900, 15600, 25700], [0, 0.02, 0.03, 0.034, 0.039]),
+    standardDeduction: byStatus(2410, 4820),
+  },
+  'CA': {
+    hasIncomeTax: true,
+    topRate: 0.133,
+    brackets: schedule(
+      [0, 11079, 26264, 41452, 57542, 72724, 371479, 445771, 742953, 1000000],
+      [0.01, 0.02, 0.04, 0.06, 0.08, 0.093, 0.103, 0.113, 0.123, 0.133]
+    ),
+    bracketsByFilingStatus: {
+      'married_jointly': schedule(
+        [0, 22158, 52528, 82904, 115084, 145448, 742958, 891542, 1000000, 1485906],
+        [0.01, 0.02, 0.04, 0.06, 0.08, 0.093, 0.103, 0.113, 0.123, 0.133]
+      ),
+      'head_of_household': schedule(
+        [0, 22173, 52530, 67716, 83805, 98990, 505208, 606251, 1000000, 1010417],
+        [0.01, 0.02, 0.04, 0.06, 0.08, 0.093, 0.103, 0.113, 0.123, 0.133]
+      ),
+    },
+    standardDeduction: byStatus(5706, 11412, 11412),
+    personalCredit: byStatus(153, 306),
+  },
+  'CO': { hasIncomeTax: true, flatRate: 0.044, topRate: 0.044, standardDeduction: 'federal' },
+  'CT': {
+    hasIncomeTax: true,
+    topRate: 0.0699,
+    brackets: schedule(
+      [0, 10000, 50000, 100000, 200000, 250000, 500000],
+      [0.02, 0.045, 0.055, 0.06, 0.065, 0.069, 0.0699]
+    ),
+    bracketsByFilingStatus: {
+      'married_jointly': schedule(
+        [0, 20000, 100000, 200000, 400000, 500000, 1000000],
+        [0.02, 0.045, 0.055, 0.06, 0.065, 0.069, 0.0699]
+      ),
+      'head_of_household': schedule(
+        [0, 16000, 80000, 160000, 320000, 400000, 800000],
+        [0.02, 0.045, 0.055, 0.06, 0.065, 0.069, 0.0699]
+      ),
+    },
+    personalExemption: byStatus(15000, 24000, 19000, 12000),
+  },
+  'DE': {
+    hasIncomeTax: true,
+    topRate: 0.066,
+    brackets: schedule(
+      [0, 2000, 5000, 10000, 20000, 25000, 60000],
+      [0, 0.022, 0.039, 0.048, 0.052, 0.0555, 0.066]
+    ),
+    standardDeduction: byStatus(3250, 6500),
+    personalCredit: byStatus(110, 220),
+  },
+  'DC': {
+    hasIncomeTax: true,
+    topRate: 0.1075,
+    brackets: schedule(
+      [0, 10000, 40000, 60000, 250000, 500000, 1000000],
+      [0.04, 0.06, 0.065, 0.085, 0.0925, 0.0975, 0.1075]
+    ),
+    standardDeduction: 'federal',
+  },
+  'FL': { hasIncomeTax: false },
+  'GA': { hasIncomeTax: true, flatRate: 0.0539, topRate: 0.0539, standardDeduction: byStatus(12000, 24000) },
+  'HI': {
+    hasIncomeTax: true,
+    topRate: 0.11,
+    brackets: schedule(
+      [0, 9600, 14400, 19200, 24000, 36000, 48000, 125000, 175000, 225000, 275000, 325000],
+      [0.014, 0.032, 0.055, 0.064, 0.068, 0.072, 0.076, 0.079, 0.0825, 0.09, 0.10, 0.11]
+    ),
+    bracketsByFilingStatus: {
+      'married_jointly': schedule(
+        [0, 19200, 28800, 38400, 48000, 72000, 96000, 250000, 350000, 450000, 550000, 650000],
+        [0.014, 0.032, 0.055, 0.064, 0.068, 0.072, 0.076, 0.079, 0.0825, 0.09, 0.10, 0.11]
+      ),
+    },
+    standardDeduction: byStatus(4400, 8800, 6424),
+    personalExemption: byStatus(1144, 2288),
+  },
+  'ID': {
+    hasIncomeTax: true,
+    flatRate: 0.053,
+    topRate: 0.053,
+    brackets: schedule([0, 4811], [0, 0.053]),
+    bracketsByFilingStatus: {
+      'married_jointly': schedule([0, 9622], [0, 0.053]),
+      'head_of_household': schedule([0, 9622], [0, 0.053]),
+    },
+    standardDeduction: 'federal',
+  },
+  'IL': { hasIncomeTax: true, flatRate: 0.0495, topRate: 0.0495, personalExemption: byStatus(2850, 5700) },
+  'IN': { hasIncomeTax: true, flatRate: 0.03, topRate: 0.03, personalExemption: byStatus(1000, 2000) },
+  'IA': { hasIncomeTax: true, flatRate: 0.038, topRate: 0.038, standardDeduction: 'federal' },
+  'KS': {
+    hasIncomeTax: true,
+    topRate: 0.0558,
+    brackets: schedule([0, 23000], [0.052, 0.0558]),
+    bracketsByFilingStatus: {
+      'married_jointly': schedule([0, 46000], [0.052, 0.0558]),
+    },
+    standardDeduction: byStatus(3605, 8240, 6180, 4120),
+    personalExemption: byStatus(9160, 18320),
+  },
+  'KY': { hasIncomeTax: true, flatRate: 0.04, topRate: 0.04, standardDeduction: byStatus(3270, 3270) },
+  'LA': { hasIncomeTax: true, flatRate: 0.03, topRate: 0.03, standardDeduction: byStatus(12500, 25000, 25000) },
+  'ME': {
+    hasIncomeTax: true,
+    topRate: 0.0715,
+    brackets: schedule([0, 26800, 63450], [0.058, 0.0675, 0.0715]),
+    bracketsByFilingStatus: {
+      'married_jointly': schedule([0, 53600, 126900], [0.058, 0.0675, 0.0715]),
+      'head_of_household': schedule([0, 40200, 95150], [0.058, 0.0675, 0.0715]),
+    },
+    standardDeduction: 'federal',
+    personalExemption: byStatus(5150, 10300),
+  },
+  'MD': {
+    hasIncomeTax: true,
+    topRate: 0.065,
+    brackets: schedule(
+      [0, 1000, 2000, 3000, 100000, 125000, 150000, 250000, 500000, 1000000],
+      [0.02, 0.03, 0.04, 0.0475, 0.05, 0.0525, 0.055, 0.0575, 0.0625, 0.065]
+    ),
+    bracketsByFilingStatus: {
+      'married_jointly': schedule(
+        [0, 1000, 2000, 3000, 150000, 175000, 225000, 300000, 600000, 1200000],
+        [0.02, 0.03, 0.04, 0.0475, 0.05, 0.0525, 0.055, 0.0575, 0.0625, 0.065]
+      ),
+      'head_of_household': schedule(
+        [0, 1000, 2000, 3000, 150000, 175000, 225000, 300000, 600000, 1200000],
+        [0.02, 0.03, 0.04, 0.0475, 0.05, 0.0525, 0.055, 0.0575, 0.0625, 0.065]
+      ),
+    },
+    standardDeduction: byStatus(3350, 6700, 6700),
+    personalExemption: byStatus(3200, 6400),
+  },
+  'MA': {
+    hasIncomeTax: true,
+    flatRate: 0.05,
+    topRate: 0.09,
+    brackets: schedule([0, 1083150], [0.05, 0.09]),
+    personalExemption: byStatus(4400, 8800, 6800),
+  },
+  'MI': { hasIncomeTax: true, flatRate: 0.0425, topRate: 0.0425, personalExemption: byStatus(5800, 11600) },
+  'MN': {
+    hasIncomeTax: true,
+    topRate: 0.0985,
+    brackets: schedule([0, 32570, 106990, 198630], [0.0535, 0.068, 0.0785, 0.0985]),
+    bracketsByFilingStatus: {
+      'married_jointly': schedule([0, 47620, 189180, 330410], [0.0535, 0.068, 0.0785, 0.0985]),
+      'married_separately': schedule([0, 23810, 94590, 165205], [0.0535, 0.068, 0.0785, 0.0985]),
+      'head_of_household': schedule([0, 40100, 161130, 264050], [0.0535, 0.068, 0.0785, 0.0985]),
+    },
+    standardDeduction: byStatus(14950, 29900, 22500),
+  },
+  'MS': {
+    hasIncomeTax: true,
+    flatRate: 0.044,
+    topRate: 0.044,
+    brackets: schedule([0, 10000], [0, 0.044]),
+    standardDeduction: byStatus(2300, 4600, 3400),
+    personalExemption: byStatus(6000, 12000, 9500),
+  },
+  'MO': {
+    hasIncomeTax: true,
+    topRate: 0.047,
+    brackets: schedule(
+      [0, 1313, 2626, 3939, 5252, 6565, 7878, 9191],
+      [0, 0.02, 0.025, 0.03, 0.035, 0.04, 0.045, 0.047]
+    ),
+    standardDeduction: 'federal',
+  },
+  'MT': {
+    hasIncomeTax: true,
+    topRate: 0.059,
+    brackets: schedule([0, 21100], [0.047, 0.059]),
+    bracketsByFilingStatus: {
+      'married_jointly': schedule([0, 42200], [0.047, 0.059]),
+      'head_of_household': schedule([0, 31700], [0.047, 0.059]),
+    },
+    standardDeduction: 'federal',
+  },
+  'NE': {
+    hasIncomeTax: true,
+    topRate: 0.052,
+    brackets: schedule([0, 4030, 24120, 38870], [0.0246, 0.0351, 0.0501, 0.052]),
+    bracketsByFilingStatus: {
+      'married_jointly': schedule([0, 8040, 48250, 77730], [0.0246, 0.0351, 0.0501, 0.052]),
+      'head_of_household': schedule([0, 7510, 38590, 57630], [0.0246, 0.0351, 0.0501, 0.052]),
+    },
+    standardDeduction: byStatus(8600, 17200, 12600),
+    personalCredit: byStatus(171, 342),
+  },
+  'NV': { hasIncomeTax: false },
+  'NH': { hasIncomeTax: false }, // Interest and dividends tax repealed for 2025
+  'NJ': {
+    hasIncomeTax: true,
+    topRate: 0.1075,
+    brackets: schedule(
+      [0, 20000, 35000, 40000, 75000, 500000, 1000000],
+      [0.014, 0.0175, 0.035, 0.05525, 0.0637, 0.0897, 0.1075]
+    ),
+    bracketsByFilingStatus: {
+      'married_jointly': schedule(
+        [0, 20000, 50000, 70000, 80000, 150000, 500000, 1000000],
+        [0.014, 0.0175, 0.0245, 0.035, 0.05525, 0.0637, 0.0897, 0.1075]
+      ),
+      'head_of_household': schedule(
+        [0, 20000, 50000, 70000, 80000, 150000, 500000, 1000000],
+        [0.014, 0.0175, 0.0245, 0.035, 0.05525, 0.0637, 0.0897, 0.1075]
+      ),
+    },
+    personalExemption: byStatus(1000, 2000),
+  },
+  'NM': {
+    hasIncomeTax: true,
+    topRate: 0.059,
+    brackets: schedule([0, 5500, 16500, 33500, 66500, 210000], [0.015, 0.032, 0.043, 0.047, 0.049, 0.059]),
+    bracketsByFilingStatus: {
+      'married_jointly': schedule([0, 8000, 25000, 50000, 100000, 315000], [0.015, 0.032, 0.043, 0.047, 0.049, 0.059]),
+      'head_of_household': schedule([0, 8000, 25000, 50000, 100000, 315000], [0.015, 0.032, 0.043, 0.047, 0.049, 0.059]),
+    },
+    standardDeduction: 'federal',
+  },
+  'NY': {
+    hasIncomeTax: true,
+    topRate: 0.109,
+    brackets: schedule(
+      [0, 8500, 11700, 13900, 80650, 215400, 1077550, 5000000, 25000000],
+      [0.04, 0.045, 0.0525, 0.055, 0.06, 0.0685, 0.0965, 0.103, 0.109]
+    ),
+    bracketsByFilingStatus: {
+      'married_jointly': schedule(
+        [0, 17150, 23600, 27900, 161550, 323200, 2155350, 5000000, 25000000],
+        [0.04, 0.045, 0.0525, 0.055, 0.06, 0.0685, 0.0965, 0.103, 0.109]
+      ),
+      'head_of_household': schedule(
+        [0, 12800, 17650, 20900, 107650, 269300, 1616450, 5000000, 25000000],
+        [0.04, 0.045, 0.0525, 0.055, 0.06, 0.0685, 0.0965, 0.103, 0.109]
+      ),
+    },
+    standardDeduction: byStatus(8000, 16050, 11200),
+  },
+  'NC': { hasIncomeTax: true, flatRate: 0.0425, topRate: 0.0425, standardDeduction: byStatus(12750, 25500, 19125) },
+  'ND': {
+    hasIncomeTax: true,
+    topRate: 0.025,
+    brackets: schedule([0, 48475, 244825], [0, 0.0195, 0.025]),
+    bracketsByFilingStatus: {
+      'married_jointly': schedule([0, 80975, 298075], [0, 0.0195, 0.025]),
+      'married_separately': schedule([0, 40475, 149025], [0, 0.0195, 0.025]),
+      'head_of_household': schedule([0, 64950, 271450], [0, 0.0195, 0.025]),
+    },
+    standardDeduction: 'federal',
+  },
+  'OH': {
+    hasIncomeTax: true,
+    topRate: 0.03125,
+    brackets: schedule([0, 26050, 100000], [0, 0.0275, 0.03125]),
+  },
+  'OK': {
+    hasIncomeTax: true,
+    topRate: 0.0475,
+    brackets: schedule([0, 1000, 2500, 3750, 4900, 7200], [0.0025, 0.0075, 0.0175, 0.0275, 0.0375, 0.0475]),
+    bracketsByFilingStatus: {
+      'married_jointly': schedule([0, 2000, 5000, 7500, 9800, 14400], [0.0025, 0.0075, 0.0175, 0.0275, 0.0375, 0.0475]),
+      'head_of_household': schedule([0, 2000, 5000, 7500, 9800, 14400], [0.0025, 0.0075, 0.0175, 0.0275, 0.0375, 0.0475]),
+    },
+    standardDeduction: byStatus(6350, 12700, 9350),
+    personalExemption: byStatus(1000, 2000),
+  },
+  'OR': {
+    hasIncomeTax: true,
+    topRate: 0.099,
+    brackets: schedule([0, 4400, 11050, 125000], [0.0475, 0.0675, 0.0875, 0.099]),
+    bracketsByFilingStatus: {
+      'married_jointly': schedule([0, 8800, 22100, 250000], [0.0475, 0.0675, 0.0875, 0.099]),
+      'head_of_household': schedule([0, 8800, 22100, 250000], [0.0475, 0.0675, 0.0875, 0.099]),
+    },
+    standardDeduction: byStatus(2835, 5670, 4560),
+    personalCredit: byStatus(256, 512),
+  },
+  'PA': { hasIncomeTax: true, flatRate: 0.0307, topRate: 0.0307 },
+  'RI': {
+    hasIncomeTax: true,
+    topRate: 0.0599,
+    brackets: schedule([0, 79900, 181650], [0.0375, 0.0475, 0.0599]),
+    standardDeduction: byStatus(10900, 21800, 16350),
+    personalExemption: byStatus(5100, 10200),
+  },
+  'SC': {
+    hasIncomeTax: true,
+    topRate: 0.06,
+    brackets: schedule([0, 3560, 17830], [0, 0.03, 0.06]),
+    standardDeduction: 'federal',
+  },
+  'SD': { hasIncomeTax: false },
+  'TN': { hasIncomeTax: false }, // No tax on wages
+  'TX': { hasIncomeTax: false },
+  'UT': { hasIncomeTax: true, flatRate: 0.045, topRate: 0.045 },
+  'VT': {
+    hasIncomeTax: true,
+    topRate: 0.0875,
+    brackets: schedule([0, 47900, 116000, 242000], [0.0335, 0.066, 0.076, 0.0875]),
+    bracketsByFilingStatus: {
+      'married_jointly': schedule([0, 79950, 193300, 294600], [0.0335, 0.066, 0.076, 0.0875]),
+      'head_of_household': schedule([0, 64200, 165700, 268300], [0.0335, 0.066, 0.076, 0.0875]),
+    },
+    standardDeduction: byStatus(7400, 14850, 11100),
+    personalExemption: byStatus(5300, 10600),
+  },
+  'VA': {
+    hasIncomeTax: true,
+    topRate: 0.0575,
+    brackets: schedule([0, 3000, 5000, 17000], [0.02, 0.03, 0.05, 0.0575]),
+    standardDeduction: byStatus(8500, 17000),
+    personalExemption: byStatus(930, 1860),
+  },
+  'WA': { hasIncomeTax: false },
+  'WV': {
+    hasIncomeTax: true,
+    topRate: 0.0482,
+    brackets: schedule([0, 10000, 25000, 40000, 60000], [0.0222, 0.0296, 0.0333, 0.0444, 0.0482]),
+    personalExemption: byStatus(2000, 4000),
+  },
+  'WI': {
+    hasIncomeTax: true,
+    topRate: 0.0765,
+    brackets: schedule([0, 14680, 29370, 323290], [0.035, 0.044, 0.053, 0.0765]),
+    bracketsByFilingStatus: {
+      'married_jointly': schedule([0, 19580, 39150, 431060], [0.035, 0.044, 0.053, 0.0765]),
+      'married_separately': schedule([0, 9790, 19580, 215530], [0.035, 0.044, 0.053, 0.0765]),
+    },
+    standardDeduction: byStatus(13560, 25110, 17520, 11920),
+    personalExemption: byStatus(700, 1400),
+  },
+  'WY': { hasIncomeTax: false },
+};
+
+// ============================================================================
+// Lookup Helpers
+// ============================================================================
+
+/**
+ * Get the bracket schedule a state applies to a filing status
+ *
+ * Flat-tax states without a zero-rate band return a single bracket;
+ * states without an income tax return an empty schedule.
+ *
+ * @param state - State
+ * @param filingStatus - Filing status (default: single)
+ * @returns Bracket schedule (rates as decimals)
+ */
+export function getStateBrackets(
+  state: USState,
+  filingStatus: FilingStatusInput = 'single'
+): StateTaxBracket[] {
+  const info = STATE_TAX_INFO[state];
+
+  if (!info.hasIncomeTax) {
+    return [];
+  }
+
+  const status = normalizeFilingStatus(filingStatus);
+  const byFilingStatus = info.bracketsByFilingStatus?.[status];
+  if (byFilingStatus) {
+    return byFilingStatus;
+  }
+
+  if (info.brackets) {
+    return info.brackets;
+  }
+
+  return [{ min: 0, max: Infinity, rate: info.flatRate ?? info.topRate ?? 0 }];
+}
+
+/**
+ * Get the standard deduction and personal exemptions a state allows
+ *
+ * @param state - State
+ * @param filingStatus - Filing status (default: single)
+ * @param taxYear - Tax year for states that use the federal standard deduction
+ * @returns Standard deduction, personal exemption and personal credit amounts
+ */
+export function getStateDeductions(
+  state: USState,
+  filingStatus: FilingStatusInput = 'single',
+  taxYear: number = DEFAULT_TAX_YEAR
+): { standardDeduction: number; personalExemption: number; personalCredit: number } {
+  const info = STATE_TAX_INFO[state];
+  const status = normalizeFilingStatus(filingStatus);
+
+  let standardDeduction = 0;
+  if (info.standardDeduction === 'federal') {
+    standardDeduction = getStandardDeduction(status, taxYear);
+  } else if (info.standardDeduction) {
+    standardDeduction = info.standardDeduction[status];
+  }
+
+  return {
+    standardDeduction,
+    personalExemption: info.personalExemption?.[status] ?? 0,
+    personalCredit: info.personalCredit?.[status] ?? 0,
+  };
+}
+
+// ============================================================================
+// Main Calculator Functions
+// ============================================================================
+
+/**
+ * Calculate state income tax with progressive brackets
+ *
+ * Steps:
+ * 1. Taxable income = income - state standard deduction - personal exemptions
+ * 2. Tax = Σ bracket amounts from the state schedule for the filing status
+ * 3. Personal exemption credits reduce tax (not below zero)
+ *
+ * @param inputs - State, income and filing information
+ * @returns State tax with effective and marginal rates
+ *
+ * @example
+ * ```typescript
+ * const ca = calculateStateIncomeTax({ state: 'CA', income: 60000 });
+ * console.log(ca.tax);           // ~$1,640 (not 13.3% of income)
+ * console.log(ca.effectiveRate); // ~0.027
+ * console.log(ca.marginalRate);  // 0.06
+ * ```
+ */
+export function calculateStateIncomeTax(inputs: StateTaxInputs): StateTaxResult {
+  const { state } = inputs;
+  const filingStatus = normalizeFilingStatus(inputs.filingStatus ?? 'single');
+  const income = Math.max(0, inputs.income);
+  const info = STATE_TAX_INFO[state];
+
+  if (!info.hasIncomeTax) {
+    return {
+      state,
+      filingStatus,
+      hasIncomeTax: false,
+      income,
+      standardDeduction: 0,
+      personalExemption: 0,
+      taxableIncome: 0,
+      taxBeforeCredits: 0,
+      credits: 0,
+      tax: 0,
+      marginalRate: 0,
+      effectiveRate: 0,
+    };
+  }
+
+  const { standardDeduction, personalExemption, personalCredit } =
+    getStateDeductions(state, filingStatus, inputs.taxYear);
+  const totalDeductions = standardDeduction + personalExemption;
+  const taxableIncome = Math.max(0, income - totalDeductions);
+
+  const brackets = getStateBrackets(state, filingStatus);
+  const taxBeforeCredits = applyBrackets(taxableIncome, brackets);
+  const credits = Math.min(personalCredit, taxBeforeCredits);
+  const tax = taxBeforeCredits - credits;
+
+  // The next dollar is untaxed while deductions or credits are still absorbing income
+  const marginalRate = income < totalDeductions || taxBeforeCredits < personalCredit
+    ? 0
+    : findBracket(taxableIncome, brackets).rate;
+
+  return {
+    state,
+    filingStatus,
+    hasIncomeTax: true,
+    income,
+    standardDeduction,
+    personalExemption,
+    taxableIncome,
+    taxBeforeCredits,
+    credits,
+    tax,
+    marginalRate,
+    effectiveRate: income > 0 ? tax / income : 0,
+  };
+}
+
+/**
+ * Calculate the state tax caused by additional income on top of a base
+ *
+ * Used for Roth conversions, RMDs and dividends where the question is
+ * "how much more state tax do I owe on this extra income?"
+ *
+ * Formula: Tax = StateTax(base + additional) - StateTax(base)
+ *
+ * @param state - State
+ * @param baseIncome - State gross income before the additional income
+ * @param additionalIncome - Additional income to tax
+ * @param filingStatus - Filing status (default: single)
+ * @param taxYear - Tax year (default: DEFAULT_TAX_YEAR)
+ * @returns Incremental tax, average rate on the additional income and marginal rate after it
+ */
+export function calculateStateTaxOnAdditionalIncome(
+  state: USState,
+  baseIncome: number,
+  additionalIncome: number,
+  filingStatus: FilingStatusInput = 'single',
+  taxYear: number = DEFAULT_TAX_YEAR
+): { tax: number; averageRate: number; marginalRate: number } {
+  const before = calculateStateIncomeTax({ state, income: baseIncome, filingStatus, taxYear });
+  const after = calculateStateIncomeTax({
+    state,
+    income: baseIncome + Math.max(0, additionalIncome),
+    filingStatus,
+    taxYear,
+  });
+  const tax = after.tax - before.tax;
+
+  return {
+    tax,
+    averageRate: additionalIncome > 0 ? tax / additionalIncome : 0,
+    marginalRate: after.marginalRate,
+  };
+}
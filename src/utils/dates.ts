@@ -0,0 +1,208 @@
+/**
+ * Calendar Dates
+ *
+ * Payment dates for amortization and payoff schedules. Schedules step one
+ * calendar month at a time from the first payment date and keep its day of
+ * the month, the way lender statements do: a loan first due January 31 is
+ * next due February 28 (29 in leap years), then March 31.
+ *
+ * Dates are plain calendar dates without a time or time zone, exchanged as
+ * ISO strings ('2026-03-01'). Calculators default the first payment to one
+ * month after "today", which callers can inject so results are
+ * deterministic.
+ *
+ * @module utils/dates
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * A date given by the caller: a Date (its local calendar day is used) or an
+ * ISO date string ('2026-03-01')
+ */
+export type DateInput = Date | string;
+
+/**
+ * A calendar date with no time of day
+ */
+export interface CalendarDate {
+  /** Full year (e.g., 2026) */
+  year: number;
+  /** Month of the year (1-12) */
+  month: number;
+  /** Day of the month (1-31) */
+  day: number;
+}
+
+/**
+ * Date options shared by schedule-producing calculators
+ */
+export interface ScheduleDateOptions {
+  /** Due date of the first payment (default: one month after today) */
+  firstPaymentDate?: DateInput;
+  /** Date to treat as today (default: the current date) */
+  today?: DateInput;
+}
+
+// ============================================================================
+// Date Functions
+// ============================================================================
+
+/**
+ * Number of days in a month
+ *
+ * @param year - Full year
+ * @param month - Month of the year (1-12)
+ */
+export function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+/**
+ * Parse a date input into a calendar date
+ *
+ * Strings must start with an ISO date ('2026-03-01' or '2026-03-01T09:00:00Z');
+ * only the date part is used.
+ *
+ * @returns The calendar date, or undefined when the input is not a real date
+ */
+export function parseCalendarDate(value: DateInput): CalendarDate | undefined {
+  if (value instanceof Date) {
+    if (Number.isNaN(value.getTime())) {
+      return undefined;
+    }
+    return { year: value.getFullYear(), month: value.getMonth() + 1, day: value.getDate() };
+  }
+
+  const match = typeof value === 'string' ? /^(\d{4})-(\d{2})-(\d{2})/.exec(value) : null;
+  if (!match) {
+    return undefined;
+  }
+
+  const year = Number(match[1]);
+  const month = Number(match[2]);
+  const day = Number(match[3]);
+  if (month < 1 || month > 12 || day < 1 || day > daysInMonth(year, month)) {
+    return undefined;
+  }
+  return { year, month, day };
+}
+
+/**
+ * Resolve "today", falling back to the current date
+ *
+ * @param today - Injected date (invalid dates are ignored)
+ */
+export function resolveToday(today?: DateInput): CalendarDate {
+  return (today !== undefined ? parseCalendarDate(today) : undefined)
+    ?? parseCalendarDate(new Date())!;
+}
+
+/**
+ * Add calendar months, clamping to the end of shorter months
+ *
+ * @param date - Starting date
+ * @param months - Months to add (may be negative)
+ * @param anchorDay - Day of the month to aim for (default: the starting day)
+ * @returns The shifted date
+ *
+ * @example addMonths({ year: 2026, month: 1, day: 31 }, 1) // 2026-02-28
+ */
+export function addMonths(date: CalendarDate, months: number, anchorDay: number = date.day): CalendarDate {
+  const monthIndex = date.year * 12 + (date.month - 1) + months;
+  const year = Math.floor(monthIndex / 12);
+  const month = monthIndex - year * 12 + 1;
+  return { year, month, day: Math.min(anchorDay, daysInMonth(year, month)) };
+}
+
+/**
+ * Add days to a calendar date
+ *
+ * @param date - Starting date
+ * @param days - Days to add (may be negative)
+ * @returns The shifted date
+ *
+ * @example addDays({ year: 2026, month: 2, day: 20 }, 14) // 2026-03-06
+ */
+export function addDays(date: CalendarDate, days: number): CalendarDate {
+  const shifted = new Date(Date.UTC(date.year, date.month - 1, date.day + days));
+  return { year: shifted.getUTCFullYear(), month: shifted.getUTCMonth() + 1, day: shifted.getUTCDate() };
+}
+
+/**
+ * Calendar days from one date to another (negative when `to` is before `from`)
+ *
+ * @example daysBetween({ year: 2026, month: 1, day: 15 }, { year: 2026, month: 2, day: 15 }) // 31
+ */
+export function daysBetween(from: CalendarDate, to: CalendarDate): number {
+  const MS_PER_DAY = 24 * 60 * 60 * 1000;
+  return Math.round(
+    (Date.UTC(to.year, to.month - 1, to.day) - Date.UTC(from.year, from.month - 1, from.day)) / MS_PER_DAY
+  );
+}
+
+/**
+ * Whole calendar months from one date to another
+ *
+ * A month counts once its day of the month is reached (or the end of a
+ * shorter month); the result is negative when `to` is before `from`.
+ *
+ * @example monthsBetween({ year: 2026, month: 1, day: 15 }, { year: 2026, month: 3, day: 14 }) // 1
+ */
+export function monthsBetween(from: CalendarDate, to: CalendarDate): number {
+  const months = (to.year - from.year) * 12 + (to.month - from.month);
+  if (months > 0 && to.day < Math.min(from.day, daysInMonth(to.year, to.month))) {
+    return months - 1;
+  }
+  if (months < 0 && from.day < Math.min(to.day, daysInMonth(from.year, from.month))) {
+    return months + 1;
+  }
+  return months;
+}
+
+/**
+ * Format a calendar date as an ISO date string ('2026-03-01')
+ */
+export function formatISODate(date: CalendarDate): string {
+  const pad = (n: number, width: number) => String(n).padStart(width, '0');
+  return `${pad(date.year, 4)}-${pad(date.month, 2)}-${pad(date.day, 2)}`;
+}
+
+/**
+ * Convert a calendar date to a Date at local midnight
+ */
+export function toDate(date: CalendarDate): Date {
+  return new Date(date.year, date.month - 1, date.day);
+}
+
+// ============================================================================
+// Payment Schedules
+// ============================================================================
+
+/**
+ * Resolve the due date of the first payment
+ *
+ * Uses `firstPaymentDate` when given, otherwise one month after today.
+ *
+ * @param options - First payment date and injected today
+ * @returns Due date of payment 1
+ */
+export function resolveFirstPaymentDate(options: ScheduleDateOptions = {}): CalendarDate {
+  const firstPaymentDate = options.firstPaymentDate !== undefined
+    ? parseCalendarDate(options.firstPaymentDate)
+    : undefined;
+  return firstPaymentDate ?? addMonths(resolveToday(options.today), 1);
+}
+
+/**
+ * Due date of a monthly payment
+ *
+ * @param firstPaymentDate - Due date of payment 1
+ * @param paymentNumber - Payment number (1-indexed)
+ * @returns Due date, keeping the first payment's day of the month
+ */
+export function monthlyPaymentDate(firstPaymentDate: CalendarDate, paymentNumber: number): CalendarDate {
+  return addMonths(firstPaymentDate, paymentNumber - 1);
+}
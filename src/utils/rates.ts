@@ -0,0 +1,173 @@
+/**
+ * Rate Conventions
+ *
+ * Calculators in this library grew up with two conventions for rates:
+ * - Percent: 7 means 7% (loan, mortgage, credit card, compound interest,
+ *   savings goal, dividend, Roth conversion, withdrawal strategy)
+ * - Decimal rate: 0.07 means 7% (FIRE, Coast FIRE, SWR, CD, home
+ *   affordability, paycheck, RMD)
+ *
+ * Plain numbers keep each calculator's original (legacy) convention.
+ * To avoid mixing them up, callers can instead pass rates in an explicit
+ * form - `{ percent: 7 }` or `{ rate: 0.07 }` - or as branded `Percent` /
+ * `Rate` values, and the calculator converts them to its own convention.
+ *
+ * @module utils/rates
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * A rate expressed as a percentage (7 = 7%)
+ *
+ * Plain numbers are accepted, but a value branded as a decimal `Rate`
+ * (from `rate()` or `toRate()`) is a compile error, which catches
+ * decimals passed where a percentage is expected.
+ */
+export type Percent = number & { readonly __rateConvention?: 'percent' };
+
+/**
+ * A rate expressed as a decimal (0.07 = 7%)
+ *
+ * Plain numbers are accepted, but a value branded as a `Percent`
+ * (from `percent()` or `toPercent()`) is a compile error.
+ */
+export type Rate = number & { readonly __rateConvention?: 'rate' };
+
+/**
+ * Convention a calculator uses for a rate field
+ */
+export type RateConvention = 'percent' | 'rate';
+
+/**
+ * A rate with its convention spelled out
+ *
+ * @example { percent: 6.5 } or { rate: 0.065 }
+ */
+export type ExplicitRate = { percent: number } | { rate: number };
+
+/**
+ * Map of rate fields to the convention their calculator uses
+ */
+export type RateFieldSpec<T> = { readonly [P in keyof T]?: RateConvention };
+
+/**
+ * Calculator inputs whose listed rate fields also accept explicit rates
+ *
+ * Optional fields stay optional.
+ */
+export type WithExplicitRates<T, F extends RateFieldSpec<T>> = {
+  [P in keyof T]: F[P] extends RateConvention ? T[P] | ExplicitRate : T[P];
+};
+
+// ============================================================================
+// Conversion Functions
+// ============================================================================
+
+/**
+ * Remove floating point noise from a converted rate (0.07 × 100 = 7.000000000000001)
+ */
+function clean(value: number): number {
+  return Number.isFinite(value) ? parseFloat(value.toPrecision(12)) : value;
+}
+
+/**
+ * Mark a number as a percentage (7 = 7%)
+ */
+export function percent(value: number): Percent {
+  return value as Percent;
+}
+
+/**
+ * Mark a number as a decimal rate (0.07 = 7%)
+ */
+export function rate(value: number): Rate {
+  return value as Rate;
+}
+
+/**
+ * Whether a value is an explicit `{ percent }` or `{ rate }` object
+ */
+export function isExplicitRate(value: unknown): value is ExplicitRate {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  return typeof (value as { percent?: unknown }).percent === 'number'
+    || typeof (value as { rate?: unknown }).rate === 'number';
+}
+
+/**
+ * Convert to a percentage
+ *
+ * Plain numbers are taken to already be percentages.
+ *
+ * @example toPercent({ rate: 0.065 }) // 6.5
+ */
+export function toPercent(value: ExplicitRate | Percent | number): Percent {
+  if (isExplicitRate(value)) {
+    return percent('percent' in value ? value.percent : clean(value.rate * 100));
+  }
+  return percent(value);
+}
+
+/**
+ * Convert to a decimal rate
+ *
+ * Plain numbers are taken to already be decimal rates.
+ *
+ * @example toRate({ percent: 6.5 }) // 0.065
+ */
+export function toRate(value: ExplicitRate | Rate | number): Rate {
+  if (isExplicitRate(value)) {
+    return rate('rate' in value ? value.rate : clean(value.percent / 100));
+  }
+  return rate(value);
+}
+
+/**
+ * Convert a rate to the given convention
+ */
+export function toConvention(value: ExplicitRate | number, convention: RateConvention): number {
+  return convention === 'percent' ? toPercent(value) : toRate(value);
+}
+
+// ============================================================================
+// Input Adapter
+// ============================================================================
+
+/**
+ * Convert explicit rates in calculator inputs to the calculator's convention
+ *
+ * Fields holding plain numbers are left untouched (legacy convention), so
+ * existing callers see no change. The original object is returned when no
+ * field needed converting.
+ *
+ * @param inputs - Calculator inputs, possibly containing explicit rates
+ * @param fields - Rate fields and the convention the calculator expects
+ * @returns Inputs with every listed rate field as a plain number
+ *
+ * @example
+ * ```typescript
+ * normalizeRateFields({ principal: 20000, interestRate: { rate: 0.069 }, termMonths: 60 }, LOAN_RATE_FIELDS);
+ * // { principal: 20000, interestRate: 6.9, termMonths: 60 }
+ * ```
+ */
+export function normalizeRateFields<T extends object, F extends RateFieldSpec<T>>(
+  inputs: T | WithExplicitRates<T, F>,
+  fields: F
+): T {
+  const source = inputs as Record<string, unknown>;
+  let normalized: Record<string, unknown> | undefined;
+
+  for (const [field, convention] of Object.entries(fields) as [string, RateConvention][]) {
+    const value = source[field];
+    if (isExplicitRate(value)) {
+      normalized = normalized ?? { ...source };
+      normalized[field] = toConvention(value, convention);
+    }
+  }
+
+  return (normalized ?? inputs) as T;
+}
@@ -0,0 +1,115 @@
+/**
+ * Calculation Trace
+ *
+ * Opt-in "show your work" output. With `{ trace: true }` a calculator
+ * records each step of its derivation - the formula, the values that went
+ * in, intermediate values and any table or constant it drew on - and
+ * returns them in order as `trace` on its result, so a page can render an
+ * auditable derivation beside the answer.
+ *
+ * Tracing is off by default; results without it are unchanged.
+ *
+ * @module utils/trace
+ */
+
+import type { ValidationOptions } from './validation.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * A value shown in a trace step
+ */
+export type TraceValue = number | string | boolean | null;
+
+/**
+ * One named step of a calculation
+ */
+export interface TraceStep {
+  /** Step identifier, unique within a trace (e.g. 'monthlyPayment') */
+  name: string;
+  /** What the step computes, in plain words */
+  description: string;
+  /** Formula used (e.g. 'M = P × r(1 + r)^n / ((1 + r)^n − 1)') */
+  formula?: string;
+  /** Values that went into the step */
+  inputs: Record<string, TraceValue>;
+  /** Intermediate values computed along the way */
+  intermediates?: Record<string, TraceValue>;
+  /** Value the step produced */
+  result: TraceValue;
+  /** Table or constant the step drew on (e.g. 'UNIFORM_LIFETIME_TABLE[75]') */
+  source?: string;
+}
+
+/**
+ * Option that turns tracing on
+ */
+export interface TraceOptions {
+  /** Return the calculation steps as `trace` on the result (default: false) */
+  trace?: boolean;
+}
+
+/**
+ * Options accepted by the main calculators
+ */
+export type CalculatorOptions = ValidationOptions & TraceOptions;
+
+/**
+ * Collects trace steps while a calculator runs
+ */
+export interface CalculationTrace {
+  /** Whether steps are being recorded */
+  readonly enabled: boolean;
+  /** Steps recorded so far, in order */
+  readonly steps: TraceStep[];
+  /** Record a step (ignored when tracing is off) */
+  add(step: TraceStep): void;
+}
+
+// ============================================================================
+// Functions
+// ============================================================================
+
+/**
+ * Create a trace collector for one calculator run
+ *
+ * @param options - Calculator options (`trace: true` turns recording on)
+ * @returns Trace collector
+ */
+export function createTrace(options: TraceOptions = {}): CalculationTrace {
+  const enabled = options.trace === true;
+  const steps: TraceStep[] = [];
+
+  return {
+    enabled,
+    steps,
+    add: (step) => {
+      if (enabled) {
+        steps.push(step);
+      }
+    }
+  };
+}
+
+/**
+ * Attach a trace to a calculator result
+ *
+ * The `trace` property is only added when tracing was turned on, so
+ * results are otherwise unchanged.
+ */
+export function withTrace<T extends object>(
+  result: T,
+  trace: CalculationTrace
+): T & { trace?: TraceStep[] } {
+  return trace.enabled ? { ...result, trace: trace.steps } : result;
+}
+
+/**
+ * Round a value for display in a trace (default: cents)
+ */
+export function traceRound(value: number, decimals: number = 2): number {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+}
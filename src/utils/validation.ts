@@ -0,0 +1,337 @@
+/**
+ * Input Validation
+ *
+ * Shared validation layer run by every calculator before it computes.
+ * Validators return structured ValidationIssue objects (field path, code,
+ * message, severity) so a form can highlight the exact field at fault
+ * instead of rendering NaN results.
+ *
+ * By default calculators still compute and attach the issues to their
+ * result as `validationIssues`. With `{ strict: true }` a calculator throws
+ * a ValidationError when any issue has severity 'error'.
+ *
+ * @module utils/validation
+ */
+
+import { parseCalendarDate } from './dates.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Severity of a validation issue
+ *
+ * - error: the input is invalid and results will be wrong or meaningless
+ * - warning: the input is valid but unusual (results may surprise the user)
+ */
+export type ValidationSeverity = 'error' | 'warning';
+
+/**
+ * Machine-readable validation issue codes
+ */
+export type ValidationCode =
+  | 'required'              // Value is missing
+  | 'not_finite'            // NaN or ±Infinity
+  | 'not_integer'           // Whole number expected
+  | 'invalid_date'          // Not a real calendar date
+  | 'negative'              // Must be zero or more
+  | 'not_positive'          // Must be greater than zero
+  | 'below_minimum'         // Less than the allowed minimum
+  | 'above_maximum'         // Greater than the allowed maximum
+  | 'invalid_option'        // Not one of the allowed values
+  | 'invalid_relationship'  // Inconsistent with another field (e.g. retirementAge < currentAge)
+  | 'invalid_sum'           // Parts do not add up to the required total
+  | 'empty'                 // List must contain at least one item
+  | 'unreachable';          // Goal can never be reached with these inputs
+
+/**
+ * A single problem found in calculator inputs
+ */
+export interface ValidationIssue {
+  /** Path to the offending field (e.g. 'debts[2].balance', 'portfolioAllocation.stocks') */
+  field: string;
+  /** Machine-readable code */
+  code: ValidationCode;
+  /** Human-readable message suitable for display next to the field */
+  message: string;
+  /** Whether the issue makes the inputs invalid or is advisory */
+  severity: ValidationSeverity;
+}
+
+/**
+ * Options accepted by calculators that validate their inputs
+ */
+export interface ValidationOptions {
+  /** Throw a ValidationError when any error-severity issue is found (default: false) */
+  strict?: boolean;
+}
+
+/**
+ * Rules for a numeric field
+ */
+export interface NumberRule {
+  /** Whether the value must be present (default: true) */
+  required?: boolean;
+  /** Minimum allowed value */
+  min?: number;
+  /** Maximum allowed value */
+  max?: number;
+  /** Whether the minimum itself is excluded (value must be > min) */
+  exclusiveMin?: boolean;
+  /** Whether the value must be a whole number */
+  integer?: boolean;
+  /** Display label (default: derived from the field path) */
+  label?: string;
+  /** Severity for range violations (default: 'error'; missing/NaN values are always errors) */
+  severity?: ValidationSeverity;
+}
+
+/**
+ * Error thrown by calculators in strict mode
+ */
+export class ValidationError extends Error {
+  /** All issues found, including warnings */
+  readonly issues: ValidationIssue[];
+
+  constructor(issues: ValidationIssue[]) {
+    const errors = issues.filter(issue => issue.severity === 'error');
+    super(errors.map(issue => `${issue.field}: ${issue.message}`).join('; ') || 'Invalid inputs');
+    this.name = 'ValidationError';
+    this.issues = issues;
+  }
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Turn a field path into a display label
+ *
+ * 'portfolioAllocation.stocks' → 'Stocks', 'debts[2].minimumPayment' → 'Minimum payment'
+ */
+export function fieldLabel(field: string): string {
+  const last = field.split('.').pop()!.replace(/\[\d+\]$/, '');
+  const words = last.replace(/([a-z0-9])([A-Z])/g, '$1 $2').toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+/**
+ * Record an issue
+ */
+export function addIssue(
+  issues: ValidationIssue[],
+  field: string,
+  code: ValidationCode,
+  message: string,
+  severity: ValidationSeverity = 'error'
+): void {
+  issues.push({ field, code, message, severity });
+}
+
+/**
+ * Validate a numeric field
+ *
+ * @param issues - Issue list to append to
+ * @param field - Field path
+ * @param value - Value to check
+ * @param rule - Range and presence rules
+ * @returns True when the value is a usable finite number (even if out of range)
+ */
+export function checkNumber(
+  issues: ValidationIssue[],
+  field: string,
+  value: unknown,
+  rule: NumberRule = {}
+): boolean {
+  const label = rule.label ?? fieldLabel(field);
+  const severity = rule.severity ?? 'error';
+
+  if (value === undefined || value === null) {
+    if (rule.required ?? true) {
+      addIssue(issues, field, 'required', `${label} is required`);
+    }
+    return false;
+  }
+
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    addIssue(issues, field, 'not_finite', `${label} must be a valid number`);
+    return false;
+  }
+
+  if (rule.integer && !Number.isInteger(value)) {
+    addIssue(issues, field, 'not_integer', `${label} must be a whole number`, severity);
+  }
+
+  if (rule.min !== undefined) {
+    if (rule.exclusiveMin && value <= rule.min) {
+      addIssue(
+        issues,
+        field,
+        rule.min === 0 ? 'not_positive' : 'below_minimum',
+        `${label} must be greater than ${rule.min}`,
+        severity
+      );
+    } else if (!rule.exclusiveMin && value < rule.min) {
+      addIssue(
+        issues,
+        field,
+        rule.min === 0 ? 'negative' : 'below_minimum',
+        rule.min === 0 ? `${label} cannot be negative` : `${label} must be at least ${rule.min}`,
+        severity
+      );
+    }
+  }
+
+  if (rule.max !== undefined && value > rule.max) {
+    addIssue(issues, field, 'above_maximum', `${label} must be at most ${rule.max}`, severity);
+  }
+
+  return true;
+}
+
+/**
+ * Validate a rate entered as a decimal (0.07 = 7%)
+ *
+ * Values above `max` (default: 1) are reported with a hint that the field
+ * expects a decimal, which catches percentages typed into decimal fields.
+ *
+ * @returns True when the value is a usable finite number
+ */
+export function checkDecimalRate(
+  issues: ValidationIssue[],
+  field: string,
+  value: unknown,
+  rule: NumberRule = {}
+): boolean {
+  const { max = 1, ...rest } = rule;
+  const valid = checkNumber(issues, field, value, rest);
+
+  if (valid && (value as number) > max) {
+    addIssue(
+      issues,
+      field,
+      'above_maximum',
+      `${rule.label ?? fieldLabel(field)} must be a decimal rate (e.g. 0.07 for 7%)`,
+      rule.severity ?? 'error'
+    );
+  }
+
+  return valid;
+}
+
+/**
+ * Validate a date given as a Date or an ISO date string ('2026-03-01')
+ *
+ * @returns True when the value is a real calendar date
+ */
+export function checkDate(
+  issues: ValidationIssue[],
+  field: string,
+  value: unknown,
+  required: boolean = false
+): boolean {
+  if (value === undefined || value === null) {
+    if (required) {
+      addIssue(issues, field, 'required', `${fieldLabel(field)} is required`);
+    }
+    return false;
+  }
+
+  if (!(value instanceof Date || typeof value === 'string') || !parseCalendarDate(value)) {
+    addIssue(issues, field, 'invalid_date', `${fieldLabel(field)} must be a valid date (YYYY-MM-DD)`);
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Validate that a value is one of a fixed set of options
+ *
+ * @returns True when the value is allowed
+ */
+export function checkOneOf<T extends string | number>(
+  issues: ValidationIssue[],
+  field: string,
+  value: unknown,
+  options: readonly T[],
+  required: boolean = true
+): value is T {
+  if (value === undefined || value === null) {
+    if (required) {
+      addIssue(issues, field, 'required', `${fieldLabel(field)} is required`);
+    }
+    return false;
+  }
+
+  if (!options.includes(value as T)) {
+    addIssue(
+      issues,
+      field,
+      'invalid_option',
+      `${fieldLabel(field)} must be one of: ${options.join(', ')}`
+    );
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Record an issue when a condition does not hold
+ *
+ * @returns The condition
+ */
+export function checkCondition(
+  issues: ValidationIssue[],
+  condition: boolean,
+  field: string,
+  code: ValidationCode,
+  message: string,
+  severity: ValidationSeverity = 'error'
+): boolean {
+  if (!condition) {
+    addIssue(issues, field, code, message, severity);
+  }
+  return condition;
+}
+
+/**
+ * Whether any issue has severity 'error'
+ */
+export function hasValidationErrors(issues: ValidationIssue[]): boolean {
+  return issues.some(issue => issue.severity === 'error');
+}
+
+/**
+ * Apply the validation mode chosen by the caller
+ *
+ * @param issues - Issues found by a validator
+ * @param options - Validation options (strict mode throws on errors)
+ * @returns The issues, for attaching to the result
+ * @throws ValidationError in strict mode when any error-severity issue exists
+ */
+export function enforceValidation(
+  issues: ValidationIssue[],
+  options: ValidationOptions = {}
+): ValidationIssue[] {
+  if (options.strict && hasValidationErrors(issues)) {
+    throw new ValidationError(issues);
+  }
+  return issues;
+}
+
+/**
+ * Attach validation issues to a calculator result
+ *
+ * The `validationIssues` property is only added when issues were found,
+ * so results for valid inputs are unchanged.
+ */
+export function withValidationIssues<T extends object>(
+  result: T,
+  issues: ValidationIssue[]
+): T & { validationIssues?: ValidationIssue[] } {
+  return issues.length > 0 ? { ...result, validationIssues: issues } : result;
+}
@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { calculateDiscountPoints } from '../src/index.js';
+
+const rateSheet = [
+  { interestRate: 0.0675, points: 0 },
+  { interestRate: 0.065, points: 1 },
+];
+
+describe('calculateDiscountPoints without a baseline option', () => {
+  it('returns an empty comparison for an empty rate sheet', () => {
+    const result = calculateDiscountPoints({ loanAmount: 400000, rateSheet: [] });
+
+    expect(result).toMatchObject({ baseline: '', options: [], bestByHorizon: [] });
+    expect(result.validationIssues).toContainEqual(expect.objectContaining({ field: 'rateSheet', code: 'empty' }));
+  });
+
+  it.each([2, -1, 0.5])('returns an empty comparison for baselineIndex %d', baselineIndex => {
+    const result = calculateDiscountPoints({ loanAmount: 400000, rateSheet, baselineIndex });
+
+    expect(result).toMatchObject({ baseline: '', options: [], bestByHorizon: [] });
+    expect(result.validationIssues).toContainEqual(expect.objectContaining({ field: 'baselineIndex' }));
+  });
+
+  it('compares against the given baseline when it is in range', () => {
+    const result = calculateDiscountPoints({ loanAmount: 400000, rateSheet, baselineIndex: 1 });
+
+    expect(result.options.map(option => option.isBaseline)).toEqual([false, true]);
+    expect(result.validationIssues).toBeUndefined();
+  });
+});
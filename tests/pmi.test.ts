@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { calculateMortgage } from '../src/index.js';
+
+// $360,000 at 6.5% over 30 years: the scheduled balance first drops to
+// 80% of the $400,000 price ($320,000) with payment 95, and to 78%
+// ($312,000) with payment 109
+const mortgage = {
+  homePrice: 400000,
+  downPayment: 40000,
+  interestRate: 6.5,
+  loanTermYears: 30,
+  propertyTaxRate: 1.1,
+  homeInsurance: 1500,
+  hoaFees: 0,
+  today: '2026-01-15'
+};
+
+describe('PMI termination', () => {
+  it('charges PMI through the payment that reaches 80% and stops with the next one (borrower request)', () => {
+    const result = calculateMortgage({ ...mortgage, pmi: { cancellation: 'request' } });
+
+    expect(result.schedule[94].month).toBe(95);
+    expect(result.schedule[94].balance).toBeLessThanOrEqual(320000);
+    expect(result.schedule[93].balance).toBeGreaterThan(320000);
+    expect(result.schedule[94].pmi).toBe(225);
+    expect(result.schedule[95].pmi).toBe(0);
+    expect(result.pmi).toMatchObject({
+      paymentsWithPMI: 95,
+      totalPMI: 95 * 225,
+      removalMonth: 96,
+      removalDate: '2034-01-15',
+      removalReason: 'borrower-request'
+    });
+  });
+
+  it('charges PMI through the payment that reaches 78% on the schedule (automatic)', () => {
+    const result = calculateMortgage({ ...mortgage, pmi: { cancellation: 'automatic' } });
+
+    expect(result.schedule[108].pmi).toBe(225);
+    expect(result.schedule[109].pmi).toBe(0);
+    expect(result.pmi).toMatchObject({ paymentsWithPMI: 109, removalMonth: 110, removalReason: 'automatic' });
+  });
+
+  it('includes the last PMI payment in the total payment', () => {
+    const result = calculateMortgage({ ...mortgage, pmi: { cancellation: 'request' } });
+    const last = result.schedule[94];
+
+    expect(last.totalPayment).toBeCloseTo(last.payment + last.taxes + last.insurance + last.pmi + last.hoa, 1);
+  });
+});
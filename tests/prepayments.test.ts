@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { type Prepayment, ValidationError, calculateLoanAmortization, calculateMortgage } from '../src/index.js';
+
+const loan = { principal: 25000, interestRate: 6.9, termMonths: 60, today: '2026-01-15' };
+
+const mortgage = {
+  homePrice: 400000,
+  downPayment: 80000,
+  interestRate: 6.5,
+  loanTermYears: 30,
+  propertyTaxRate: 1.1,
+  homeInsurance: 1500,
+  hoaFees: 0,
+  today: '2026-01-15'
+};
+
+describe('prepayments that are not a list', () => {
+  const invalidPlans = ['lump-sum', { type: 'lump-sum', month: 12, amount: 5000 }, 42];
+
+  it.each(invalidPlans)('loan with prepayments %j: reports the issue and schedules without extra payments', plan => {
+    const result = calculateLoanAmortization({ ...loan, prepayments: plan as unknown as Prepayment[] });
+    const plain = calculateLoanAmortization(loan);
+
+    expect(result.validationIssues).toContainEqual(expect.objectContaining({ field: 'prepayments', code: 'invalid_option' }));
+    expect(result.schedule).toEqual(plain.schedule);
+    expect(result.prepayment).toBeUndefined();
+  });
+
+  it.each(invalidPlans)('mortgage with prepayments %j: reports the issue and schedules without extra payments', plan => {
+    const result = calculateMortgage({ ...mortgage, prepayments: plan as unknown as Prepayment[] });
+    const plain = calculateMortgage(mortgage);
+
+    expect(result.validationIssues).toContainEqual(expect.objectContaining({ field: 'prepayments', code: 'invalid_option' }));
+    expect(result.schedule).toEqual(plain.schedule);
+    expect(result.prepayment).toBeUndefined();
+  });
+
+  it('throws a validation error in strict mode', () => {
+    expect(() => calculateLoanAmortization({ ...loan, prepayments: 'lump-sum' as unknown as Prepayment[] }, { strict: true }))
+      .toThrow(ValidationError);
+  });
+});